@@ -12,18 +12,33 @@ import { CourtSettingsDialog } from './components/CourtSettingsDialog';
 import { EndAllGamesConfirmDialog } from './components/EndAllGamesConfirmDialog';
 import { QueuedPlayersPanel } from './components/QueuedPlayersPanel';
 import { RestingPlayersPanel } from './components/RestingPlayersPanel';
+import { GameHistoryPanel } from './components/GameHistoryPanel';
+import { ActivityPanel } from './components/ActivityPanel';
 import { ManualTeamDialog } from './components/ManualTeamDialog';
+import { GameSettingsDialog } from './components/GameSettingsDialog';
+import { MatchingSettingsDialog } from './components/MatchingSettingsDialog';
+import { MatchProposalDialog } from './components/MatchProposalDialog';
 import { DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
-import { RefreshCw, LogOut, KeyRound, Settings, RotateCcw } from 'lucide-react';
+import { RefreshCw, LogOut, KeyRound, Settings, RotateCcw, Gamepad2, SlidersHorizontal, Undo2, Redo2, Archive } from 'lucide-react';
 import addictonLogo from 'figma:asset/3326f21ff08f9b7816589961d903cd0071089100.png';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { RoleSelection } from './components/RoleSelection';
 import { PasswordChangeDialog } from './components/PasswordChangeDialog';
+import { BackupDialog } from './components/BackupDialog';
 import { LoadingModal } from './components/LoadingModal';
-import { projectId, publicAnonKey } from './utils/supabase/info';
-import type { PlayerState } from './types/index';
+import type { PlayerState, Team, GameResult, AutoSeatResult } from './types/index';
+import type { AutoMatchResult } from './utils/matching';
+import { getPlayerRatings } from './utils/rating';
+import { createLocalRealtimeSource, createSupabaseRealtimeSource, RealtimeStatus } from './utils/realtime';
+import { isHostedApi } from './utils/api/config';
+import { ConnectionStatusBadge } from './components/ConnectionStatusBadge';
+import { ConflictDialog } from './components/ConflictDialog';
+import { OutboxBadge } from './components/OutboxBadge';
+import { outbox } from './utils/api/outbox';
+import { ConflictError, describeApiError } from './utils/api/errors';
+import { auth } from './utils/api/auth';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -34,13 +49,23 @@ import {
 
 type UserRole = 'admin' | 'member' | null;
 
+// A server other than the hosted project has no Realtime; changes show up on the next sync
+const realtimeSource = isHostedApi ? createSupabaseRealtimeSource() : createLocalRealtimeSource();
+
 export default function App() {
   const [isSyncing, setIsSyncing] = useState(false);
   const [userRole, setUserRole] = useState<UserRole>(null);
   const [showPasswordChange, setShowPasswordChange] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
   const [showCourtSettings, setShowCourtSettings] = useState(false);
   const [showEndAllGamesDialog, setShowEndAllGamesDialog] = useState(false);
   const [showManualTeamDialog, setShowManualTeamDialog] = useState(false);
+  const [showGameSettings, setShowGameSettings] = useState(false);
+  const [showMatchingSettings, setShowMatchingSettings] = useState(false);
+  const [matchProposals, setMatchProposals] = useState<AutoMatchResult[]>([]);
+  const [showMatchProposals, setShowMatchProposals] = useState(false);
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>('connecting');
+  const realtimeStatusRef = useRef<RealtimeStatus>('connecting');
   const [loadingModal, setLoadingModal] = useState<{
     open: boolean;
     title: string;
@@ -63,16 +88,23 @@ export default function App() {
     deletePlayers,
     updatePlayerState,
     performAutoMatch,
+    previewAutoMatch,
+    commitMatchProposal,
     startGame,
     startAllQueuedGames,
     endGame,
+    returnTeamToQueue,
     endAllGames,
     toggleCourtPause,
     updateCourtTimer,
+    extendGame,
     updateCourtNames,
+    updateScoringModel,
+    updateOptimizerWeights,
     adjustGameCount,
     deleteTeam,
     updateTeam,
+    updateTeamPairing,
     createManualTeam,
     resetSession,
     addMember,
@@ -81,41 +113,68 @@ export default function App() {
     addMemberAsPlayer,
     addMembersAsPlayers,
     syncFromSupabase,
+    applyRemoteChange,
     resetMembers,
+    undo,
+    redo,
+    undoLabel,
+    redoLabel,
+    conflict,
+    dismissConflict,
+    outboxStatus,
   } = useGameState();
 
-  // Clear localStorage on app start to force Supabase-only operation
+  const playerRatings = useMemo(
+    () => getPlayerRatings(state.players, state.members),
+    [state.players, state.members]
+  );
+
+  // Conflicts are shown by the ConflictDialog; other rejected offline changes are undone by the resync
   useEffect(() => {
-    console.log('🗑️ Clearing all localStorage data...');
-    localStorage.clear();
-    console.log('✅ localStorage cleared - now using Supabase only');
+    return outbox.onRejection(({ error }) => {
+      if (error instanceof ConflictError) return;
+      toast.error('오프라인 중 변경 일부가 반영되지 않았습니다', {
+        description: '서버의 최신 상태로 다시 맞췄습니다.',
+      });
+    });
   }, []);
 
-  // Periodic sync every 2 minutes to keep data fresh
+  // Push-based sync: other devices' changes arrive as row changes and are merged into the state.
+  // After the channel comes back from a drop, one full sync catches up on what was missed.
   useEffect(() => {
-    // Only sync after role selection (when user is on the main app screen)
-    // No sync needed on RoleSelection screen
     if (!userRole) return;
 
-    // Sync every 2 minutes (120 seconds)
-    const SYNC_INTERVAL = 120000; // 2 minutes
-    
-    console.log(`⏰ Setting up periodic sync (every ${SYNC_INTERVAL / 1000} seconds)...`);
-    const intervalId = setInterval(async () => {
-      console.log('🔄 Periodic sync triggered...');
-      try {
-        await syncFromSupabase();
-        console.log('✅ Periodic sync completed');
-      } catch (error) {
-        console.error('⚠️ Periodic sync failed:', error);
+    let wasDisconnected = false;
+    console.log('📡 Subscribing to realtime changes...');
+    const unsubscribe = realtimeSource.subscribe(applyRemoteChange, (status) => {
+      setRealtimeStatus(status);
+      realtimeStatusRef.current = status;
+
+      if (status === 'disconnected') {
+        wasDisconnected = true;
+      } else if (status === 'connected' && wasDisconnected) {
+        wasDisconnected = false;
+        console.log('🔄 Realtime reconnected, catching up...');
+        syncFromSupabase().catch((error) => {
+          console.error('⚠️ Catch-up sync failed:', error);
+        });
       }
-    }, SYNC_INTERVAL);
+    });
 
     return () => {
-      console.log('🛑 Clearing periodic sync interval');
-      clearInterval(intervalId);
+      console.log('🛑 Unsubscribing from realtime changes');
+      unsubscribe();
     };
-  }, [userRole, syncFromSupabase]);
+  }, [userRole, applyRemoteChange, syncFromSupabase]);
+
+  // Back to role selection when the admin session runs out; mutations would be rejected from here on
+  useEffect(() => {
+    if (userRole !== 'admin') return;
+    return auth.onExpired(() => {
+      setUserRole(null);
+      toast.error('로그인이 만료되었습니다. 다시 로그인해주세요');
+    });
+  }, [userRole]);
 
   // Sync when page becomes visible again (user returns to tab)
   useEffect(() => {
@@ -123,7 +182,8 @@ export default function App() {
     if (!userRole) return;
 
     const handleVisibilityChange = async () => {
-      if (document.visibilityState === 'visible') {
+      // While the realtime channel is up the state is already current; offline there is nothing to fetch
+      if (document.visibilityState === 'visible' && realtimeStatusRef.current !== 'connected' && navigator.onLine) {
         console.log('👁️ Page became visible, syncing data...');
         
         // Show loading modal
@@ -161,7 +221,8 @@ export default function App() {
     };
   }, [userRole, syncFromSupabase]);
 
-  const handleAutoMatch = async () => {
+  // Returns how many teams an auto match could create, or null (after telling the admin why) if none
+  const checkAutoMatchCapacity = (): number | null => {
     const eligibleCount = state.players.filter(
       (p) => (p.state === 'waiting' || p.state === 'priority')
     ).length;
@@ -170,7 +231,7 @@ export default function App() {
       toast.error('매칭 실패', {
         description: `최소 ${state.session?.teamSize || 4}명의 대기 참가자가 필요합니다.`,
       });
-      return;
+      return null;
     }
 
     const totalCourts = state.session?.courtsCount || 4;
@@ -181,13 +242,40 @@ export default function App() {
       toast.error('매칭 불가', {
         description: '게임 대기중인 팀이 이미 코트 수만큼 있습니다. 먼저 게임을 시작해주세요.',
       });
-      return;
+      return null;
     }
 
-    const newTeamsCount = Math.min(
+    return Math.min(
       maxNewTeams,
       Math.floor(eligibleCount / (state.session?.teamSize || 4))
     );
+  };
+
+  const reportMatchResult = (createdTeams: Team[], unplacedPlayerIds: string[]) => {
+    if (createdTeams.length > 0) {
+      toast.success('팀 매칭 완료', {
+        description: `${createdTeams.length}개 팀이 생성되었습니다.`,
+      });
+    } else {
+      toast.error('매칭 실패', {
+        description: '현재 게임 방식에 맞는 팀을 만들 수 없습니다.',
+      });
+    }
+
+    // Report players who were passed over (game type or balance)
+    if (unplacedPlayerIds.length > 0) {
+      const unplacedNames = state.players
+        .filter((p) => unplacedPlayerIds.includes(p.id))
+        .map((p) => p.name);
+      toast.warning('배치되지 않은 참가자', {
+        description: `게임 방식 또는 밸런스 조건 때문에 ${unplacedNames.join(', ')}님을 이번 매칭에 배치하지 못했습니다.`,
+      });
+    }
+  };
+
+  const handleAutoMatch = async () => {
+    const newTeamsCount = checkAutoMatchCapacity();
+    if (newTeamsCount === null) return;
 
     // Show loading modal
     setLoadingModal({
@@ -198,13 +286,11 @@ export default function App() {
     });
 
     try {
-      await performAutoMatch();
+      const { teams: createdTeams, unplacedPlayerIds } = await performAutoMatch();
       
       // Close modal and show success toast immediately
       setLoadingModal(prev => ({ ...prev, open: false }));
-      toast.success('팀 매칭 완료', {
-        description: `${newTeamsCount}개 팀이 생성되었습니다.`,
-      });
+      reportMatchResult(createdTeams, unplacedPlayerIds);
 
     } catch (error) {
       console.error('Auto match failed:', error);
@@ -217,6 +303,36 @@ export default function App() {
     }
   };
 
+  // Dry run: show a few candidate matchings side by side without saving anything
+  const handleCompareMatches = () => {
+    if (checkAutoMatchCapacity() === null) return;
+
+    const proposals = previewAutoMatch();
+    if (proposals.length === 0) {
+      toast.error('매칭 실패', {
+        description: '현재 게임 방식에 맞는 팀을 만들 수 없습니다.',
+      });
+      return;
+    }
+
+    setMatchProposals(proposals);
+    setShowMatchProposals(true);
+  };
+
+  const handleCommitProposal = async (proposal: AutoMatchResult) => {
+    try {
+      const { teams: createdTeams, unplacedPlayerIds } = await commitMatchProposal(proposal);
+      setShowMatchProposals(false);
+      setMatchProposals([]);
+      reportMatchResult(createdTeams, unplacedPlayerIds);
+    } catch (error) {
+      console.error('Commit match proposal failed:', error);
+      toast.error('매칭 확정 실패', {
+        description: describeApiError(error, error instanceof Error ? error.message : '매칭 중 오류가 발생했습니다. 다시 시도해주세요.'),
+      });
+    }
+  };
+
   const handleStartGame = async (teamId: string, courtId?: string) => {
     // Pre-check for available courts
     const availableCourt = state.courts.find((c) => c.status === 'available');
@@ -316,7 +432,7 @@ export default function App() {
     }
   };
 
-  const handleEndGame = async (courtId: string) => {
+  const handleEndGame = async (courtId: string, result: GameResult | null = null) => {
     console.log('🎮 handleEndGame called for court:', courtId);
     
     // Show loading modal immediately
@@ -331,7 +447,7 @@ export default function App() {
       // Skip sync before ending game - rely on periodic sync (every 1 minute)
       // This reduces processing time by ~300-500ms
       console.log('📤 Calling endGame directly (no pre-sync needed)...');
-      await endGame(courtId);
+      const autoSeat = await endGame(courtId, result);
       console.log('✅ endGame completed');
       
       // Close modal and show success toast immediately
@@ -339,6 +455,9 @@ export default function App() {
       toast.success('게임 종료 완료', {
         description: '참가자들이 대기 상태로 전환되었습니다.',
       });
+      if (autoSeat) {
+        reportAutoSeat(autoSeat);
+      }
 
     } catch (error) {
       console.error('❌ End game failed:', error);
@@ -359,6 +478,84 @@ export default function App() {
     }
   };
 
+  const handleUndo = async () => {
+    if (!undoLabel) return;
+    try {
+      const label = await undo();
+      if (label) toast.info(`되돌렸습니다: ${label}`);
+    } catch (error) {
+      toast.error('되돌리기 중 오류가 발생했습니다. 새로고침 후 상태를 확인해주세요.');
+    }
+  };
+
+  const handleRedo = async () => {
+    if (!redoLabel) return;
+    try {
+      const label = await redo();
+      if (label) toast.info(`다시 실행했습니다: ${label}`);
+    } catch (error) {
+      toast.error('다시 실행 중 오류가 발생했습니다. 새로고침 후 상태를 확인해주세요.');
+    }
+  };
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo (not while typing in a field)
+  useEffect(() => {
+    if (userRole !== 'admin') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Tell the admin which queued team took the freed court, with an undo
+  const reportAutoSeat = ({ courtId, seatedTeamId, skippedTeamIds }: AutoSeatResult) => {
+    const courtName = state.courts.find((c) => c.id === courtId)?.name || '';
+    const skippedNote = skippedTeamIds.length > 0
+      ? ` (경기 중인 참가자가 있는 ${skippedTeamIds.length}팀은 건너뛰었습니다)`
+      : '';
+
+    if (!seatedTeamId) {
+      if (skippedTeamIds.length > 0) {
+        toast.info(`코트 ${courtName}에 바로 시작할 수 있는 대기 팀이 없습니다${skippedNote}`);
+      }
+      return;
+    }
+
+    const seatedTeam = state.teams.find((t) => t.id === seatedTeamId);
+    const names = seatedTeam
+      ? seatedTeam.playerIds.map((id) => state.players.find((p) => p.id === id)?.name || '알 수 없음').join(', ')
+      : '';
+    toast.success(`다음 팀이 코트 ${courtName}에서 경기를 시작했습니다`, {
+      description: `${names}${skippedNote}`,
+      duration: 8000,
+      action: {
+        label: '되돌리기',
+        onClick: async () => {
+          const undone = await returnTeamToQueue(seatedTeamId);
+          if (undone) {
+            toast.info('자동 배정을 취소하고 팀을 대기열로 되돌렸습니다');
+          } else {
+            toast.error('이미 종료된 경기는 되돌릴 수 없습니다');
+          }
+        },
+      },
+    });
+  };
+
   const handleEndAllGames = async () => {
     console.log('🎮 handleEndAllGames called');
     const activeCourts = state.courts.filter((c) => c.status === 'occupied');
@@ -492,7 +689,7 @@ export default function App() {
     } catch (error) {
       console.error('Update player state failed:', error);
       toast.error('상태 변경 실패', {
-        description: '상태 변경 중 오류가 발생했습니다. 다시 시도해주세요.',
+        description: describeApiError(error, '상태 변경 중 오류가 발생했습니다. 다시 시도해주세요.'),
       });
     }
   };
@@ -562,7 +759,7 @@ export default function App() {
     } catch (error) {
       console.error('Manual team creation failed:', error);
       toast.error('팀 생성 실패', {
-        description: error instanceof Error ? error.message : '팀 생성 중 오류가 발생했습니다.',
+        description: describeApiError(error, error instanceof Error ? error.message : '팀 생성 중 오류가 발생했습니다.'),
       });
       throw error;
     }
@@ -614,7 +811,7 @@ export default function App() {
         open: true,
         title: '삭제 실패',
         status: 'error',
-        errorMessage: '삭제 중 오류가 발생했습니다. 다시 시도해주세요.',
+        errorMessage: describeApiError(error, '삭제 중 오류가 발생했습니다. 다시 시도해주세요.'),
       });
     }
   };
@@ -804,9 +1001,13 @@ export default function App() {
             <div className="flex items-center justify-between gap-2 md:gap-3">
               <div className="flex items-center gap-2 md:gap-3">
                 <div>
-                  <h1 className="text-sm md:text-base lg:text-xl font-bold text-gray-900">
-                    {state.session?.name || '에딕턴 게임 매칭'}
-                  </h1>
+                  <div className="flex items-center gap-2">
+                    <h1 className="text-sm md:text-base lg:text-xl font-bold text-gray-900">
+                      {state.session?.name || '에딕턴 게임 매칭'}
+                    </h1>
+                    <ConnectionStatusBadge status={realtimeStatus} />
+                    <OutboxBadge status={outboxStatus} />
+                  </div>
                   <p className="hidden md:block text-[10px] md:text-xs text-muted-foreground mt-0.5">
                     실시간 팀 매칭 시스템
                   </p>
@@ -815,12 +1016,34 @@ export default function App() {
               <div className="flex items-center gap-1 md:gap-2">
                 {isAdmin && (
                   <>
+                    <button
+                      onClick={handleUndo}
+                      disabled={!undoLabel}
+                      className="p-1.5 md:p-2 border rounded-lg hover:bg-gray-50 active:scale-95 transition-all disabled:opacity-40 disabled:pointer-events-none"
+                      title={undoLabel ? `되돌리기: ${undoLabel} (Ctrl+Z)` : '되돌릴 작업이 없습니다'}
+                    >
+                      <Undo2 className="size-4 md:size-4.5" />
+                    </button>
+                    <button
+                      onClick={handleRedo}
+                      disabled={!redoLabel}
+                      className="p-1.5 md:p-2 border rounded-lg hover:bg-gray-50 active:scale-95 transition-all disabled:opacity-40 disabled:pointer-events-none"
+                      title={redoLabel ? `다시 실행: ${redoLabel} (Ctrl+Shift+Z)` : '다시 실행할 작업이 없습니다'}
+                    >
+                      <Redo2 className="size-4 md:size-4.5" />
+                    </button>
                     <button
                       onClick={handleAutoMatch}
                       className="hidden md:inline-flex px-2 md:px-4 py-1 md:py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 active:scale-95 font-medium text-[10px] md:text-xs transition-all items-center"
                     >
                       🔵 팀 매칭
                     </button>
+                    <button
+                      onClick={handleCompareMatches}
+                      className="hidden md:inline-flex px-2 md:px-4 py-1 md:py-1.5 border border-blue-200 text-blue-700 bg-white rounded-lg hover:bg-blue-50 active:scale-95 font-medium text-[10px] md:text-xs transition-all items-center"
+                    >
+                      후보 비교
+                    </button>
                   </>
                 )}
                 
@@ -838,6 +1061,18 @@ export default function App() {
                           <RotateCcw className="size-4 mr-2" />
                           초기화
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setShowGameSettings(true)}>
+                          <Gamepad2 className="size-4 mr-2" />
+                          게임 설정
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setShowMatchingSettings(true)}>
+                          <SlidersHorizontal className="size-4 mr-2" />
+                          매칭 설정
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setShowBackup(true)}>
+                          <Archive className="size-4 mr-2" />
+                          백업 / 복원
+                        </DropdownMenuItem>
                         <DropdownMenuItem onClick={() => setShowPasswordChange(true)}>
                           <KeyRound className="size-4 mr-2" />
                           비밀번호 변경
@@ -850,7 +1085,13 @@ export default function App() {
                       새로고침
                     </DropdownMenuItem>
                     <DropdownMenuSeparator />
-                    <DropdownMenuItem onClick={() => setUserRole(null)} className="text-red-600">
+                    <DropdownMenuItem
+                      onClick={() => {
+                        auth.logout();
+                        setUserRole(null);
+                      }}
+                      className="text-red-600"
+                    >
                       <LogOut className="size-4 mr-2" />
                       로그아웃
                     </DropdownMenuItem>
@@ -896,9 +1137,11 @@ export default function App() {
                   court={court}
                   team={state.teams.find((t) => t.id === court.currentTeamId)}
                   players={state.players}
-                  onEndGame={() => handleEndGame(court.id)}
+                  gameDurationMin={state.session?.gameDurationMin || 15}
+                  onEndGame={(result) => handleEndGame(court.id, result)}
                   onPauseToggle={() => toggleCourtPause(court.id)}
                   onTimerUpdate={(deltaMs) => updateCourtTimer(court.id, deltaMs)}
+                  onExtendGame={(minutes) => extendGame(court.id, minutes)}
                   readOnly={!isAdmin}
                 />
               ))}
@@ -913,11 +1156,13 @@ export default function App() {
               {/* Player Panel */}
               <div>
                 <Tabs defaultValue="waiting" className="w-full">
-                  <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-4' : 'grid-cols-3'} mb-3`}>
+                  <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-6' : 'grid-cols-4'} mb-3`}>
                     <TabsTrigger value="waiting" className="text-xs">대기중</TabsTrigger>
                     <TabsTrigger value="queued" className="text-xs">대기 팀</TabsTrigger>
                     <TabsTrigger value="resting" className="text-xs">휴식중</TabsTrigger>
+                    <TabsTrigger value="games" className="text-xs">경기 기록</TabsTrigger>
                     {isAdmin && <TabsTrigger value="management" className="text-xs">참가자 등록</TabsTrigger>}
+                    {isAdmin && <TabsTrigger value="activity" className="text-xs">활동</TabsTrigger>}
                   </TabsList>
 
                   <TabsContent value="waiting">
@@ -931,6 +1176,8 @@ export default function App() {
                       onAdjustGameCount={adjustGameCount}
                       onReturnToWaiting={handleReturnToWaiting}
                       onRemoveAllWaiting={handleRemoveAllWaiting}
+                      lastMatch={state.lastMatch}
+                      games={state.games}
                       readOnly={!isAdmin}
                     />
                   </TabsContent>
@@ -954,6 +1201,10 @@ export default function App() {
                     />
                   </TabsContent>
 
+                  <TabsContent value="games">
+                    <GameHistoryPanel games={state.games} />
+                  </TabsContent>
+
                   {isAdmin && (
                     <TabsContent value="management">
                       <MemberManagement
@@ -970,6 +1221,12 @@ export default function App() {
                       />
                     </TabsContent>
                   )}
+
+                  {isAdmin && (
+                    <TabsContent value="activity">
+                      <ActivityPanel players={state.players} courts={state.courts} games={state.games} />
+                    </TabsContent>
+                  )}
                 </Tabs>
               </div>
             </div>
@@ -993,6 +1250,8 @@ export default function App() {
                   onSwapPlayer={handleSwapPlayer}
                   onSwapBetweenTeams={handleSwapBetweenTeams}
                   onReturnToWaiting={handleReturnToWaiting}
+                  onUpdatePairing={updateTeamPairing}
+                  lastMatch={state.lastMatch}
                   onDeleteTeam={deleteTeam}
                   onCreateManualTeam={() => setShowManualTeamDialog(true)}
                   isAdmin={isAdmin}
@@ -1008,6 +1267,12 @@ export default function App() {
           onOpenChange={setShowPasswordChange}
         />
 
+        <BackupDialog
+          open={showBackup}
+          onOpenChange={setShowBackup}
+          onImported={syncFromSupabase}
+        />
+
         {/* Court Settings Dialog */}
         <CourtSettingsDialog
           open={showCourtSettings}
@@ -1019,6 +1284,39 @@ export default function App() {
           onUpdateCourtCount={handleCourtCountChange}
         />
 
+        {/* Game Settings Dialog */}
+        <GameSettingsDialog
+          open={showGameSettings}
+          onOpenChange={setShowGameSettings}
+          session={state.session}
+          onUpdateSession={updateSession}
+        />
+
+        {/* Matching Settings Dialog */}
+        <MatchingSettingsDialog
+          open={showMatchingSettings}
+          onOpenChange={setShowMatchingSettings}
+          scoringModel={state.scoringModel}
+          optimizerWeights={state.optimizerWeights}
+          players={state.players}
+          teamSize={state.session?.teamSize || 4}
+          courtsCount={state.session?.courtsCount || 4}
+          gameType={state.session?.gameType || 'free'}
+          ratingSource={state.session?.ratingSource || 'rank'}
+          ratings={playerRatings}
+          onSaveScoringModel={updateScoringModel}
+          onSaveOptimizerWeights={updateOptimizerWeights}
+        />
+
+        {/* Match Proposal Dialog */}
+        <MatchProposalDialog
+          open={showMatchProposals}
+          onOpenChange={setShowMatchProposals}
+          proposals={matchProposals}
+          players={state.players}
+          onCommit={handleCommitProposal}
+        />
+
         {/* End All Games Confirm Dialog */}
         <EndAllGamesConfirmDialog
           open={showEndAllGamesDialog}
@@ -1048,6 +1346,9 @@ export default function App() {
           onClose={loadingModal.onClose}
         />
 
+        {/* Another admin changed the same rows first */}
+        <ConflictDialog conflict={conflict} players={state.players} onClose={dismissConflict} />
+
         {/* Mobile Floating Action Buttons */}
         {isAdmin && (
           <div className="md:hidden fixed bottom-0 left-0 right-0 z-50 p-4 bg-gradient-to-t from-white via-white to-transparent pointer-events-none">
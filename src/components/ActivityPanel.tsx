@@ -0,0 +1,254 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { AuditLog, Court, GameRecord, Player, PlayerState } from '../types';
+import { auditApi } from '../utils/api/auditApi';
+import { getDeviceId } from '../utils/api/auth';
+import { describeApiError, isAbortError } from '../utils/api/errors';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+interface ActivityPanelProps {
+  players: Player[];
+  courts: Court[];
+  games: GameRecord[];
+}
+
+const ALL = 'all';
+
+const TYPE_LABELS: Record<string, string> = {
+  player_state_updated: '상태 변경',
+  player_added: '참가자 추가',
+  player_updated: '참가자 수정',
+  player_deleted: '참가자 삭제',
+  players_batch_deleted: '참가자 일괄 삭제',
+  game_count_adjusted: '경기 수 조정',
+  auto_match_performed: '자동 매칭',
+  manual_team_created: '수동 팀 생성',
+  team_updated: '팀 수정',
+  team_pairing_updated: '편 나누기 변경',
+  team_deleted: '팀 삭제',
+  team_returned_to_queue: '대기로 되돌림',
+  game_started: '게임 시작',
+  batch_games_started: '게임 일괄 시작',
+  team_auto_seated: '자동 배정',
+  game_extended: '게임 연장',
+  game_ended: '게임 종료',
+  batch_games_ended: '전체 게임 종료',
+  member_added: '회원 추가',
+  member_updated: '회원 수정',
+  member_deleted: '회원 삭제',
+  member_added_as_player: '회원 참가 등록',
+  batch_members_added_as_players: '회원 일괄 참가 등록',
+  members_reset: '회원 초기화',
+  session_created: '세션 생성',
+  session_updated: '세션 설정 변경',
+  session_reset: '세션 초기화',
+  courts_renamed: '코트 이름 변경',
+  backup_imported: '백업 복원',
+  scoring_model_updated: '점수 모델 변경',
+  optimizer_weights_updated: '매칭 가중치 변경',
+  undo: '실행 취소',
+  redo: '다시 실행',
+  write_conflict: '충돌',
+  outbox_rejected: '오프라인 변경 거부',
+};
+
+const STATE_LABELS: Record<PlayerState, string> = {
+  waiting: '대기',
+  priority: '우선대기',
+  resting: '휴식',
+  playing: '게임중',
+  queued: '게임대기',
+};
+
+function formatTime(date: Date) {
+  return date.toLocaleString('ko-KR', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+}
+
+// One line about what changed, for the payload fields worth showing
+function describePayload(log: AuditLog): string | null {
+  const payload = log.payload || {};
+  if (payload.error) return `실패: ${payload.error}`;
+  if (payload.reason) return `거부됨: ${payload.reason}`;
+  if (log.type === 'player_state_updated' && payload.newState) {
+    return `→ ${STATE_LABELS[payload.newState as PlayerState] || payload.newState}`;
+  }
+  if (log.type === 'game_count_adjusted') return `${payload.delta > 0 ? '+' : ''}${payload.delta} → ${payload.newGameCount}경기`;
+  if (log.type === 'game_extended') return `+${payload.minutes}분`;
+  if (payload.label) return payload.label;
+  if (payload.action) return payload.action;
+  if (typeof payload.count === 'number') return `${payload.count}건`;
+  if (payload.name) return payload.name;
+  return null;
+}
+
+export function ActivityPanel({ players, courts, games }: ActivityPanelProps) {
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [playerFilter, setPlayerFilter] = useState<string>(ALL);
+  const [courtFilter, setCourtFilter] = useState<string>(ALL);
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const deviceId = useMemo(() => getDeviceId(), []);
+  const requestRef = useRef<AbortController | null>(null);
+
+  // Players of tonight, including the ones that already left (from the game records)
+  const playerOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    games.forEach((game) => {
+      game.playerIds.forEach((id, idx) => names.set(id, game.playerNames[idx] || '알 수 없음'));
+    });
+    players.forEach((player) => names.set(player.id, player.name));
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [players, games]);
+
+  const courtName = (courtId: string | null | undefined) =>
+    courts.find((court) => court.id === courtId)?.name || courtId;
+
+  const formatActor = (actor: string | undefined) => {
+    if (!actor) return '알 수 없음';
+    const [role, device] = actor.split(':');
+    const roleLabel = role === 'admin' ? '운영진' : role;
+    return device === deviceId ? `${roleLabel} · 이 기기` : `${roleLabel} · 기기 ${device}`;
+  };
+
+  const load = useCallback(async (before?: Date) => {
+    // A page for other filters (or a refresh) replaces the one still loading
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    setIsLoading(true);
+    setError('');
+    try {
+      // Events still waiting to be sent should show up too
+      await auditApi.flush();
+      const page = await auditApi.list({
+        type: typeFilter === ALL ? undefined : typeFilter,
+        playerId: playerFilter === ALL ? undefined : playerFilter,
+        courtId: courtFilter === ALL ? undefined : courtFilter,
+        before,
+      }, controller.signal);
+      setLogs((prev) => (before ? [...prev, ...page.logs] : page.logs));
+      setHasMore(page.hasMore);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(describeApiError(err, '활동 기록을 불러오지 못했습니다'));
+    } finally {
+      if (requestRef.current === controller) setIsLoading(false);
+    }
+  }, [typeFilter, playerFilter, courtFilter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2.5 md:mb-3">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold text-xs md:text-sm text-gray-700">활동 기록</h3>
+          <Badge variant="secondary" className="text-[10px] md:text-xs px-2 py-0.5 shadow-sm bg-slate-100 text-slate-700">
+            {logs.length}{hasMore ? '+' : ''}건
+          </Badge>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => load()} disabled={isLoading}>
+          <RefreshCw className={`size-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-2.5">
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-full h-8 text-xs">
+            <SelectValue placeholder="종류" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>전체 종류</SelectItem>
+            {Object.entries(TYPE_LABELS).map(([type, label]) => (
+              <SelectItem key={type} value={type}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={playerFilter} onValueChange={setPlayerFilter}>
+          <SelectTrigger className="w-full h-8 text-xs">
+            <SelectValue placeholder="참가자" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>전체 참가자</SelectItem>
+            {playerOptions.map(([id, name]) => (
+              <SelectItem key={id} value={id}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={courtFilter} onValueChange={setCourtFilter}>
+          <SelectTrigger className="w-full h-8 text-xs">
+            <SelectValue placeholder="코트" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>전체 코트</SelectItem>
+            {courts.map((court) => (
+              <SelectItem key={court.id} value={court.id}>코트 {court.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1.5 md:space-y-2 min-h-[200px] max-h-[60vh] overflow-y-auto bg-gradient-to-br from-slate-50/50 to-slate-50/10 rounded-xl border-2 border-dashed border-slate-200 p-2.5 md:p-3">
+        {error && <p className="text-xs text-red-600 text-center py-2">{error}</p>}
+        {!error && logs.length === 0 && !isLoading ? (
+          <div className="flex flex-col items-center justify-center py-12 text-gray-400">
+            <p className="text-xs md:text-sm mb-1">📋 기록된 활동이 없습니다</p>
+            <p className="text-[10px] md:text-xs text-gray-300">운영진이 변경한 내용이 여기에 남습니다</p>
+          </div>
+        ) : (
+          logs.map((log) => {
+            const detail = describePayload(log);
+            return (
+              <div key={log.id} className="p-2.5 rounded-lg border bg-white">
+                <div className="flex items-center justify-between mb-0.5">
+                  <div className="flex items-center gap-1.5">
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4">
+                      {TYPE_LABELS[log.type] || log.type}
+                    </Badge>
+                    {log.courtId && (
+                      <span className="text-[10px] text-gray-500">코트 {courtName(log.courtId)}</span>
+                    )}
+                  </div>
+                  <span className="text-[10px] md:text-xs text-gray-500">{formatTime(log.timestamp)}</span>
+                </div>
+                {log.playerNames && log.playerNames.length > 0 && (
+                  <p className="text-xs md:text-sm text-gray-900">{log.playerNames.join(' · ')}</p>
+                )}
+                <p className="text-[10px] md:text-xs text-muted-foreground">
+                  {formatActor(log.actor)}
+                  {detail && ` · ${detail}`}
+                </p>
+              </div>
+            );
+          })
+        )}
+        {hasMore && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full h-8 text-xs"
+            onClick={() => load(logs[logs.length - 1]?.timestamp)}
+            disabled={isLoading}
+          >
+            더 보기
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Archive, Download, Upload } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { backupApi, BackupImportResult, BackupSection, ImportMode } from '../utils/api/backupApi';
+import { ApiError, describeApiError } from '../utils/api/errors';
+
+interface BackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void; // Reload the state after an import
+}
+
+const MODE_OPTIONS: { value: ImportMode; label: string; description: string }[] = [
+  { value: 'merge', label: '합치기', description: '백업에 있는 항목을 추가하거나 덮어쓰고, 백업에 없는 항목은 그대로 둡니다' },
+  { value: 'replace', label: '교체하기', description: '현재 데이터를 백업과 똑같이 만듭니다. 백업에 없는 항목은 삭제됩니다' },
+];
+
+const SECTION_LABELS: Record<BackupSection, string> = {
+  members: '회원',
+  players: '참가자',
+  teams: '팀',
+  games: '경기 기록',
+  rating_history: '레이팅 기록',
+  settings: '설정',
+};
+
+const IMPORT_ERRORS: Record<string, string> = {
+  invalid_backup: '백업 파일 형식이 올바르지 않습니다',
+  conflict: '가져오는 동안 데이터가 바뀌었습니다. 미리보기를 다시 확인해주세요',
+};
+
+function importErrorMessage(error: unknown, fallback: string): string {
+  const reason = error instanceof ApiError ? error.reason : null;
+  return (reason && IMPORT_ERRORS[reason]) || describeApiError(error, fallback);
+}
+
+export function BackupDialog({ open, onOpenChange, onImported }: BackupDialogProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [archive, setArchive] = useState<unknown>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [preview, setPreview] = useState<BackupImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const resetImport = () => {
+    setFileName('');
+    setArchive(null);
+    setPreview(null);
+    setError('');
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      resetImport();
+      setMode('merge');
+    }
+    onOpenChange(next);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const data = await backupApi.exportArchive();
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `addicton-backup-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('백업 파일을 내려받았습니다');
+    } catch (err) {
+      console.error('Backup export error:', err);
+      toast.error('백업을 만들지 못했습니다', { description: describeApiError(err, '다시 시도해주세요.') });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const runPreview = async (data: unknown, importMode: ImportMode) => {
+    setIsWorking(true);
+    setError('');
+    setPreview(null);
+    try {
+      setPreview(await backupApi.importArchive(data, importMode, true));
+    } catch (err) {
+      console.error('Backup preview error:', err);
+      setError(importErrorMessage(err, '미리보기를 만들지 못했습니다'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    resetImport();
+    setFileName(file.name);
+    try {
+      const data = JSON.parse(await file.text());
+      setArchive(data);
+      await runPreview(data, mode);
+    } catch (err) {
+      console.error('Backup file error:', err);
+      setError('JSON 파일을 읽을 수 없습니다');
+    }
+  };
+
+  const handleModeChange = (value: string) => {
+    const nextMode = value as ImportMode;
+    setMode(nextMode);
+    if (archive) runPreview(archive, nextMode);
+  };
+
+  const handleImport = async () => {
+    if (!archive) return;
+    setIsWorking(true);
+    setError('');
+    try {
+      await backupApi.importArchive(archive, mode, false);
+      toast.success('백업을 가져왔습니다');
+      onImported();
+      handleOpenChange(false);
+    } catch (err) {
+      console.error('Backup import error:', err);
+      setError(importErrorMessage(err, '백업을 가져오지 못했습니다'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const sections = preview ? (Object.keys(SECTION_LABELS) as BackupSection[]) : [];
+  const hasChanges = sections.some((section) => {
+    const diff = preview!.diff[section];
+    return diff.added + diff.updated + diff.removed > 0;
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Archive className="size-5 text-blue-600" />
+            백업 / 복원
+          </DialogTitle>
+          <DialogDescription>
+            회원, 참가자, 팀, 경기 기록과 설정을 파일로 저장하거나 되돌립니다
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3 py-2">
+          <Label className="text-sm font-semibold">백업</Label>
+          <Button variant="outline" className="w-full" onClick={handleExport} disabled={isExporting}>
+            <Download className="size-4 mr-2" />
+            {isExporting ? '백업 만드는 중...' : '백업 파일 내려받기'}
+          </Button>
+
+          <Label className="text-sm font-semibold pt-2 block">복원</Label>
+          <label className="flex items-center justify-center gap-2 rounded-lg border border-dashed p-3 cursor-pointer hover:bg-gray-50 text-sm text-gray-700">
+            <Upload className="size-4" />
+            {fileName || '백업 파일 선택 (.json)'}
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+          </label>
+
+          <RadioGroup value={mode} onValueChange={handleModeChange}>
+            {MODE_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                htmlFor={`import-mode-${option.value}`}
+                className={`flex items-start gap-3 rounded-lg border p-3 cursor-pointer transition-colors ${
+                  mode === option.value ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <RadioGroupItem id={`import-mode-${option.value}`} value={option.value} className="mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                  <p className="text-xs text-gray-500 mt-0.5">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </RadioGroup>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {isWorking && !preview && <p className="text-xs text-gray-500">미리보기를 만드는 중...</p>}
+
+          {preview && (
+            <div className="rounded-lg border p-3 space-y-2">
+              <p className="text-sm font-medium text-gray-900">가져오면 바뀌는 내용</p>
+              {preview.upgradedFrom !== null && (
+                <p className="text-xs text-amber-700">이전 형식(버전 {preview.upgradedFrom})의 백업을 현재 형식으로 변환했습니다</p>
+              )}
+              {sections.map((section) => {
+                const diff = preview.diff[section];
+                const examples = [...diff.examples.added, ...diff.examples.updated, ...diff.examples.removed];
+                return (
+                  <div key={section} className="text-xs">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-700">{SECTION_LABELS[section]}</span>
+                      <span className="text-gray-500">
+                        <span className="text-emerald-700">+{diff.added}</span>
+                        {' · '}
+                        <span className="text-blue-700">~{diff.updated}</span>
+                        {' · '}
+                        <span className="text-red-700">-{diff.removed}</span>
+                        {' · '}같음 {diff.unchanged}
+                        {diff.skipped > 0 && ` · 제외 ${diff.skipped}`}
+                      </span>
+                    </div>
+                    {examples.length > 0 && <p className="text-[11px] text-gray-400 truncate">{examples.join(', ')}</p>}
+                  </div>
+                );
+              })}
+              {!hasChanges && <p className="text-xs text-gray-500">현재 데이터와 같습니다</p>}
+              {mode === 'replace' && hasChanges && (
+                <p className="text-xs text-red-600">교체하기는 되돌릴 수 없습니다. 먼저 현재 데이터를 백업해두세요.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2 border-t">
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            닫기
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!preview || !hasChanges || isWorking}
+            className={mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : undefined}
+          >
+            {isWorking && preview ? '가져오는 중...' : '가져오기'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
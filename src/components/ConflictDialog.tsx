@@ -0,0 +1,115 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { GitCompareArrows } from 'lucide-react';
+import type { Player, PlayerState } from '../types';
+import type { ConflictNotice } from '../utils/conflicts';
+
+interface ConflictDialogProps {
+  conflict: ConflictNotice | null;
+  players: Player[];
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: '이름',
+  state: '상태',
+  gender: '성별',
+  rank: '급수',
+  gameCount: '경기 수',
+  playerIds: '팀원',
+  pairing: '편 나누기',
+  assignedCourtId: '코트',
+  startedAt: '시작 시각',
+  extensionMin: '연장(분)',
+  rating: '레이팅',
+  ratingGames: '레이팅 경기 수',
+};
+
+const STATE_LABELS: Record<PlayerState, string> = {
+  waiting: '대기',
+  priority: '우선대기',
+  resting: '휴식',
+  playing: '게임중',
+  queued: '게임대기',
+};
+
+const TABLE_LABELS: Record<ConflictNotice['table'], string> = {
+  players: '참가자',
+  teams: '팀',
+  members: '회원',
+};
+
+export function ConflictDialog({ conflict, players, onClose }: ConflictDialogProps) {
+  const playerName = (id: string) => players.find((p) => p.id === id)?.name || '알 수 없음';
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '없음';
+    if (field === 'state' && typeof value === 'string') return STATE_LABELS[value as PlayerState] || value;
+    if (field === 'playerIds' && Array.isArray(value)) return value.map(playerName).join(', ');
+    if (field === 'pairing' && typeof value === 'object') {
+      const pairing = value as { sideA: string[]; sideB: string[] };
+      return `${pairing.sideA.map(playerName).join('·')} vs ${pairing.sideB.map(playerName).join('·')}`;
+    }
+    if (value instanceof Date) return value.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' });
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  return (
+    <Dialog open={conflict !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompareArrows className="size-5 text-amber-600" />
+            다른 기기에서 변경됨
+          </DialogTitle>
+          <DialogDescription>
+            {conflict && (
+              <>
+                <span className="font-semibold">{conflict.action}</span>을(를) 저장하기 전에 다른 관리자가 같은{' '}
+                {TABLE_LABELS[conflict.table]}을(를) 바꿨습니다. 최신 상태를 불러왔으니 확인 후 다시 시도해주세요.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2 max-h-[50vh] overflow-y-auto">
+          {conflict?.changes.map((change) => (
+            <div key={change.id} className="border rounded-lg p-3 bg-amber-50 border-amber-200">
+              <p className="text-sm font-medium text-gray-900">{change.name}</p>
+              {change.deleted ? (
+                <p className="text-xs text-red-700 mt-1">삭제되었습니다</p>
+              ) : change.fields.length === 0 ? (
+                <p className="text-xs text-muted-foreground mt-1">화면에 보이는 값은 같습니다</p>
+              ) : (
+                <ul className="mt-1 space-y-0.5">
+                  {change.fields.map((field) => (
+                    <li key={field.field} className="text-xs text-gray-700">
+                      <span className="text-muted-foreground">{FIELD_LABELS[field.field] || field.field}: </span>
+                      <span className="line-through text-gray-400">{formatValue(field.field, field.mine)}</span>
+                      {' → '}
+                      <span className="font-medium text-amber-800">{formatValue(field.field, field.theirs)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" onClick={onClose}>
+            확인
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,40 @@
+import type { RealtimeStatus } from '../utils/realtime';
+
+interface ConnectionStatusBadgeProps {
+  status: RealtimeStatus;
+}
+
+const STATUS_STYLES: Record<RealtimeStatus, { dot: string; text: string; label: string; title: string }> = {
+  connected: {
+    dot: 'bg-emerald-500',
+    text: 'text-emerald-700',
+    label: '실시간',
+    title: '다른 기기의 변경 사항이 바로 반영됩니다',
+  },
+  connecting: {
+    dot: 'bg-amber-500 animate-pulse',
+    text: 'text-amber-700',
+    label: '연결 중',
+    title: '실시간 동기화에 연결하고 있습니다',
+  },
+  disconnected: {
+    dot: 'bg-red-500',
+    text: 'text-red-700',
+    label: '연결 끊김',
+    title: '실시간 동기화가 끊겼습니다. 다시 연결되면 최신 상태를 가져옵니다',
+  },
+};
+
+export function ConnectionStatusBadge({ status }: ConnectionStatusBadgeProps) {
+  const style = STATUS_STYLES[status];
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-[10px] md:text-xs font-medium ${style.text}`}
+      title={style.title}
+    >
+      <span className={`size-1.5 md:size-2 rounded-full ${style.dot}`}></span>
+      <span className="hidden sm:inline">{style.label}</span>
+    </span>
+  );
+}
@@ -1,18 +1,22 @@
-import { useEffect, useState } from 'react';
-import { Court, Team, Player } from '../types/index';
+import { useEffect, useRef, useState } from 'react';
+import { Court, Team, Player, GameResult } from '../types/index';
 import { Card, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
-import { Clock, StopCircle } from 'lucide-react';
+import { AlarmClock, Clock, StopCircle, TimerReset } from 'lucide-react';
 import { EndGameConfirmDialog } from './EndGameConfirmDialog';
+import { getPairedSides } from '../utils/matching';
+import { EXTENSION_STEP_MIN, GameTimerPhase, getGameTimer, playAlertBeep } from '../utils/gameTimer';
 
 interface CourtCardProps {
   court: Court;
   team: Team | null;
   players: Player[];
+  gameDurationMin: number;
   onTogglePause: () => void;
-  onEndGame: () => void;
+  onEndGame: (result: GameResult | null) => void;
   onUpdateTimer: (deltaMs: number) => void;
+  onExtendGame: (minutes: number) => void;
   readOnly?: boolean;
 }
 
@@ -23,17 +27,38 @@ function formatTime(ms: number): string {
   return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 }
 
+const PHASE_STYLES: Record<GameTimerPhase, { card: string; dot: string; badge: string }> = {
+  normal: {
+    card: 'border-emerald-500 from-emerald-50',
+    dot: 'bg-emerald-500',
+    badge: 'bg-white border-emerald-200',
+  },
+  warning: {
+    card: 'border-amber-500 from-amber-50',
+    dot: 'bg-amber-500',
+    badge: 'bg-amber-100 border-amber-300 text-amber-800',
+  },
+  overtime: {
+    card: 'border-red-500 from-red-50',
+    dot: 'bg-red-500',
+    badge: 'bg-red-600 border-red-600 text-white',
+  },
+};
+
 export function CourtCard({
   court,
   team,
   players,
+  gameDurationMin,
   onTogglePause,
   onEndGame,
   onUpdateTimer,
+  onExtendGame,
   readOnly,
 }: CourtCardProps) {
   const [currentTime, setCurrentTime] = useState(Date.now());
   const [showEndGameDialog, setShowEndGameDialog] = useState(false);
+  const previousPhaseRef = useRef<GameTimerPhase | null>(null);
 
   // Update current time every second for accurate timer display
   useEffect(() => {
@@ -45,13 +70,46 @@ export function CourtCard({
     }
   }, [court.status, court.isPaused, team?.startedAt]);
 
-  // Calculate elapsed time based on startedAt (more accurate than cumulative timerMs)
-  const getElapsedTime = (): number => {
-    if (!team?.startedAt) return 0;
-    return currentTime - new Date(team.startedAt).getTime();
-  };
+  // Remaining time is based on startedAt (more accurate than cumulative timerMs)
+  const timer = team ? getGameTimer(team, gameDurationMin, currentTime) : null;
+  const phase = timer?.phase || 'normal';
+
+  // Beep once when a game crosses into overtime, not when a court is already over time on load
+  useEffect(() => {
+    const previousPhase = previousPhaseRef.current;
+    previousPhaseRef.current = court.status === 'occupied' ? phase : null;
+    if (phase === 'overtime' && previousPhase !== null && previousPhase !== 'overtime' && !readOnly) {
+      playAlertBeep();
+    }
+  }, [phase, court.status, readOnly]);
 
   const teamPlayers = team ? players.filter((p) => team.playerIds.includes(p.id)) : [];
+  const pairedSides = team ? getPairedSides(team, players) : null;
+
+  const renderPlayerCell = (player: Player) => (
+    <div
+      key={player.id}
+      className="bg-white rounded-md md:rounded-lg p-1 md:p-2 border border-emerald-200 flex flex-col items-center justify-center shadow-sm hover:shadow-md transition-shadow h-fit"
+    >
+      <span className="text-xs md:text-sm font-medium text-gray-900 truncate px-0.5 max-w-full">{player.name}</span>
+      <div className="flex items-center gap-0.5 md:gap-1 mt-0.5 md:mt-1">
+        {player.gender && (
+          <Badge variant="outline" className="text-[9px] md:text-xs px-1 md:px-1.5 py-0 h-4 md:h-5">
+            {player.gender}
+          </Badge>
+        )}
+        {player.rank && (
+          <Badge variant="outline" className="text-[9px] md:text-xs px-1 md:px-1.5 py-0 h-4 md:h-5 bg-amber-50 border-amber-300 text-amber-700">
+            {player.rank}
+          </Badge>
+        )}
+        {/* Game Count Badge */}
+        <Badge variant="outline" className="text-[9px] md:text-xs px-1 md:px-1.5 py-0 h-4 md:h-5 bg-blue-50 border-blue-300 text-blue-700">
+          {player.gameCount}회
+        </Badge>
+      </div>
+    </div>
+  );
 
   if (court.status === 'available') {
     return (
@@ -66,68 +124,106 @@ export function CourtCard({
 
   return (
     <>
-      <Card className="overflow-hidden border-2 border-emerald-500 bg-gradient-to-br from-emerald-50 to-white shadow-md hover:shadow-xl transition-all">
+      <Card className={`overflow-hidden border-2 ${PHASE_STYLES[phase].card} bg-gradient-to-br to-white shadow-md hover:shadow-xl transition-all`}>
         <CardContent className="p-2.5 md:p-4 flex flex-col">
           {/* Court header */}
           <div className="flex items-center justify-between mb-2 flex-shrink-0">
             <div className="flex items-center gap-1.5 md:gap-2">
-              <div className="size-1.5 md:size-2 rounded-full bg-emerald-500 animate-pulse"></div>
+              <div className={`size-1.5 md:size-2 rounded-full ${PHASE_STYLES[phase].dot} animate-pulse`}></div>
               <span className="font-semibold text-emerald-900 text-xs md:text-sm">{court.name}</span>
             </div>
-            <Badge variant="secondary" className="font-mono text-[10px] md:text-xs px-1.5 md:px-2.5 py-0.5 md:py-1 bg-white border border-emerald-200 shadow-sm">
-              <Clock className="size-2.5 md:size-3 mr-0.5 md:mr-1" />
-              {formatTime(getElapsedTime())}
+            <Badge
+              variant="secondary"
+              className={`font-mono text-[10px] md:text-xs px-1.5 md:px-2.5 py-0.5 md:py-1 border shadow-sm ${PHASE_STYLES[phase].badge}`}
+              title={timer ? `경과 ${formatTime(timer.elapsedMs)} / 제한 ${formatTime(timer.limitMs)}` : undefined}
+            >
+              {phase === 'overtime' ? (
+                <AlarmClock className="size-2.5 md:size-3 mr-0.5 md:mr-1" />
+              ) : (
+                <Clock className="size-2.5 md:size-3 mr-0.5 md:mr-1" />
+              )}
+              {timer && (phase === 'overtime' ? `+${formatTime(-timer.remainingMs)}` : formatTime(timer.remainingMs))}
             </Badge>
           </div>
 
-          {/* Players grid */}
-          <div className="grid grid-cols-2 gap-1 md:gap-1.5 mb-2">
-            {teamPlayers.map((player, idx) => (
-              <div
-                key={player.id}
-                className="bg-white rounded-md md:rounded-lg p-1 md:p-2 border border-emerald-200 flex flex-col items-center justify-center shadow-sm hover:shadow-md transition-shadow h-fit"
-              >
-                <span className="text-xs md:text-sm font-medium text-gray-900 truncate px-0.5 max-w-full">{player.name}</span>
-                <div className="flex items-center gap-0.5 md:gap-1 mt-0.5 md:mt-1">
-                  {player.gender && (
-                    <Badge variant="outline" className="text-[9px] md:text-xs px-1 md:px-1.5 py-0 h-4 md:h-5">
-                      {player.gender}
-                    </Badge>
+          {/* Overtime prompt */}
+          {phase === 'overtime' && (
+            <div className="flex items-center justify-between gap-2 mb-2 px-2 py-1.5 rounded-md bg-red-50 border border-red-200">
+              <span className="text-[10px] md:text-xs font-medium text-red-700">경기 시간이 지났습니다</span>
+              {!readOnly && (
+                <button
+                  className="text-[10px] md:text-xs font-semibold text-red-700 underline underline-offset-2 touch-manipulation"
+                  onClick={() => setShowEndGameDialog(true)}
+                >
+                  지금 종료
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Players grid - side A and side B rows when the team has a pairing */}
+          {pairedSides ? (
+            <div className="space-y-1 md:space-y-1.5 mb-2">
+              {pairedSides.map((side, sideIdx) => (
+                <div key={sideIdx}>
+                  {sideIdx === 1 && (
+                    <div className="flex items-center gap-1.5 mb-1 md:mb-1.5 text-[9px] md:text-[10px] font-bold text-emerald-700">
+                      <div className="flex-1 h-px bg-emerald-200" />
+                      VS
+                      <div className="flex-1 h-px bg-emerald-200" />
+                    </div>
                   )}
-                  {player.rank && (
-                    <Badge variant="outline" className="text-[9px] md:text-xs px-1 md:px-1.5 py-0 h-4 md:h-5 bg-amber-50 border-amber-300 text-amber-700">
-                      {player.rank}
+                  <div className="flex items-center gap-1 md:gap-1.5">
+                    <Badge className={`${sideIdx === 0 ? 'bg-blue-600' : 'bg-rose-600'} text-white text-[9px] md:text-xs px-1 md:px-1.5 py-0 h-4 md:h-5 flex-shrink-0`}>
+                      {sideIdx === 0 ? 'A' : 'B'}
                     </Badge>
-                  )}
-                  {/* Game Count Badge */}
-                  <Badge variant="outline" className="text-[9px] md:text-xs px-1 md:px-1.5 py-0 h-4 md:h-5 bg-blue-50 border-blue-300 text-blue-700">
-                    {player.gameCount}회
-                  </Badge>
+                    <div className="grid grid-cols-2 gap-1 md:gap-1.5 flex-1 min-w-0">
+                      {side.map((player) => renderPlayerCell(player))}
+                    </div>
+                  </div>
                 </div>
-              </div>
-            ))}
-            {/* Fill empty slots */}
-            {Array.from({ length: 4 - teamPlayers.length }).map((_, idx) => (
-              <div
-                key={`empty-${idx}`}
-                className="bg-gray-50 rounded-md md:rounded-lg p-1 md:p-1.5 border border-dashed border-gray-300 flex items-center justify-center h-fit"
-              >
-                <span className="text-[10px] md:text-xs text-gray-400">빈 자리</span>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-1 md:gap-1.5 mb-2">
+              {teamPlayers.map((player) => renderPlayerCell(player))}
+              {/* Fill empty slots */}
+              {Array.from({ length: 4 - teamPlayers.length }).map((_, idx) => (
+                <div
+                  key={`empty-${idx}`}
+                  className="bg-gray-50 rounded-md md:rounded-lg p-1 md:p-1.5 border border-dashed border-gray-300 flex items-center justify-center h-fit"
+                >
+                  <span className="text-[10px] md:text-xs text-gray-400">빈 자리</span>
+                </div>
+              ))}
+            </div>
+          )}
 
           {/* Actions */}
-          <Button
-            variant="destructive"
-            size="sm"
-            className="w-full h-7 md:h-9 font-medium text-[10px] md:text-xs active:scale-95 transition-transform touch-manipulation shadow-sm hover:shadow-md flex-shrink-0"
-            onClick={() => setShowEndGameDialog(true)}
-            disabled={readOnly}
-          >
-            <StopCircle className="size-3 md:size-3.5 mr-1 md:mr-1.5" />
-            경기 종료
-          </Button>
+          <div className="flex gap-1 md:gap-1.5 flex-shrink-0">
+            <Button
+              variant="destructive"
+              size="sm"
+              className="flex-1 h-7 md:h-9 font-medium text-[10px] md:text-xs active:scale-95 transition-transform touch-manipulation shadow-sm hover:shadow-md"
+              onClick={() => setShowEndGameDialog(true)}
+              disabled={readOnly}
+            >
+              <StopCircle className="size-3 md:size-3.5 mr-1 md:mr-1.5" />
+              경기 종료
+            </Button>
+            {!readOnly && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 md:h-9 px-2 md:px-3 font-medium text-[10px] md:text-xs active:scale-95 transition-transform touch-manipulation"
+                onClick={() => onExtendGame(EXTENSION_STEP_MIN)}
+                title="이 경기만 시간 연장"
+              >
+                <TimerReset className="size-3 md:size-3.5 mr-1" />
+                +{EXTENSION_STEP_MIN}분
+              </Button>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -1,4 +1,5 @@
-import { Player, Team } from '../types';
+import { useState, useEffect } from 'react';
+import { GameResult, GameSide, Player, SetScore, Team } from '../types';
 import {
   Dialog,
   DialogContent,
@@ -9,7 +10,12 @@ import {
 } from './ui/dialog';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Users, Award } from 'lucide-react';
+import { Input } from './ui/input';
+import { Users, Award, Trophy, Plus, X } from 'lucide-react';
+import { getPairedSides } from '../utils/matching';
+import { getSetWinner } from '../utils/gameResult';
+
+const MAX_SETS = 3;
 
 interface EndGameConfirmDialogProps {
   open: boolean;
@@ -17,7 +23,7 @@ interface EndGameConfirmDialogProps {
   team: Team | null;
   players: Player[];
   courtName: string;
-  onConfirm: () => void;
+  onConfirm: (result: GameResult | null) => void;
 }
 
 export function EndGameConfirmDialog({
@@ -29,15 +35,47 @@ export function EndGameConfirmDialog({
   onConfirm,
 }: EndGameConfirmDialogProps) {
   const teamPlayers = team ? players.filter((p) => team.playerIds.includes(p.id)) : [];
+  const pairedSides = team ? getPairedSides(team, players) : null;
+
+  // Score entry is optional - drafts are kept as strings until confirm
+  const [setDrafts, setSetDrafts] = useState<{ a: string; b: string }[]>([{ a: '', b: '' }]);
+  const [pickedWinner, setPickedWinner] = useState<GameSide | null>(null);
+
+  // Start every dialog with an empty result
+  useEffect(() => {
+    if (open) {
+      setSetDrafts([{ a: '', b: '' }]);
+      setPickedWinner(null);
+    }
+  }, [open]);
+
+  const parseScore = (value: string) => (/^\d+$/.test(value.trim()) ? parseInt(value, 10) : null);
+
+  // Only sets with both scores filled in count
+  const completedSets: SetScore[] = setDrafts
+    .map((draft) => ({ a: parseScore(draft.a), b: parseScore(draft.b) }))
+    .filter((set): set is SetScore => set.a !== null && set.b !== null);
+  const hasInvalidScore = setDrafts.some(
+    (draft) => (draft.a.trim() !== '' && parseScore(draft.a) === null) || (draft.b.trim() !== '' && parseScore(draft.b) === null)
+  );
+  const winner = pickedWinner ?? getSetWinner(completedSets);
+
+  const updateSetDraft = (index: number, side: 'a' | 'b', value: string) => {
+    setSetDrafts((prev) => prev.map((draft, idx) => (idx === index ? { ...draft, [side]: value } : draft)));
+  };
 
   const handleConfirm = () => {
-    onConfirm();
+    const result: GameResult | null =
+      pairedSides && (completedSets.length > 0 || winner)
+        ? { sets: completedSets, winner }
+        : null;
+    onConfirm(result);
     onOpenChange(false);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Users className="size-5 text-emerald-600" />
@@ -82,6 +120,96 @@ export function EndGameConfirmDialog({
             ))}
           </div>
 
+          {pairedSides && (
+            <div className="border rounded-lg p-3 space-y-2.5">
+              <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <Trophy className="size-4" />
+                <span>경기 결과 (선택)</span>
+              </div>
+
+              <div className="grid grid-cols-[1fr_auto_1fr_auto] items-center gap-2 text-xs">
+                <span className="text-center font-medium text-blue-700 truncate">
+                  A · {pairedSides[0].map((p) => p.name).join(', ')}
+                </span>
+                <span />
+                <span className="text-center font-medium text-rose-700 truncate">
+                  B · {pairedSides[1].map((p) => p.name).join(', ')}
+                </span>
+                <span className="w-7" />
+
+                {setDrafts.map((draft, index) => (
+                  <div key={index} className="contents">
+                    <Input
+                      inputMode="numeric"
+                      value={draft.a}
+                      onChange={(e) => updateSetDraft(index, 'a', e.target.value)}
+                      placeholder="0"
+                      className="h-8 text-center"
+                      aria-label={`${index + 1}세트 A 점수`}
+                    />
+                    <span className="text-gray-400">:</span>
+                    <Input
+                      inputMode="numeric"
+                      value={draft.b}
+                      onChange={(e) => updateSetDraft(index, 'b', e.target.value)}
+                      placeholder="0"
+                      className="h-8 text-center"
+                      aria-label={`${index + 1}세트 B 점수`}
+                    />
+                    {index > 0 ? (
+                      <button
+                        type="button"
+                        onClick={() => setSetDrafts((prev) => prev.filter((_, idx) => idx !== index))}
+                        className="size-7 flex items-center justify-center rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50"
+                        title="세트 삭제"
+                      >
+                        <X className="size-3.5" />
+                      </button>
+                    ) : (
+                      <span className="w-7" />
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {setDrafts.length < MAX_SETS && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSetDrafts((prev) => [...prev, { a: '', b: '' }])}
+                  className="h-7 text-xs"
+                >
+                  <Plus className="size-3.5 mr-1" />
+                  세트 추가
+                </Button>
+              )}
+
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-600">승리</span>
+                {(['A', 'B'] as GameSide[]).map((side) => (
+                  <Button
+                    key={side}
+                    type="button"
+                    size="sm"
+                    variant={winner === side ? 'default' : 'outline'}
+                    onClick={() => setPickedWinner(pickedWinner === side ? null : side)}
+                    className="h-7 px-3 text-xs"
+                  >
+                    {side}편
+                  </Button>
+                ))}
+                {!pickedWinner && winner && (
+                  <span className="text-[11px] text-gray-500">점수로 자동 선택됨</span>
+                )}
+              </div>
+
+              {hasInvalidScore && (
+                <p className="text-[11px] text-red-600">점수는 0 이상의 숫자로 입력해주세요.</p>
+              )}
+            </div>
+          )}
+
           <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
             <p className="font-medium mb-1">종료 시 변경사항:</p>
             <ul className="list-disc list-inside space-y-0.5 text-xs">
@@ -105,6 +233,7 @@ export function EndGameConfirmDialog({
             type="button"
             variant="destructive"
             onClick={handleConfirm}
+            disabled={hasInvalidScore}
             className="flex-1 sm:flex-none"
           >
             경기 종료
@@ -0,0 +1,137 @@
+import { useState, useMemo } from 'react';
+import { GameRecord } from '../types';
+import { formatSets } from '../utils/gameResult';
+import { Badge } from './ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+interface GameHistoryPanelProps {
+  games: GameRecord[];
+}
+
+const ALL = 'all';
+
+function formatTime(date: Date | null) {
+  if (!date) return '--:--';
+  return date.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', hour12: false });
+}
+
+function formatDuration(durationMs: number | null) {
+  if (durationMs === null) return '-';
+  const minutes = Math.floor(durationMs / 60000);
+  const seconds = Math.floor((durationMs % 60000) / 1000);
+  return `${minutes}분 ${seconds.toString().padStart(2, '0')}초`;
+}
+
+export function GameHistoryPanel({ games }: GameHistoryPanelProps) {
+  const [playerFilter, setPlayerFilter] = useState<string>(ALL);
+  const [courtFilter, setCourtFilter] = useState<string>(ALL);
+
+  // Filter options come from the recorded games, so removed players can still be found
+  const playerOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    games.forEach((game) => {
+      game.playerIds.forEach((id, idx) => names.set(id, game.playerNames[idx] || '알 수 없음'));
+    });
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [games]);
+
+  const courtOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    games.forEach((game) => names.set(game.courtId, game.courtName));
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [games]);
+
+  const filteredGames = games
+    .filter((game) => playerFilter === ALL || game.playerIds.includes(playerFilter))
+    .filter((game) => courtFilter === ALL || game.courtId === courtFilter)
+    .sort((a, b) => a.endedAt.getTime() - b.endedAt.getTime());
+
+  const getName = (game: GameRecord, playerId: string) =>
+    game.playerNames[game.playerIds.indexOf(playerId)] || '알 수 없음';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2.5 md:mb-3">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold text-xs md:text-sm text-gray-700">오늘 경기 기록</h3>
+          <Badge variant="secondary" className="text-[10px] md:text-xs px-2 py-0.5 shadow-sm bg-emerald-100 text-emerald-700">
+            {filteredGames.length}경기
+          </Badge>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-2.5">
+        <Select value={playerFilter} onValueChange={setPlayerFilter}>
+          <SelectTrigger className="w-full h-8 text-xs">
+            <SelectValue placeholder="참가자" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>전체 참가자</SelectItem>
+            {playerOptions.map(([id, name]) => (
+              <SelectItem key={id} value={id}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={courtFilter} onValueChange={setCourtFilter}>
+          <SelectTrigger className="w-full h-8 text-xs">
+            <SelectValue placeholder="코트" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>전체 코트</SelectItem>
+            {courtOptions.map(([id, name]) => (
+              <SelectItem key={id} value={id}>코트 {name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1.5 md:space-y-2 min-h-[200px] max-h-[60vh] overflow-y-auto bg-gradient-to-br from-emerald-50/30 to-emerald-50/10 rounded-xl border-2 border-dashed border-emerald-200 p-2.5 md:p-3">
+        {filteredGames.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-gray-400">
+            <p className="text-xs md:text-sm mb-1">🏸 기록된 경기가 없습니다</p>
+            <p className="text-[10px] md:text-xs text-gray-300">경기를 종료하면 여기에 기록됩니다</p>
+          </div>
+        ) : (
+          filteredGames.map((game, idx) => (
+            <div key={game.id} className="p-2.5 md:p-3 rounded-lg border bg-white">
+              <div className="flex items-center justify-between mb-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] md:text-xs font-semibold text-gray-500">#{idx + 1}</span>
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4">
+                    코트 {game.courtName}
+                  </Badge>
+                </div>
+                <span className="text-[10px] md:text-xs text-gray-500">
+                  {formatTime(game.startedAt)} ~ {formatTime(game.endedAt)} · {formatDuration(game.durationMs)}
+                </span>
+              </div>
+              {game.pairing ? (
+                <p className="text-xs md:text-sm text-gray-900">
+                  <span className={`text-blue-700 ${game.result?.winner === 'A' ? 'font-semibold' : ''}`}>
+                    {game.result?.winner === 'A' && '🏆 '}
+                    {game.pairing.sideA.map((id) => getName(game, id)).join(' · ')}
+                  </span>
+                  <span className="text-gray-400 mx-1.5">
+                    {game.result && game.result.sets.length > 0 ? formatSets(game.result.sets) : 'VS'}
+                  </span>
+                  <span className={`text-rose-700 ${game.result?.winner === 'B' ? 'font-semibold' : ''}`}>
+                    {game.result?.winner === 'B' && '🏆 '}
+                    {game.pairing.sideB.map((id) => getName(game, id)).join(' · ')}
+                  </span>
+                </p>
+              ) : (
+                <p className="text-xs md:text-sm text-gray-900">{game.playerNames.join(' · ')}</p>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
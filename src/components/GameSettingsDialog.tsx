@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { GameType, RatingSource, Session } from '../types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Switch } from './ui/switch';
+import { Gamepad2 } from 'lucide-react';
+
+interface GameSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  session: Session | null;
+  onUpdateSession: (updates: Partial<Session>) => void;
+}
+
+const GAME_TYPE_OPTIONS: { value: GameType; label: string; description: string }[] = [
+  { value: 'free', label: '자유 매칭', description: '성별 구분 없이 실력 순으로 팀을 구성합니다' },
+  { value: 'mixed', label: '혼합 복식', description: '남 2 + 여 2로 팀을 구성하고 각 편에 남녀 1명씩 배치합니다' },
+  { value: 'same_gender', label: '남복 / 여복', description: '같은 성별끼리만 팀을 구성합니다' },
+  { value: 'avoid_3_1', label: '3:1 구성 피하기', description: '남 3 + 여 1, 남 1 + 여 3 구성을 만들지 않습니다' },
+];
+
+const RATING_SOURCE_OPTIONS: { value: RatingSource; label: string; description: string }[] = [
+  { value: 'rank', label: '수동 급수', description: '회원 정보에 입력된 급수로 실력을 계산합니다' },
+  { value: 'rating', label: '자동 레이팅', description: '기록된 경기 결과로 계산한 레이팅을 사용합니다' },
+  { value: 'blend', label: '혼합', description: '급수와 레이팅을 절반씩 반영합니다' },
+];
+
+const MIN_GAME_DURATION = 5;
+const MAX_GAME_DURATION = 60;
+
+export function GameSettingsDialog({
+  open,
+  onOpenChange,
+  session,
+  onUpdateSession,
+}: GameSettingsDialogProps) {
+  const [gameType, setGameType] = useState<GameType>(session?.gameType || 'free');
+  const [ratingSource, setRatingSource] = useState<RatingSource>(session?.ratingSource || 'rank');
+  const [gameDuration, setGameDuration] = useState(String(session?.gameDurationMin || 15));
+  const [autoSeatNext, setAutoSeatNext] = useState(session?.autoSeatNext ?? true);
+
+  // Reset state when dialog opens with fresh data from props
+  useEffect(() => {
+    if (open) {
+      setGameType(session?.gameType || 'free');
+      setRatingSource(session?.ratingSource || 'rank');
+      setGameDuration(String(session?.gameDurationMin || 15));
+      setAutoSeatNext(session?.autoSeatNext ?? true);
+    }
+  }, [open, session]);
+
+  const parsedDuration = Number(gameDuration);
+  const isDurationValid =
+    Number.isInteger(parsedDuration) && parsedDuration >= MIN_GAME_DURATION && parsedDuration <= MAX_GAME_DURATION;
+
+  const handleSave = () => {
+    const updates: Partial<Session> = {};
+    if (gameType !== session?.gameType) updates.gameType = gameType;
+    if (ratingSource !== session?.ratingSource) updates.ratingSource = ratingSource;
+    if (parsedDuration !== session?.gameDurationMin) updates.gameDurationMin = parsedDuration;
+    if (autoSeatNext !== session?.autoSeatNext) updates.autoSeatNext = autoSeatNext;
+    if (Object.keys(updates).length > 0) {
+      onUpdateSession(updates);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gamepad2 className="size-5 text-blue-600" />
+            게임 설정
+          </DialogTitle>
+          <DialogDescription>
+            경기 시간과 자동 매칭에 적용할 게임 방식, 실력 기준을 선택하세요
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3 py-2">
+          <Label htmlFor="game-duration" className="text-sm font-semibold">경기 시간</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="game-duration"
+              type="number"
+              inputMode="numeric"
+              min={MIN_GAME_DURATION}
+              max={MAX_GAME_DURATION}
+              value={gameDuration}
+              onChange={(e) => setGameDuration(e.target.value)}
+              className="w-24"
+            />
+            <span className="text-sm text-gray-600">분</span>
+          </div>
+          <p className={`text-xs ${isDurationValid ? 'text-gray-500' : 'text-red-600'}`}>
+            {isDurationValid
+              ? '종료 2분 전부터 코트가 주황색으로, 시간이 지나면 빨간색으로 표시되고 알림음이 울립니다.'
+              : `${MIN_GAME_DURATION}~${MAX_GAME_DURATION}분 사이로 입력하세요.`}
+          </p>
+
+          <div className="flex items-start justify-between gap-3 rounded-lg border p-3">
+            <div>
+              <Label htmlFor="auto-seat-next" className="text-sm font-medium text-gray-900">다음 팀 자동 시작</Label>
+              <p className="text-xs text-gray-500 mt-0.5">
+                경기가 끝나면 가장 먼저 대기한 팀을 바로 그 코트에 배정합니다. 경기 중인 참가자가 있는 팀은 건너뜁니다.
+              </p>
+            </div>
+            <Switch id="auto-seat-next" checked={autoSeatNext} onCheckedChange={setAutoSeatNext} />
+          </div>
+
+          <Label className="text-sm font-semibold pt-2 block">게임 방식</Label>
+          <RadioGroup value={gameType} onValueChange={(value) => setGameType(value as GameType)}>
+            {GAME_TYPE_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                htmlFor={`game-type-${option.value}`}
+                className={`flex items-start gap-3 rounded-lg border p-3 cursor-pointer transition-colors ${
+                  gameType === option.value ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <RadioGroupItem id={`game-type-${option.value}`} value={option.value} className="mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                  <p className="text-xs text-gray-500 mt-0.5">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </RadioGroup>
+          <p className="text-xs text-gray-500">
+            조건을 만족하는 팀을 만들 수 없는 참가자는 대기 상태로 남고, 매칭 후 알려드립니다.
+          </p>
+
+          <Label className="text-sm font-semibold pt-2 block">실력 기준</Label>
+          <RadioGroup value={ratingSource} onValueChange={(value) => setRatingSource(value as RatingSource)}>
+            {RATING_SOURCE_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                htmlFor={`rating-source-${option.value}`}
+                className={`flex items-start gap-3 rounded-lg border p-3 cursor-pointer transition-colors ${
+                  ratingSource === option.value ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <RadioGroupItem id={`rating-source-${option.value}`} value={option.value} className="mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                  <p className="text-xs text-gray-500 mt-0.5">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </RadioGroup>
+          <p className="text-xs text-gray-500">
+            레이팅이 아직 없는 참가자는 항상 급수로 계산합니다.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            취소
+          </Button>
+          <Button onClick={handleSave} disabled={!isDurationValid}>
+            저장
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
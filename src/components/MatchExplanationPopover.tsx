@@ -0,0 +1,132 @@
+import { MatchExplanation, MatchReason, Player, PlayerMatchExplanation } from '../types';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Badge } from './ui/badge';
+import { HelpCircle } from 'lucide-react';
+
+const REASON_LABELS: Record<MatchReason, string> = {
+  priority: '우선대기라서 먼저 배정되었습니다',
+  queue_order: '경기 수가 적고 오래 쉰 순서로 배정되었습니다',
+  balance: '실력 균형과 중복 만남을 고려해 조정되었습니다',
+  courts_full: '이번 매칭에서 남은 자리가 없었습니다',
+  game_type: '게임 방식 조건에 맞는 팀을 만들 수 없었습니다',
+  not_enough_players: '팀을 만들 대기 인원이 부족했습니다',
+};
+
+function formatRest(restMinutes: number | null) {
+  if (restMinutes === null) return '아직 경기 없음';
+  if (restMinutes < 60) return `${restMinutes}분 휴식`;
+  return `${Math.floor(restMinutes / 60)}시간 ${restMinutes % 60}분 휴식`;
+}
+
+function PlayerFacts({ explanation }: { explanation: PlayerMatchExplanation }) {
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4">
+        대기 {explanation.queuePosition}번째
+      </Badge>
+      {explanation.wasPriority && (
+        <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 bg-purple-50 border-purple-200 text-purple-700">
+          우선대기
+        </Badge>
+      )}
+      <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4">
+        {explanation.gameCount}경기
+      </Badge>
+      <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4">
+        {formatRest(explanation.restMinutes)}
+      </Badge>
+    </div>
+  );
+}
+
+interface TeamExplanationPopoverProps {
+  teamId: string;
+  players: Player[];
+  explanation: MatchExplanation;
+}
+
+// "Why was this team formed?" - skill numbers, repeats and each member's pick reason
+export function TeamExplanationPopover({ teamId, players, explanation }: TeamExplanationPopoverProps) {
+  const team = explanation.teams[teamId];
+  if (!team) return null;
+
+  const members = Object.values(explanation.players).filter((p) => p.teamId === teamId);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="p-1 rounded-md text-gray-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+          title="팀 구성 이유"
+        >
+          <HelpCircle className="size-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 p-3 space-y-3">
+        <p className="text-sm font-semibold text-gray-900">팀 구성 이유</p>
+
+        <div className="grid grid-cols-3 gap-1.5 text-center">
+          <div className="bg-gray-50 rounded px-1.5 py-1">
+            <p className="text-[10px] text-gray-500">평균 점수</p>
+            <p className="text-xs font-semibold">{team.averageScore.toFixed(1)}</p>
+          </div>
+          <div className="bg-gray-50 rounded px-1.5 py-1">
+            <p className="text-[10px] text-gray-500">실력 차이</p>
+            <p className="text-xs font-semibold">{team.skillSpread.toFixed(1)}</p>
+          </div>
+          <div className="bg-gray-50 rounded px-1.5 py-1">
+            <p className="text-[10px] text-gray-500">편 점수 차</p>
+            <p className="text-xs font-semibold">{team.sideGap !== null ? team.sideGap.toFixed(1) : '-'}</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {members.map((member) => {
+            const player = players.find((p) => p.id === member.playerId);
+            return (
+              <div key={member.playerId}>
+                <p className="text-xs font-medium text-gray-900">{player?.name || '알 수 없음'}</p>
+                <p className="text-[11px] text-gray-600">{REASON_LABELS[member.reason]}</p>
+                <PlayerFacts explanation={member} />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="border-t pt-2 text-[11px] text-gray-600 space-y-0.5">
+          <p>이 팀 안의 이전 만남: 팀메이트 {team.repeatTeammates}회 · 상대 {team.repeatOpponents}회</p>
+          {explanation.avoidedRepeats > 0 && (
+            <p className="text-emerald-700">
+              이번 매칭에서 중복 만남 {explanation.avoidedRepeats}회를 피했습니다
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface PlayerExplanationPopoverProps {
+  explanation: PlayerMatchExplanation;
+}
+
+// "Why am I not playing?" - shown next to players left in the waiting list
+export function PlayerExplanationPopover({ explanation }: PlayerExplanationPopoverProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="size-7 flex items-center justify-center rounded-md hover:bg-blue-50 transition-colors"
+          title="매칭 제외 이유"
+        >
+          <HelpCircle className="size-3 text-blue-600" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-3">
+        <p className="text-xs font-semibold text-gray-900">마지막 매칭에서 제외된 이유</p>
+        <p className="text-[11px] text-gray-600 mt-1">{REASON_LABELS[explanation.reason]}</p>
+        <PlayerFacts explanation={explanation} />
+      </PopoverContent>
+    </Popover>
+  );
+}
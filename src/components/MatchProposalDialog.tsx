@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Player } from '../types';
+import { AutoMatchResult, getPairedSides } from '../utils/matching';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { GitCompare } from 'lucide-react';
+
+interface MatchProposalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  proposals: AutoMatchResult[];
+  players: Player[];
+  onCommit: (proposal: AutoMatchResult) => Promise<void>;
+}
+
+function formatCost(value: number) {
+  return value.toFixed(1);
+}
+
+export function MatchProposalDialog({
+  open,
+  onOpenChange,
+  proposals,
+  players,
+  onCommit,
+}: MatchProposalDialogProps) {
+  const [committingIndex, setCommittingIndex] = useState<number | null>(null);
+
+  const getName = (playerId: string) => players.find((p) => p.id === playerId)?.name || '알 수 없음';
+
+  const handleCommit = async (proposal: AutoMatchResult, index: number) => {
+    setCommittingIndex(index);
+    try {
+      await onCommit(proposal);
+    } finally {
+      setCommittingIndex(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="size-5 text-blue-600" />
+            매칭 후보 비교
+          </DialogTitle>
+          <DialogDescription>
+            후보를 비교한 뒤 하나를 확정하세요. 확정하기 전에는 아무것도 저장되지 않습니다. 점수는 낮을수록 좋습니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto py-2">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {proposals.map((proposal, index) => {
+              const cost = proposal.cost;
+              return (
+                <div key={index} className="border rounded-lg p-3 flex flex-col gap-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-semibold text-gray-900">후보 {index + 1}</p>
+                    {index === 0 && (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 bg-blue-50 border-blue-200 text-blue-700">
+                        추천
+                      </Badge>
+                    )}
+                  </div>
+
+                  {cost && (
+                    <div className="grid grid-cols-4 gap-1.5 text-center">
+                      <div className="bg-gray-50 rounded px-1.5 py-1">
+                        <p className="text-[10px] text-gray-500">총점</p>
+                        <p className="text-xs font-semibold">{formatCost(cost.total)}</p>
+                      </div>
+                      <div className="bg-gray-50 rounded px-1.5 py-1">
+                        <p className="text-[10px] text-gray-500">실력 차이</p>
+                        <p className="text-xs font-semibold">{formatCost(cost.skillSpread + cost.sideBalance)}</p>
+                      </div>
+                      <div className="bg-gray-50 rounded px-1.5 py-1">
+                        <p className="text-[10px] text-gray-500">중복 만남</p>
+                        <p className="text-xs font-semibold">{cost.repeatTeammate + cost.repeatOpponent}</p>
+                      </div>
+                      <div className="bg-gray-50 rounded px-1.5 py-1">
+                        <p className="text-[10px] text-gray-500">대기 순서</p>
+                        <p className="text-xs font-semibold">{cost.waitTime}</p>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="space-y-2 flex-1">
+                    {proposal.teams.map((team, teamIndex) => {
+                      const sides = getPairedSides(team, players);
+                      const spread = proposal.explanation.teams[team.id]?.skillSpread;
+                      return (
+                        <div key={team.id} className="bg-gray-50 rounded-md px-2 py-1.5">
+                          <div className="flex items-center justify-between">
+                            <p className="text-[11px] font-medium text-gray-500">팀 {teamIndex + 1}</p>
+                            {spread !== undefined && (
+                              <p className="text-[10px] text-gray-400">실력 차이 {spread.toFixed(1)}</p>
+                            )}
+                          </div>
+                          {sides ? (
+                            <p className="text-xs text-gray-900">
+                              <span className="text-blue-700">{sides[0].map((p) => p.name).join(' · ')}</span>
+                              <span className="text-gray-400 mx-1">VS</span>
+                              <span className="text-rose-700">{sides[1].map((p) => p.name).join(' · ')}</span>
+                            </p>
+                          ) : (
+                            <p className="text-xs text-gray-900">{team.playerIds.map(getName).join(' · ')}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {proposal.unplacedPlayerIds.length > 0 && (
+                    <p className="text-[11px] text-amber-700">
+                      제외: {proposal.unplacedPlayerIds.map(getName).join(', ')}
+                    </p>
+                  )}
+
+                  <Button
+                    size="sm"
+                    onClick={() => handleCommit(proposal, index)}
+                    disabled={committingIndex !== null}
+                  >
+                    {committingIndex === index ? '확정 중...' : '이 후보로 확정'}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { Team, Court, Player } from '../types/index';
+import { Team, Court, Player, TeamPairing, MatchExplanation } from '../types/index';
 import { TeamCard } from './TeamCard';
 import { Play, Users, X, PlayCircle, Zap, UserPlus } from 'lucide-react';
 import { Button } from './ui/button';
@@ -13,6 +13,8 @@ interface MatchingAreaProps {
   onSwapPlayer?: (waitingPlayerId: string, teamId: string, queuedPlayerId: string) => void;
   onSwapBetweenTeams: (dragTeamId: string, dragPlayerId: string, dropTeamId: string, dropPlayerId: string) => void;
   onReturnToWaiting: (playerId: string, teamId: string) => void;
+  onUpdatePairing?: (teamId: string, pairing: TeamPairing) => void;
+  lastMatch?: MatchExplanation | null;
   onCreateManualTeam?: () => void;
   isAdmin?: boolean;
 }
@@ -26,6 +28,8 @@ export function MatchingArea({
   onSwapPlayer,
   onSwapBetweenTeams,
   onReturnToWaiting,
+  onUpdatePairing,
+  lastMatch,
   onCreateManualTeam,
   isAdmin,
 }: MatchingAreaProps) {
@@ -105,6 +109,8 @@ export function MatchingArea({
               onSwapPlayer={onSwapPlayer}
               onSwapBetweenTeams={onSwapBetweenTeams}
               onReturnToWaiting={onReturnToWaiting}
+              onUpdatePairing={onUpdatePairing}
+              matchExplanation={lastMatch}
               isAdmin={isAdmin}
             />
           ))}
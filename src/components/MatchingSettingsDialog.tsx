@@ -0,0 +1,331 @@
+import { useState, useEffect, useMemo } from 'react';
+import { GameType, Gender, OptimizerWeights, Player, Rank, RatingSource, ScoringModel } from '../types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { SlidersHorizontal, AlertCircle, Eye } from 'lucide-react';
+import { autoMatch, createPlayerScorer, DEFAULT_SCORING_MODEL } from '../utils/matching';
+import { DEFAULT_OPTIMIZER_WEIGHTS } from '../utils/teamOptimizer';
+
+interface MatchingSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scoringModel: ScoringModel;
+  optimizerWeights: OptimizerWeights;
+  players: Player[];
+  teamSize: number;
+  courtsCount: number;
+  gameType: GameType;
+  ratingSource?: RatingSource;
+  ratings?: Record<string, number>; // Current rating per player id, for the preview
+  onSaveScoringModel: (scoringModel: ScoringModel) => void;
+  onSaveOptimizerWeights: (optimizerWeights: OptimizerWeights) => void;
+}
+
+const RANKS: Rank[] = ['S', 'A', 'B', 'C', 'D', 'E', 'F'];
+const GENDERS: Gender[] = ['남', '여'];
+
+const WEIGHT_OPTIONS: { key: keyof OptimizerWeights; label: string; description: string }[] = [
+  { key: 'skillSpread', label: '팀 내 실력 차이', description: '한 팀 안의 최고/최저 점수 차이' },
+  { key: 'sideBalance', label: '편 사이 균형', description: 'A편과 B편의 점수 차이' },
+  { key: 'repeatTeammate', label: '반복 팀메이트', description: '이전에 같은 편이었던 횟수' },
+  { key: 'repeatOpponent', label: '반복 상대', description: '이전에 맞붙었던 횟수' },
+  { key: 'waitTime', label: '대기 순서', description: '대기 순서를 건너뛴 정도' },
+];
+
+// Form values are kept as strings so admins can type freely
+type ScoringDraft = {
+  rankScores: Record<Rank, string>;
+  unrankedScore: string;
+  genderMultipliers: Record<Gender, string>;
+};
+
+function toDraft(model: ScoringModel): ScoringDraft {
+  return {
+    rankScores: Object.fromEntries(RANKS.map((rank) => [rank, String(model.rankScores[rank])])) as Record<Rank, string>,
+    unrankedScore: String(model.unrankedScore),
+    genderMultipliers: Object.fromEntries(GENDERS.map((gender) => [gender, String(model.genderMultipliers[gender])])) as Record<Gender, string>,
+  };
+}
+
+// Returns null if any field isn't a non-negative number
+function fromDraft(draft: ScoringDraft): ScoringModel | null {
+  const parse = (value: string) => {
+    const num = parseFloat(value);
+    return value.trim() !== '' && Number.isFinite(num) && num >= 0 ? num : null;
+  };
+
+  const rankScores = {} as Record<Rank, number>;
+  for (const rank of RANKS) {
+    const value = parse(draft.rankScores[rank]);
+    if (value === null) return null;
+    rankScores[rank] = value;
+  }
+
+  const genderMultipliers = {} as Record<Gender, number>;
+  for (const gender of GENDERS) {
+    const value = parse(draft.genderMultipliers[gender]);
+    if (value === null) return null;
+    genderMultipliers[gender] = value;
+  }
+
+  const unrankedScore = parse(draft.unrankedScore);
+  if (unrankedScore === null) return null;
+
+  return { rankScores, unrankedScore, genderMultipliers };
+}
+
+type WeightsDraft = Record<keyof OptimizerWeights, string>;
+
+function toWeightsDraft(weights: OptimizerWeights): WeightsDraft {
+  return Object.fromEntries(WEIGHT_OPTIONS.map(({ key }) => [key, String(weights[key])])) as WeightsDraft;
+}
+
+// Returns null if any weight isn't a non-negative number
+function fromWeightsDraft(draft: WeightsDraft): OptimizerWeights | null {
+  const weights = {} as OptimizerWeights;
+  for (const { key } of WEIGHT_OPTIONS) {
+    const num = parseFloat(draft[key]);
+    if (draft[key].trim() === '' || !Number.isFinite(num) || num < 0) return null;
+    weights[key] = num;
+  }
+  return weights;
+}
+
+export function MatchingSettingsDialog({
+  open,
+  onOpenChange,
+  scoringModel,
+  optimizerWeights,
+  players,
+  teamSize,
+  courtsCount,
+  gameType,
+  ratingSource = 'rank',
+  ratings,
+  onSaveScoringModel,
+  onSaveOptimizerWeights,
+}: MatchingSettingsDialogProps) {
+  const [draft, setDraft] = useState<ScoringDraft>(() => toDraft(scoringModel));
+  const [weightsDraft, setWeightsDraft] = useState<WeightsDraft>(() => toWeightsDraft(optimizerWeights));
+
+  // Reset state when dialog opens with fresh data from props
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(scoringModel));
+      setWeightsDraft(toWeightsDraft(optimizerWeights));
+    }
+  }, [open, scoringModel, optimizerWeights]);
+
+  const draftModel = useMemo(() => fromDraft(draft), [draft]);
+  const draftWeights = useMemo(() => fromWeightsDraft(weightsDraft), [weightsDraft]);
+  const scorePlayer = useMemo(
+    () => (draftModel ? createPlayerScorer(draftModel, ratingSource, ratings) : null),
+    [draftModel, ratingSource, ratings]
+  );
+
+  // Live preview: how the current waiting pool would be matched under the draft model
+  const previewTeams = useMemo(() => {
+    if (!open || !draftModel || !draftWeights || !scorePlayer) return [];
+    const { teams } = autoMatch(players, teamSize, courtsCount, {
+      gameType,
+      scoringModel: draftModel,
+      ratingSource,
+      ratings,
+      optimizerWeights: draftWeights,
+    });
+    return teams.map((team) => {
+      const teamPlayers = team.playerIds
+        .map((id) => players.find((p) => p.id === id))
+        .filter((p): p is Player => !!p);
+      const totalScore = teamPlayers.reduce((sum, p) => sum + scorePlayer(p), 0);
+      return { id: team.id, name: team.name, players: teamPlayers, totalScore };
+    });
+  }, [open, draftModel, draftWeights, scorePlayer, players, teamSize, courtsCount, gameType, ratingSource, ratings]);
+
+  const handleSave = () => {
+    if (!draftModel || !draftWeights) return;
+    if (JSON.stringify(draftModel) !== JSON.stringify(scoringModel)) {
+      onSaveScoringModel(draftModel);
+    }
+    if (JSON.stringify(draftWeights) !== JSON.stringify(optimizerWeights)) {
+      onSaveOptimizerWeights(draftWeights);
+    }
+    onOpenChange(false);
+  };
+
+  const handleResetDefaults = () => {
+    setDraft(toDraft(DEFAULT_SCORING_MODEL));
+    setWeightsDraft(toWeightsDraft(DEFAULT_OPTIMIZER_WEIGHTS));
+  };
+
+  const renderNumberInput = (id: string, value: string, onChange: (value: string) => void) => (
+    <Input
+      id={id}
+      type="number"
+      min="0"
+      step="0.1"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="h-8 text-center font-medium"
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="size-5 text-blue-600" />
+            매칭 설정
+          </DialogTitle>
+          <DialogDescription>
+            팀 밸런스 계산에 사용하는 실력 점수와 최적화 기준을 조정하세요
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-5 py-2">
+          <Tabs defaultValue="scoring">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="scoring">실력 점수</TabsTrigger>
+              <TabsTrigger value="weights">최적화 가중치</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="scoring" className="space-y-5 pt-2">
+              {/* Rank Scores */}
+              <div className="space-y-2">
+                <Label className="text-sm font-semibold">급수별 점수</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {RANKS.map((rank) => (
+                    <div key={rank} className="space-y-1">
+                      <Label htmlFor={`rank-score-${rank}`} className="text-xs text-gray-600">
+                        {rank}급
+                      </Label>
+                      {renderNumberInput(`rank-score-${rank}`, draft.rankScores[rank], (value) =>
+                        setDraft((prev) => ({ ...prev, rankScores: { ...prev.rankScores, [rank]: value } }))
+                      )}
+                    </div>
+                  ))}
+                  <div className="space-y-1">
+                    <Label htmlFor="unranked-score" className="text-xs text-gray-600">
+                      급수 없음
+                    </Label>
+                    {renderNumberInput('unranked-score', draft.unrankedScore, (value) =>
+                      setDraft((prev) => ({ ...prev, unrankedScore: value }))
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Gender Multipliers */}
+              <div className="space-y-2">
+                <Label className="text-sm font-semibold">성별 보정 (배수)</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {GENDERS.map((gender) => (
+                    <div key={gender} className="space-y-1">
+                      <Label htmlFor={`gender-multiplier-${gender}`} className="text-xs text-gray-600">
+                        {gender}
+                      </Label>
+                      {renderNumberInput(`gender-multiplier-${gender}`, draft.genderMultipliers[gender], (value) =>
+                        setDraft((prev) => ({ ...prev, genderMultipliers: { ...prev.genderMultipliers, [gender]: value } }))
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">점수 = 급수 점수 × 성별 보정</p>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="weights" className="space-y-2 pt-2">
+              <p className="text-xs text-gray-500">
+                값이 클수록 매칭할 때 해당 항목을 더 중요하게 고려합니다. 0이면 무시합니다.
+              </p>
+              {WEIGHT_OPTIONS.map((option) => (
+                <div key={option.key} className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <Label htmlFor={`weight-${option.key}`} className="text-sm font-medium">
+                      {option.label}
+                    </Label>
+                    <p className="text-xs text-gray-500">{option.description}</p>
+                  </div>
+                  <div className="w-20">
+                    {renderNumberInput(`weight-${option.key}`, weightsDraft[option.key], (value) =>
+                      setWeightsDraft((prev) => ({ ...prev, [option.key]: value }))
+                    )}
+                  </div>
+                </div>
+              ))}
+            </TabsContent>
+          </Tabs>
+
+          {/* Error Message */}
+          {(!draftModel || !draftWeights) && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+              <AlertCircle className="size-4 text-red-600 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-red-800">모든 값은 0 이상의 숫자여야 합니다.</p>
+            </div>
+          )}
+
+          {/* Live Preview */}
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold flex items-center gap-1.5">
+              <Eye className="size-4 text-gray-500" />
+              매칭 미리보기
+            </Label>
+            {previewTeams.length === 0 ? (
+              <div className="bg-gray-50 border border-dashed rounded-lg p-4 text-center text-xs text-gray-500">
+                현재 대기 인원으로 만들 수 있는 팀이 없습니다
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {previewTeams.map((team) => (
+                  <div key={team.id} className="border rounded-lg p-2.5 bg-white">
+                    <div className="flex items-center justify-between mb-1.5">
+                      <span className="text-xs font-semibold text-gray-900">{team.name}</span>
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-5">
+                        합계 {team.totalScore.toFixed(1)}
+                      </Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {team.players.map((player) => (
+                        <span key={player.id} className="text-xs bg-gray-50 border rounded px-1.5 py-0.5">
+                          {player.name}
+                          <span className="text-gray-400 ml-1">
+                            {scorePlayer!(player).toFixed(1)}
+                          </span>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2 pt-2 border-t">
+          <Button variant="ghost" onClick={handleResetDefaults}>
+            기본값
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              취소
+            </Button>
+            <Button onClick={handleSave} disabled={!draftModel || !draftWeights}>
+              저장
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,7 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
 import { Checkbox } from './ui/checkbox';
-import { UserPlus, Edit2, Trash2, Check, X, UserCheck, CheckCircle2, Search, Filter, Users } from 'lucide-react';
+import { UserPlus, Edit2, Trash2, Check, X, UserCheck, CheckCircle2, Search, Filter, Users, TrendingUp } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -16,7 +16,10 @@ import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
 import React from 'react';
 import { toast } from 'sonner';
 import { membersApi } from '../utils/api/membersApi';
+import { describeApiError } from '../utils/api/errors';
 import { AddMemberDialog } from './AddMemberDialog';
+import { RatingHistoryDialog } from './RatingHistoryDialog';
+import { getMemberRating } from '../utils/rating';
 
 interface MemberManagementProps {
   members: Member[];
@@ -63,6 +66,7 @@ export function MemberManagement({
   const [selectedMemberIds, setSelectedMemberIds] = useState<Set<string>>(new Set());
   const [isBatchAdding, setIsBatchAdding] = useState(false);
   const [showAddMemberDialog, setShowAddMemberDialog] = useState(false);
+  const [ratingHistoryMember, setRatingHistoryMember] = useState<Member | null>(null);
 
   // Check if a member is already registered as a player
   const isMemberRegistered = (memberName: string) => {
@@ -173,7 +177,7 @@ export function MemberManagement({
 
     } catch (error) {
       console.error('Batch add failed:', error);
-      toast.error('등록 중 오류가 발생했습니다. 다시 시도해주세요.', { id: 'batch-add' });
+      toast.error('등록 중 오류가 발생했습니다.', { id: 'batch-add', description: describeApiError(error, '다시 시도해주세요.') });
     }
   };
 
@@ -335,6 +339,7 @@ export function MemberManagement({
                   onToggleSelect={handleToggleSelect}
                   onAddMemberAsPlayer={onAddMemberAsPlayer}
                   onDeleteMember={onDeleteMember}
+                  onShowRatingHistory={setRatingHistoryMember}
                   setLoadingModal={setLoadingModal}
                   readOnly={readOnly}
                 />
@@ -352,6 +357,13 @@ export function MemberManagement({
         onOpenChange={setShowAddMemberDialog}
         onAddMember={onAddMember}
       />
+
+      {/* Rating History Dialog */}
+      <RatingHistoryDialog
+        open={ratingHistoryMember !== null}
+        onOpenChange={(open) => !open && setRatingHistoryMember(null)}
+        member={ratingHistoryMember}
+      />
     </div>
   );
 }
@@ -373,6 +385,7 @@ interface MemberCardProps {
   onToggleSelect: (memberId: string) => void;
   onAddMemberAsPlayer: (memberId: string) => void;
   onDeleteMember: (memberId: string) => void;
+  onShowRatingHistory: (member: Member) => void;
   setLoadingModal: React.Dispatch<React.SetStateAction<{
     open: boolean;
     title: string;
@@ -400,6 +413,7 @@ const MemberCard = React.memo(function MemberCard({
   onToggleSelect,
   onAddMemberAsPlayer,
   onDeleteMember,
+  onShowRatingHistory,
   setLoadingModal,
   readOnly,
 }: MemberCardProps) {
@@ -489,6 +503,11 @@ const MemberCard = React.memo(function MemberCard({
                   {member.rank}
                 </Badge>
               )}
+              {member.rating !== undefined && member.rating !== null && (
+                <Badge variant="outline" className="text-[9px] md:text-xs px-1.5 py-0 bg-blue-50 border-blue-200 text-blue-700">
+                  {Math.round(getMemberRating(member))}
+                </Badge>
+              )}
               {isRegistered && (
                 <Badge className="text-[9px] md:text-xs px-1.5 py-0 bg-emerald-100 border-emerald-300 text-emerald-700">
                   <CheckCircle2 className="size-2.5 md:size-3 mr-0.5" />
@@ -496,28 +515,39 @@ const MemberCard = React.memo(function MemberCard({
                 </Badge>
               )}
             </div>
-            {!readOnly && (
-              <div className="flex items-center gap-0.5 md:gap-1">
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => onStartEdit(member)}
-                  className="size-7 md:size-8 p-0 hover:bg-blue-50 active:scale-90 touch-manipulation"
-                  title="수정"
-                >
-                  <Edit2 className="size-3 md:size-3.5" />
-                </Button>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => onDeleteMember(member.id)}
-                  className="size-7 md:size-8 p-0 hover:bg-red-50 active:scale-90 touch-manipulation"
-                  title="삭제"
-                >
-                  <Trash2 className="size-3 md:size-3.5 text-red-600" />
-                </Button>
-              </div>
-            )}
+            <div className="flex items-center gap-0.5 md:gap-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onShowRatingHistory(member)}
+                className="size-7 md:size-8 p-0 hover:bg-blue-50 active:scale-90 touch-manipulation"
+                title="레이팅 기록"
+              >
+                <TrendingUp className="size-3 md:size-3.5 text-blue-600" />
+              </Button>
+              {!readOnly && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onStartEdit(member)}
+                    className="size-7 md:size-8 p-0 hover:bg-blue-50 active:scale-90 touch-manipulation"
+                    title="수정"
+                  >
+                    <Edit2 className="size-3 md:size-3.5" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onDeleteMember(member.id)}
+                    className="size-7 md:size-8 p-0 hover:bg-red-50 active:scale-90 touch-manipulation"
+                    title="삭제"
+                  >
+                    <Trash2 className="size-3 md:size-3.5 text-red-600" />
+                  </Button>
+                </>
+              )}
+            </div>
           </div>
           {isRegistered ? (
             <div className="w-full px-2.5 md:px-3 py-1.5 md:py-2 bg-emerald-50 border border-emerald-200 rounded-lg text-center">
@@ -536,7 +566,10 @@ const MemberCard = React.memo(function MemberCard({
                     toast.success(`${member.name}님이 참가자로 등록되었습니다.`, { id: `add-${member.id}` });
                   } catch (error) {
                     console.error('Failed to add member as player:', error);
-                    toast.error('등록 중 오류가 발생했습니다. 다시 시도해주세요.', { id: `add-${member.id}` });
+                    toast.error('등록 중 오류가 발생했습니다.', {
+                      id: `add-${member.id}`,
+                      description: describeApiError(error, '다시 시도해주세요.'),
+                    });
                   }
                 }}
                 className="w-full h-8 md:h-9 bg-emerald-600 hover:bg-emerald-700 active:scale-95 shadow-sm text-[10px] md:text-xs touch-manipulation"
@@ -0,0 +1,33 @@
+import { CloudOff, CloudUpload } from 'lucide-react';
+import type { OutboxStatus } from '../utils/api/outbox';
+
+interface OutboxBadgeProps {
+  status: OutboxStatus;
+}
+
+// Hidden while online with nothing queued
+export function OutboxBadge({ status }: OutboxBadgeProps) {
+  if (status.online && status.pending === 0) return null;
+
+  if (!status.online) {
+    return (
+      <span
+        className="inline-flex items-center gap-1 px-1.5 md:px-2 py-0.5 rounded-full border border-red-200 bg-red-50 text-red-700 text-[10px] md:text-xs font-medium"
+        title="연결이 돌아오면 대기 중인 변경 사항을 순서대로 보냅니다"
+      >
+        <CloudOff className="size-3 md:size-3.5" />
+        오프라인{status.pending > 0 && ` · 대기 ${status.pending}건`}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-1.5 md:px-2 py-0.5 rounded-full border border-amber-200 bg-amber-50 text-amber-700 text-[10px] md:text-xs font-medium"
+      title="오프라인 중 저장된 변경 사항을 서버로 보내고 있습니다"
+    >
+      <CloudUpload className="size-3 md:size-3.5 animate-pulse" />
+      전송 중 {status.pending}건
+    </span>
+  );
+}
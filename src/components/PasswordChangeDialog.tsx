@@ -3,7 +3,8 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Input } from './ui/input';
 import { Button } from './ui/button';
 import { Lock } from 'lucide-react';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { apiClient } from '../utils/api/client';
+import { ApiError, describeApiError } from '../utils/api/errors';
 
 interface PasswordChangeDialogProps {
   open: boolean;
@@ -54,31 +55,25 @@ export function PasswordChangeDialog({ open, onOpenChange }: PasswordChangeDialo
     setSuccess('');
 
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-41b22d2d/admin-password/change`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${publicAnonKey}`,
-          },
-          body: JSON.stringify({ currentPassword, newPassword }),
-        }
-      );
-
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        setSuccess('비밀번호가 성공적으로 변경되었습니다');
-        setTimeout(() => {
-          handleClose();
-        }, 1500);
+      await apiClient.request('POST /admin-password/change', { body: { currentPassword, newPassword } });
+      setSuccess('비밀번호가 성공적으로 변경되었습니다');
+      setTimeout(() => {
+        handleClose();
+      }, 1500);
+    } catch (err) {
+      const data = err instanceof ApiError ? err.body : null;
+      if (err instanceof ApiError && err.reason === 'invalid_password') {
+        setError(
+          data?.remainingAttempts !== undefined
+            ? `현재 비밀번호가 올바르지 않습니다 (남은 시도 ${data.remainingAttempts}회)`
+            : '현재 비밀번호가 올바르지 않습니다'
+        );
+      } else if (err instanceof ApiError && (err.reason === 'locked' || err.reason === 'too_soon')) {
+        const seconds = Math.ceil((data?.retryAfterMs || 0) / 1000);
+        setError(`비밀번호를 여러 번 틀렸습니다. ${seconds}초 후 다시 시도해주세요`);
       } else {
-        setError(data.error || '비밀번호 변경에 실패했습니다');
+        setError(describeApiError(err, '비밀번호 변경 중 오류가 발생했습니다'));
       }
-    } catch (err) {
-      console.error('Password change error:', err);
-      setError('비밀번호 변경 중 오류가 발생했습니다');
     } finally {
       setIsChanging(false);
     }
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useDrag } from 'react-dnd';
-import { Player, PlayerState, Gender, Rank, Team } from '../types/index';
+import { Player, PlayerState, Gender, Rank, Team, MatchExplanation, PlayerMatchExplanation, GameRecord } from '../types/index';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
@@ -9,6 +9,7 @@ import { ItemTypes } from './DraggablePlayerChip';
 import { PlayerHistoryDialog } from './PlayerHistoryDialog';
 import { SwapPlayerWithTeamDialog } from './SwapPlayerWithTeamDialog';
 import { AdjustGameCountModal } from './AdjustGameCountModal';
+import { PlayerExplanationPopover } from './MatchExplanationPopover';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -34,6 +35,8 @@ interface PlayerPanelProps {
   onReturnToWaiting: (playerId: string, teamId: string) => void;
   onSwapPlayer?: (waitingPlayerId: string, teamId: string, queuedPlayerId: string) => void;
   onRemoveAllWaiting?: () => void;
+  lastMatch?: MatchExplanation | null;
+  games?: GameRecord[];
   readOnly?: boolean;
 }
 
@@ -64,6 +67,8 @@ export function PlayerPanel({
   onReturnToWaiting,
   onSwapPlayer,
   onRemoveAllWaiting,
+  lastMatch,
+  games,
   readOnly,
 }: PlayerPanelProps) {
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -154,6 +159,8 @@ export function PlayerPanel({
                 onUpdatePlayer={onUpdatePlayer}
                 getNextState={getNextState}
                 onSwapPlayer={onSwapPlayer}
+                matchExplanation={lastMatch?.players[player.id]}
+                games={games}
                 readOnly={readOnly}
               />
             ))
@@ -254,6 +261,8 @@ interface WaitingPlayerCardProps {
   onUpdatePlayer: (id: string, updates: Partial<Player>) => void;
   getNextState: (current: PlayerState) => PlayerState;
   onSwapPlayer?: (waitingPlayerId: string, teamId: string, queuedPlayerId: string) => void;
+  matchExplanation?: PlayerMatchExplanation;
+  games?: GameRecord[];
   readOnly?: boolean;
 }
 
@@ -272,6 +281,8 @@ function WaitingPlayerCard({
   onUpdatePlayer,
   getNextState,
   onSwapPlayer,
+  matchExplanation,
+  games,
   readOnly,
 }: WaitingPlayerCardProps) {
   const [showHistory, setShowHistory] = useState(false);
@@ -381,6 +392,10 @@ function WaitingPlayerCard({
               <span className="text-xs text-gray-700 font-mono">{player.gameCount}회</span>
             )}
             <div className="flex items-center gap-1">
+              {/* Why this player was left out of the last auto match */}
+              {matchExplanation && matchExplanation.teamId === null && (
+                <PlayerExplanationPopover explanation={matchExplanation} />
+              )}
               <Button
                 size="sm"
                 variant="ghost"
@@ -409,6 +424,7 @@ function WaitingPlayerCard({
       <PlayerHistoryDialog
         player={player}
         allPlayers={allPlayers}
+        games={games}
         open={showHistory}
         onOpenChange={setShowHistory}
       />
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { Member, RatingHistoryEntry } from '../types';
+import { membersApi } from '../utils/api/membersApi';
+import { isAbortError } from '../utils/api/errors';
+import { getMemberRating } from '../utils/rating';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { TrendingUp } from 'lucide-react';
+
+interface RatingHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  member: Member | null;
+}
+
+function formatDateTime(date: Date) {
+  return date.toLocaleString('ko-KR', {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
+function formatDelta(delta: number) {
+  const rounded = Math.round(delta * 10) / 10;
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
+
+export function RatingHistoryDialog({ open, onOpenChange, member }: RatingHistoryDialogProps) {
+  const [history, setHistory] = useState<RatingHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    if (!open || !member) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setLoadError(false);
+    membersApi.getRatingHistory(member.id, controller.signal)
+      .then((entries) => {
+        if (controller.signal.aborted) return;
+        setHistory(entries);
+        setIsLoading(false);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        setLoadError(true);
+        setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [open, member?.id]);
+
+  if (!member) return null;
+
+  // Oldest first for the chart, newest first for the list
+  const chronological = [...history].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const points = chronological.length > 0
+    ? [chronological[0].ratingBefore, ...chronological.map((entry) => entry.ratingAfter)]
+    : [];
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  const range = max - min || 1;
+  const polyline = points
+    .map((rating, idx) => `${(idx / (points.length - 1)) * 100},${36 - ((rating - min) / range) * 32}`)
+    .join(' ');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TrendingUp className="size-5 text-blue-600" />
+            {member.name} 레이팅 기록
+          </DialogTitle>
+          <DialogDescription>
+            경기 결과가 기록될 때마다 자동으로 계산됩니다. 첫 레이팅은 급수에서 시작합니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2 text-center">
+          <div className="bg-gray-50 rounded px-2 py-1.5">
+            <p className="text-[10px] text-gray-500">현재 레이팅</p>
+            <p className="text-sm font-semibold">{Math.round(getMemberRating(member))}</p>
+          </div>
+          <div className="bg-gray-50 rounded px-2 py-1.5">
+            <p className="text-[10px] text-gray-500">반영된 경기</p>
+            <p className="text-sm font-semibold">{member.ratingGames || 0}경기</p>
+          </div>
+        </div>
+
+        {points.length > 1 && (
+          <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-16 bg-blue-50/40 rounded">
+            <polyline
+              points={polyline}
+              fill="none"
+              stroke="#2563eb"
+              strokeWidth="1.5"
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-1.5">
+          {isLoading ? (
+            <p className="text-xs text-gray-400 text-center py-6">불러오는 중...</p>
+          ) : loadError ? (
+            <p className="text-xs text-red-500 text-center py-6">기록을 불러오지 못했습니다</p>
+          ) : chronological.length === 0 ? (
+            <p className="text-xs text-gray-400 text-center py-6">아직 레이팅에 반영된 경기가 없습니다</p>
+          ) : (
+            [...chronological].reverse().map((entry) => {
+              const delta = entry.ratingAfter - entry.ratingBefore;
+              return (
+                <div key={entry.id} className="flex items-center justify-between px-2.5 py-1.5 rounded-md border bg-white">
+                  <span className="text-[11px] text-gray-500">{formatDateTime(entry.createdAt)}</span>
+                  <span className="text-xs text-gray-900">
+                    {Math.round(entry.ratingBefore)} → {Math.round(entry.ratingAfter)}
+                    <span className={`ml-2 font-semibold ${delta >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {formatDelta(delta)}
+                    </span>
+                  </span>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
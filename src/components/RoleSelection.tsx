@@ -1,9 +1,9 @@
 import { Users, Shield, Lock, ArrowLeft } from 'lucide-react';
 import addictonLogo from 'figma:asset/3326f21ff08f9b7816589961d903cd0071089100.png';
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
-import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { auth } from '../utils/api/auth';
 
 interface RoleSelectionProps {
   onSelectRole: (role: 'admin' | 'member') => void;
@@ -15,6 +15,30 @@ export function RoleSelection({ onSelectRole, onLoginSuccess }: RoleSelectionPro
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while the server makes us wait before the next attempt
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) setRetryAt(null);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const cooldownSeconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+  const isCoolingDown = cooldownSeconds > 0;
+
+  const formatCooldown = (seconds: number) => {
+    if (seconds < 60) return `${seconds}초`;
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return rest > 0 ? `${minutes}분 ${rest}초` : `${minutes}분`;
+  };
 
   const handleAdminClick = () => {
     setShowPasswordInput(true);
@@ -25,12 +49,15 @@ export function RoleSelection({ onSelectRole, onLoginSuccess }: RoleSelectionPro
   const handleBack = () => {
     setShowPasswordInput(false);
     setPassword('');
-    setError('');
+    // Keep a running cooldown (and its message) so going back and forth does not hide it
+    if (!isCoolingDown) setError('');
   };
 
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (isCoolingDown) return;
+
     if (!password) {
       setError('비밀번호를 입력해주세요');
       return;
@@ -40,38 +67,44 @@ export function RoleSelection({ onSelectRole, onLoginSuccess }: RoleSelectionPro
     setError('');
 
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-41b22d2d/admin-password/verify`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${publicAnonKey}`,
-          },
-          body: JSON.stringify({ password }),
-        }
-      );
+      const result = await auth.login(password);
 
-      const data = await response.json();
-
-      if (data.valid) {
+      if (result.ok) {
+        setRemainingAttempts(null);
         onSelectRole('admin');
         if (onLoginSuccess) {
           onLoginSuccess();
         }
-      } else {
+        return;
+      }
+
+      if (result.remainingAttempts !== undefined) {
+        setRemainingAttempts(result.remainingAttempts);
+      }
+      if (result.retryAfterMs) {
+        setNow(Date.now());
+        setRetryAt(Date.now() + result.retryAfterMs);
+      }
+
+      if (result.reason === 'locked') {
+        setError('비밀번호를 여러 번 틀려 잠시 잠겼습니다');
+        setPassword('');
+      } else if (result.reason === 'too_soon') {
+        setError('잠시 후 다시 시도해주세요');
+      } else if (result.reason === 'invalid_password') {
         setError('비밀번호가 올바르지 않습니다');
         setPassword('');
+      } else {
+        setError('비밀번호 확인 중 오류가 발생했습니다');
       }
-    } catch (err) {
-      console.error('Password verification error:', err);
-      setError('비밀번호 확인 중 오류가 발생했습니다');
     } finally {
       setIsVerifying(false);
     }
   };
 
   const handleMemberClick = () => {
+    // Members browse without a session; drop any admin token left on this device
+    auth.logout();
     onSelectRole('member');
     if (onLoginSuccess) {
       onLoginSuccess();
@@ -114,7 +147,7 @@ export function RoleSelection({ onSelectRole, onLoginSuccess }: RoleSelectionPro
                   value={password}
                   onChange={(e) => {
                     setPassword(e.target.value);
-                    setError('');
+                    if (!isCoolingDown) setError('');
                   }}
                   className="h-12 text-center text-lg"
                   autoFocus
@@ -123,14 +156,24 @@ export function RoleSelection({ onSelectRole, onLoginSuccess }: RoleSelectionPro
                 {error && (
                   <p className="text-sm text-red-600 mt-2 text-center">{error}</p>
                 )}
+                {remainingAttempts !== null && remainingAttempts > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1 text-center">
+                    남은 시도 {remainingAttempts}회 (모두 틀리면 잠시 잠깁니다)
+                  </p>
+                )}
+                {isCoolingDown && (
+                  <p className="text-xs text-amber-700 mt-1 text-center">
+                    {formatCooldown(cooldownSeconds)} 후 다시 시도할 수 있습니다
+                  </p>
+                )}
               </div>
 
               <Button
                 type="submit"
                 className="w-full h-12 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-semibold"
-                disabled={isVerifying}
+                disabled={isVerifying || isCoolingDown}
               >
-                {isVerifying ? '확인 중...' : '입장하기'}
+                {isVerifying ? '확인 중...' : isCoolingDown ? `${formatCooldown(cooldownSeconds)} 대기` : '입장하기'}
               </Button>
             </form>
           </div>
@@ -1,9 +1,11 @@
-import { Team, Player } from '../types';
+import { Team, Player, TeamPairing, MatchExplanation } from '../types';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Play, X } from 'lucide-react';
+import { Play, X, Shuffle } from 'lucide-react';
 import { DroppableTeamPlayer } from './DroppableTeamPlayer';
+import { getPairedSides, nextPairing } from '../utils/matching';
+import { TeamExplanationPopover } from './MatchExplanationPopover';
 
 interface TeamCardProps {
   team: Team;
@@ -16,11 +18,17 @@ interface TeamCardProps {
   readOnly?: boolean;
   isAdmin?: boolean;
   onReturnToWaiting?: (playerId: string, teamId: string) => void;
+  onUpdatePairing?: (teamId: string, pairing: TeamPairing) => void;
+  matchExplanation?: MatchExplanation | null;
 }
 
-export function TeamCard({ team, players, onStartGame, onDeleteTeam, onSwapPlayer, onSwapBetweenTeams, availableCourtCount, readOnly, isAdmin, onReturnToWaiting }: TeamCardProps) {
+export function TeamCard({ team, players, onStartGame, onDeleteTeam, onSwapPlayer, onSwapBetweenTeams, availableCourtCount, readOnly, isAdmin, onReturnToWaiting, onUpdatePairing, matchExplanation }: TeamCardProps) {
   const teamPlayers = players.filter((p) => team.playerIds.includes(p.id));
   
+  // With a pairing, side A is the top row and side B the bottom row of the grid
+  const pairedSides = getPairedSides(team, players);
+  const gridPlayers = pairedSides ? [...pairedSides[0], ...pairedSides[1]] : teamPlayers;
+  
   // Check if any player in the team is currently playing
   const hasPlayingPlayer = teamPlayers.some(p => p.state === 'playing');
   
@@ -48,6 +56,9 @@ export function TeamCard({ team, players, onStartGame, onDeleteTeam, onSwapPlaye
           <div className="flex items-center gap-2">
             <div className={`size-2 rounded-full ${hasPlayingPlayer ? 'bg-amber-500' : 'bg-orange-500'} animate-pulse`}></div>
             <span className="font-semibold text-sm md:text-base">{team.name}</span>
+            {matchExplanation && (
+              <TeamExplanationPopover teamId={team.id} players={players} explanation={matchExplanation} />
+            )}
             {hasPlayingPlayer && (
               <Badge variant="outline" className="text-[10px] bg-amber-50 text-amber-700 border-amber-300">
                 게임중 포함
@@ -55,6 +66,18 @@ export function TeamCard({ team, players, onStartGame, onDeleteTeam, onSwapPlaye
             )}
           </div>
           <div className="flex gap-1.5 md:gap-2">
+            {!readOnly && isAdmin && team.pairing && onUpdatePairing && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onUpdatePairing(team.id, nextPairing(team.pairing!))}
+                className="h-8 md:h-9 px-2 md:px-3 text-[10px] md:text-xs active:scale-95 transition-all touch-manipulation"
+                title="페어 변경"
+              >
+                <Shuffle className="size-3 md:size-3.5 mr-1" />
+                페어 변경
+              </Button>
+            )}
             {!readOnly && isAdmin && team.state === 'queued' && onStartGame && (
               <Button 
                 size="sm" 
@@ -88,9 +111,20 @@ export function TeamCard({ team, players, onStartGame, onDeleteTeam, onSwapPlaye
         ) : teamPlayers.length === 4 ? (
           // 4 players: Show 2x2 grid with connection lines
           <div className="relative px-2 md:px-4 xl:px-8 py-3 md:py-4 xl:py-6">
+            {/* Side A / side B legend */}
+            {pairedSides && (
+              <div className="flex items-center justify-center gap-2 mb-3 md:mb-4 text-[10px] md:text-xs text-gray-600">
+                <Badge className="bg-blue-600 text-white px-1.5 py-0 h-4 md:h-5 text-[9px] md:text-xs">A</Badge>
+                <span className="truncate">{pairedSides[0].map((p) => p.name).join(' · ')}</span>
+                <span className="font-bold text-gray-400">VS</span>
+                <Badge className="bg-rose-600 text-white px-1.5 py-0 h-4 md:h-5 text-[9px] md:text-xs">B</Badge>
+                <span className="truncate">{pairedSides[1].map((p) => p.name).join(' · ')}</span>
+              </div>
+            )}
+
             {/* Player cards grid */}
             <div className="grid grid-cols-2 gap-x-8 gap-y-12 md:gap-x-12 md:gap-y-16 xl:gap-x-20 xl:gap-y-20 relative mx-auto" style={{ width: 'fit-content' }}>
-              {teamPlayers.map((player, idx) => (
+              {gridPlayers.map((player, idx) => (
                 <div key={player.id} className="relative" style={{ zIndex: 10 }}>
                   <DroppableTeamPlayer
                     player={player}
@@ -124,7 +158,7 @@ export function TeamCard({ team, players, onStartGame, onDeleteTeam, onSwapPlaye
               
               {/* Connection badges */}
               {(() => {
-                const [p0, p1, p2, p3] = teamPlayers;
+                const [p0, p1, p2, p3] = gridPlayers;
                 return (
                   <>
                     {/* Top horizontal: P0 ↔ P1 */}
@@ -1,50 +1,92 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, SetStateAction } from 'react';
 import { flushSync } from 'react-dom';
-import { AppState, Player, Team, Court, Session, PlayerState, AuditLog, Member, Gender, Rank } from '../types';
-import { autoMatch, updatePriorityStatus } from '../utils/matching';
+import { AppState, Player, Team, Court, Session, GameRecord, GameResult, AutoSeatResult, RatingSource, PlayerState, AuditLog, Member, Gender, Rank, TeamPairing, GameType, ScoringModel, OptimizerWeights } from '../types';
+import { proposeMatches, AutoMatchResult, updatePriorityStatus, pairTeam, createPlayerScorer, reconcilePairing, getGameRelations, DEFAULT_SCORING_MODEL, parseScoringModel } from '../utils/matching';
+import { DEFAULT_OPTIMIZER_WEIGHTS, parseOptimizerWeights } from '../utils/teamOptimizer';
+import { computeRatingUpdates, getPlayerRatings, getMemberRating } from '../utils/rating';
+import { indexToLetter, createInitialCourts, assignPlayingTeams } from '../utils/courts';
+import { RealtimeChange, applyRealtimeChange } from '../utils/realtime';
+import { ConflictNotice, describeConflict, applyConflictRows } from '../utils/conflicts';
+import { getAuditSubjects } from '../utils/audit';
+import { UndoEntry, UndoRecording, GameSnapshot, UNDO_LIMIT, createUndoRecording, recordChanges, diffSnapshots, hasChanges, applySnapshotChanges } from '../utils/undo';
 import { createInitialMembers } from '../data/initialMembers';
 import { membersApi } from '../utils/api/membersApi';
 import { playersApi } from '../utils/api/playersApi';
 import { teamsApi } from '../utils/api/teamsApi';
+import { gameOpsApi, GameOpState } from '../utils/api/gameOpsApi';
 import { settingsApi } from '../utils/api/settingsApi';
+import { ConflictError } from '../utils/api/errors';
 import { batchApi } from '../utils/api/batchApi';
+import { auditApi } from '../utils/api/auditApi';
+import { outbox, OutboxStatus } from '../utils/api/outbox';
+import { saveStateSnapshot, loadStateSnapshot } from '../utils/localDb';
+import type { AuditEventRow } from '../supabase/functions/_shared/schemas';
 
-// Convert index to letter (0 -> A, 1 -> B, ..., 25 -> Z, 26 -> AA, etc.)
-function indexToLetter(index: number): string {
-  let result = '';
-  let num = index;
-  while (num >= 0) {
-    result = String.fromCharCode(65 + (num % 26)) + result;
-    num = Math.floor(num / 26) - 1;
-  }
-  return result;
+// Session date in the same YYYY-MM-DD format used for Session.date
+function getTodayDate(): string {
+  return new Date().toISOString().split('T')[0];
 }
 
-function createInitialCourts(count: number): Court[] {
-  return Array.from({ length: count }, (_, i) => ({
-    id: `court-${i}`,
-    index: i + 1,
-    name: indexToLetter(i),
-    status: 'available' as const,
-    timerMs: 0,
-    currentTeamId: null,
-    isPaused: false,
-  }));
+// Snapshot of a finished game for the match history
+function createGameRecord(
+  team: Team,
+  court: Court,
+  players: Player[],
+  session: Session | null,
+  endedAt: Date,
+  result: GameResult | null = null
+): GameRecord {
+  return {
+    id: `game-${endedAt.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    sessionId: session?.id || '',
+    sessionDate: session?.date || getTodayDate(),
+    teamId: team.id,
+    courtId: court.id,
+    courtName: court.name,
+    playerIds: [...team.playerIds],
+    playerNames: team.playerIds.map((id) => players.find((p) => p.id === id)?.name || '알 수 없음'),
+    pairing: team.pairing || null,
+    startedAt: team.startedAt,
+    endedAt,
+    durationMs: team.startedAt ? endedAt.getTime() - team.startedAt.getTime() : null,
+    result,
+  };
+}
+
+// Row version after a write that expected `expectedVersion` went through.
+// The realtime echo of the write may already have set it.
+function nextVersion(current: number | undefined, expectedVersion: number | undefined): number | undefined {
+  if (expectedVersion === undefined) return current;
+  return Math.max(current ?? 0, expectedVersion + 1);
+}
+
+// Take teams and players from the database state returned by a game operation route
+function withServerState(prev: AppState, server: GameOpState): AppState {
+  const teams = server.teams.filter((t) => t.state === 'queued' || t.state === 'playing');
+
+  return {
+    ...prev,
+    teams,
+    courts: assignPlayingTeams(prev.courts, teams),
+    players: updatePriorityStatus(server.players),
+  };
 }
 
 export function useGameState() {
-  const [state, setState] = useState<AppState>(() => {
+  const [state, setRawState] = useState<AppState>(() => {
     console.log('🔍 Initializing state from Supabase only...');
     
     // Create default session
     const defaultSession: Session = {
       id: `session-${Date.now()}`,
       name: '에딕턴 게임 매칭',
-      date: new Date().toISOString().split('T')[0],
+      date: getTodayDate(),
       courtsCount: 4,
       teamSize: 4,
       gameDurationMin: 15,
       autoSeatNext: true,
+      gameType: 'free',
+      ratingSource: 'rank',
       createdAt: new Date(),
     };
     
@@ -55,27 +97,79 @@ export function useGameState() {
       players: [],
       teams: [],
       courts: createInitialCourts(4),
+      games: [],
       auditLogs: [],
+      scoringModel: DEFAULT_SCORING_MODEL,
+      optimizerWeights: DEFAULT_OPTIMIZER_WEIGHTS,
     };
   });
 
+  // Latest state for callbacks that outlive the render they were created in (undo/redo)
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Actions running under trackUndo, by undo entry id. Updates made here go through setState and
+  // are recorded; changes from other devices use setRawState and never end up in an undo entry.
+  const undoRecordingsRef = useRef(new Map<string, UndoRecording>());
+  const setState = useCallback((update: SetStateAction<AppState>) => {
+    setRawState((prev) => {
+      const next = typeof update === 'function' ? update(prev) : update;
+      undoRecordingsRef.current.forEach((recording) => recordChanges(recording, prev, next));
+      return next;
+    });
+  }, []);
+  const [conflict, setConflict] = useState<ConflictNotice | null>(null);
+  const conflictCountRef = useRef(0);
+
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const [outboxStatus, setOutboxStatus] = useState<OutboxStatus>(() => outbox.getStatus());
+  // Saving the local snapshot starts once it has been read, so the defaults never overwrite it
+  const [isSnapshotRestored, setIsSnapshotRestored] = useState(false);
+
   // Load ALL data from Supabase on initial mount
   useEffect(() => {
     const loadFromSupabase = async () => {
+      // Last known state of this device first, so the app works right away even without a connection
+      try {
+        const snapshot = await loadStateSnapshot();
+        if (snapshot) {
+          console.log('💾 Restored local snapshot:', { players: snapshot.players.length, teams: snapshot.teams.length });
+          setState((prev) => ({ ...prev, ...snapshot }));
+        }
+      } catch (error) {
+        console.error('⚠️ Failed to read local snapshot:', error);
+      }
+      setIsSnapshotRestored(true);
+
+      // Queued mutations are not on the server yet: keep the local state until they are replayed
+      const pendingCount = await outbox.getPendingCount();
+      if (pendingCount > 0) {
+        console.log(`⏳ ${pendingCount} queued mutations, keeping local state until they are replayed`);
+        return;
+      }
+
       try {
         console.log('🔄 Loading all data from Supabase...');
         const startTime = performance.now();
         
         // ⚡ BATCH LOADING - Get all data in one request
-        const { members: membersFromDb, players: playersFromDb, teams: teamsFromDb, settings } = await batchApi.getAllData();
+        const { members: membersFromDb, players: playersFromDb, teams: teamsFromDb, games: gamesFromDb, settings } = await batchApi.getAllData(getTodayDate());
         
         const courtsCount = settings.courts_count ? parseInt(settings.courts_count, 10) : 4;
         const courtNamesMap: Record<string, string> = settings.court_names ? JSON.parse(settings.court_names) : {};
+        const gameType = (settings.game_type || 'free') as GameType;
+        const ratingSource = (settings.rating_source || 'rank') as RatingSource;
+        const gameDurationMin = settings.game_duration_min ? parseInt(settings.game_duration_min, 10) : 15;
+        const autoSeatNext = settings.auto_seat_next !== undefined ? String(settings.auto_seat_next) === 'true' : true;
+        const scoringModel = parseScoringModel(settings.scoring_model);
+        const optimizerWeights = parseOptimizerWeights(settings.optimizer_weights);
         
         const loadTime = performance.now() - startTime;
         console.log(`⚡ Batch loaded all data in ${loadTime.toFixed(0)}ms: ${courtsCount} courts, ${membersFromDb.length} members, ${playersFromDb.length} players, ${teamsFromDb.length} teams`);
         
         let activeTeams = teamsFromDb.filter(t => t.state === 'queued' || t.state === 'playing');
+        let loadedPlayers = playersFromDb;
         
         // 🧹 DATA CLEANUP: Fix teams that exceed court capacity
         const playingTeams = activeTeams.filter(t => t.state === 'playing');
@@ -91,40 +185,32 @@ export function useGameState() {
           
           console.log(`   Keeping ${teamsToKeepPlaying.length} playing teams, moving ${teamsToMoveToQueued.length} back to queued`);
           
-          // Update teams and players in parallel using batches
-          if (teamsToMoveToQueued.length > 0) {
-            // Prepare all team updates
-            const teamUpdatePromises = teamsToMoveToQueued.map(team =>
-              teamsApi.update(team.id, {
-                state: 'queued',
-                assignedCourtId: null,
-                startedAt: null,
-              })
-            );
-            
-            // Prepare all player updates in one batch
-            const allPlayerUpdates = teamsToMoveToQueued.flatMap(team =>
-              team.playerIds.map(playerId => ({
-                playerId,
-                updates: { state: 'queued' as const }
-              }))
-            );
-            
-            // Execute all updates in parallel
-            await Promise.all([
-              ...teamUpdatePromises,
-              allPlayerUpdates.length > 0 ? playersApi.updateBatch(allPlayerUpdates) : Promise.resolve()
-            ]);
-            
-            console.log(`   ✅ Moved ${teamsToMoveToQueued.length} teams and ${allPlayerUpdates.length} players back to queued`);
+          // One return per team at the version just loaded: a team another device changed meanwhile
+          // stays as the server has it. The last result has every return that went through.
+          let serverState: GameOpState | null = null;
+          let movedCount = 0;
+          for (const team of teamsToMoveToQueued) {
+            const result = await gameOpsApi.returnGame(team.id, team.version);
+            if (result.state) serverState = result.state;
+            if (result.ok) {
+              movedCount++;
+            } else {
+              console.log(`   ⚠️ Server rejected returning team ${team.id}: ${result.reason}`);
+            }
           }
+          console.log(`   ✅ Moved ${movedCount} teams back to queued`);
           
           // Refresh active teams
-          activeTeams = [
-            ...teamsToKeepPlaying,
-            ...teamsToMoveToQueued.map(t => ({ ...t, state: 'queued' as const, assignedCourtId: null })),
-            ...activeTeams.filter(t => t.state === 'queued')
-          ];
+          if (serverState) {
+            activeTeams = serverState.teams.filter(t => t.state === 'queued' || t.state === 'playing');
+            loadedPlayers = serverState.players;
+          } else {
+            activeTeams = [
+              ...teamsToKeepPlaying,
+              ...teamsToMoveToQueued.map(t => ({ ...t, state: 'queued' as const, assignedCourtId: null, startedAt: null })),
+              ...activeTeams.filter(t => t.state === 'queued')
+            ];
+          }
           
           console.log(`✅ CLEANUP complete: ${teamsToKeepPlaying.length} playing, ${activeTeams.filter(t => t.state === 'queued').length} queued`);
         }
@@ -183,7 +269,7 @@ export function useGameState() {
           
           // Update player states based on teams
           const teamPlayerIds = new Set(activeTeams.flatMap(t => t.playerIds));
-          const restoredPlayers = playersFromDb.map(player => {
+          const restoredPlayers = loadedPlayers.map(player => {
             if (!teamPlayerIds.has(player.id)) return player;
             
             const playerTeam = activeTeams.find(t => t.playerIds.includes(player.id));
@@ -204,11 +290,14 @@ export function useGameState() {
           
           return {
             ...prev,
-            session: prev.session ? { ...prev.session, courtsCount } : prev.session,
+            session: prev.session ? { ...prev.session, courtsCount, gameType, ratingSource, gameDurationMin, autoSeatNext } : prev.session,
+            scoringModel,
+            optimizerWeights,
             members: membersFromDb,
             players: restoredPlayers,
             teams: activeTeams,
             courts: restoredCourts,
+            games: gamesFromDb,
           };
         });
       } catch (error) {
@@ -219,19 +308,33 @@ export function useGameState() {
     loadFromSupabase();
   }, []); // Run only once on mount
 
-  const addAuditLog = useCallback((type: string, payload: any) => {
+  // Kept in the state for this session and recorded on the server for the activity feed
+  const addAuditLog = useCallback((type: string, payload: AuditEventRow['payload']) => {
     const log: AuditLog = {
       id: `log-${Date.now()}-${Math.random()}`,
       type,
       payload,
       timestamp: new Date(),
+      ...getAuditSubjects(stateRef.current, payload),
     };
+    auditApi.record(log);
     setState((prev) => ({
       ...prev,
       auditLogs: [...prev.auditLogs, log],
     }));
   }, []);
 
+  // Another device changed the rows a write expected: take the server's rows and show what changed
+  const resolveConflict = useCallback((action: string, error: ConflictError) => {
+    console.log(`⚠️ ${action} rejected, ${error.table} changed on another device:`, error.ids);
+    conflictCountRef.current += 1;
+    setConflict(describeConflict(action, stateRef.current, error));
+    setRawState((prev) => applyConflictRows(prev, error));
+    addAuditLog('write_conflict', { action, table: error.table, ids: error.ids });
+  }, [addAuditLog]);
+
+  const dismissConflict = useCallback(() => setConflict(null), []);
+
   const createSession = useCallback((name: string, date: string, courtsCount: number) => {
     const session: Session = {
       id: `session-${Date.now()}`,
@@ -241,15 +344,18 @@ export function useGameState() {
       teamSize: 4,
       gameDurationMin: 15,
       autoSeatNext: true,
+      gameType: 'free',
+      ratingSource: 'rank',
       createdAt: new Date(),
     };
-    setState({
+    setState((prev) => ({
+      ...prev,
       session,
       players: [],
       teams: [],
       courts: createInitialCourts(courtsCount),
       auditLogs: [],
-    });
+    }));
     addAuditLog('session_created', { sessionId: session.id });
   }, [addAuditLog]);
 
@@ -290,6 +396,42 @@ export function useGameState() {
         });
       }
       
+      // Save game type to Supabase settings
+      if (updates.gameType !== undefined && updates.gameType !== prev.session.gameType) {
+        settingsApi.set('game_type', updates.gameType).then(() => {
+          console.log(`✅ Saved gameType ${updates.gameType} to Supabase settings`);
+        }).catch((error) => {
+          console.error('Failed to save gameType to Supabase:', error);
+        });
+      }
+      
+      // Save rating source to Supabase settings
+      if (updates.ratingSource !== undefined && updates.ratingSource !== prev.session.ratingSource) {
+        settingsApi.set('rating_source', updates.ratingSource).then(() => {
+          console.log(`✅ Saved ratingSource ${updates.ratingSource} to Supabase settings`);
+        }).catch((error) => {
+          console.error('Failed to save ratingSource to Supabase:', error);
+        });
+      }
+      
+      // Save game duration to Supabase settings
+      if (updates.gameDurationMin !== undefined && updates.gameDurationMin !== prev.session.gameDurationMin) {
+        settingsApi.set('game_duration_min', updates.gameDurationMin).then(() => {
+          console.log(`✅ Saved gameDurationMin ${updates.gameDurationMin} to Supabase settings`);
+        }).catch((error) => {
+          console.error('Failed to save gameDurationMin to Supabase:', error);
+        });
+      }
+      
+      // Save auto seating to Supabase settings
+      if (updates.autoSeatNext !== undefined && updates.autoSeatNext !== prev.session.autoSeatNext) {
+        settingsApi.set('auto_seat_next', String(updates.autoSeatNext)).then(() => {
+          console.log(`✅ Saved autoSeatNext ${updates.autoSeatNext} to Supabase settings`);
+        }).catch((error) => {
+          console.error('Failed to save autoSeatNext to Supabase:', error);
+        });
+      }
+      
       return {
         ...prev,
         session: newSession,
@@ -344,19 +486,24 @@ export function useGameState() {
   }, [addAuditLog]);
 
   const updatePlayer = useCallback(async (playerId: string, updates: Partial<Player>) => {
+    const expectedVersion = stateRef.current.players.find((p) => p.id === playerId)?.version;
     try {
       // Update in Supabase first
-      await playersApi.update(playerId, updates);
+      await playersApi.update(playerId, updates, expectedVersion);
       
       // Update local state
       setState((prev) => ({
         ...prev,
         players: prev.players.map((p) =>
-          p.id === playerId ? { ...p, ...updates } : p
+          p.id === playerId ? { ...p, ...updates, version: nextVersion(p.version, expectedVersion) } : p
         ),
       }));
       addAuditLog('player_updated', { playerId, updates });
     } catch (error) {
+      if (error instanceof ConflictError) {
+        resolveConflict('참가자 수정', error);
+        return;
+      }
       console.error('Failed to update player in Supabase:', error);
       // Still update local state even if API fails
       setState((prev) => ({
@@ -367,7 +514,7 @@ export function useGameState() {
       }));
       addAuditLog('player_updated', { playerId, updates });
     }
-  }, [addAuditLog]);
+  }, [addAuditLog, resolveConflict]);
 
   const deletePlayer = useCallback(async (playerId: string) => {
     try {
@@ -441,9 +588,11 @@ export function useGameState() {
       console.log(`📤 Updating ${playerIds.length} player(s) state to ${newState}...`);
       
       // Update Supabase FIRST using batch update
+      const versions = new Map(stateRef.current.players.map((p) => [p.id, p.version]));
       const playerUpdates = playerIds.map(playerId => ({
         playerId,
-        updates: { state: newState }
+        updates: { state: newState },
+        expectedVersion: versions.get(playerId),
       }));
       await playersApi.updateBatch(playerUpdates);
       console.log(`✅ Updated ${playerIds.length} player(s) state in Supabase`);
@@ -452,12 +601,18 @@ export function useGameState() {
       setState((prev) => ({
         ...prev,
         players: prev.players.map((p) =>
-          playerIds.includes(p.id) ? { ...p, state: newState } : p
+          playerIds.includes(p.id)
+            ? { ...p, state: newState, version: nextVersion(p.version, versions.get(p.id)) }
+            : p
         ),
       }));
       
       addAuditLog('player_state_updated', { playerIds, newState });
     } catch (error) {
+      if (error instanceof ConflictError) {
+        resolveConflict('참가자 상태 변경', error);
+        return;
+      }
       console.error('❌ Failed to update player state in Supabase:', error);
       // Still update local state even if API fails
       setState((prev) => ({
@@ -469,118 +624,136 @@ export function useGameState() {
       addAuditLog('player_state_updated', { playerIds, newState, error: String(error) });
       throw error;
     }
-  }, [addAuditLog]);
+  }, [addAuditLog, resolveConflict]);
 
-  const performAutoMatch = useCallback(async () => {
+  // Dry run of the auto matcher: the best few candidate matchings for the current waiting list.
+  // Nothing is saved and no state changes until one is passed to commitMatchProposal.
+  const previewAutoMatch = useCallback((count = 3): AutoMatchResult[] => {
+    const currentState = state;
+
+    if (!currentState.session) {
+      console.log('⚠️ No session found');
+      return [];
+    }
+
+    // 최대 대기 팀 수 = 총 코트 수
+    // 새로 생성 가능한 팀 수 = 총 코트 수 - 현재 대기 팀 수
+    const totalCourts = currentState.session.courtsCount;
+    const currentQueuedTeams = currentState.teams.filter(t => t.state === 'queued').length;
+    const maxNewTeams = Math.max(0, totalCourts - currentQueuedTeams);
+
+    if (maxNewTeams === 0) {
+      console.log('  ⚠️ No room for new teams - already have', currentQueuedTeams, 'queued teams (max:', totalCourts, ')');
+      return [];
+    }
+
+    const proposals = proposeMatches(
+      currentState.players,
+      currentState.session.teamSize,
+      maxNewTeams,
+      {
+        gameType: currentState.session.gameType,
+        scoringModel: currentState.scoringModel,
+        ratingSource: currentState.session.ratingSource,
+        ratings: getPlayerRatings(currentState.players, currentState.members),
+        optimizerWeights: currentState.optimizerWeights,
+      },
+      count
+    );
+
+    console.log(`🔍 Previewed ${proposals.length} match proposals (max ${maxNewTeams} teams each)`);
+    return proposals;
+  }, [state]);
+
+  const commitMatchProposal = useCallback(async (proposal: AutoMatchResult) => {
     try {
-      // First, calculate what teams to create OUTSIDE of setState
-      let newTeamsToCreate: Team[] = [];
-      let playersToUpdate: string[] = [];
-      
-      // Get current state to calculate teams
-      const currentState = state;
-      
-      if (!currentState.session) {
-        console.log('⚠️ No session found');
-        return;
-      }
-      
-      console.log('🎯 Auto Match Started');
-      console.log('  Total players:', currentState.players.length);
-      console.log('  Player states:', currentState.players.reduce((acc, p) => {
-        acc[p.state] = (acc[p.state] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>));
-      
-      // Calculate max teams based on total courts AND current queued teams
-      const totalCourts = currentState.session.courtsCount;
-      const currentQueuedTeams = currentState.teams.filter(t => t.state === 'queued').length;
-      const playingTeams = currentState.teams.filter(t => t.state === 'playing').length;
-      
-      console.log('  Total courts:', totalCourts);
-      console.log('  Queued teams:', currentQueuedTeams);
-      console.log('  Playing teams:', playingTeams);
-      
-      // 최대 대기 팀 수 = 총 코트 수
-      // 새로 생성 가능한 팀 수 = 총 코트 수 - 현재 대기 팀 수
-      const maxNewTeams = Math.max(0, totalCourts - currentQueuedTeams);
-      
-      console.log('  Max new teams to create:', maxNewTeams);
-      
-      // If no room for new teams, don't create any
-      if (maxNewTeams === 0) {
-        console.log('  ⚠️ No room for new teams - already have', currentQueuedTeams, 'queued teams (max:', totalCourts, ')');
-        return;
+      const newTeamsToCreate = proposal.teams;
+      const playersToUpdate = newTeamsToCreate.flatMap((t) => t.playerIds);
+
+      // The proposal was computed from an earlier snapshot - make sure nobody was matched or left since
+      const stalePlayers = playersToUpdate.filter((playerId) => {
+        const player = state.players.find((p) => p.id === playerId);
+        return !player || (player.state !== 'waiting' && player.state !== 'priority');
+      });
+      if (stalePlayers.length > 0) {
+        console.log('⚠️ Match proposal is out of date, players no longer waiting:', stalePlayers);
+        throw new Error('대기 목록이 바뀌어 이 후보를 확정할 수 없습니다. 다시 미리보기 해주세요.');
       }
-      
-      const { teams: newTeams } = autoMatch(currentState.players, currentState.session.teamSize, maxNewTeams);
-      
-      console.log('  ✅ Created', newTeams.length, 'new teams');
-      console.log('  Teams:', newTeams.map((t, i) => ({
+
+      console.log('  Teams:', newTeamsToCreate.map((t, i) => ({
         team: i + 1,
         players: t.playerIds.length,
-        playerNames: currentState.players.filter(p => t.playerIds.includes(p.id)).map(p => p.name)
+        playerNames: state.players.filter(p => t.playerIds.includes(p.id)).map(p => p.name)
       })));
       
-      // Store teams to be created
-      newTeamsToCreate = newTeams;
-      playersToUpdate = newTeams.flatMap((t) => t.playerIds);
-      
-      // Save teams and update players in parallel
-      const promises: Promise<any>[] = [];
-      
+      // Save teams and queue their players in one transaction
       if (newTeamsToCreate.length > 0) {
-        console.log(`📤 Saving ${newTeamsToCreate.length} teams to Supabase...`);
-        promises.push(teamsApi.addBatch(newTeamsToCreate));
-      }
-      
-      if (playersToUpdate.length > 0) {
-        console.log(`📤 Batch updating ${playersToUpdate.length} players to queued state...`);
-        const playerUpdates = playersToUpdate.map((playerId) => ({
-          playerId,
-          updates: { state: 'queued' as const }
-        }));
-        promises.push(playersApi.updateBatch(playerUpdates));
-      }
-      
-      // Execute all updates in parallel
-      if (promises.length > 0) {
-        await Promise.all(promises);
-        console.log(`✅ Saved ${newTeamsToCreate.length} teams and updated ${playersToUpdate.length} players in parallel`);
+        console.log(`📤 Committing ${newTeamsToCreate.length} teams to Supabase...`);
+        const opResult = await gameOpsApi.commitMatch(newTeamsToCreate);
+        if (!opResult.ok) {
+          setState((prev) => withServerState(prev, opResult.state));
+          console.log(`⚠️ Server rejected the match proposal: ${opResult.reason}`);
+          throw new Error('대기 목록이 바뀌어 이 후보를 확정할 수 없습니다. 다시 미리보기 해주세요.');
+        }
+        console.log(`✅ Saved ${newTeamsToCreate.length} teams and queued ${playersToUpdate.length} players`);
+        const serverState = opResult.state;
+        setState((prev) => serverState
+          ? { ...withServerState(prev, serverState), lastMatch: proposal.explanation }
+          // Queued offline: show the match locally until the outbox replays it
+          : {
+              ...prev,
+              teams: [...prev.teams, ...newTeamsToCreate],
+              players: prev.players.map((p) =>
+                playersToUpdate.includes(p.id) ? { ...p, state: 'queued' as const } : p
+              ),
+              lastMatch: proposal.explanation,
+            });
+      } else {
+        setState((prev) => ({ ...prev, lastMatch: proposal.explanation }));
       }
       
-      // NOW update local state
-      setState((prev) => {
-        // Update player states to 'queued'
-        const queuedPlayerIds = new Set(playersToUpdate);
-        const updatedPlayers = prev.players.map((p) => {
-          if (queuedPlayerIds.has(p.id)) {
-            return { ...p, state: 'queued' as const };
-          }
-          return p;
-        });
-        
-        return {
-          ...prev,
-          players: updatedPlayers,
-          teams: [...prev.teams, ...newTeamsToCreate],
-        };
+      addAuditLog('auto_match_performed', {
+        gameType: proposal.explanation.gameType,
+        unplacedPlayerIds: proposal.unplacedPlayerIds,
+        cost: proposal.cost?.total ?? null,
       });
       
-      addAuditLog('auto_match_performed', {});
+      return { teams: newTeamsToCreate, unplacedPlayerIds: proposal.unplacedPlayerIds };
     } catch (error) {
-      console.error('❌ Failed to perform auto match:', error);
+      console.error('❌ Failed to commit match proposal:', error);
       addAuditLog('auto_match_performed', { error: String(error) });
       throw error;
     }
   }, [addAuditLog, state]);
 
+  // One-click auto match: commit the best proposal right away
+  const performAutoMatch = useCallback(async () => {
+    console.log('🎯 Auto Match Started');
+    console.log('  Total players:', state.players.length);
+    console.log('  Player states:', state.players.reduce((acc, p) => {
+      acc[p.state] = (acc[p.state] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>));
+
+    const [best] = previewAutoMatch(1);
+    if (!best) {
+      return { teams: [], unplacedPlayerIds: [] };
+    }
+
+    console.log('  ✅ Created', best.teams.length, 'new teams');
+    if (best.unplacedPlayerIds.length > 0) {
+      console.log(`  ⚠️ ${best.unplacedPlayerIds.length} players could not be placed for game type ${best.explanation.gameType}`);
+    }
+
+    return commitMatchProposal(best);
+  }, [state, previewAutoMatch, commitMatchProposal]);
+
   const startGame = useCallback(async (teamId: string, courtId?: string): Promise<{ success: boolean; reason?: string }> => {
     console.log(`🎮 startGame called for teamId: ${teamId}, courtId: ${courtId || 'auto'}`);
     
     try {
-      let playersToUpdate: string[] = [];
       let targetCourtId: string | null = null;
+      let expectedVersion: number | undefined;
       let gameStarted = false;
       let failureReason: string | undefined = undefined;
       
@@ -643,8 +816,8 @@ export function useGameState() {
         console.log(`✅ Court available: ${targetCourt.name} (${targetCourt.id}), starting game... (${playingTeamsCount + 1}/${totalCourts})`);
         
         // Store for Supabase update
-        playersToUpdate = team.playerIds;
         targetCourtId = targetCourt.id;
+        expectedVersion = team.version;
         gameStarted = true;
         
         // Update state
@@ -680,29 +853,19 @@ export function useGameState() {
         return { success: false, reason: failureReason };
       }
       
-      console.log(`✅ Local state updated, now updating Supabase...`);
+      console.log(`✅ Local state updated, now starting the game in Supabase...`);
       
-      // Update team and players in parallel
-      const promises: Promise<any>[] = [
-        teamsApi.update(teamId, {
-          state: 'playing',
-          assignedCourtId: targetCourtId,
-          startedAt: new Date(),
-        })
-      ];
+      // Team and players are updated in one transaction; the database state replaces ours either way
+      const result = await gameOpsApi.startGame(teamId, targetCourtId, new Date(), expectedVersion);
+      const serverState = result.state;
+      if (serverState) setState((prev) => withServerState(prev, serverState));
       
-      if (playersToUpdate.length > 0) {
-        console.log(`📤 Batch updating ${playersToUpdate.length} players to playing state...`);
-        const playerUpdates = playersToUpdate.map((playerId) => ({
-          playerId,
-          updates: { state: 'playing' as const }
-        }));
-        promises.push(playersApi.updateBatch(playerUpdates));
+      if (!result.ok) {
+        console.log(`❌ Server rejected starting team ${teamId}: ${result.reason}`);
+        addAuditLog('game_started', { teamId, courtId, reason: result.reason });
+        return { success: false, reason: result.reason };
       }
-      
-      await Promise.all(promises);
-      console.log(`✅ Updated team ${teamId} and ${playersToUpdate.length} players to playing in parallel`);
-
+      console.log(`✅ Started team ${teamId} on court ${targetCourtId}`);
       
       addAuditLog('game_started', { teamId, courtId });
       return { success: true };
@@ -713,13 +876,93 @@ export function useGameState() {
     }
   }, [addAuditLog]);
 
+  // Start the oldest queued team that can play on a freed court.
+  // Uses startGame for every candidate, so its validation decides; teams with a player
+  // still on another court are skipped and any other failure stops the search.
+  const seatNextQueuedTeam = useCallback(async (courtId: string, excludeTeamId?: string): Promise<AutoSeatResult> => {
+    // Read at call time: the caller (endGame) may come from a render before its own game ended
+    const candidates = stateRef.current.teams
+      .filter((t) => t.state === 'queued' && t.id !== excludeTeamId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    
+    const skippedTeamIds: string[] = [];
+    for (const candidate of candidates) {
+      const { success, reason } = await startGame(candidate.id, courtId);
+      if (success) {
+        console.log(`✅ Auto seated team ${candidate.id} on court ${courtId} (skipped ${skippedTeamIds.length})`);
+        addAuditLog('team_auto_seated', { teamId: candidate.id, courtId, skippedTeamIds });
+        return { courtId, seatedTeamId: candidate.id, skippedTeamIds };
+      }
+      // Started or removed on another device since the candidates were read; the next one may still fit
+      if (reason === 'team_already_playing' || reason === 'team_not_found') continue;
+      if (!reason?.startsWith('duplicate_players')) break;
+      skippedTeamIds.push(candidate.id);
+    }
+    
+    console.log(`ℹ️ No queued team could be auto seated on court ${courtId}`);
+    return { courtId, seatedTeamId: null, skippedTeamIds };
+  }, [addAuditLog, startGame]);
+
+  // Undo of auto seating: take a team that just started back off its court into the queue.
+  // Checked inside setState because the caller (an undo toast) may hold an old render's state.
+  const returnTeamToQueue = useCallback(async (teamId: string) => {
+    let returned = false;
+    let expectedVersion: number | undefined;
+    
+    setState((prev) => {
+      const team = prev.teams.find((t) => t.id === teamId);
+      if (!team || team.state !== 'playing') return prev;
+      
+      returned = true;
+      expectedVersion = team.version;
+      return {
+        ...prev,
+        teams: prev.teams.map((t) =>
+          t.id === teamId ? { ...t, state: 'queued' as const, assignedCourtId: null, startedAt: null } : t
+        ),
+        courts: prev.courts.map((c) =>
+          c.currentTeamId === teamId
+            ? { ...c, status: 'available' as const, currentTeamId: null, timerMs: 0, isPaused: false }
+            : c
+        ),
+        players: prev.players.map((p) =>
+          team.playerIds.includes(p.id) ? { ...p, state: 'queued' as const } : p
+        ),
+      };
+    });
+    
+    if (!returned) {
+      console.log(`⚠️ Team ${teamId} is not playing anymore, nothing to undo`);
+      return false;
+    }
+    
+    try {
+      // Team and players go back together; the database state replaces ours either way
+      const result = await gameOpsApi.returnGame(teamId, expectedVersion);
+      const serverState = result.state;
+      if (serverState) setState((prev) => withServerState(prev, serverState));
+      
+      if (!result.ok) {
+        console.log(`❌ Server rejected returning team ${teamId}: ${result.reason}`);
+        addAuditLog('team_returned_to_queue', { teamId, reason: result.reason });
+        return false;
+      }
+      console.log(`✅ Returned team ${teamId} to the queue`);
+      addAuditLog('team_returned_to_queue', { teamId });
+    } catch (error) {
+      console.error('Failed to return team to the queue in Supabase:', error);
+      addAuditLog('team_returned_to_queue', { teamId, error: String(error) });
+    }
+    return true;
+  }, [addAuditLog]);
+
   const startAllQueuedGames = useCallback(async () => {
     console.log('🎮 startAllQueuedGames called');
     
     let startedCount = 0;
+    const startedAt = new Date();
     const updatesRef = { 
-      teams: [] as { teamId: string; courtId: string }[], 
-      players: [] as string[] 
+      teams: [] as { teamId: string; courtId: string; version?: number }[], 
     };
     
     try {
@@ -799,13 +1042,12 @@ export function useGameState() {
           teamsActuallyStarted.push(team);
           
           // Store for Supabase update
-          updatesRef.teams.push({ teamId: team.id, courtId: court.id });
-          updatesRef.players.push(...team.playerIds);
+          updatesRef.teams.push({ teamId: team.id, courtId: court.id, version: team.version });
           
           // Update team
           updatedTeams = updatedTeams.map((t) =>
             t.id === team.id
-              ? { ...t, state: 'playing' as const, assignedCourtId: court.id, startedAt: new Date() }
+              ? { ...t, state: 'playing' as const, assignedCourtId: court.id, startedAt }
               : t
           );
           
@@ -842,33 +1084,21 @@ export function useGameState() {
         return 0;
       }
       
-      console.log(`✅ Local state updated, now updating ${updatesRef.teams.length} teams in Supabase...`);
-      
-      // Batch update teams in Supabase
-      if (updatesRef.teams.length > 0) {
-        console.log(`🔄 Batch updating ${updatesRef.teams.length} teams...`);
-        await Promise.all(
-          updatesRef.teams.map(({ teamId, courtId }) =>
-            teamsApi.update(teamId, {
-              state: 'playing',
-              assignedCourtId: courtId,
-              startedAt: new Date(),
-            })
-          )
-        );
-        console.log(`✅ Batch updated ${updatesRef.teams.length} teams in Supabase`);
-      }
+      console.log(`✅ Local state updated, now starting ${updatesRef.teams.length} games in Supabase...`);
       
-      // Batch update players in Supabase
-      if (updatesRef.players.length > 0) {
-        const uniquePlayerIds = [...new Set(updatesRef.players)];
-        console.log(`🔄 Batch updating ${uniquePlayerIds.length} unique players...`);
-        await Promise.all(
-          uniquePlayerIds.map((playerId) =>
-            playersApi.update(playerId, { state: 'playing' })
-          )
-        );
-        console.log(`✅ Updated ${uniquePlayerIds.length} players to playing state in Supabase`);
+      // One start operation per team, each atomic on its own; a rejected start leaves the others.
+      // In order, so the server state of the last call has every start that went through.
+      startedCount = 0;
+      for (const { teamId, courtId, version } of updatesRef.teams) {
+        const result = await gameOpsApi.startGame(teamId, courtId, startedAt, version);
+        const serverState = result.state;
+        if (serverState) setState((prev) => withServerState(prev, serverState));
+        
+        if (result.ok) {
+          startedCount++;
+        } else {
+          console.log(`❌ Server rejected starting team ${teamId}: ${result.reason}`);
+        }
       }
       
       addAuditLog('batch_games_started', { count: startedCount });
@@ -880,7 +1110,7 @@ export function useGameState() {
     }
   }, [addAuditLog]);
 
-  const endGame = useCallback(async (courtId: string) => {
+  const endGame = useCallback(async (courtId: string, result: GameResult | null = null): Promise<AutoSeatResult | null> => {
     console.log('🎮 endGame called for courtId:', courtId);
     
     try {
@@ -888,13 +1118,13 @@ export function useGameState() {
       const court = state.courts.find((c) => c.id === courtId);
       if (!court || !court.currentTeamId) {
         console.log('❌ Court not found or no team:', { court, courtId });
-        return;
+        return null;
       }
       
       const team = state.teams.find((t) => t.id === court.currentTeamId);
       if (!team) {
         console.log('❌ Team not found:', court.currentTeamId);
-        return;
+        return null;
       }
       
       console.log(`✅ Found team ${team.id} with ${team.playerIds.length} players`);
@@ -902,17 +1132,25 @@ export function useGameState() {
       const teamToDelete = team.id;
       const playersToUpdate: { id: string, updates: Partial<Player> }[] = [];
       const now = new Date();
+      const gameRecord = createGameRecord(team, court, state.players, state.session, now, result);
+      
+      // Rated only when the result has a winning side; members keep their rating across sessions
+      let ratingUpdates = computeRatingUpdates(gameRecord, state.players, state.members);
       
       // Prepare player updates BEFORE setState
       team.playerIds.forEach(playerId => {
         const player = state.players.find(p => p.id === playerId);
         if (player) {
-          const teammates = team.playerIds.filter(id => id !== playerId);
+          const { teammates, opponents } = getGameRelations(team, playerId);
           const teammateHistory = { ...(player.teammateHistory || {}) };
+          const opponentHistory = { ...(player.opponentHistory || {}) };
           
           for (const teammateId of teammates) {
             teammateHistory[teammateId] = (teammateHistory[teammateId] || 0) + 1;
           }
+          for (const opponentId of opponents) {
+            opponentHistory[opponentId] = (opponentHistory[opponentId] || 0) + 1;
+          }
           
           // ⭐ Check if player is in any other queued team
           const otherQueuedTeams = state.teams.filter(t => 
@@ -933,6 +1171,7 @@ export function useGameState() {
               gameCount: player.gameCount + 1,
               lastGameEndAt: now,
               teammateHistory,
+              opponentHistory,
             },
           });
         }
@@ -945,7 +1184,7 @@ export function useGameState() {
         const updatedPlayers = prev.players.map((p) => {
           const update = playersToUpdate.find(u => u.id === p.id);
           if (update) {
-            const teammates = team.playerIds.filter(id => id !== p.id);
+            const { teammates } = getGameRelations(team, p.id);
             return {
               ...p,
               ...update.updates,
@@ -972,37 +1211,55 @@ export function useGameState() {
           players: priorityUpdatedPlayers,
           teams: updatedTeams,
           courts: updatedCourts,
+          games: [...prev.games, gameRecord],
+          members: ratingUpdates.length > 0
+            ? prev.members.map((m) => {
+                const update = ratingUpdates.find((u) => u.memberId === m.id);
+                return update ? { ...m, rating: update.ratingAfter, ratingGames: update.ratedGames } : m;
+              })
+            : prev.members,
         };
       });
       
       // ⚠️ NOW sync to Supabase - if this fails, local state will be rolled back by error handler
       console.log('📤 Syncing to Supabase...');
       
-      // Delete team and update players in parallel
-      const promises: Promise<any>[] = [
-        teamsApi.delete(teamToDelete)
-      ];
-      
-      if (playersToUpdate.length > 0) {
-        console.log(`📤 Batch updating ${playersToUpdate.length} players' game data and state in Supabase...`);
-        const playerUpdates = playersToUpdate.map(({ id, updates }) => ({
-          playerId: id,
-          updates: updates,
+      // Player stats, the game record, ratings and deleting the team land in one transaction
+      let opResult = await gameOpsApi.endGame(teamToDelete, gameRecord, ratingUpdates);
+      // A game on another court with a shared member was rated first: rate again from the server's members
+      if (!opResult.ok && opResult.reason === 'conflict' && ratingUpdates.length > 0) {
+        const members = await membersApi.getAll();
+        const retriedUpdates = computeRatingUpdates(gameRecord, state.players, members);
+        console.log(`🔁 Members changed while ending team ${teamToDelete}, rating the game again`);
+        setState((prev) => ({
+          ...prev,
+          members: prev.members.map((m) => {
+            const update = retriedUpdates.find((u) => u.memberId === m.id);
+            return update ? { ...m, rating: update.ratingAfter, ratingGames: update.ratedGames } : m;
+          }),
         }));
-        promises.push(playersApi.updateBatch(playerUpdates));
+        ratingUpdates = retriedUpdates;
+        opResult = await gameOpsApi.endGame(teamToDelete, gameRecord, ratingUpdates);
       }
+      const serverState = opResult.state;
+      if (serverState) setState((prev) => withServerState(prev, serverState));
+      if (!opResult.ok) {
+        console.log(`❌ Server rejected ending team ${teamToDelete}: ${opResult.reason}`);
+        addAuditLog('game_ended', { courtId, gameId: gameRecord.id, reason: opResult.reason });
+        throw new Error(`Failed to end game: ${opResult.reason}`);
+      }
+      console.log(`✅ Ended game of team ${teamToDelete}, recorded game ${gameRecord.id} and ${ratingUpdates.length} rating updates`);
       
-      await Promise.all(promises);
-      console.log(`✅ Deleted team and updated ${playersToUpdate.length} players in Supabase`);
-
-      
-      addAuditLog('game_ended', { courtId });
+      addAuditLog('game_ended', { courtId, gameId: gameRecord.id, result });
       console.log('✅ endGame completed');
+      
+      if (!state.session?.autoSeatNext) return null;
+      return await seatNextQueuedTeam(courtId, team.id);
     } catch (error) {
       console.error('❌ Failed to end game:', error);
       throw error;
     }
-  }, [addAuditLog, state.courts, state.teams, state.players]);
+  }, [addAuditLog, seatNextQueuedTeam, state.courts, state.teams, state.players, state.members, state.session]);
 
   const endAllGames = useCallback(async () => {
     console.log('🎮 endAllGames called - ending all playing games');
@@ -1019,6 +1276,7 @@ export function useGameState() {
     
     const allPlayersToUpdate: { id: string, updates: Partial<Player>, recentTeammates: string[] }[] = [];
     const allTeamsToDelete: string[] = [];
+    const gameRecords: GameRecord[] = [];
     const now = new Date();
     
     // Prepare updates for all active games
@@ -1027,17 +1285,22 @@ export function useGameState() {
       if (!team) continue;
       
       allTeamsToDelete.push(team.id);
+      gameRecords.push(createGameRecord(team, court, state.players, state.session, now));
       
       // Prepare player updates for this team
       team.playerIds.forEach(playerId => {
         const player = state.players.find(p => p.id === playerId);
         if (player) {
-          const teammates = team.playerIds.filter(id => id !== playerId);
+          const { teammates, opponents } = getGameRelations(team, playerId);
           const teammateHistory = { ...(player.teammateHistory || {}) };
+          const opponentHistory = { ...(player.opponentHistory || {}) };
           
           for (const teammateId of teammates) {
             teammateHistory[teammateId] = (teammateHistory[teammateId] || 0) + 1;
           }
+          for (const opponentId of opponents) {
+            opponentHistory[opponentId] = (opponentHistory[opponentId] || 0) + 1;
+          }
           
           // ⭐ Check if player is in any other queued team (excluding teams being deleted)
           const otherQueuedTeams = state.teams.filter(t => 
@@ -1057,6 +1320,7 @@ export function useGameState() {
               gameCount: player.gameCount + 1,
               lastGameEndAt: now,
               teammateHistory,
+              opponentHistory,
             },
             recentTeammates: teammates,
           });
@@ -1100,34 +1364,19 @@ export function useGameState() {
           players: priorityUpdatedPlayers,
           teams: updatedTeams,
           courts: updatedCourts,
+          games: [...prev.games, ...gameRecords],
         };
       });
       
-      // Update Supabase - batch all updates in parallel
-      console.log('📤 Updating Supabase with batch changes...');
-      
-      const promises: Promise<any>[] = [];
-      
-      // Batch update players in Supabase
-      if (allPlayersToUpdate.length > 0) {
-        console.log(`📤 Batch updating ${allPlayersToUpdate.length} players in Supabase...`);
-        const playerUpdates = allPlayersToUpdate.map(({ id, updates }) => ({
-          playerId: id,
-          updates,
-        }));
-        promises.push(playersApi.updateBatch(playerUpdates));
-      }
-      
-      // Batch delete teams in Supabase
-      if (allTeamsToDelete.length > 0) {
-        console.log(`📤 Batch deleting ${allTeamsToDelete.length} teams in Supabase...`);
-        promises.push(teamsApi.deleteBatch(allTeamsToDelete));
-      }
-      
-      // Execute all updates in parallel
-      if (promises.length > 0) {
-        await Promise.all(promises);
-        console.log(`✅ Updated ${allPlayersToUpdate.length} players and deleted ${allTeamsToDelete.length} teams in parallel`);
+      // End every game in one transaction, then take the database state
+      console.log('📤 Ending all games in Supabase...');
+      const opResult = await gameOpsApi.endAllGames(gameRecords);
+      const serverState = opResult.state;
+      if (serverState) setState((prev) => withServerState(prev, serverState));
+      if (!opResult.ok) {
+        console.log(`❌ Server rejected ending all games: ${opResult.reason}`);
+        addAuditLog('batch_games_ended', { reason: opResult.reason });
+        throw new Error(`Failed to end all games: ${opResult.reason}`);
       }
       
       console.log('✅ All games ended successfully in Supabase');
@@ -1142,7 +1391,7 @@ export function useGameState() {
       console.error('❌ Failed to end all games:', error);
       throw error;
     }
-  }, [addAuditLog, state.courts, state.teams, state.players]);
+  }, [addAuditLog, state.courts, state.teams, state.players, state.session]);
 
   const toggleCourtPause = useCallback((courtId: string) => {
     setState((prev) => ({
@@ -1164,6 +1413,40 @@ export function useGameState() {
     }));
   }, []);
 
+  // Give one running game more time without changing the session game duration
+  const extendGame = useCallback(async (courtId: string, minutes: number) => {
+    const court = state.courts.find((c) => c.id === courtId);
+    const team = court?.currentTeamId ? state.teams.find((t) => t.id === court.currentTeamId) : undefined;
+    if (!team) return;
+
+    const extensionMin = (team.extensionMin || 0) + minutes;
+    setState((prev) => ({
+      ...prev,
+      teams: prev.teams.map((t) =>
+        t.id === team.id ? { ...t, extensionMin } : t
+      ),
+    }));
+
+    try {
+      await teamsApi.update(team.id, { extensionMin }, team.version);
+      setState((prev) => ({
+        ...prev,
+        teams: prev.teams.map((t) =>
+          t.id === team.id ? { ...t, version: nextVersion(t.version, team.version) } : t
+        ),
+      }));
+      console.log(`✅ Extended game of team ${team.id} by ${minutes} minutes`);
+      addAuditLog('game_extended', { courtId, teamId: team.id, minutes, extensionMin });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        resolveConflict('경기 시간 연장', error);
+        return;
+      }
+      console.error('Failed to save game extension to Supabase:', error);
+      addAuditLog('game_extended', { courtId, teamId: team.id, minutes, extensionMin, error: String(error) });
+    }
+  }, [addAuditLog, resolveConflict, state.courts, state.teams]);
+
   const updateCourtNames = useCallback((courtUpdates: { id: string; name: string }[]) => {
     setState((prev) => ({
       ...prev,
@@ -1188,9 +1471,42 @@ export function useGameState() {
     addAuditLog('courts_renamed', { courtUpdates });
   }, [addAuditLog]);
 
+  const updateScoringModel = useCallback((scoringModel: ScoringModel) => {
+    setState((prev) => ({
+      ...prev,
+      scoringModel,
+    }));
+    
+    // Save scoring model to Supabase settings as JSON
+    settingsApi.set('scoring_model', JSON.stringify(scoringModel)).then(() => {
+      console.log(`✅ Saved scoring model to Supabase settings:`, scoringModel);
+    }).catch((error) => {
+      console.error('Failed to save scoring model to Supabase:', error);
+    });
+    
+    addAuditLog('scoring_model_updated', { scoringModel });
+  }, [addAuditLog]);
+
+  const updateOptimizerWeights = useCallback((optimizerWeights: OptimizerWeights) => {
+    setState((prev) => ({
+      ...prev,
+      optimizerWeights,
+    }));
+    
+    // Save optimizer weights to Supabase settings as JSON
+    settingsApi.set('optimizer_weights', JSON.stringify(optimizerWeights)).then(() => {
+      console.log(`✅ Saved optimizer weights to Supabase settings:`, optimizerWeights);
+    }).catch((error) => {
+      console.error('Failed to save optimizer weights to Supabase:', error);
+    });
+    
+    addAuditLog('optimizer_weights_updated', { optimizerWeights });
+  }, [addAuditLog]);
+
   const adjustGameCount = useCallback(async (playerId: string, delta: number) => {
     let newGameCount = 0;
     let playerFound = false;
+    let expectedVersion: number | undefined;
     
     setState((prev) => {
       const player = prev.players.find(p => p.id === playerId);
@@ -1200,6 +1516,7 @@ export function useGameState() {
       }
       
       playerFound = true;
+      expectedVersion = player.version;
       newGameCount = Math.max(0, player.gameCount + delta);
       
       return {
@@ -1217,22 +1534,34 @@ export function useGameState() {
     
     // Update game count in Supabase
     try {
-      await playersApi.update(playerId, { gameCount: newGameCount });
+      await playersApi.update(playerId, { gameCount: newGameCount }, expectedVersion);
+      setState((prev) => ({
+        ...prev,
+        players: prev.players.map((p) =>
+          p.id === playerId ? { ...p, version: nextVersion(p.version, expectedVersion) } : p
+        ),
+      }));
       console.log(`✅ Updated player ${playerId} game count to ${newGameCount} in Supabase`);
     } catch (error) {
+      if (error instanceof ConflictError) {
+        resolveConflict('경기 수 조정', error);
+        return;
+      }
       console.error('Failed to update game count in Supabase:', error);
     }
     
     addAuditLog('game_count_adjusted', { playerId, delta, newGameCount });
-  }, [addAuditLog]);
+  }, [addAuditLog, resolveConflict]);
 
   const deleteTeam = useCallback(async (teamId: string) => {
     try {
       let playersToResetToWaiting: string[] = [];
+      let expectedVersion: number | undefined;
       
       setState((prev) => {
         const team = prev.teams.find((t) => t.id === teamId);
         if (!team) return prev;
+        expectedVersion = team.version;
         
         // ⭐ Only reset players to waiting if they are NOT in any other team
         const otherTeams = prev.teams.filter(t => t.id !== teamId && (t.state === 'queued' || t.state === 'playing'));
@@ -1262,22 +1591,17 @@ export function useGameState() {
         };
       });
       
-      // Delete team and update players in parallel
-      const promises: Promise<any>[] = [
-        teamsApi.delete(teamId)
-      ];
+      // Team and players are updated in one transaction; the database state replaces ours either way
+      const result = await gameOpsApi.removeTeam(teamId, expectedVersion);
+      const serverState = result.state;
+      if (serverState) setState((prev) => withServerState(prev, serverState));
       
-      if (playersToResetToWaiting.length > 0) {
-        console.log(`📤 Resetting ${playersToResetToWaiting.length} players to waiting state...`);
-        const playerUpdates = playersToResetToWaiting.map(playerId => ({
-          playerId,
-          updates: { state: 'waiting' as const }
-        }));
-        promises.push(playersApi.updateBatch(playerUpdates));
+      if (!result.ok) {
+        console.log(`❌ Server rejected deleting team ${teamId}: ${result.reason}`);
+        addAuditLog('team_deleted', { teamId, reason: result.reason });
+        return;
       }
-      
-      await Promise.all(promises);
-      console.log(`✅ Deleted team ${teamId} and reset ${playersToResetToWaiting.length} players in parallel`);
+      console.log(`✅ Deleted team ${teamId} and reset ${playersToResetToWaiting.length} players`);
 
       addAuditLog('team_deleted', { teamId });
     } catch (error) {
@@ -1310,30 +1634,73 @@ export function useGameState() {
   }, [addAuditLog]);
 
   const updateTeam = useCallback(async (teamId: string, playerIds: string[]) => {
+    // Carry the side A / side B pairing over to the swapped-in players
+    const existingTeam = state.teams.find((t) => t.id === teamId);
+    const pairing = existingTeam
+      ? reconcilePairing(existingTeam.pairing, existingTeam.playerIds, playerIds)
+      : null;
+
     try {
       // Update in Supabase first
-      await teamsApi.update(teamId, { playerIds });
+      await teamsApi.update(teamId, { playerIds, pairing }, existingTeam?.version);
       
       setState((prev) => ({
         ...prev,
         teams: prev.teams.map((t) =>
-          t.id === teamId ? { ...t, playerIds } : t
+          t.id === teamId
+            ? { ...t, playerIds, pairing, version: nextVersion(t.version, existingTeam?.version) }
+            : t
         ),
       }));
       console.log(`✅ Updated team ${teamId} in Supabase`);
       addAuditLog('team_updated', { teamId, playerIds });
     } catch (error) {
+      if (error instanceof ConflictError) {
+        resolveConflict('팀 수정', error);
+        return;
+      }
       console.error('Failed to update team in Supabase:', error);
       // Still update local state even if API fails
       setState((prev) => ({
         ...prev,
         teams: prev.teams.map((t) =>
-          t.id === teamId ? { ...t, playerIds } : t
+          t.id === teamId ? { ...t, playerIds, pairing } : t
         ),
       }));
       addAuditLog('team_updated', { teamId, playerIds });
     }
-  }, [addAuditLog]);
+  }, [addAuditLog, resolveConflict, state.teams]);
+
+  const updateTeamPairing = useCallback(async (teamId: string, pairing: TeamPairing) => {
+    const expectedVersion = stateRef.current.teams.find((t) => t.id === teamId)?.version;
+    try {
+      // Update in Supabase first
+      await teamsApi.update(teamId, { pairing }, expectedVersion);
+      
+      setState((prev) => ({
+        ...prev,
+        teams: prev.teams.map((t) =>
+          t.id === teamId ? { ...t, pairing, version: nextVersion(t.version, expectedVersion) } : t
+        ),
+      }));
+      console.log(`✅ Updated pairing of team ${teamId} in Supabase`);
+      addAuditLog('team_pairing_updated', { teamId, pairing });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        resolveConflict('편 나누기', error);
+        return;
+      }
+      console.error('Failed to update team pairing in Supabase:', error);
+      // Still update local state even if API fails
+      setState((prev) => ({
+        ...prev,
+        teams: prev.teams.map((t) =>
+          t.id === teamId ? { ...t, pairing } : t
+        ),
+      }));
+      addAuditLog('team_pairing_updated', { teamId, pairing, error: String(error) });
+    }
+  }, [addAuditLog, resolveConflict]);
 
   const createManualTeam = useCallback(async (playerIds: string[]) => {
     console.log('🎮 createManualTeam called with playerIds:', playerIds);
@@ -1366,11 +1733,21 @@ export function useGameState() {
       // Calculate next team number
       const existingTeamCount = state.teams.filter(t => t.state === 'queued' || t.state === 'playing').length;
       
+      // Keep the selection order so the pairing follows the admin's picks
+      const orderedPlayers = playerIds
+        .map(id => players.find(p => p.id === id))
+        .filter((p): p is Player => !!p);
+      
       // Create new team
       const newTeam: Team = {
         id: `team-${Date.now()}-${Math.random()}`,
         name: `수동 팀 ${existingTeamCount + 1}`,
         playerIds,
+        pairing: pairTeam(
+          orderedPlayers,
+          state.session.gameType,
+          createPlayerScorer(state.scoringModel, state.session.ratingSource, getPlayerRatings(state.players, state.members))
+        ),
         state: 'queued',
         assignedCourtId: null,
         startedAt: null,
@@ -1383,26 +1760,19 @@ export function useGameState() {
       // Update player states to 'queued' (only for waiting players)
       const waitingPlayerIds = players.filter(p => p.state === 'waiting').map(p => p.id);
       
-      // Save team and update players in parallel
-      const promises: Promise<any>[] = [
-        teamsApi.add(newTeam)
-      ];
+      // Team and players are saved in one transaction; the database state replaces ours either way
+      const result = await gameOpsApi.addTeam(newTeam);
+      const serverState = result.state;
+      if (serverState) setState((prev) => withServerState(prev, serverState));
       
-      if (waitingPlayerIds.length > 0) {
-        console.log(`📤 Updating ${waitingPlayerIds.length} waiting players to queued state...`);
-        const playerUpdates = waitingPlayerIds.map(playerId => ({
-          playerId,
-          updates: { state: 'queued' as const }
-        }));
-        promises.push(playersApi.updateBatch(playerUpdates));
+      if (!result.ok) {
+        console.log(`❌ Server rejected manual team: ${result.reason}`);
+        throw new Error('다른 기기에서 선수 상태가 바뀌어 팀을 만들지 못했습니다. 다시 시도해 주세요.');
       }
+      console.log(`✅ Saved manual team and queued ${waitingPlayerIds.length} waiting players`);
       
-      await Promise.all(promises);
-      console.log(`✅ Saved manual team and updated ${waitingPlayerIds.length} players in parallel`);
-
-      
-      // Update local state
-      setState((prev) => {
+      // Queued offline: keep the team locally until the outbox sends it
+      if (!serverState) setState((prev) => {
         const updatedPlayers = prev.players.map(p => {
           if (waitingPlayerIds.includes(p.id)) {
             return { ...p, state: 'queued' as const };
@@ -1425,11 +1795,15 @@ export function useGameState() {
       console.error('❌ Failed to create manual team:', error);
       throw error;
     }
-  }, [addAuditLog, state.session, state.players]);
+  }, [addAuditLog, state.session, state.players, state.members, state.scoringModel]);
 
   const resetSession = useCallback(async () => {
     console.log('🔄 Starting session reset...');
     
+    // Snapshots from before the reset can't be restored on top of it
+    setUndoStack([]);
+    setRedoStack([]);
+    
     try {
       // 1. Get all playing teams to end their games
       const playingTeams = state.teams.filter((t) => t.state === 'playing');
@@ -1446,7 +1820,7 @@ export function useGameState() {
       // 4. Delete ALL teams (playing + queued) and reset players in parallel
       const allTeamIds = [...playingTeams, ...queuedTeams].map(t => t.id);
       
-      const promises: Promise<any>[] = [];
+      const promises: Promise<unknown>[] = [];
       
       if (allTeamIds.length > 0) {
         console.log(`📤 Batch deleting ${allTeamIds.length} teams from Supabase...`);
@@ -1464,6 +1838,7 @@ export function useGameState() {
             lastGameEndAt: null,
             recentTeammates: [],
             teammateHistory: {},
+            opponentHistory: {},
           }
         }));
         promises.push(playersApi.updateBatch(playerUpdates));
@@ -1486,8 +1861,10 @@ export function useGameState() {
             lastGameEndAt: null,
             recentTeammates: [],
             teammateHistory: {},
+            opponentHistory: {},
           })),
           teams: [], // Clear all teams
+          lastMatch: null,
           courts: prev.courts.map((c) => ({
             ...c,
             status: 'available' as const,
@@ -1543,19 +1920,24 @@ export function useGameState() {
   }, [addAuditLog]);
 
   const updateMember = useCallback(async (memberId: string, updates: Partial<Member>) => {
+    const expectedVersion = stateRef.current.members.find((m) => m.id === memberId)?.version;
     try {
       // Save to Supabase first
-      await membersApi.update(memberId, updates);
+      await membersApi.update(memberId, updates, expectedVersion);
       
       // Update local state
       setState((prev) => ({
         ...prev,
         members: prev.members.map((m) =>
-          m.id === memberId ? { ...m, ...updates } : m
+          m.id === memberId ? { ...m, ...updates, version: nextVersion(m.version, expectedVersion) } : m
         ),
       }));
       addAuditLog('member_updated', { memberId, updates });
     } catch (error) {
+      if (error instanceof ConflictError) {
+        resolveConflict('회원 수정', error);
+        return;
+      }
       console.error('Failed to update member in Supabase:', error);
       // Still update local state even if API fails
       setState((prev) => ({
@@ -1566,7 +1948,7 @@ export function useGameState() {
       }));
       addAuditLog('member_updated', { memberId, updates });
     }
-  }, [addAuditLog]);
+  }, [addAuditLog, resolveConflict]);
 
   const deleteMember = useCallback(async (memberId: string) => {
     try {
@@ -1603,6 +1985,7 @@ export function useGameState() {
         const player: Player = {
           id: `player-${Date.now()}-${Math.random()}`,
           name: finalName,
+          memberId: member.id,
           state: 'waiting',
           gender: member.gender,
           rank: member.rank,
@@ -1657,6 +2040,7 @@ export function useGameState() {
             const player: Player = {
               id: `player-${Date.now()}-${Math.random().toString(36).substring(2, 9)}-${memberId}`,
               name: finalName,
+              memberId: member.id,
               state: 'waiting',
               gender: member.gender,
               rank: member.rank,
@@ -1696,15 +2080,27 @@ export function useGameState() {
   }, [addAuditLog, state.members, state.players]);
 
   const syncFromSupabase = useCallback(async () => {
+    const pendingCount = await outbox.getPendingCount();
+    if (pendingCount > 0) {
+      console.log(`⏳ ${pendingCount} queued mutations, sync waits until they are replayed`);
+      return;
+    }
+
     try {
       console.log('🔄 Manual sync from Supabase...');
       const startTime = performance.now();
       
       // ⚡ BATCH LOADING - Get all data in one request
-      const { members: membersFromDb, players: playersFromDb, teams: teamsFromDb, settings } = await batchApi.getAllData();
+      const { members: membersFromDb, players: playersFromDb, teams: teamsFromDb, games: gamesFromDb, settings } = await batchApi.getAllData(getTodayDate());
       
       const courtsCount = settings.courts_count ? parseInt(settings.courts_count, 10) : 4;
       const courtNamesMap: Record<string, string> = settings.court_names ? JSON.parse(settings.court_names) : {};
+      const gameType = (settings.game_type || 'free') as GameType;
+      const ratingSource = (settings.rating_source || 'rank') as RatingSource;
+      const gameDurationMin = settings.game_duration_min ? parseInt(settings.game_duration_min, 10) : 15;
+      const autoSeatNext = settings.auto_seat_next !== undefined ? String(settings.auto_seat_next) === 'true' : true;
+      const scoringModel = parseScoringModel(settings.scoring_model);
+      const optimizerWeights = parseOptimizerWeights(settings.optimizer_weights);
       
       const loadTime = performance.now() - startTime;
       console.log(`⚡ Batch synced all data in ${loadTime.toFixed(0)}ms: ${membersFromDb.length} members, ${playersFromDb.length} players, ${teamsFromDb.length} teams, ${courtsCount} courts`);
@@ -1823,11 +2219,14 @@ export function useGameState() {
         
         return {
           ...prev,
-          session: prev.session ? { ...prev.session, courtsCount } : prev.session,
+          session: prev.session ? { ...prev.session, courtsCount, gameType, ratingSource, gameDurationMin, autoSeatNext } : prev.session,
+          scoringModel,
+          optimizerWeights,
           members: membersFromDb,
           players: syncedPlayers,
           teams: activeTeams,
           courts: updatedCourts,
+          games: gamesFromDb,
         };
       });
       
@@ -1879,6 +2278,263 @@ export function useGameState() {
     }
   }, [addAuditLog, state.players, deletePlayers]);
 
+  // ============= LOCAL PERSISTENCE / OUTBOX =============
+
+  // Keep the last known state on this device (debounced, state changes every timer tick)
+  useEffect(() => {
+    if (!isSnapshotRestored) return;
+    const timeoutId = setTimeout(() => {
+      saveStateSnapshot(state).catch((error) => {
+        console.error('⚠️ Failed to save local snapshot:', error);
+      });
+    }, 1000);
+    return () => clearTimeout(timeoutId);
+  }, [state, isSnapshotRestored]);
+
+  // Once every queued mutation has been replayed, take the server state again
+  useEffect(() => {
+    let previousPending = outbox.getStatus().pending;
+    return outbox.subscribe((status) => {
+      setOutboxStatus(status);
+      if (previousPending > 0 && status.pending === 0) {
+        console.log('✅ Outbox replayed, syncing from Supabase...');
+        syncFromSupabase().catch((error) => {
+          console.error('⚠️ Sync after outbox replay failed:', error);
+        });
+      }
+      previousPending = status.pending;
+    });
+  }, [syncFromSupabase]);
+
+  // Replayed writes that hit a version conflict are shown like any other conflict
+  useEffect(() => {
+    return outbox.onRejection(({ error }) => {
+      if (error instanceof ConflictError) {
+        resolveConflict('오프라인 중 변경', error);
+      } else {
+        addAuditLog('outbox_rejected', { error: error.message });
+      }
+    });
+  }, [addAuditLog, resolveConflict]);
+
+  // ============= UNDO / REDO =============
+
+  // Finish entries once their mutation has rendered: every state update the mutation made
+  // is in this render. Entries that changed nothing (e.g. a rejected startGame) are dropped.
+  useEffect(() => {
+    const finished = new Map<string, UndoRecording>();
+    undoStack.forEach((entry) => {
+      const recording = entry.after === null ? undoRecordingsRef.current.get(entry.id) : undefined;
+      if (recording) finished.set(entry.id, recording);
+    });
+    if (finished.size === 0) return;
+    finished.forEach((_, id) => undoRecordingsRef.current.delete(id));
+    setUndoStack((stack) =>
+      stack
+        .map((entry) => {
+          const recording = finished.get(entry.id);
+          return recording ? { ...entry, before: recording.before, after: recording.after } : entry;
+        })
+        .filter((entry) => entry.after !== null && hasChanges(diffSnapshots(entry.before, entry.after)))
+    );
+  }, [undoStack]);
+
+  // Run a mutation and record the rows it changes on the undo stack; a new action clears the redo stack
+  const trackUndo = useCallback(async <T>(label: string, action: () => Promise<T>): Promise<T> => {
+    const id = `undo-${Date.now()}-${Math.random()}`;
+    const recording = createUndoRecording();
+    undoRecordingsRef.current.set(id, recording);
+    const conflictsBefore = conflictCountRef.current;
+    let result: T;
+    try {
+      result = await action();
+    } catch (error) {
+      undoRecordingsRef.current.delete(id);
+      throw error;
+    }
+    // A write rejected as a conflict only took over the other device's rows: nothing to undo
+    if (conflictCountRef.current !== conflictsBefore) {
+      undoRecordingsRef.current.delete(id);
+      return result;
+    }
+    setUndoStack((stack) => [
+      ...stack,
+      { id, label, before: recording.before, after: null },
+    ].slice(-UNDO_LIMIT));
+    setRedoStack([]);
+    return result;
+  }, []);
+
+  // Move from one snapshot to another, locally and in Supabase, touching only what differs.
+  // Rows are written at the versions this device has; false when another device changed one of
+  // them meanwhile (its rows are taken over and shown as a conflict).
+  const restoreSnapshot = useCallback(async (from: GameSnapshot, to: GameSnapshot, action: string): Promise<boolean> => {
+    const changes = diffSnapshots(from, to);
+    const current = stateRef.current;
+    setState((prev) => applySnapshotChanges(prev, changes));
+    
+    const teamVersions = new Map(current.teams.map((t) => [t.id, t.version]));
+    const playerVersions = new Map(current.players.map((p) => [p.id, p.version]));
+    const memberVersions = new Map(current.members.map((m) => [m.id, m.version]));
+    
+    const existingTeamIds = new Set(current.teams.map((t) => t.id));
+    const existingPlayerIds = new Set(current.players.map((p) => p.id));
+    const existingGameIds = new Set(current.games.map((g) => g.id));
+    const existingMemberIds = new Set(current.members.map((m) => m.id));
+    
+    const teamsToAdd = changes.teams.upserted.filter((t) => !existingTeamIds.has(t.id));
+    const teamsToUpdate = changes.teams.upserted.filter((t) => existingTeamIds.has(t.id));
+    const playersToUpdate = changes.players.upserted.filter((p) => existingPlayerIds.has(p.id));
+    const gamesToAdd = changes.games.upserted.filter((g) => !existingGameIds.has(g.id));
+    const membersToUpdate = changes.members.upserted.filter((m) => existingMemberIds.has(m.id));
+    
+    // Redoing a rated game: its rating history went away with the game, so write it again
+    const game = gamesToAdd.length === 1 ? gamesToAdd[0] : undefined;
+    const ratingHistory = game && membersToUpdate.length > 0
+      ? membersToUpdate.map((member) => {
+          const previous = current.members.find((m) => m.id === member.id);
+          return {
+            id: `rating-${game.endedAt.getTime()}-${member.id}`,
+            memberId: member.id,
+            gameId: game.id,
+            ratingBefore: previous ? getMemberRating(previous) : getMemberRating(member),
+            ratingAfter: getMemberRating(member),
+            createdAt: game.endedAt,
+          };
+        })
+      : [];
+    
+    // One transaction: every row goes back at the version this device saw, or nothing is written
+    // (deleting a game also deletes the rating history rows it produced)
+    const result = await gameOpsApi.restore({
+      teams: {
+        added: teamsToAdd,
+        updated: teamsToUpdate.map((team) => ({
+          id: team.id,
+          updates: {
+            name: team.name,
+            playerIds: team.playerIds,
+            pairing: team.pairing || null,
+            state: team.state,
+            assignedCourtId: team.assignedCourtId,
+            startedAt: team.startedAt,
+            endedAt: team.endedAt,
+            extensionMin: team.extensionMin || 0,
+          },
+          expectedVersion: teamVersions.get(team.id),
+        })),
+        removed: changes.teams.removedIds.map((teamId) => ({ id: teamId, expectedVersion: teamVersions.get(teamId) })),
+      },
+      players: playersToUpdate.map((player) => ({
+        id: player.id,
+        updates: {
+          state: player.state,
+          gameCount: player.gameCount,
+          lastGameEndAt: player.lastGameEndAt,
+          teammateHistory: player.teammateHistory || {},
+          opponentHistory: player.opponentHistory || {},
+          recentTeammates: player.recentTeammates || [],
+        },
+        expectedVersion: playerVersions.get(player.id),
+      })),
+      members: membersToUpdate.map((member) => ({
+        id: member.id,
+        updates: { rating: member.rating ?? null, ratingGames: member.ratingGames || 0 },
+        expectedVersion: memberVersions.get(member.id),
+      })),
+      games: { added: gamesToAdd, removedIds: changes.games.removedIds },
+      ratingHistory,
+    });
+    
+    if (!result.ok) {
+      // Nothing was written: take this device's change back and catch up with the server's rows
+      const serverState = result.state;
+      setState((prev) => withServerState(applySnapshotChanges(prev, diffSnapshots(to, from)), serverState));
+      if (!result.conflict) throw new Error(`Failed to restore snapshot: ${result.reason}`);
+      resolveConflict(action, result.conflict);
+      return false;
+    }
+    
+    // Teams and players come back from the server; members were written once at their known version
+    const serverState = result.state;
+    const writtenMemberIds = new Set(membersToUpdate.map((m) => m.id));
+    setState((prev) => ({
+      ...(serverState ? withServerState(prev, serverState) : prev),
+      members: prev.members.map((m) =>
+        writtenMemberIds.has(m.id) ? { ...m, version: nextVersion(m.version, memberVersions.get(m.id)) } : m
+      ),
+    }));
+    
+    console.log(`✅ Restored snapshot: ${teamsToAdd.length} teams added, ${teamsToUpdate.length} updated, ${changes.teams.removedIds.length} deleted, ${playersToUpdate.length} players, ${gamesToAdd.length + changes.games.removedIds.length} games`);
+    return true;
+  }, [resolveConflict]);
+
+  const undo = useCallback(async (): Promise<string | null> => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || !entry.after) return null;
+    
+    console.log(`↩️ Undoing: ${entry.label}`);
+    setUndoStack((stack) => stack.filter((e) => e.id !== entry.id));
+    try {
+      // A conflict drops the entry: its rows are no longer what this device last wrote
+      if (!(await restoreSnapshot(entry.after, entry.before, '되돌리기'))) return null;
+      setRedoStack((stack) => [...stack, entry]);
+      addAuditLog('undo', { label: entry.label });
+      return entry.label;
+    } catch (error) {
+      console.error('❌ Failed to undo in Supabase:', error);
+      addAuditLog('undo', { label: entry.label, error: String(error) });
+      throw error;
+    }
+  }, [addAuditLog, restoreSnapshot, undoStack]);
+
+  const redo = useCallback(async (): Promise<string | null> => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry || !entry.after) return null;
+    
+    console.log(`↪️ Redoing: ${entry.label}`);
+    setRedoStack((stack) => stack.filter((e) => e.id !== entry.id));
+    try {
+      if (!(await restoreSnapshot(entry.before, entry.after, '다시 실행'))) return null;
+      setUndoStack((stack) => [...stack, entry]);
+      addAuditLog('redo', { label: entry.label });
+      return entry.label;
+    } catch (error) {
+      console.error('❌ Failed to redo in Supabase:', error);
+      addAuditLog('redo', { label: entry.label, error: String(error) });
+      throw error;
+    }
+  }, [addAuditLog, restoreSnapshot, redoStack]);
+
+  const undoableStartGame = useCallback((teamId: string, courtId?: string) =>
+    trackUndo('경기 시작', () => startGame(teamId, courtId)), [trackUndo, startGame]);
+  const undoableEndGame = useCallback((courtId: string, result: GameResult | null = null) =>
+    trackUndo('경기 종료', () => endGame(courtId, result)), [trackUndo, endGame]);
+  const undoableEndAllGames = useCallback(() =>
+    trackUndo('전체 경기 종료', () => endAllGames()), [trackUndo, endAllGames]);
+  const undoableDeleteTeam = useCallback((teamId: string) =>
+    trackUndo('팀 삭제', () => deleteTeam(teamId)), [trackUndo, deleteTeam]);
+  const undoableUpdateTeam = useCallback((teamId: string, playerIds: string[]) =>
+    trackUndo('팀 수정', () => updateTeam(teamId, playerIds)), [trackUndo, updateTeam]);
+  const undoableCreateManualTeam = useCallback((playerIds: string[]) =>
+    trackUndo('팀 만들기', () => createManualTeam(playerIds)), [trackUndo, createManualTeam]);
+  const undoableUpdatePlayerState = useCallback((playerIds: string[], newState: PlayerState) =>
+    trackUndo('참가자 상태 변경', () => updatePlayerState(playerIds, newState)), [trackUndo, updatePlayerState]);
+  const undoableAdjustGameCount = useCallback((playerId: string, delta: number) =>
+    trackUndo('경기 수 조정', () => adjustGameCount(playerId, delta)), [trackUndo, adjustGameCount]);
+
+  // Row changes pushed by another device; merged without reloading everything
+  const applyRemoteChange = useCallback((change: RealtimeChange) => {
+    console.log(`📡 Realtime ${change.type} on ${change.table}:`, change.row.id || change.row.key);
+    setRawState((prev) => applyRealtimeChange(prev, change));
+  }, []);
+
+  // Only finished entries can be undone; a mutation still rendering isn't offered yet
+  const undoLabel = undoStack.length > 0 && undoStack[undoStack.length - 1].after
+    ? undoStack[undoStack.length - 1].label
+    : null;
+  const redoLabel = redoStack.length > 0 ? redoStack[redoStack.length - 1].label : null;
+
   return {
     state,
     createSession,
@@ -1887,19 +2543,26 @@ export function useGameState() {
     updatePlayer,
     deletePlayer,
     deletePlayers,
-    updatePlayerState,
+    updatePlayerState: undoableUpdatePlayerState,
     performAutoMatch,
-    startGame,
+    previewAutoMatch,
+    commitMatchProposal,
+    startGame: undoableStartGame,
     startAllQueuedGames,
-    endGame,
-    endAllGames,
+    endGame: undoableEndGame,
+    returnTeamToQueue,
+    endAllGames: undoableEndAllGames,
     toggleCourtPause,
     updateCourtTimer,
+    extendGame,
     updateCourtNames,
-    adjustGameCount,
-    deleteTeam,
-    updateTeam,
-    createManualTeam,
+    updateScoringModel,
+    updateOptimizerWeights,
+    adjustGameCount: undoableAdjustGameCount,
+    deleteTeam: undoableDeleteTeam,
+    updateTeam: undoableUpdateTeam,
+    updateTeamPairing,
+    createManualTeam: undoableCreateManualTeam,
     resetSession,
     addMember,
     updateMember,
@@ -1907,6 +2570,14 @@ export function useGameState() {
     addMemberAsPlayer,
     addMembersAsPlayers,
     syncFromSupabase,
+    applyRemoteChange,
     resetMembers,
+    undo,
+    redo,
+    undoLabel,
+    redoLabel,
+    conflict,
+    dismissConflict,
+    outboxStatus,
   };
 }
\ No newline at end of file
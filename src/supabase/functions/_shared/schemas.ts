@@ -0,0 +1,577 @@
+// Request and response shapes of the server routes, shared by the edge function (which validates
+// every request body against them) and the client (src/utils/api/client.ts, which sends requests by
+// the route map at the end). Rows are database rows (snake_case). No imports, so both Deno and Vite
+// load it.
+
+// ============= SCHEMAS =============
+
+// One problem with a request body; `path` points at the field, e.g. "players[2].name" ("" for the body)
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T, Optional extends boolean = false> {
+  readonly optional: Optional;
+  // Returns the value when it fits; otherwise adds issues (the returned value is then meaningless)
+  check(value: unknown, path: string, issues: ValidationIssue[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T, boolean> ? T : never;
+
+type Shape = Record<string, Schema<unknown, boolean>>;
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends Schema<unknown, true> ? K : never }[keyof S];
+export type ObjectOf<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+export interface ObjectSchema<S extends Shape> extends Schema<ObjectOf<S>> {
+  readonly shape: S;
+}
+
+const join = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+function schema<T>(check: Schema<T>["check"]): Schema<T> {
+  return { optional: false, check };
+}
+
+export function string(options: { min?: number; max?: number; pattern?: RegExp; label?: string } = {}): Schema<string> {
+  return schema((value, path, issues) => {
+    if (typeof value !== "string") {
+      issues.push({ path, message: "Expected a string" });
+    } else if (options.min !== undefined && value.length < options.min) {
+      issues.push({ path, message: options.min === 1 ? "Must not be empty" : `Must be at least ${options.min} characters` });
+    } else if (options.max !== undefined && value.length > options.max) {
+      issues.push({ path, message: `Must be at most ${options.max} characters` });
+    } else if (options.pattern && !options.pattern.test(value)) {
+      issues.push({ path, message: `Expected ${options.label || `a string matching ${options.pattern}`}` });
+    }
+    return value as string;
+  });
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return schema((value, path, issues) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      issues.push({ path, message: "Expected a number" });
+    } else if (options.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: "Expected a whole number" });
+    } else if (options.min !== undefined && value < options.min) {
+      issues.push({ path, message: `Must be at least ${options.min}` });
+    } else if (options.max !== undefined && value > options.max) {
+      issues.push({ path, message: `Must be at most ${options.max}` });
+    }
+    return value as number;
+  });
+}
+
+export function boolean(): Schema<boolean> {
+  return schema((value, path, issues) => {
+    if (typeof value !== "boolean") issues.push({ path, message: "Expected true or false" });
+    return value as boolean;
+  });
+}
+
+export function oneOf<T extends readonly string[]>(values: T): Schema<T[number]> {
+  return schema((value, path, issues) => {
+    if (!values.includes(value as string)) {
+      issues.push({ path, message: `Expected one of ${values.join(", ")}` });
+    }
+    return value as T[number];
+  });
+}
+
+// Anything; the route or a later step looks at it (audit payloads, backup archives)
+export function unknown(): Schema<unknown> {
+  return schema((value) => value);
+}
+
+export function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  return schema((value, path, issues) => {
+    const first: ValidationIssue[] = [];
+    const result = a.check(value, path, first);
+    if (first.length === 0) return result;
+    return b.check(value, path, issues);
+  });
+}
+
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return schema((value, path, issues) => (value === null ? null : inner.check(value, path, issues)));
+}
+
+// The field may be left out of its object
+export function optional<T>(inner: Schema<T, boolean>): Schema<T | undefined, true> {
+  return {
+    optional: true,
+    check: (value, path, issues) => (value === undefined ? undefined : inner.check(value, path, issues)),
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return schema((value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: "Expected a list" });
+      return [];
+    }
+    if (options.min !== undefined && value.length < options.min) {
+      issues.push({ path, message: options.min === 1 ? "Must not be empty" : `Must have at least ${options.min} entries` });
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      issues.push({ path, message: `Must have at most ${options.max} entries` });
+    }
+    return value.map((entry, index) => item.check(entry, join(path, index), issues));
+  });
+}
+
+export function record<T>(inner: Schema<T>): Schema<Record<string, T>> {
+  return schema((value, path, issues) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      issues.push({ path, message: "Expected an object" });
+      return {};
+    }
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = inner.check(entry, join(path, key), issues);
+    }
+    return result;
+  });
+}
+
+// Fields outside the shape are rejected, so a typo cannot reach the database as an unknown column
+export function object<S extends Shape>(shape: S): ObjectSchema<S> {
+  return {
+    optional: false,
+    shape,
+    check(value, path, issues) {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        issues.push({ path, message: "Expected an object" });
+        return {} as ObjectOf<S>;
+      }
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(shape)) {
+        if (input[key] === undefined && !field.optional) {
+          issues.push({ path: join(path, key), message: "Required" });
+          continue;
+        }
+        const checked = field.check(input[key], join(path, key), issues);
+        if (checked !== undefined) result[key] = checked;
+      }
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) issues.push({ path: join(path, key), message: "Unknown field" });
+      }
+      return result as ObjectOf<S>;
+    },
+  };
+}
+
+// Same fields, all of them optional (update bodies)
+export function partial<S extends Shape>(
+  base: ObjectSchema<S>
+): ObjectSchema<{ [K in keyof S]: Schema<Infer<S[K]> | undefined, true> }> {
+  const shape = Object.fromEntries(
+    Object.entries(base.shape).map(([key, field]) => [key, field.optional ? field : optional(field)])
+  );
+  return object(shape) as ObjectSchema<any>;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+export function parse<T>(target: Schema<T, boolean>, value: unknown, path = ""): ParseResult<T> {
+  const issues: ValidationIssue[] = [];
+  const result = target.check(value, path, issues);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: result };
+}
+
+// ============= FIELDS =============
+
+const id = () => string({ min: 1, max: 200 });
+const name = () => string({ min: 1, max: 100 });
+const timestamp = () => string({ pattern: /^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:?\d{2})$/, label: "an ISO timestamp" });
+export const sessionDate = () => string({ pattern: /^\d{4}-\d{2}-\d{2}$/, label: "a date (YYYY-MM-DD)" });
+export const versionParam = () => string({ pattern: /^\d+$/, label: "a row version" });
+const count = () => number({ min: 0, integer: true });
+
+const gender = oneOf(["남", "여"] as const);
+const rank = oneOf(["S", "A", "B", "C", "D", "E", "F"] as const);
+const playerState = oneOf(["waiting", "priority", "resting", "playing", "queued"] as const);
+const teamState = oneOf(["queued", "playing", "finished"] as const);
+
+const pairing = object({
+  sideA: array(id()),
+  sideB: array(id()),
+});
+
+const gameResult = object({
+  sets: array(object({ a: count(), b: count() })),
+  winner: nullable(oneOf(["A", "B"] as const)),
+});
+
+// ============= ROWS =============
+
+export const memberRow = object({
+  id: id(),
+  name: name(),
+  gender: optional(gender),
+  rank: optional(rank),
+  rating: optional(nullable(number())),
+  rating_games: optional(count()),
+});
+
+export const memberUpdates = partial(object({
+  name: name(),
+  gender: gender,
+  rank: rank,
+  rating: nullable(number()),
+  rating_games: count(),
+}));
+
+export const playerRow = object({
+  id: id(),
+  name: name(),
+  member_id: optional(nullable(id())),
+  state: playerState,
+  gender: optional(gender),
+  rank: optional(rank),
+  game_count: count(),
+  last_game_end_at: nullable(timestamp()),
+  teammate_history: optional(record(count())),
+  opponent_history: optional(record(count())),
+  recent_teammates: optional(array(id())),
+});
+
+const playerFields = {
+  name: name(),
+  state: playerState,
+  gender: gender,
+  rank: rank,
+  game_count: count(),
+  last_game_end_at: nullable(timestamp()),
+  teammate_history: record(count()),
+  opponent_history: record(count()),
+  recent_teammates: array(id()),
+};
+
+export const playerUpdates = partial(object(playerFields));
+
+export const teamRow = object({
+  id: id(),
+  name: name(),
+  player_ids: array(id(), { min: 1 }),
+  pairing: optional(nullable(pairing)),
+  state: teamState,
+  assigned_court_id: optional(nullable(id())),
+  started_at: optional(nullable(timestamp())),
+  ended_at: optional(nullable(timestamp())),
+  extension_min: optional(count()),
+});
+
+const teamFields = {
+  name: name(),
+  player_ids: array(id(), { min: 1 }),
+  pairing: nullable(pairing),
+  state: teamState,
+  assigned_court_id: nullable(id()),
+  started_at: nullable(timestamp()),
+  ended_at: nullable(timestamp()),
+  extension_min: count(),
+};
+
+export const teamUpdates = partial(object(teamFields));
+
+export const gameRow = object({
+  id: id(),
+  session_id: id(),
+  session_date: sessionDate(),
+  team_id: id(),
+  court_id: id(),
+  court_name: string({ max: 100 }),
+  player_ids: array(id(), { min: 1 }),
+  player_names: array(string({ max: 100 })),
+  pairing: optional(nullable(pairing)),
+  started_at: nullable(timestamp()),
+  ended_at: timestamp(),
+  duration_ms: optional(nullable(count())),
+  result: optional(nullable(gameResult)),
+});
+
+export const ratingHistoryRow = object({
+  id: id(),
+  member_id: id(),
+  game_id: id(),
+  rating_before: number(),
+  rating_after: number(),
+  created_at: timestamp(),
+});
+
+export const auditEventRow = object({
+  id: id(),
+  type: string({ min: 1, max: 100 }),
+  payload: optional(unknown()),
+  player_ids: optional(array(id())),
+  player_names: optional(array(string({ max: 100 }))),
+  court_id: optional(nullable(id())),
+  created_at: timestamp(),
+});
+
+export type MemberRow = Infer<typeof memberRow>;
+export type MemberUpdates = Infer<typeof memberUpdates>;
+export type PlayerRow = Infer<typeof playerRow>;
+export type PlayerUpdates = Infer<typeof playerUpdates>;
+export type TeamRow = Infer<typeof teamRow>;
+export type TeamUpdates = Infer<typeof teamUpdates>;
+export type GameRow = Infer<typeof gameRow>;
+export type RatingHistoryRow = Infer<typeof ratingHistoryRow>;
+export type AuditEventRow = Infer<typeof auditEventRow>;
+
+// ============= REQUESTS =============
+
+// Player and team updates carry the version next to the columns; member updates wrap them
+const expectedVersion = () => optional(count());
+
+export const addMemberRequest = object({ member: memberRow });
+export const updateMemberRequest = object({ updates: memberUpdates, expectedVersion: expectedVersion() });
+export const membersRequest = object({ members: array(memberRow) });
+export const ratingHistoryRequest = object({ entries: array(ratingHistoryRow) });
+
+export const updatePlayerRequest = partial(object({ ...playerFields, expected_version: count() }));
+export const playersRequest = object({ players: array(playerRow, { min: 1 }) });
+export const playerIdsRequest = object({ playerIds: array(id(), { min: 1 }) });
+export const batchUpdatePlayersRequest = object({
+  playerUpdates: array(object({
+    playerId: id(),
+    updates: playerUpdates,
+    expectedVersion: expectedVersion(),
+  })),
+});
+
+export const updateTeamRequest = partial(object({ ...teamFields, expected_version: count() }));
+export const teamsRequest = object({ teams: array(teamRow) });
+export const teamIdsRequest = object({ teamIds: array(id(), { min: 1 }) });
+
+export const gamesRequest = object({ games: array(gameRow) });
+export const startGameRequest = object({
+  teamId: id(),
+  courtId: id(),
+  startedAt: timestamp(),
+  expectedVersion: expectedVersion(),
+});
+export const endGameRequest = object({
+  teamId: id(),
+  game: optional(gameRow),
+  ratingUpdates: optional(array(object({ member_id: id(), rating: number(), rating_games: count() }))),
+  ratingHistory: optional(array(ratingHistoryRow)),
+});
+export const commitMatchRequest = object({ teams: array(teamRow, { min: 1 }) });
+export const teamIdRequest = object({ teamId: id(), expectedVersion: expectedVersion() });
+export const addTeamRequest = object({ team: teamRow });
+
+// Undo and redo: the rows to put back, each written at the version this device last saw of it
+const versionedRow = object({ id: id(), expectedVersion: expectedVersion() });
+export const restoreRequest = object({
+  teams: object({
+    added: array(teamRow),
+    updated: array(object({ ...versionedRow.shape, values: teamUpdates })),
+    removed: array(versionedRow),
+  }),
+  players: array(object({ ...versionedRow.shape, values: playerUpdates })),
+  members: array(object({ ...versionedRow.shape, values: memberUpdates })),
+  games: object({ added: array(gameRow), removedIds: array(id()) }),
+  ratingHistory: array(ratingHistoryRow),
+});
+
+export const settingRequest = object({ value: union(string({ max: 10000 }), number()) });
+
+export const auditEventsRequest = object({ events: array(auditEventRow, { min: 1 }) });
+
+export const backupImportRequest = object({
+  archive: unknown(),
+  mode: oneOf(["merge", "replace"] as const),
+  dryRun: optional(boolean()),
+});
+
+export const loginRequest = object({ password: string({ min: 1 }), device: optional(string()) });
+export const changePasswordRequest = object({ currentPassword: string({ min: 1 }), newPassword: string({ min: 1 }) });
+
+export type AddMemberRequest = Infer<typeof addMemberRequest>;
+export type UpdateMemberRequest = Infer<typeof updateMemberRequest>;
+export type MembersRequest = Infer<typeof membersRequest>;
+export type RatingHistoryRequest = Infer<typeof ratingHistoryRequest>;
+export type UpdatePlayerRequest = Infer<typeof updatePlayerRequest>;
+export type PlayersRequest = Infer<typeof playersRequest>;
+export type BatchUpdatePlayersRequest = Infer<typeof batchUpdatePlayersRequest>;
+export type UpdateTeamRequest = Infer<typeof updateTeamRequest>;
+export type TeamsRequest = Infer<typeof teamsRequest>;
+export type GamesRequest = Infer<typeof gamesRequest>;
+export type StartGameRequest = Infer<typeof startGameRequest>;
+export type EndGameRequest = Infer<typeof endGameRequest>;
+export type CommitMatchRequest = Infer<typeof commitMatchRequest>;
+export type TeamIdRequest = Infer<typeof teamIdRequest>;
+export type AddTeamRequest = Infer<typeof addTeamRequest>;
+export type RestoreRequest = Infer<typeof restoreRequest>;
+export type SettingRequest = Infer<typeof settingRequest>;
+export type PlayerIdsRequest = Infer<typeof playerIdsRequest>;
+export type TeamIdsRequest = Infer<typeof teamIdsRequest>;
+export type AuditEventsRequest = Infer<typeof auditEventsRequest>;
+export type BackupImportRequest = Infer<typeof backupImportRequest>;
+export type LoginRequest = Infer<typeof loginRequest>;
+export type ChangePasswordRequest = Infer<typeof changePasswordRequest>;
+
+// ============= RESPONSES =============
+
+// Columns the database fills in on every stored row
+export interface Stored {
+  created_at: string;
+  version?: number; // members, players and teams only
+}
+
+export type StoredMember = MemberRow & Stored;
+export type StoredPlayer = PlayerRow & Stored;
+export type StoredTeam = TeamRow & Stored;
+export type StoredGame = GameRow & Stored;
+
+export type StoredRatingHistory = RatingHistoryRow;
+export type StoredAuditLog = AuditEventRow & { actor: string };
+
+export interface SuccessResponse {
+  success: true;
+}
+
+// A new admin session from /auth/login or /auth/refresh
+export interface SessionResponse {
+  success: true;
+  token: string;
+  role: "admin" | "member";
+  expiresAt: number; // Epoch ms
+}
+
+// Batch writes answer with the number of rows they were given
+export interface CountResponse {
+  success: true;
+  count: number;
+}
+
+export interface AllDataResponse {
+  settings: Record<string, string>;
+  members: StoredMember[];
+  players: StoredPlayer[];
+  teams: StoredTeam[];
+  games: StoredGame[];
+}
+
+// 400: the body (or query) did not match the route's schema
+export interface ValidationErrorResponse {
+  success: false;
+  error: string;
+  reason: "invalid_request";
+  issues: ValidationIssue[];
+}
+
+// 409: a versioned write found the rows changed
+export interface VersionConflictResponse<Row> {
+  success: false;
+  reason: "version_conflict";
+  current: Row[];
+}
+
+// Game operations (/games/start, /games/end, /games/end-all, /match/commit, /undo), 200 or 409
+export interface GameOpResponse {
+  success: boolean;
+  reason?: string;
+  state: { teams: StoredTeam[]; players: StoredPlayer[] };
+  // /undo only: the rows that were no longer at their expected version, when that was the reason
+  conflict?: RestoreConflict;
+}
+
+export type RestoreConflict =
+  | { table: "members"; ids: string[]; current: StoredMember[] }
+  | { table: "players"; ids: string[]; current: StoredPlayer[] }
+  | { table: "teams"; ids: string[]; current: StoredTeam[] };
+
+export type BackupSection = "members" | "players" | "teams" | "games" | "rating_history" | "settings";
+
+export interface BackupTableDiff {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  skipped: number;
+  examples: { added: string[]; updated: string[]; removed: string[] };
+}
+
+// 200 for a dry run or an applied import; 409 (success: false, reason "conflict") carries the same diff
+export interface BackupImportResponse {
+  success: true;
+  dryRun: boolean;
+  diff: Record<BackupSection, BackupTableDiff>;
+  upgradedFrom: number | null;
+}
+
+// ============= ROUTES =============
+
+// Every route the client calls, keyed by method and path below the function base. `:name` segments
+// are filled in from params; `response` is the body of a 2xx answer.
+export interface ApiRoutes {
+  "GET /all-data": { query: { date?: string }; response: AllDataResponse };
+
+  "GET /members": { response: { members: StoredMember[] } };
+  "POST /members": { body: AddMemberRequest; response: { success: true; member: StoredMember } };
+  "PUT /members/:id": { body: UpdateMemberRequest; response: SuccessResponse };
+  "DELETE /members/:id": { response: SuccessResponse };
+  "POST /members/batch": { body: MembersRequest; response: CountResponse };
+  "DELETE /members/all": { response: { success: true; deletedCount: number } };
+  "POST /members/reset": { body: MembersRequest; response: { success: true; deletedCount: number; addedCount: number } };
+  "GET /members/:id/rating-history": { response: { history: StoredRatingHistory[] } };
+  "POST /rating-history/batch": { body: RatingHistoryRequest; response: CountResponse };
+
+  "GET /players": { response: StoredPlayer[] };
+  "POST /players": { body: PlayerRow; response: { success: true; player: StoredPlayer } };
+  "POST /players/batch": { body: PlayersRequest; response: CountResponse };
+  "POST /players/batch-delete": { body: PlayerIdsRequest; response: CountResponse };
+  "POST /players/batch-update": { body: BatchUpdatePlayersRequest; response: CountResponse };
+  "POST /players/reset-game-counts": { response: CountResponse };
+  "PUT /players/:id": { body: UpdatePlayerRequest; response: SuccessResponse };
+  "DELETE /players/:id": { response: SuccessResponse };
+
+  "GET /teams": { response: StoredTeam[] };
+  "POST /teams": { body: TeamRow; response: { success: true; team: StoredTeam } };
+  "POST /teams/batch": { body: TeamsRequest; response: CountResponse };
+  "POST /teams/batch-delete": { body: TeamIdsRequest; response: CountResponse };
+  "DELETE /teams/finished": { response: SuccessResponse };
+  "DELETE /teams/all": { response: SuccessResponse };
+  "PUT /teams/:id": { body: UpdateTeamRequest; response: SuccessResponse };
+  "DELETE /teams/:id": { query: { expected_version?: string }; response: SuccessResponse };
+
+  "GET /games": { query: { date?: string }; response: StoredGame[] };
+  "POST /games": { body: GameRow; response: { success: true; game: StoredGame } };
+  "POST /games/batch": { body: GamesRequest; response: CountResponse };
+  "DELETE /games/:id": { response: SuccessResponse };
+
+  // 409 when the operation was turned down; the ApiError body is then a GameOpResponse too
+  "POST /games/start": { body: StartGameRequest; response: GameOpResponse };
+  "POST /games/return": { body: TeamIdRequest; response: GameOpResponse };
+  "POST /games/end": { body: EndGameRequest; response: GameOpResponse };
+  "POST /games/end-all": { body: GamesRequest; response: GameOpResponse };
+  "POST /match/commit": { body: CommitMatchRequest; response: GameOpResponse };
+  "POST /match/add-team": { body: AddTeamRequest; response: GameOpResponse };
+  "POST /match/remove-team": { body: TeamIdRequest; response: GameOpResponse };
+  "POST /undo": { body: RestoreRequest; response: GameOpResponse };
+
+  "GET /settings/:key": { response: { key: string; value: string | null } };
+  "PUT /settings/:key": { body: SettingRequest; response: { success: true; key: string; value: string | number } };
+
+  "POST /audit-logs": { body: AuditEventsRequest; response: CountResponse };
+  "GET /audit-logs": {
+    query: { type?: string; player?: string; court?: string; before?: string };
+    response: { logs: StoredAuditLog[]; hasMore: boolean };
+  };
+
+  "GET /backup/export": { response: unknown };
+  "POST /backup/import": { body: BackupImportRequest; response: BackupImportResponse };
+
+  "POST /auth/login": { body: LoginRequest; response: SessionResponse };
+  "POST /auth/refresh": { response: SessionResponse };
+  "POST /admin-password/change": { body: ChangePasswordRequest; response: SuccessResponse };
+}
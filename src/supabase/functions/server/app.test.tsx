@@ -0,0 +1,272 @@
+import "./test_env.tsx";
+import { beforeEach, describe, expect, it } from "vitest";
+import { app } from "./app.tsx";
+import * as auth from "./auth.tsx";
+import * as db from "./db.tsx";
+import { createMemoryStorage } from "./storage_memory.tsx";
+import type { StoredPlayer, StoredTeam } from "../_shared/schemas.ts";
+
+const BASE = "http://localhost/make-server-41b22d2d";
+
+interface RequestOptions {
+  body?: unknown;
+  token?: string;
+  forwardedFor?: string;
+}
+
+async function request(method: string, path: string, { body, token, forwardedFor }: RequestOptions = {}) {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (token) headers[auth.SESSION_HEADER] = token;
+  if (forwardedFor) headers["X-Forwarded-For"] = forwardedFor;
+
+  const response = await app.fetch(new Request(`${BASE}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+async function login(): Promise<string> {
+  const { status, body } = await request("POST", "/auth/login", { body: { password: "admin" } });
+  expect(status).toBe(200);
+  return body.token;
+}
+
+// Two courts, eight waiting players in two queued teams
+async function seedGame() {
+  await db.setSetting("courts_count", "2");
+  await db.batchAddPlayers(Array.from({ length: 8 }, (_, i) => ({
+    id: `p${i + 1}`,
+    name: `선수 ${i + 1}`,
+    state: "queued",
+    game_count: 0,
+    last_game_end_at: null,
+  })));
+  await db.batchAddTeams([
+    { id: "t1", name: "팀 1", player_ids: ["p1", "p2", "p3", "p4"], state: "queued" },
+    { id: "t2", name: "팀 2", player_ids: ["p5", "p6", "p7", "p8"], state: "queued" },
+  ]);
+}
+
+const startedAt = "2026-10-19T10:00:00.000Z";
+
+beforeEach(() => {
+  db.setStorage(createMemoryStorage());
+});
+
+describe("routes", () => {
+  it("turns writes away without a session", async () => {
+    const { status, body } = await request("POST", "/players", {
+      body: { id: "p1", name: "선수", state: "waiting", game_count: 0, last_game_end_at: null },
+    });
+
+    expect(status).toBe(401);
+    expect(body.reason).toBe("unauthenticated");
+  });
+
+  it("answers an invalid body with the fields that are wrong", async () => {
+    const token = await login();
+
+    const { status, body } = await request("POST", "/players", {
+      token,
+      body: { id: "p1", name: "", state: "sleeping", game_count: 0, last_game_end_at: null },
+    });
+
+    expect(status).toBe(400);
+    expect(body.reason).toBe("invalid_request");
+    expect(body.issues.map((issue: { path: string }) => issue.path).sort()).toEqual(["name", "state"]);
+  });
+
+  it("rejects a team update at an old version with the current row", async () => {
+    const token = await login();
+    await seedGame();
+
+    const first = await request("PUT", "/teams/t1", { token, body: { name: "새 이름", expected_version: 1 } });
+    const stale = await request("PUT", "/teams/t1", { token, body: { name: "늦은 이름", expected_version: 1 } });
+
+    expect(first.status).toBe(200);
+    expect(stale.status).toBe(409);
+    expect(stale.body.current[0]).toMatchObject({ id: "t1", name: "새 이름", version: 2 });
+  });
+
+  it("deletes a team only at the expected version", async () => {
+    const token = await login();
+    await seedGame();
+    await db.updateTeam("t1", { name: "새 이름" });
+
+    const stale = await request("DELETE", "/teams/t1?expected_version=1", { token });
+    const current = await request("DELETE", "/teams/t1?expected_version=2", { token });
+
+    expect(stale.status).toBe(409);
+    expect(current.status).toBe(200);
+    expect(await db.getTeamsByIds(["t1"])).toEqual([]);
+  });
+});
+
+describe("game operations", () => {
+  it("starts a game with its team and players together", async () => {
+    const token = await login();
+    await seedGame();
+
+    const { status, body } = await request("POST", "/games/start", {
+      token,
+      body: { teamId: "t1", courtId: "court-0", startedAt },
+    });
+
+    expect(status).toBe(200);
+    expect(body.state.teams.find((t: StoredTeam) => t.id === "t1")).toMatchObject({ state: "playing", assigned_court_id: "court-0" });
+    expect(body.state.players.filter((p: StoredPlayer) => p.state === "playing").map((p: StoredPlayer) => p.id)).toEqual(["p1", "p2", "p3", "p4"]);
+  });
+
+  it("lets only one of two parallel starts take the same court", async () => {
+    const token = await login();
+    await seedGame();
+
+    const results = await Promise.all([
+      request("POST", "/games/start", { token, body: { teamId: "t1", courtId: "court-0", startedAt } }),
+      request("POST", "/games/start", { token, body: { teamId: "t2", courtId: "court-0", startedAt } }),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual([200, 409]);
+    const teams = await db.getAllTeams();
+    expect(teams.filter((t) => t.state === "playing")).toHaveLength(1);
+    // The rejected start wrote none of its players either
+    expect((await db.getAllPlayers()).filter((p) => p.state === "playing")).toHaveLength(4);
+  });
+
+  it("returns a playing team to the queue, unless it changed since the client saw it", async () => {
+    const token = await login();
+    await seedGame();
+    await request("POST", "/games/start", { token, body: { teamId: "t1", courtId: "court-0", startedAt } });
+    const [playing] = await db.getTeamsByIds(["t1"]);
+
+    const stale = await request("POST", "/games/return", { token, body: { teamId: "t1", expectedVersion: playing.version! - 1 } });
+    const returned = await request("POST", "/games/return", { token, body: { teamId: "t1", expectedVersion: playing.version } });
+
+    expect(stale.status).toBe(409);
+    expect(stale.body.reason).toBe("conflict");
+    expect(returned.status).toBe(200);
+    expect(returned.body.state.teams.find((t: StoredTeam) => t.id === "t1")).toMatchObject({ state: "queued", assigned_court_id: null });
+    expect(returned.body.state.players.every((p: StoredPlayer) => p.state === "queued")).toBe(true);
+  });
+
+  it("rejects a rating computed from a member another game already rated", async () => {
+    const token = await login();
+    await seedGame();
+    await db.batchAddMembers([{ id: "m1", name: "회원 1" }]);
+    await request("POST", "/games/start", { token, body: { teamId: "t1", courtId: "court-0", startedAt } });
+    // A game on another court ended first and rated the same member
+    await db.updateMember("m1", { rating: 1510, rating_games: 1 });
+
+    const stale = await request("POST", "/games/end", {
+      token,
+      body: { teamId: "t1", ratingUpdates: [{ member_id: "m1", rating: 1490, rating_games: 1 }] },
+    });
+    const current = await request("POST", "/games/end", {
+      token,
+      body: { teamId: "t1", ratingUpdates: [{ member_id: "m1", rating: 1495, rating_games: 2 }] },
+    });
+
+    expect(stale.status).toBe(409);
+    expect(current.status).toBe(200);
+    expect((await db.getMembersByIds(["m1"]))[0]).toMatchObject({ rating: 1495, rating_games: 2 });
+  });
+
+  it("adds and removes a manual team with its players", async () => {
+    const token = await login();
+    await db.batchAddPlayers(["a", "b", "c", "d"].map((id) => ({
+      id,
+      name: `선수 ${id}`,
+      state: "waiting",
+      game_count: 0,
+      last_game_end_at: null,
+    })));
+
+    const added = await request("POST", "/match/add-team", {
+      token,
+      body: { team: { id: "manual", name: "수동 팀", player_ids: ["a", "b", "c", "d"], state: "queued" } },
+    });
+    expect(added.status).toBe(200);
+    expect(added.body.state.players.every((p: StoredPlayer) => p.state === "queued")).toBe(true);
+
+    const removed = await request("POST", "/match/remove-team", { token, body: { teamId: "manual" } });
+    expect(removed.status).toBe(200);
+    expect(removed.body.state.teams).toEqual([]);
+    expect(removed.body.state.players.every((p: StoredPlayer) => p.state === "waiting")).toBe(true);
+  });
+});
+
+describe("undo", () => {
+  const noChanges = {
+    teams: { added: [], updated: [], removed: [] },
+    players: [],
+    members: [],
+    games: { added: [], removedIds: [] },
+    ratingHistory: [],
+  };
+
+  it("writes nothing and names the rows when one of them changed meanwhile", async () => {
+    const token = await login();
+    await seedGame();
+    await db.updatePlayer("p2", { state: "resting" });
+
+    const { status, body } = await request("POST", "/undo", {
+      token,
+      body: {
+        ...noChanges,
+        teams: { added: [], updated: [], removed: [{ id: "t1", expectedVersion: 1 }] },
+        players: ["p1", "p2"].map((id) => ({ id, values: { state: "waiting" }, expectedVersion: 1 })),
+      },
+    });
+
+    expect(status).toBe(409);
+    expect(body.conflict).toMatchObject({ table: "players", ids: ["p2"] });
+    expect(await db.getTeamsByIds(["t1"])).toHaveLength(1);
+    expect((await db.getPlayersByIds(["p1"]))[0].state).toBe("queued");
+  });
+
+  it("puts nothing back on a court another team took meanwhile", async () => {
+    const token = await login();
+    await seedGame();
+    await request("POST", "/games/start", { token, body: { teamId: "t2", courtId: "court-0", startedAt } });
+
+    const { status, body } = await request("POST", "/undo", {
+      token,
+      body: {
+        ...noChanges,
+        teams: {
+          added: [{ id: "t3", name: "팀 3", player_ids: ["p1"], state: "playing", assigned_court_id: "court-0", started_at: startedAt }],
+          updated: [],
+          removed: [{ id: "t1", expectedVersion: 1 }],
+        },
+      },
+    });
+
+    expect(status).toBe(409);
+    expect(body.conflict).toBeUndefined();
+    expect(await db.getTeamsByIds(["t1", "t3"])).toHaveLength(1);
+  });
+});
+
+describe("login throttle", () => {
+  it("lets only one of several parallel wrong passwords be checked", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        request("POST", "/auth/login", { body: { password: "wrong" }, forwardedFor: "203.0.113.7" })
+      )
+    );
+
+    expect(results.filter((r) => r.body.reason === "invalid_password")).toHaveLength(1);
+    expect(results.filter((r) => r.status === 429)).toHaveLength(4);
+  });
+
+  it("keys on the hop the gateway added, not on what the client sent", async () => {
+    await request("POST", "/auth/login", { body: { password: "wrong" }, forwardedFor: "10.0.0.1, 203.0.113.7" });
+
+    const spoofed = await request("POST", "/auth/login", { body: { password: "wrong" }, forwardedFor: "10.0.0.2, 203.0.113.7" });
+
+    expect(spoofed.status).toBe(429);
+  });
+});
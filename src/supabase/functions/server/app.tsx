@@ -0,0 +1,1084 @@
+import { Hono } from "npm:hono";
+import type { Context } from "npm:hono";
+import { cors } from "npm:hono/cors";
+import { logger } from "npm:hono/logger";
+import { HTTPException } from "npm:hono/http-exception";
+import { validator } from "npm:hono/validator";
+import * as schemas from "../_shared/schemas.ts";
+import * as auth from "./auth.tsx";
+import * as backup from "./backup.tsx";
+import * as db from "./db.tsx";
+import * as gameOps from "./gameOps.tsx";
+import * as kv from "./kv_store.tsx";
+import * as settings from "./settings.tsx";
+
+// All routes; index.tsx serves them as the edge function, local.tsx on this machine
+export const app = new Hono();
+
+// Enable logger
+app.use('*', logger(console.log));
+
+// Enable CORS for all routes and methods
+app.use(
+  "/*",
+  cors({
+    origin: "*",
+    allowHeaders: ["Content-Type", "Authorization", auth.SESSION_HEADER],
+    allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    exposeHeaders: ["Content-Length"],
+    maxAge: 600,
+  }),
+);
+
+function getRequestSession(c: Context): Promise<auth.Session | null> {
+  return auth.verifySessionToken(c.req.header(auth.SESSION_HEADER));
+}
+
+// Reads are open to everyone holding the anon key; anything that changes data needs an admin session
+const PUBLIC_MUTATIONS = new Set(["/make-server-41b22d2d/auth/login"]);
+
+app.use("/make-server-41b22d2d/*", async (c, next) => {
+  if (c.req.method === "GET" || c.req.method === "OPTIONS" || PUBLIC_MUTATIONS.has(c.req.path)) {
+    return next();
+  }
+
+  const session = await getRequestSession(c);
+  if (!session) {
+    return c.json({ success: false, error: "Login required", reason: "unauthenticated" }, 401);
+  }
+  if (session.role !== "admin") {
+    return c.json({ success: false, error: "Admin role required", reason: "forbidden" }, 403);
+  }
+
+  return next();
+});
+
+// ===== VALIDATION =====
+// Request bodies are checked against the shared schemas (functions/_shared/schemas.ts) before the
+// route runs. A mismatch answers 400 with every field at fault, so nothing malformed reaches the db.
+
+function invalidRequest(c: Context, issues: schemas.ValidationIssue[]) {
+  const body: schemas.ValidationErrorResponse = {
+    success: false,
+    error: "Invalid request",
+    reason: "invalid_request",
+    issues,
+  };
+  return c.json(body, 400);
+}
+
+function jsonBody<T>(schema: schemas.Schema<T, boolean>) {
+  return validator("json", (value, c) => {
+    const result = schemas.parse(schema, value);
+    return result.ok ? result.value : invalidRequest(c, result.issues);
+  });
+}
+
+// ?date=YYYY-MM-DD, optional
+const sessionDateQuery = validator("query", (value, c) => {
+  if (value.date === undefined) return { date: undefined };
+  const result = schemas.parse(schemas.sessionDate(), value.date, "date");
+  return result.ok ? { date: result.value } : invalidRequest(c, result.issues);
+});
+
+// ?expected_version=N, optional
+const expectedVersionQuery = validator("query", (value, c) => {
+  if (value.expected_version === undefined) return { expectedVersion: undefined };
+  const result = schemas.parse(schemas.versionParam(), value.expected_version, "expected_version");
+  return result.ok ? { expectedVersion: parseInt(result.value, 10) } : invalidRequest(c, result.issues);
+});
+
+app.onError((error, c) => {
+  // Malformed JSON bodies and the like
+  if (error instanceof HTTPException && error.status === 400) {
+    return invalidRequest(c, [{ path: "", message: error.message }]);
+  }
+  if (error instanceof HTTPException) {
+    return error.getResponse();
+  }
+  console.error("Unhandled error:", error);
+  return c.json({ success: false, error: "Internal server error" }, 500);
+});
+
+// Reads do not need a session, but some of them return more to admins
+async function isAdminRequest(c: Context): Promise<boolean> {
+  const session = await getRequestSession(c);
+  return session?.role === "admin";
+}
+
+// Health check endpoint
+app.get("/make-server-41b22d2d/health", (c) => {
+  return c.json({ status: "ok" });
+});
+
+// ⚡ Get all data at once for faster loading
+app.get("/make-server-41b22d2d/all-data", sessionDateQuery, async (c) => {
+  try {
+    const startTime = performance.now();
+    const data = await db.getAllData(c.req.valid("query").date);
+    data.settings = settings.filterReadable(data.settings, await isAdminRequest(c));
+    const duration = performance.now() - startTime;
+    
+    console.log(`⚡ Batch loaded all data in ${duration.toFixed(0)}ms`);
+    return c.json(data);
+  } catch (error) {
+    console.error("Error getting all data:", error);
+    return c.json({ error: "Failed to get all data", details: String(error) }, 500);
+  }
+});
+
+// Get all members
+app.get("/make-server-41b22d2d/members", async (c) => {
+  try {
+    const members = await db.getAllMembers();
+    return c.json({ members });
+  } catch (error) {
+    console.error("Error getting members:", error);
+    return c.json({ error: "Failed to get members", details: String(error) }, 500);
+  }
+});
+
+// Add a new member
+app.post("/make-server-41b22d2d/members", jsonBody(schemas.addMemberRequest), async (c) => {
+  try {
+    const { member } = c.req.valid("json");
+
+    const addedMember = await db.addMember(member);
+    
+    return c.json({ member: addedMember, success: true });
+  } catch (error) {
+    console.error("Error adding member:", error);
+    return c.json({ error: "Failed to add member", details: String(error) }, 500);
+  }
+});
+
+// Update a member
+app.put("/make-server-41b22d2d/members/:id", jsonBody(schemas.updateMemberRequest), async (c) => {
+  try {
+    const memberId = c.req.param("id");
+    const { updates, expectedVersion } = c.req.valid("json");
+
+    const updated = await db.updateMember(memberId, updates, expectedVersion);
+    if (!updated) {
+      const current = await db.getMembersByIds([memberId]);
+      return c.json({ success: false, reason: "version_conflict", current }, 409);
+    }
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error updating member:", error);
+    return c.json({ error: "Failed to update member", details: String(error) }, 500);
+  }
+});
+
+// Get a member's rating history
+app.get("/make-server-41b22d2d/members/:id/rating-history", async (c) => {
+  try {
+    const memberId = c.req.param("id");
+    const history = await db.getRatingHistory(memberId);
+    return c.json({ history });
+  } catch (error) {
+    console.error("Error getting rating history:", error);
+    return c.json({ error: "Failed to get rating history", details: String(error) }, 500);
+  }
+});
+
+// Record rating changes after a rated game
+app.post("/make-server-41b22d2d/rating-history/batch", jsonBody(schemas.ratingHistoryRequest), async (c) => {
+  try {
+    const { entries } = c.req.valid("json");
+
+    if (entries.length > 0) {
+      await db.batchAddRatingHistory(entries);
+    }
+
+    return c.json({ success: true, count: entries.length });
+  } catch (error) {
+    console.error("Error adding rating history:", error);
+    return c.json({ error: "Failed to add rating history", details: String(error) }, 500);
+  }
+});
+
+// Delete a member
+app.delete("/make-server-41b22d2d/members/:id", async (c) => {
+  try {
+    const memberId = c.req.param("id");
+    
+    if (!memberId) {
+      return c.json({ error: "Invalid member ID" }, 400);
+    }
+
+    await db.deleteMember(memberId);
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting member:", error);
+    return c.json({ error: "Failed to delete member", details: String(error) }, 500);
+  }
+});
+
+// Batch add members
+app.post("/make-server-41b22d2d/members/batch", jsonBody(schemas.membersRequest), async (c) => {
+  try {
+    const { members: newMembers } = c.req.valid("json");
+
+    await db.batchAddMembers(newMembers);
+    
+    console.log(`✅ Batch added ${newMembers.length} members`);
+    return c.json({ success: true, count: newMembers.length });
+  } catch (error) {
+    console.error("Error batch adding members:", error);
+    return c.json({ error: "Failed to batch add members", details: String(error) }, 500);
+  }
+});
+
+// Delete all members
+app.delete("/make-server-41b22d2d/members/all", async (c) => {
+  try {
+    const members = await db.getAllMembers();
+    const count = members.length;
+    
+    await db.deleteAllMembers();
+    
+    console.log(`✅ Deleted all ${count} members`);
+    return c.json({ success: true, deletedCount: count });
+  } catch (error) {
+    console.error("Error deleting all members:", error);
+    return c.json({ error: "Failed to delete all members", details: String(error) }, 500);
+  }
+});
+
+// Reset members - delete all and add new ones atomically
+app.post("/make-server-41b22d2d/members/reset", jsonBody(schemas.membersRequest), async (c) => {
+  try {
+    const { members: newMembers } = c.req.valid("json");
+    
+    // Get current count
+    const oldMembers = await db.getAllMembers();
+    const deletedCount = oldMembers.length;
+    
+    // Atomic reset: delete all and set new ones
+    await db.resetMembers(newMembers);
+    
+    console.log(`✅ Reset members: deleted ${deletedCount}, added ${newMembers.length}`);
+    return c.json({ success: true, deletedCount, addedCount: newMembers.length });
+  } catch (error) {
+    console.error("Error resetting members:", error);
+    return c.json({ error: "Failed to reset members", details: String(error) }, 500);
+  }
+});
+
+// ============= PLAYERS ENDPOINTS =============
+
+// Get all players
+app.get("/make-server-41b22d2d/players", async (c) => {
+  try {
+    const players = await db.getAllPlayers();
+    return c.json(players);
+  } catch (error) {
+    console.error("Error getting players:", error);
+    return c.json({ error: "Failed to get players", details: String(error) }, 500);
+  }
+});
+
+// Add a new player
+app.post("/make-server-41b22d2d/players", jsonBody(schemas.playerRow), async (c) => {
+  try {
+    const player = c.req.valid("json");
+
+    const addedPlayer = await db.addPlayer(player);
+    
+    return c.json({ player: addedPlayer, success: true });
+  } catch (error) {
+    console.error("Error adding player:", error);
+    return c.json({ error: "Failed to add player", details: String(error) }, 500);
+  }
+});
+
+// Add multiple players at once (batch)
+app.post("/make-server-41b22d2d/players/batch", jsonBody(schemas.playersRequest), async (c) => {
+  try {
+    const { players: newPlayers } = c.req.valid("json");
+
+    await db.batchAddPlayers(newPlayers);
+    
+    console.log(`✅ Batch added ${newPlayers.length} players`);
+    return c.json({ success: true, count: newPlayers.length });
+  } catch (error) {
+    console.error("Error batch adding players:", error);
+    return c.json({ error: "Failed to batch add players", details: String(error) }, 500);
+  }
+});
+
+// Delete multiple players at once (batch)
+app.post("/make-server-41b22d2d/players/batch-delete", jsonBody(schemas.playerIdsRequest), async (c) => {
+  try {
+    const { playerIds } = c.req.valid("json");
+
+    await db.batchDeletePlayers(playerIds);
+    
+    console.log(`✅ Batch deleted ${playerIds.length} players`);
+    return c.json({ success: true, count: playerIds.length });
+  } catch (error) {
+    console.error("Error batch deleting players:", error);
+    return c.json({ error: "Failed to batch delete players", details: String(error) }, 500);
+  }
+});
+
+// Update a player
+app.put("/make-server-41b22d2d/players/:id", jsonBody(schemas.updatePlayerRequest), async (c) => {
+  try {
+    const playerId = c.req.param("id");
+    const { expected_version: expectedVersion, ...updates } = c.req.valid("json");
+
+    const updated = await db.updatePlayer(playerId, updates, expectedVersion);
+    if (!updated) {
+      const current = await db.getPlayersByIds([playerId]);
+      return c.json({ success: false, reason: "version_conflict", current }, 409);
+    }
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error updating player:", error);
+    return c.json({ error: "Failed to update player", details: String(error) }, 500);
+  }
+});
+
+// Batch update players
+app.post("/make-server-41b22d2d/players/batch-update", jsonBody(schemas.batchUpdatePlayersRequest), async (c) => {
+  try {
+    const { playerUpdates } = c.req.valid("json");
+
+    console.log(`🔄 Batch updating ${playerUpdates.length} players...`);
+    
+    const updated = await db.batchUpdatePlayers(playerUpdates);
+    if (!updated) {
+      const current = await db.getPlayersByIds(playerUpdates.map((u) => u.playerId));
+      return c.json({ success: false, reason: "version_conflict", current }, 409);
+    }
+    
+    console.log(`✅ Successfully batch updated ${playerUpdates.length} players`);
+    return c.json({ success: true, count: playerUpdates.length });
+  } catch (error) {
+    console.error("Error batch updating players:", error);
+    return c.json({ error: "Failed to batch update players", details: String(error) }, 500);
+  }
+});
+
+// Delete a player
+app.delete("/make-server-41b22d2d/players/:id", async (c) => {
+  try {
+    const playerId = c.req.param("id");
+    
+    if (!playerId) {
+      return c.json({ error: "Invalid player ID" }, 400);
+    }
+
+    await db.deletePlayer(playerId);
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting player:", error);
+    return c.json({ error: "Failed to delete player", details: String(error) }, 500);
+  }
+});
+
+// Reset game counts for all players (for 초기화 button)
+app.post("/make-server-41b22d2d/players/reset-game-counts", async (c) => {
+  try {
+    await db.resetPlayerGameCounts();
+    
+    const players = await db.getAllPlayers();
+    return c.json({ success: true, count: players.length });
+  } catch (error) {
+    console.error("Error resetting game counts:", error);
+    return c.json({ error: "Failed to reset game counts", details: String(error) }, 500);
+  }
+});
+
+// ============= TEAMS ENDPOINTS =============
+
+// Get all teams
+app.get("/make-server-41b22d2d/teams", async (c) => {
+  try {
+    const teams = await db.getAllTeams();
+    return c.json(teams);
+  } catch (error) {
+    console.error("Error getting teams:", error);
+    return c.json({ error: "Failed to get teams", details: String(error) }, 500);
+  }
+});
+
+// Add a new team
+app.post("/make-server-41b22d2d/teams", jsonBody(schemas.teamRow), async (c) => {
+  try {
+    const team = c.req.valid("json");
+    
+    console.log("📥 Received team data:", JSON.stringify(team, null, 2));
+
+    const addedTeam = await db.addTeam(team);
+    
+    return c.json({ team: addedTeam, success: true });
+  } catch (error) {
+    console.error("Error adding team:", error);
+    return c.json({ error: "Failed to add team", details: String(error) }, 500);
+  }
+});
+
+// Add multiple teams (batch)
+app.post("/make-server-41b22d2d/teams/batch", jsonBody(schemas.teamsRequest), async (c) => {
+  try {
+    const { teams: newTeams } = c.req.valid("json");
+
+    await db.batchAddTeams(newTeams);
+    
+    return c.json({ success: true, count: newTeams.length });
+  } catch (error) {
+    console.error("Error adding teams:", error);
+    return c.json({ error: "Failed to add teams", details: String(error) }, 500);
+  }
+});
+
+// Update a team
+app.put("/make-server-41b22d2d/teams/:id", jsonBody(schemas.updateTeamRequest), async (c) => {
+  try {
+    const teamId = c.req.param("id");
+    const { expected_version: expectedVersion, ...updates } = c.req.valid("json");
+
+    const updated = await db.updateTeam(teamId, updates, expectedVersion);
+    if (!updated) {
+      const current = await db.getTeamsByIds([teamId]);
+      return c.json({ success: false, reason: "version_conflict", current }, 409);
+    }
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error updating team:", error);
+    return c.json({ error: "Failed to update team", details: String(error) }, 500);
+  }
+});
+
+// Delete all finished teams (MUST be before /:id route)
+app.delete("/make-server-41b22d2d/teams/finished", async (c) => {
+  try {
+    await db.deleteFinishedTeams();
+    
+    console.log(`✅ Deleted finished teams from Supabase`);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting finished teams:", error);
+    return c.json({ error: "Failed to delete finished teams", details: String(error) }, 500);
+  }
+});
+
+// Batch delete teams
+app.post("/make-server-41b22d2d/teams/batch-delete", jsonBody(schemas.teamIdsRequest), async (c) => {
+  try {
+    const { teamIds } = c.req.valid("json");
+
+    await db.batchDeleteTeams(teamIds);
+    
+    console.log(`✅ Batch deleted ${teamIds.length} teams`);
+    return c.json({ success: true, count: teamIds.length });
+  } catch (error) {
+    console.error("Error batch deleting teams:", error);
+    return c.json({ error: "Failed to batch delete teams", details: String(error) }, 500);
+  }
+});
+
+// Delete all teams (for session reset)
+app.delete("/make-server-41b22d2d/teams/all", async (c) => {
+  try {
+    await db.deleteAllTeams();
+    console.log("✅ Deleted all teams from Supabase");
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting all teams:", error);
+    return c.json({ error: "Failed to delete all teams", details: String(error) }, 500);
+  }
+});
+
+// Delete a team (MUST be after /finished and /all routes)
+app.delete("/make-server-41b22d2d/teams/:id", expectedVersionQuery, async (c) => {
+  try {
+    const teamId = c.req.param("id");
+    const { expectedVersion } = c.req.valid("query");
+    
+    if (!teamId) {
+      return c.json({ error: "Invalid team ID" }, 400);
+    }
+
+    if (expectedVersion === undefined) {
+      await db.deleteTeam(teamId);
+    } else if (!(await db.applyMutations([{ table: "teams", op: "delete", id: teamId, expect: { version: expectedVersion } }]))) {
+      const current = await db.getTeamsByIds([teamId]);
+      return c.json({ success: false, reason: "version_conflict", current }, 409);
+    }
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting team:", error);
+    return c.json({ error: "Failed to delete team", details: String(error) }, 500);
+  }
+});
+
+// ============= GAMES ENDPOINTS =============
+
+// Get finished games, optionally only those of one session date (?date=YYYY-MM-DD)
+app.get("/make-server-41b22d2d/games", sessionDateQuery, async (c) => {
+  try {
+    const games = await db.getGames(c.req.valid("query").date);
+    return c.json(games);
+  } catch (error) {
+    console.error("Error getting games:", error);
+    return c.json({ error: "Failed to get games", details: String(error) }, 500);
+  }
+});
+
+// Record a finished game
+app.post("/make-server-41b22d2d/games", jsonBody(schemas.gameRow), async (c) => {
+  try {
+    const game = c.req.valid("json");
+
+    const addedGame = await db.addGame(game);
+
+    return c.json({ game: addedGame, success: true });
+  } catch (error) {
+    console.error("Error adding game:", error);
+    return c.json({ error: "Failed to add game", details: String(error) }, 500);
+  }
+});
+
+// Record multiple finished games (batch)
+app.post("/make-server-41b22d2d/games/batch", jsonBody(schemas.gamesRequest), async (c) => {
+  try {
+    const { games } = c.req.valid("json");
+
+    if (games.length > 0) {
+      await db.batchAddGames(games);
+    }
+
+    console.log(`✅ Recorded ${games.length} games`);
+    return c.json({ success: true, count: games.length });
+  } catch (error) {
+    console.error("Error adding games:", error);
+    return c.json({ error: "Failed to add games", details: String(error) }, 500);
+  }
+});
+
+// Delete a recorded game (undo of ending it)
+app.delete("/make-server-41b22d2d/games/:id", async (c) => {
+  try {
+    const gameId = c.req.param("id");
+
+    if (!gameId) {
+      return c.json({ error: "Invalid game ID" }, 400);
+    }
+
+    await db.deleteGame(gameId);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting game:", error);
+    return c.json({ error: "Failed to delete game", details: String(error) }, 500);
+  }
+});
+
+// ============= GAME OPERATIONS ENDPOINTS =============
+// Each operation is applied atomically and answers with the resulting teams and players.
+// A rejected precondition answers 409 with a reason and the current state.
+
+// Start a queued team on a court
+app.post("/make-server-41b22d2d/games/start", jsonBody(schemas.startGameRequest), async (c) => {
+  try {
+    const { teamId, courtId, startedAt, expectedVersion } = c.req.valid("json");
+
+    const outcome = await gameOps.startGame({ teamId, courtId, startedAt, expectedVersion });
+    return c.json(outcome, outcome.success ? 200 : 409);
+  } catch (error) {
+    console.error("Error starting game:", error);
+    return c.json({ error: "Failed to start game", details: String(error) }, 500);
+  }
+});
+
+// Put a playing team back into the queue
+app.post("/make-server-41b22d2d/games/return", jsonBody(schemas.teamIdRequest), async (c) => {
+  try {
+    const { teamId, expectedVersion } = c.req.valid("json");
+
+    const outcome = await gameOps.returnGame({ teamId, expectedVersion });
+    return c.json(outcome, outcome.success ? 200 : 409);
+  } catch (error) {
+    console.error("Error returning game to the queue:", error);
+    return c.json({ error: "Failed to return game to the queue", details: String(error) }, 500);
+  }
+});
+
+// End one game: update player stats, record the game and ratings, delete the team
+app.post("/make-server-41b22d2d/games/end", jsonBody(schemas.endGameRequest), async (c) => {
+  try {
+    const { teamId, game, ratingUpdates, ratingHistory } = c.req.valid("json");
+
+    if (game && game.team_id !== teamId) {
+      return invalidRequest(c, [{ path: "game.team_id", message: "Must match teamId" }]);
+    }
+
+    const outcome = await gameOps.endGame({ teamId, game, ratingUpdates, ratingHistory });
+    return c.json(outcome, outcome.success ? 200 : 409);
+  } catch (error) {
+    console.error("Error ending game:", error);
+    return c.json({ error: "Failed to end game", details: String(error) }, 500);
+  }
+});
+
+// End every playing game at once
+app.post("/make-server-41b22d2d/games/end-all", jsonBody(schemas.gamesRequest), async (c) => {
+  try {
+    const { games } = c.req.valid("json");
+
+    const outcome = await gameOps.endAllGames({ games });
+    return c.json(outcome, outcome.success ? 200 : 409);
+  } catch (error) {
+    console.error("Error ending all games:", error);
+    return c.json({ error: "Failed to end all games", details: String(error) }, 500);
+  }
+});
+
+// Commit auto match teams and queue their players
+app.post("/make-server-41b22d2d/match/commit", jsonBody(schemas.commitMatchRequest), async (c) => {
+  try {
+    const { teams } = c.req.valid("json");
+
+    const outcome = await gameOps.commitMatch({ teams });
+    return c.json(outcome, outcome.success ? 200 : 409);
+  } catch (error) {
+    console.error("Error committing match:", error);
+    return c.json({ error: "Failed to commit match", details: String(error) }, 500);
+  }
+});
+
+// Queue a manually made team and its waiting players
+app.post("/make-server-41b22d2d/match/add-team", jsonBody(schemas.addTeamRequest), async (c) => {
+  try {
+    const { team } = c.req.valid("json");
+
+    const outcome = await gameOps.addTeam({ team });
+    return c.json(outcome, outcome.success ? 200 : 409);
+  } catch (error) {
+    console.error("Error adding team:", error);
+    return c.json({ error: "Failed to add team", details: String(error) }, 500);
+  }
+});
+
+// Delete a team and send its queued players back to waiting
+app.post("/make-server-41b22d2d/match/remove-team", jsonBody(schemas.teamIdRequest), async (c) => {
+  try {
+    const { teamId, expectedVersion } = c.req.valid("json");
+
+    const outcome = await gameOps.removeTeam({ teamId, expectedVersion });
+    return c.json(outcome, outcome.success ? 200 : 409);
+  } catch (error) {
+    console.error("Error removing team:", error);
+    return c.json({ error: "Failed to remove team", details: String(error) }, 500);
+  }
+});
+
+// Undo or redo: put back the rows of an earlier action, all of them or none
+app.post("/make-server-41b22d2d/undo", jsonBody(schemas.restoreRequest), async (c) => {
+  try {
+    const outcome = await gameOps.restore(c.req.valid("json"));
+    return c.json(outcome, outcome.success ? 200 : 409);
+  } catch (error) {
+    console.error("Error restoring rows:", error);
+    return c.json({ error: "Failed to undo", details: String(error) }, 500);
+  }
+});
+
+// ===== SETTINGS CRUD =====
+
+// Get setting
+app.get("/make-server-41b22d2d/settings/:key", async (c) => {
+  try {
+    const key = c.req.param("key");
+    
+    if (!key) {
+      return c.json({ error: "Invalid setting key" }, 400);
+    }
+
+    // Secret and unknown keys look the same as admin keys to members: not there
+    if (!settings.isReadable(key, await isAdminRequest(c))) {
+      return c.json({ error: "Setting not found" }, 404);
+    }
+
+    const value = await db.getSetting(key);
+    
+    return c.json({ key, value });
+  } catch (error) {
+    console.error("Error getting setting:", error);
+    return c.json({ error: "Failed to get setting", details: String(error) }, 500);
+  }
+});
+
+// Set setting
+app.put("/make-server-41b22d2d/settings/:key", jsonBody(schemas.settingRequest), async (c) => {
+  try {
+    const key = c.req.param("key");
+    const { value } = c.req.valid("json");
+
+    const validationError = settings.validateSettingWrite(key, String(value));
+    if (validationError) {
+      return invalidRequest(c, [{ path: "value", message: validationError }]);
+    }
+
+    await db.setSetting(key, String(value));
+    
+    return c.json({ success: true, key, value });
+  } catch (error) {
+    console.error("Error setting value:", error);
+    return c.json({ error: "Failed to set setting", details: String(error) }, 500);
+  }
+});
+
+// ===== AUDIT LOGS =====
+
+const AUDIT_PAGE_SIZE = 50;
+
+// Record admin actions; the actor is taken from the session, not from the events
+app.post("/make-server-41b22d2d/audit-logs", jsonBody(schemas.auditEventsRequest), async (c) => {
+  try {
+    const { events } = c.req.valid("json");
+
+    const session = await getRequestSession(c);
+    const actor = session ? auth.getActor(session) : "unknown";
+
+    await db.addAuditLogs(events.map((event) => ({
+      id: event.id,
+      type: event.type,
+      actor,
+      payload: event.payload ?? {},
+      player_ids: event.player_ids ?? [],
+      player_names: event.player_names ?? [],
+      court_id: event.court_id ?? null,
+      created_at: event.created_at,
+    })));
+    
+    return c.json({ success: true, count: events.length });
+  } catch (error) {
+    console.error("Error adding audit logs:", error);
+    return c.json({ error: "Failed to add audit logs", details: String(error) }, 500);
+  }
+});
+
+// Newest first, filtered by ?type=&player=&court=; page with ?before=<created_at of the last one>
+app.get("/make-server-41b22d2d/audit-logs", async (c) => {
+  try {
+    if (!(await isAdminRequest(c))) {
+      return c.json({ error: "Admin role required" }, 403);
+    }
+
+    const logs = await db.getAuditLogs({
+      type: c.req.query("type") || undefined,
+      playerId: c.req.query("player") || undefined,
+      courtId: c.req.query("court") || undefined,
+      before: c.req.query("before") || undefined,
+      limit: AUDIT_PAGE_SIZE,
+    });
+    
+    return c.json({ logs, hasMore: logs.length === AUDIT_PAGE_SIZE });
+  } catch (error) {
+    console.error("Error getting audit logs:", error);
+    return c.json({ error: "Failed to get audit logs", details: String(error) }, 500);
+  }
+});
+
+// ===== BACKUP =====
+
+// Download the whole club as a versioned archive (admins only; secret settings are left out)
+app.get("/make-server-41b22d2d/backup/export", async (c) => {
+  try {
+    if (!(await isAdminRequest(c))) {
+      return c.json({ error: "Admin role required" }, 403);
+    }
+
+    const archive = await backup.exportArchive();
+    return c.json(archive);
+  } catch (error) {
+    console.error("Error exporting backup:", error);
+    return c.json({ error: "Failed to export backup", details: String(error) }, 500);
+  }
+});
+
+// Restore an archive: { archive, mode: "merge" | "replace", dryRun }. A dry run only returns the diff.
+app.post("/make-server-41b22d2d/backup/import", jsonBody(schemas.backupImportRequest), async (c) => {
+  try {
+    const { mode, dryRun, archive: raw } = c.req.valid("json");
+
+    const { archive, upgradedFrom } = backup.upgradeArchive(raw);
+
+    if (dryRun) {
+      const diff = await backup.previewImport(archive, mode);
+      return c.json({ success: true, dryRun: true, diff, upgradedFrom });
+    }
+
+    const result = await backup.applyImport(archive, mode);
+    if (!result.applied) {
+      return c.json({ success: false, reason: "conflict", diff: result.diff, upgradedFrom }, 409);
+    }
+
+    const session = await getRequestSession(c);
+    await db.addAuditLogs([{
+      id: `log-${Date.now()}-${Math.random()}`,
+      type: "backup_imported",
+      actor: session ? auth.getActor(session) : "unknown",
+      payload: { mode, exportedAt: archive.exportedAt, upgradedFrom },
+      created_at: new Date().toISOString(),
+    }]);
+
+    console.log(`📦 Imported backup from ${archive.exportedAt} (${mode})`);
+    return c.json({ success: true, dryRun: false, diff: result.diff, upgradedFrom });
+  } catch (error) {
+    if (error instanceof backup.BackupFormatError) {
+      return c.json({ success: false, error: error.message, reason: "invalid_backup" }, 400);
+    }
+    console.error("Error importing backup:", error);
+    return c.json({ success: false, error: "Failed to import backup", details: String(error) }, 500);
+  }
+});
+
+// ===== AUTH =====
+
+// Failed logins are counted per caller IP. Earlier X-Forwarded-For hops come from the client and
+// can be anything; the last one is the address the Supabase gateway appended itself.
+function getClientKey(c: Context): string {
+  const forwarded = c.req.header("x-forwarded-for")?.split(",").pop()?.trim();
+  return forwarded || c.req.header("x-real-ip") || "unknown";
+}
+
+function throttleBody(status: auth.AttemptStatus) {
+  return { remainingAttempts: status.remainingAttempts, retryAfterMs: status.retryAfterMs };
+}
+
+function rejectThrottled(c: Context, status: auth.AttemptStatus) {
+  c.header("Retry-After", String(Math.ceil(status.retryAfterMs / 1000)));
+  return c.json({
+    success: false,
+    error: status.locked ? "Too many failed attempts" : "Retry later",
+    reason: status.locked ? "locked" : "too_soon",
+    ...throttleBody(status),
+  }, 429);
+}
+
+// Log in as admin; returns a signed session token for the X-Session-Token header
+app.post("/make-server-41b22d2d/auth/login", jsonBody(schemas.loginRequest), async (c) => {
+  try {
+    const { password, device } = c.req.valid("json");
+
+    // Counted before the password is checked, so parallel guesses cannot all get through
+    const clientKey = getClientKey(c);
+    const attempt = await auth.reserveLoginAttempt(clientKey);
+    if (!attempt.reserved) {
+      return rejectThrottled(c, attempt.status);
+    }
+
+    const isValid = await auth.verifyAdminPassword(password);
+    if (!isValid) {
+      if (attempt.status.locked) console.log(`🔒 Locked out ${clientKey} after too many failed logins`);
+      return c.json({
+        success: false,
+        error: "Invalid password",
+        reason: attempt.status.locked ? "locked" : "invalid_password",
+        ...throttleBody(attempt.status),
+      }, 401);
+    }
+
+    await auth.clearLoginFailures(clientKey);
+    const { token, session } = await auth.createSessionToken(
+      "admin",
+      device?.slice(0, 64),
+    );
+    return c.json({ success: true, token, role: session.role, expiresAt: session.exp });
+  } catch (error) {
+    console.error("Error logging in:", error);
+    return c.json({ success: false, error: "Failed to log in", details: String(error) }, 500);
+  }
+});
+
+// Swap a still-valid admin session for a fresh one (the middleware has already checked it)
+app.post("/make-server-41b22d2d/auth/refresh", async (c) => {
+  try {
+    const current = await getRequestSession(c);
+    const { token, session } = await auth.createSessionToken("admin", current?.device);
+    return c.json({ success: true, token, role: session.role, expiresAt: session.exp });
+  } catch (error) {
+    console.error("Error refreshing session:", error);
+    return c.json({ success: false, error: "Failed to refresh session", details: String(error) }, 500);
+  }
+});
+
+// Change admin password (admin session + current password)
+app.post("/make-server-41b22d2d/admin-password/change", jsonBody(schemas.changePasswordRequest), async (c) => {
+  try {
+    const { currentPassword, newPassword } = c.req.valid("json");
+
+    // Same throttle as the login, so a left-open admin screen cannot be used to guess the password
+    const clientKey = getClientKey(c);
+    const attempt = await auth.reserveLoginAttempt(clientKey);
+    if (!attempt.reserved) {
+      return rejectThrottled(c, attempt.status);
+    }
+
+    const isValid = await auth.verifyAdminPassword(currentPassword);
+    if (!isValid) {
+      if (attempt.status.locked) console.log(`🔒 Locked out ${clientKey} after too many failed password changes`);
+      return c.json({
+        success: false,
+        error: "Current password is incorrect",
+        reason: attempt.status.locked ? "locked" : "invalid_password",
+        ...throttleBody(attempt.status),
+      }, 400);
+    }
+
+    await auth.clearLoginFailures(clientKey);
+
+    await auth.setAdminPassword(newPassword);
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error changing admin password:", error);
+    return c.json({ success: false, error: "Failed to change password", details: String(error) }, 500);
+  }
+});
+
+// ============= DATA MIGRATION ENDPOINT =============
+
+// Check what's in KV store
+app.get("/make-server-41b22d2d/check-kv", async (c) => {
+  try {
+    console.log("🔍 Checking KV store contents...");
+    
+    const kvMembers = await kv.get("members");
+    const kvPlayers = await kv.get("players");
+    const kvTeams = await kv.get("teams");
+    const kvAdminPassword = await kv.get("admin_password");
+    
+    console.log("KV Store contents:", {
+      members: kvMembers ? `Found ${Array.isArray(kvMembers) ? kvMembers.length : 'non-array'} members` : 'null',
+      players: kvPlayers ? `Found ${Array.isArray(kvPlayers) ? kvPlayers.length : 'non-array'} players` : 'null',
+      teams: kvTeams ? `Found ${Array.isArray(kvTeams) ? kvTeams.length : 'non-array'} teams` : 'null',
+      admin_password: kvAdminPassword ? 'Found' : 'null',
+    });
+    
+    return c.json({
+      success: true,
+      kvStore: {
+        members: kvMembers,
+        players: kvPlayers,
+        teams: kvTeams,
+        admin_password: kvAdminPassword ? '***' : null,
+      },
+      counts: {
+        members: Array.isArray(kvMembers) ? kvMembers.length : 0,
+        players: Array.isArray(kvPlayers) ? kvPlayers.length : 0,
+        teams: Array.isArray(kvTeams) ? kvTeams.length : 0,
+      }
+    });
+  } catch (error) {
+    console.error("❌ Error checking KV store:", error);
+    return c.json({ error: "Failed to check KV store", details: String(error) }, 500);
+  }
+});
+
+// Migrate data from KV store to new table structure
+app.post("/make-server-41b22d2d/migrate-from-kv", async (c) => {
+  try {
+    console.log("🚀 Starting migration from KV store to new tables...");
+    
+    // Get data from KV store
+    const kvMembers: Record<string, unknown>[] = (await kv.get("members")) || [];
+    const kvPlayers: Record<string, unknown>[] = (await kv.get("players")) || [];
+    const kvTeams: Record<string, unknown>[] = (await kv.get("teams")) || [];
+    const kvAdminPassword: string | null = await kv.get("admin_password");
+    
+    console.log(`📊 Found in KV store: ${kvMembers.length} members, ${kvPlayers.length} players, ${kvTeams.length} teams`);
+    
+    let migratedCounts = {
+      members: 0,
+      players: 0,
+      teams: 0,
+      settings: 0,
+    };
+    
+    // Helper function to convert camelCase to snake_case; the KV store held the client's objects,
+    // so their keys are the row's columns
+    const toSnakeCase = <Row,>(obj: Record<string, unknown>): Row => {
+      const converted: Record<string, unknown> = {};
+      for (const key in obj) {
+        const snakeKey = key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+        converted[snakeKey] = obj[key];
+      }
+      return converted as Row;
+    };
+    
+    // Migrate members
+    if (kvMembers.length > 0) {
+      console.log(`🔄 Migrating ${kvMembers.length} members...`);
+      await db.deleteAllMembers(); // Clear existing
+      
+      // Convert camelCase to snake_case
+      const convertedMembers = kvMembers.map((member) => toSnakeCase<schemas.MemberRow>(member));
+      
+      await db.batchAddMembers(convertedMembers);
+      migratedCounts.members = kvMembers.length;
+      console.log(`✅ Migrated ${kvMembers.length} members`);
+    }
+    
+    // Migrate players
+    if (kvPlayers.length > 0) {
+      console.log(`🔄 Migrating ${kvPlayers.length} players...`);
+      // Clear existing players
+      const existingPlayers = await db.getAllPlayers();
+      if (existingPlayers.length > 0) {
+        await db.batchDeletePlayers(existingPlayers.map((p) => p.id));
+      }
+      
+      // Convert camelCase to snake_case
+      const convertedPlayers = kvPlayers.map((player) => toSnakeCase<schemas.PlayerRow>(player));
+      
+      await db.batchAddPlayers(convertedPlayers);
+      migratedCounts.players = kvPlayers.length;
+      console.log(`✅ Migrated ${kvPlayers.length} players`);
+    }
+    
+    // Migrate teams
+    if (kvTeams.length > 0) {
+      console.log(`🔄 Migrating ${kvTeams.length} teams...`);
+      await db.deleteAllTeams(); // Clear existing
+      
+      // Convert camelCase to snake_case
+      const convertedTeams = kvTeams.map((team) => toSnakeCase<schemas.TeamRow>(team));
+      
+      await db.batchAddTeams(convertedTeams);
+      migratedCounts.teams = kvTeams.length;
+      console.log(`✅ Migrated ${kvTeams.length} teams`);
+    }
+    
+    // Migrate admin password
+    if (kvAdminPassword) {
+      console.log(`🔄 Migrating admin password...`);
+      await auth.setAdminPassword(kvAdminPassword);
+      migratedCounts.settings = 1;
+      console.log(`✅ Migrated admin password`);
+    }
+    
+    console.log("🎉 Migration completed successfully!");
+    
+    return c.json({
+      success: true,
+      message: "Data migrated from KV store to new tables",
+      migrated: migratedCounts,
+    });
+  } catch (error) {
+    console.error("❌ Error during migration:", error);
+    return c.json({ error: "Failed to migrate data", details: String(error) }, 500);
+  }
+});
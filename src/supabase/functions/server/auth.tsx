@@ -0,0 +1,213 @@
+import * as db from "./db.tsx";
+
+// Admin credentials and session tokens. The admin password is stored as a salted PBKDF2 hash in
+// the admin_password setting; a successful login returns a short-lived token signed with HMAC-SHA256
+// that the client sends as X-Session-Token (Authorization still carries the anon key for the gateway).
+
+export type SessionRole = "admin" | "member";
+
+export interface Session {
+  role: SessionRole;
+  device?: string; // Id the client generated for itself at login, shown as the actor in audit logs
+  exp: number; // Expiry, epoch ms
+}
+
+export const SESSION_HEADER = "X-Session-Token";
+export const SESSION_TTL_MS = 2 * 60 * 60 * 1000;
+
+const PASSWORD_SETTING = "admin_password";
+// Used until an admin sets a password, same as before hashing
+const DEFAULT_PASSWORD = "admin";
+const PBKDF2_ITERATIONS = 100000;
+const HASH_PREFIX = "pbkdf2";
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+// Compares without stopping at the first difference, so timing does not leak the match length
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+// ============= PASSWORD HASHING =============
+// Stored format: pbkdf2$<iterations>$<salt>$<hash> (base64url)
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    256,
+  );
+  return new Uint8Array(bits);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return [HASH_PREFIX, PBKDF2_ITERATIONS, toBase64Url(salt), toBase64Url(hash)].join("$");
+}
+
+function isHashed(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+async function matchesStored(password: string, stored: string): Promise<boolean> {
+  if (!isHashed(stored)) {
+    // Plaintext left over from before hashing
+    return constantTimeEqual(encoder.encode(password), encoder.encode(stored));
+  }
+  const [, iterations, salt, hash] = stored.split("$");
+  const derived = await derive(password, fromBase64Url(salt), parseInt(iterations, 10));
+  return constantTimeEqual(derived, fromBase64Url(hash));
+}
+
+export async function verifyAdminPassword(password: string): Promise<boolean> {
+  const stored = await db.getSetting(PASSWORD_SETTING);
+  const valid = await matchesStored(password, stored || DEFAULT_PASSWORD);
+
+  // Upgrade a plaintext password to a hash the first time it is used
+  if (valid && stored && !isHashed(stored)) {
+    await db.setSetting(PASSWORD_SETTING, await hashPassword(password));
+    console.log("🔐 Upgraded stored admin password to a hash");
+  }
+
+  return valid;
+}
+
+export async function setAdminPassword(password: string): Promise<void> {
+  await db.setSetting(PASSWORD_SETTING, await hashPassword(password));
+}
+
+// ============= LOGIN THROTTLING =============
+// Failed password checks per client, kept in auth_attempts so they survive cold starts.
+// The first failures only slow the client down (1 s, 2 s, 4 s, 8 s); from MAX_ATTEMPTS on the client
+// is locked out for 15 minutes, doubling with every further failure up to a day.
+// Each check is reserved before the password is verified and counts as a failure until the login
+// succeeds, so parallel guesses cannot all get past the throttle before one of them is counted.
+
+export const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+// Failures this long after the previous one count from zero again
+const ATTEMPT_RESET_MS = 24 * 60 * 60 * 1000;
+
+export interface AttemptStatus {
+  allowed: boolean;
+  locked: boolean; // Out of attempts (as opposed to only backing off)
+  remainingAttempts: number; // Failures left before the lockout
+  retryAfterMs: number; // 0 when the next attempt may be made right away
+}
+
+function delayAfter(failedCount: number): number {
+  if (failedCount < MAX_ATTEMPTS) return BACKOFF_BASE_MS * 2 ** (failedCount - 1);
+  return Math.min(LOCKOUT_MS * 2 ** (failedCount - MAX_ATTEMPTS), MAX_LOCKOUT_MS);
+}
+
+function toStatus(failedCount: number, lockedUntil: number): AttemptStatus {
+  const retryAfterMs = Math.max(0, lockedUntil - Date.now());
+  return {
+    allowed: retryAfterMs === 0,
+    locked: failedCount >= MAX_ATTEMPTS && retryAfterMs > 0,
+    remainingAttempts: Math.max(0, MAX_ATTEMPTS - failedCount),
+    retryAfterMs,
+  };
+}
+
+// Delay after the 1st, 2nd, ... failure; past the end the last one applies
+const DELAYS_MS = Array.from(
+  { length: MAX_ATTEMPTS + Math.ceil(Math.log2(MAX_LOCKOUT_MS / LOCKOUT_MS)) },
+  (_, idx) => delayAfter(idx + 1),
+);
+
+export interface LoginAttempt {
+  reserved: boolean; // False when the client is still throttled; `status` then says for how long
+  status: AttemptStatus; // When reserved: the status if this check fails
+}
+
+export async function reserveLoginAttempt(clientKey: string): Promise<LoginAttempt> {
+  const attempt = await db.reserveAuthAttempt(clientKey, ATTEMPT_RESET_MS, DELAYS_MS);
+  return {
+    reserved: attempt.reserved,
+    status: toStatus(attempt.failed_count, attempt.locked_until ? Date.parse(attempt.locked_until) : 0),
+  };
+}
+
+export async function clearLoginFailures(clientKey: string): Promise<void> {
+  await db.clearAuthAttempts(clientKey);
+}
+
+// ============= SESSION TOKENS =============
+// Token format: <payload>.<signature>, both base64url; payload is the Session JSON
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!signingKey) {
+    // A dedicated secret when configured; the service role key is always set in edge functions
+    const secret = Deno.env.get("SESSION_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!secret) throw new Error("SESSION_SECRET is not configured");
+    signingKey = crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"],
+    );
+  }
+  return signingKey;
+}
+
+export async function createSessionToken(
+  role: SessionRole,
+  device?: string,
+): Promise<{ token: string; session: Session }> {
+  const session: Session = { role, device, exp: Date.now() + SESSION_TTL_MS };
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), encoder.encode(payload));
+  return { token: `${payload}.${toBase64Url(new Uint8Array(signature))}`, session };
+}
+
+// The session in a token, or null when the token is malformed, tampered with or expired
+export async function verifySessionToken(token: string | undefined | null): Promise<Session | null> {
+  if (!token) return null;
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getSigningKey(),
+      fromBase64Url(signature),
+      encoder.encode(payload),
+    );
+    if (!valid) return null;
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Session;
+    if (typeof session.exp !== "number" || session.exp <= Date.now()) return null;
+    if (session.role !== "admin" && session.role !== "member") return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+// Who did it, for audit logs: the role and the device of the session
+export function getActor(session: Session): string {
+  return `${session.role}:${session.device || "unknown"}`;
+}
@@ -0,0 +1,336 @@
+import * as db from "./db.tsx";
+import type { Mutation } from "./db.tsx";
+import * as settings from "./settings.tsx";
+import type {
+  StoredGame,
+  StoredMember,
+  StoredPlayer,
+  StoredRatingHistory,
+  StoredTeam,
+} from "../_shared/schemas.ts";
+
+// Whole-club backup: members, players, teams, game history (with the rating history it produced)
+// and settings as one versioned JSON archive. Importing first upgrades the archive to the current
+// version, then either merges it into the database (add and update, keep the rest) or replaces the
+// database with it (also delete what is not in the archive). All row and settings changes go
+// through one apply_mutations call, so an import lands completely or not at all.
+
+export const BACKUP_FORMAT = "addicton-backup";
+export const BACKUP_VERSION = 1;
+
+export type BackupTable = "members" | "players" | "teams" | "games" | "rating_history";
+
+// Parents first: inserts run in this order, deletes in reverse
+const TABLES: BackupTable[] = ["members", "players", "teams", "games", "rating_history"];
+
+export interface BackupData {
+  members: StoredMember[];
+  players: StoredPlayer[];
+  teams: StoredTeam[];
+  games: StoredGame[];
+  rating_history: StoredRatingHistory[];
+  settings: Record<string, string>;
+}
+
+type BackupRow = BackupData[BackupTable][number];
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export type ImportMode = "merge" | "replace";
+
+export interface TableDiff {
+  added: number;
+  updated: number;
+  removed: number; // Only in replace mode
+  unchanged: number;
+  skipped: number; // Settings the registry does not accept (secret, unknown or invalid)
+  examples: { added: string[]; updated: string[]; removed: string[] }; // A few names, for the preview
+}
+
+export type BackupDiff = Record<BackupTable | "settings", TableDiff>;
+
+// The archive cannot be read or upgraded; the route answers 400
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupFormatError";
+  }
+}
+
+// ============= EXPORT =============
+
+export async function exportArchive(): Promise<BackupArchive> {
+  const [members, players, teams, games, ratingHistory, allSettings] = await Promise.all([
+    db.getAllMembers(),
+    db.getAllPlayers(),
+    db.getAllTeams(),
+    db.getGames(),
+    db.getAllRatingHistory(),
+    db.getAllSettings(),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: {
+      members,
+      players,
+      teams,
+      games,
+      rating_history: ratingHistory,
+      // Secret settings (the admin password hash) never leave the server
+      settings: settings.filterReadable(allSettings, true),
+    },
+  };
+}
+
+// ============= UPGRADES =============
+
+// An archive as read from JSON, before it is upgraded and checked
+type RawArchive = Record<string, unknown>;
+
+const toSnakeCase = (obj: Record<string, unknown>) => {
+  const converted: Record<string, unknown> = {};
+  for (const key in obj) {
+    const snakeKey = key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+    converted[snakeKey] = obj[key];
+  }
+  return converted;
+};
+
+const asRows = (value: unknown): Record<string, unknown>[] => (Array.isArray(value) ? value : []);
+
+// Each entry turns an archive of that version into the next one
+const UPGRADES: Record<number, (archive: RawArchive) => RawArchive> = {
+  // Version 0: the KV-store era dump ({ members, players, teams } with camelCase fields and no
+  // envelope), the same data /migrate-from-kv reads
+  0: (legacy) => ({
+    format: BACKUP_FORMAT,
+    version: 1,
+    exportedAt: typeof legacy.exportedAt === "string" ? legacy.exportedAt : new Date().toISOString(),
+    data: {
+      members: asRows(legacy.members).map(toSnakeCase),
+      players: asRows(legacy.players).map(toSnakeCase),
+      teams: asRows(legacy.teams).map(toSnakeCase),
+      games: [],
+      rating_history: [],
+      settings: {},
+    },
+  }),
+};
+
+function getArchiveVersion(raw: RawArchive): number {
+  if (raw.format === undefined && raw.version === undefined) {
+    if (["members", "players", "teams"].some((key) => Array.isArray(raw[key]))) return 0;
+    throw new BackupFormatError("Not an Addicton backup");
+  }
+  if (raw.format !== BACKUP_FORMAT) throw new BackupFormatError("Not an Addicton backup");
+  if (typeof raw.version !== "number" || !Number.isInteger(raw.version) || raw.version < 0) {
+    throw new BackupFormatError("Backup version is missing or invalid");
+  }
+  return raw.version;
+}
+
+function validateArchive(archive: RawArchive): asserts archive is RawArchive & BackupArchive {
+  const data = archive.data as RawArchive | undefined;
+  if (!data || typeof data !== "object") throw new BackupFormatError("Backup has no data");
+
+  for (const table of TABLES) {
+    const rows = data[table];
+    if (!Array.isArray(rows)) throw new BackupFormatError(`${table} must be a list`);
+    const invalid = rows.findIndex((row: unknown) =>
+      !row || typeof row !== "object" || !("id" in row) || typeof row.id !== "string"
+    );
+    if (invalid !== -1) throw new BackupFormatError(`${table}[${invalid}] has no id`);
+  }
+
+  if (!data.settings || typeof data.settings !== "object" || Array.isArray(data.settings)) {
+    throw new BackupFormatError("settings must be an object");
+  }
+}
+
+// The archive at the current version, and the version it was written with when that was older
+export function upgradeArchive(raw: unknown): { archive: BackupArchive; upgradedFrom: number | null } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new BackupFormatError("Backup must be a JSON object");
+  }
+
+  const original = getArchiveVersion(raw as RawArchive);
+  if (original > BACKUP_VERSION) {
+    throw new BackupFormatError(`Backup version ${original} is newer than this server supports (${BACKUP_VERSION})`);
+  }
+
+  let archive = raw as RawArchive;
+  let version = original;
+  while (version < BACKUP_VERSION) {
+    const upgrade = UPGRADES[version];
+    if (!upgrade) throw new BackupFormatError(`No upgrade from backup version ${version}`);
+    archive = upgrade(archive);
+    version = getArchiveVersion(archive);
+  }
+
+  validateArchive(archive);
+  return { archive, upgradedFrom: original === BACKUP_VERSION ? null : original };
+}
+
+// ============= DIFF =============
+
+// Bookkeeping columns the database sets on its own
+const IGNORED_COLUMNS = new Set(["version", "updated_at"]);
+const EXAMPLE_LIMIT = 5;
+
+// Timestamps come back as "...+00:00" from Postgres but may be "...Z" in an archive
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (JSON.stringify(a ?? null) === JSON.stringify(b ?? null)) return true;
+  if (typeof a === "string" && typeof b === "string") {
+    const timeA = Date.parse(a);
+    return !Number.isNaN(timeA) && timeA === Date.parse(b);
+  }
+  return false;
+}
+
+function isSameRow(archived: BackupRow, current: BackupRow): boolean {
+  const currentValues = new Map(Object.entries(current));
+  return Object.entries(archived).every(([column, value]) =>
+    IGNORED_COLUMNS.has(column) || isSameValue(value, currentValues.get(column))
+  );
+}
+
+function rowLabel(row: BackupRow): string {
+  if ("name" in row && row.name) return row.name;
+  if ("player_names" in row && Array.isArray(row.player_names) && row.player_names.length > 0) {
+    return row.player_names.join(" · ");
+  }
+  return row.id;
+}
+
+function emptyDiff(): TableDiff {
+  return { added: 0, updated: 0, removed: 0, unchanged: 0, skipped: 0, examples: { added: [], updated: [], removed: [] } };
+}
+
+function count(diff: TableDiff, kind: "added" | "updated" | "removed", label: string) {
+  diff[kind] += 1;
+  if (diff.examples[kind].length < EXAMPLE_LIMIT) diff.examples[kind].push(label);
+}
+
+interface ImportPlan {
+  diff: BackupDiff;
+  mutations: Mutation[];
+}
+
+// Rows are only written while they are still as the plan read them
+const readVersion = (row: BackupRow) =>
+  ("version" in row && row.version !== undefined ? { version: row.version } : undefined);
+
+function stripIgnored(row: BackupRow): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (!IGNORED_COLUMNS.has(column)) values[column] = value;
+  }
+  return values;
+}
+
+function planImport(archive: BackupArchive, current: BackupData, mode: ImportMode): ImportPlan {
+  const diff = {} as BackupDiff;
+  const deletes: Mutation[] = [];
+  const writes: Mutation[] = [];
+
+  for (const table of TABLES) {
+    const tableDiff = emptyDiff();
+    const currentRows: BackupRow[] = current[table];
+    const archivedRows: BackupRow[] = archive.data[table];
+    const currentById = new Map(currentRows.map((row) => [row.id, row]));
+    const archivedIds = new Set(archivedRows.map((row) => row.id));
+
+    for (const row of archivedRows) {
+      const existing = currentById.get(row.id);
+      if (!existing) {
+        count(tableDiff, "added", rowLabel(row));
+        writes.push({ table, op: "insert", values: stripIgnored(row) });
+      } else if (!isSameRow(row, existing)) {
+        count(tableDiff, "updated", rowLabel(row));
+        writes.push({ table, op: "update", id: row.id, values: stripIgnored(row), expect: readVersion(existing) });
+      } else {
+        tableDiff.unchanged += 1;
+      }
+    }
+
+    if (mode === "replace") {
+      for (const row of currentRows) {
+        if (archivedIds.has(row.id)) continue;
+        count(tableDiff, "removed", rowLabel(row));
+        deletes.push({ table, op: "delete", id: row.id, expect: readVersion(row) });
+      }
+    }
+
+    diff[table] = tableDiff;
+  }
+
+  // Settings are keyed by `key`, which apply_mutations takes as the id
+  const settingsDiff = emptyDiff();
+  const settingMutations: Mutation[] = [];
+  const updatedAt = new Date().toISOString();
+  for (const [key, rawValue] of Object.entries(archive.data.settings)) {
+    const value = String(rawValue);
+    if (settings.validateSettingWrite(key, value)) {
+      settingsDiff.skipped += 1;
+    } else if (current.settings[key] === undefined) {
+      count(settingsDiff, "added", key);
+      settingMutations.push({ table: "settings", op: "insert", values: { key, value, updated_at: updatedAt } });
+    } else if (current.settings[key] !== value) {
+      count(settingsDiff, "updated", key);
+      settingMutations.push({
+        table: "settings",
+        op: "update",
+        id: key,
+        values: { value, updated_at: updatedAt },
+        expect: { value: current.settings[key] },
+      });
+    } else {
+      settingsDiff.unchanged += 1;
+    }
+  }
+  if (mode === "replace") {
+    for (const key of Object.keys(current.settings)) {
+      if (key in archive.data.settings) continue;
+      count(settingsDiff, "removed", key);
+      settingMutations.push({ table: "settings", op: "delete", id: key, expect: { value: current.settings[key] } });
+    }
+  }
+  diff.settings = settingsDiff;
+
+  // Deletes children first, then the settings (courts_count before teams are put on courts), then
+  // inserts and updates parents first
+  deletes.sort((a, b) => TABLES.indexOf(b.table as BackupTable) - TABLES.indexOf(a.table as BackupTable));
+  return { diff, mutations: [...deletes, ...settingMutations, ...writes] };
+}
+
+// ============= IMPORT =============
+
+// What an import would change, without writing anything
+export async function previewImport(archive: BackupArchive, mode: ImportMode): Promise<BackupDiff> {
+  const current = (await exportArchive()).data;
+  return planImport(archive, current, mode).diff;
+}
+
+// Returns applied: false when the rows changed while the import ran (nothing was written)
+export async function applyImport(
+  archive: BackupArchive,
+  mode: ImportMode,
+): Promise<{ applied: boolean; diff: BackupDiff }> {
+  const current = (await exportArchive()).data;
+  const plan = planImport(archive, current, mode);
+
+  if (plan.mutations.length > 0) {
+    const applied = await db.applyMutations(plan.mutations);
+    if (!applied) return { applied: false, diff: plan.diff };
+  }
+
+  return { applied: true, diff: plan.diff };
+}
@@ -1,385 +1,103 @@
 import { createClient } from "npm:@supabase/supabase-js";
+import type { StorageAdapter } from "./storage.tsx";
+import { createPostgresStorage } from "./storage_postgres.tsx";
 
-// Create a singleton Supabase client
-const supabase = createClient(
-  Deno.env.get("SUPABASE_URL") ?? "",
-  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-);
+export type { AllData, AuditLogFilters, Mutation, StorageAdapter } from "./storage.tsx";
 
-// ============= MEMBERS =============
-
-export async function getAllMembers() {
-  const { data, error } = await supabase
-    .from("members")
-    .select("*")
-    .order("created_at", { ascending: true });
-
-  if (error) {
-    console.error("Database error getting members:", error);
-    throw new Error(`Failed to get members: ${error.message}`);
-  }
-
-  return data || [];
-}
-
-export async function addMember(member: any) {
-  const { data, error } = await supabase
-    .from("members")
-    .insert([member])
-    .select()
-    .single();
-
-  if (error) {
-    console.error("Database error adding member:", error);
-    throw new Error(`Failed to add member: ${error.message}`);
-  }
-
-  return data;
-}
-
-export async function updateMember(id: string, updates: any) {
-  const { error } = await supabase
-    .from("members")
-    .update(updates)
-    .eq("id", id);
+// The routes call these functions; they run against whichever storage is configured. The edge
+// function uses the Supabase database, created on first use; local runs and tests call setStorage
+// with an in-memory store (storage_memory.tsx) before the first request.
+let storage: StorageAdapter | null = null;
 
-  if (error) {
-    console.error("Database error updating member:", error);
-    throw new Error(`Failed to update member: ${error.message}`);
-  }
+export function setStorage(adapter: StorageAdapter) {
+  storage = adapter;
 }
 
-export async function deleteMember(id: string) {
-  const { error } = await supabase
-    .from("members")
-    .delete()
-    .eq("id", id);
-
-  if (error) {
-    console.error("Database error deleting member:", error);
-    throw new Error(`Failed to delete member: ${error.message}`);
+function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = createPostgresStorage(createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    ));
   }
+  return storage;
 }
 
-export async function batchAddMembers(members: any[]) {
-  const { data, error } = await supabase
-    .from("members")
-    .insert(members)
-    .select();
-
-  if (error) {
-    console.error("Database error batch adding members:", error);
-    throw new Error(`Failed to batch add members: ${error.message}`);
-  }
-
-  return data;
+// Looks the adapter up on every call, so setStorage also applies to modules that imported db first
+function delegate<K extends keyof StorageAdapter>(name: K): StorageAdapter[K] {
+  return ((...args: unknown[]) => (getStorage()[name] as (...args: unknown[]) => unknown)(...args)) as StorageAdapter[K];
 }
 
-export async function deleteAllMembers() {
-  const { error } = await supabase
-    .from("members")
-    .delete()
-    .neq("id", ""); // Delete all rows
-
-  if (error) {
-    console.error("Database error deleting all members:", error);
-    throw new Error(`Failed to delete all members: ${error.message}`);
-  }
-}
+// ============= MEMBERS =============
 
-export async function resetMembers(newMembers: any[]) {
-  // Delete all and insert new ones in a transaction-like manner
-  await deleteAllMembers();
-  if (newMembers.length > 0) {
-    return await batchAddMembers(newMembers);
-  }
-  return [];
-}
+export const getAllMembers = delegate("getAllMembers");
+export const getMembersByIds = delegate("getMembersByIds");
+export const addMember = delegate("addMember");
+export const updateMember = delegate("updateMember");
+export const deleteMember = delegate("deleteMember");
+export const batchAddMembers = delegate("batchAddMembers");
+export const deleteAllMembers = delegate("deleteAllMembers");
+export const resetMembers = delegate("resetMembers");
 
 // ============= PLAYERS =============
 
-export async function getAllPlayers() {
-  const { data, error } = await supabase
-    .from("players")
-    .select("*")
-    .order("created_at", { ascending: true });
-
-  if (error) {
-    console.error("Database error getting players:", error);
-    throw new Error(`Failed to get players: ${error.message}`);
-  }
-
-  return data || [];
-}
-
-export async function addPlayer(player: any) {
-  const { data, error } = await supabase
-    .from("players")
-    .insert([player])
-    .select()
-    .single();
-
-  if (error) {
-    console.error("Database error adding player:", error);
-    throw new Error(`Failed to add player: ${error.message}`);
-  }
-
-  return data;
-}
-
-export async function batchAddPlayers(players: any[]) {
-  const { data, error } = await supabase
-    .from("players")
-    .insert(players)
-    .select();
-
-  if (error) {
-    console.error("Database error batch adding players:", error);
-    throw new Error(`Failed to batch add players: ${error.message}`);
-  }
-
-  return data;
-}
-
-export async function updatePlayer(id: string, updates: any) {
-  const { error } = await supabase
-    .from("players")
-    .update(updates)
-    .eq("id", id);
-
-  if (error) {
-    console.error("Database error updating player:", error);
-    throw new Error(`Failed to update player: ${error.message}`);
-  }
-}
-
-export async function batchUpdatePlayers(playerUpdates: Array<{ playerId: string; updates: any }>) {
-  // Supabase doesn't have a native batch update, so we'll do them in parallel
-  const promises = playerUpdates.map(({ playerId, updates }) =>
-    supabase.from("players").update(updates).eq("id", playerId)
-  );
-
-  const results = await Promise.all(promises);
-
-  // Check for errors
-  const errors = results.filter((r) => r.error);
-  if (errors.length > 0) {
-    console.error("Database errors during batch update:", errors);
-    throw new Error(`Failed to batch update players: ${errors[0].error?.message}`);
-  }
-}
-
-export async function deletePlayer(id: string) {
-  const { error } = await supabase
-    .from("players")
-    .delete()
-    .eq("id", id);
-
-  if (error) {
-    console.error("Database error deleting player:", error);
-    throw new Error(`Failed to delete player: ${error.message}`);
-  }
-}
-
-export async function batchDeletePlayers(playerIds: string[]) {
-  const { error } = await supabase
-    .from("players")
-    .delete()
-    .in("id", playerIds);
-
-  if (error) {
-    console.error("Database error batch deleting players:", error);
-    throw new Error(`Failed to batch delete players: ${error.message}`);
-  }
-}
-
-export async function resetPlayerGameCounts() {
-  const { error } = await supabase
-    .from("players")
-    .update({
-      game_count: 0,
-      last_game_end_at: null,
-      teammate_history: {},
-      recent_teammates: [],
-    })
-    .neq("id", ""); // Update all rows
-
-  if (error) {
-    console.error("Database error resetting game counts:", error);
-    throw new Error(`Failed to reset game counts: ${error.message}`);
-  }
-}
+export const getAllPlayers = delegate("getAllPlayers");
+export const getPlayersByIds = delegate("getPlayersByIds");
+export const addPlayer = delegate("addPlayer");
+export const batchAddPlayers = delegate("batchAddPlayers");
+export const updatePlayer = delegate("updatePlayer");
+export const batchUpdatePlayers = delegate("batchUpdatePlayers");
+export const deletePlayer = delegate("deletePlayer");
+export const batchDeletePlayers = delegate("batchDeletePlayers");
+export const resetPlayerGameCounts = delegate("resetPlayerGameCounts");
 
 // ============= TEAMS =============
 
-export async function getAllTeams() {
-  const { data, error } = await supabase
-    .from("teams")
-    .select("*")
-    .order("created_at", { ascending: true });
-
-  if (error) {
-    console.error("Database error getting teams:", error);
-    throw new Error(`Failed to get teams: ${error.message}`);
-  }
-
-  return data || [];
-}
-
-export async function addTeam(team: any) {
-  const { data, error } = await supabase
-    .from("teams")
-    .insert([team])
-    .select()
-    .single();
-
-  if (error) {
-    console.error("Database error adding team:", error);
-    throw new Error(`Failed to add team: ${error.message}`);
-  }
-
-  return data;
-}
-
-export async function batchAddTeams(teams: any[]) {
-  const { data, error } = await supabase
-    .from("teams")
-    .insert(teams)
-    .select();
+export const getAllTeams = delegate("getAllTeams");
+export const getTeamsByIds = delegate("getTeamsByIds");
+export const addTeam = delegate("addTeam");
+export const batchAddTeams = delegate("batchAddTeams");
+export const updateTeam = delegate("updateTeam");
+export const deleteTeam = delegate("deleteTeam");
+export const batchDeleteTeams = delegate("batchDeleteTeams");
+export const deleteFinishedTeams = delegate("deleteFinishedTeams");
+export const deleteAllTeams = delegate("deleteAllTeams");
 
-  if (error) {
-    console.error("Database error batch adding teams:", error);
-    throw new Error(`Failed to batch add teams: ${error.message}`);
-  }
+// ============= GAMES =============
 
-  return data;
-}
+export const getGames = delegate("getGames");
+export const addGame = delegate("addGame");
+export const batchAddGames = delegate("batchAddGames");
+export const deleteGame = delegate("deleteGame");
 
-export async function updateTeam(id: string, updates: any) {
-  const { error } = await supabase
-    .from("teams")
-    .update(updates)
-    .eq("id", id);
+// ============= RATING HISTORY =============
 
-  if (error) {
-    console.error("Database error updating team:", error);
-    throw new Error(`Failed to update team: ${error.message}`);
-  }
-}
-
-export async function deleteTeam(id: string) {
-  const { error } = await supabase
-    .from("teams")
-    .delete()
-    .eq("id", id);
-
-  if (error) {
-    console.error("Database error deleting team:", error);
-    throw new Error(`Failed to delete team: ${error.message}`);
-  }
-}
-
-export async function batchDeleteTeams(teamIds: string[]) {
-  const { error } = await supabase
-    .from("teams")
-    .delete()
-    .in("id", teamIds);
-
-  if (error) {
-    console.error("Database error batch deleting teams:", error);
-    throw new Error(`Failed to batch delete teams: ${error.message}`);
-  }
-}
-
-export async function deleteFinishedTeams() {
-  const { error } = await supabase
-    .from("teams")
-    .delete()
-    .eq("state", "finished");
-
-  if (error) {
-    console.error("Database error deleting finished teams:", error);
-    throw new Error(`Failed to delete finished teams: ${error.message}`);
-  }
-}
-
-export async function deleteAllTeams() {
-  const { error } = await supabase
-    .from("teams")
-    .delete()
-    .neq("id", ""); // Delete all rows
-
-  if (error) {
-    console.error("Database error deleting all teams:", error);
-    throw new Error(`Failed to delete all teams: ${error.message}`);
-  }
-}
+export const getRatingHistory = delegate("getRatingHistory");
+export const getAllRatingHistory = delegate("getAllRatingHistory");
+export const getRatingHistoryOfGames = delegate("getRatingHistoryOfGames");
+export const batchAddRatingHistory = delegate("batchAddRatingHistory");
 
 // ============= SETTINGS =============
 
-export async function getSetting(key: string) {
-  const { data, error } = await supabase
-    .from("settings")
-    .select("value")
-    .eq("key", key)
-    .single();
+export const getSetting = delegate("getSetting");
+export const setSetting = delegate("setSetting");
+export const getAllSettings = delegate("getAllSettings");
+export const deleteSetting = delegate("deleteSetting");
 
-  if (error) {
-    // If not found, return null instead of throwing
-    if (error.code === "PGRST116") {
-      return null;
-    }
-    console.error("Database error getting setting:", error);
-    throw new Error(`Failed to get setting: ${error.message}`);
-  }
+// ============= AUDIT LOGS =============
 
-  return data?.value || null;
-}
+export const addAuditLogs = delegate("addAuditLogs");
+export const getAuditLogs = delegate("getAuditLogs");
 
-export async function setSetting(key: string, value: string) {
-  const { error } = await supabase
-    .from("settings")
-    .upsert({ key, value, updated_at: new Date().toISOString() })
-    .eq("key", key);
+// ============= AUTH ATTEMPTS =============
 
-  if (error) {
-    console.error("Database error setting value:", error);
-    throw new Error(`Failed to set setting: ${error.message}`);
-  }
-}
+export const reserveAuthAttempt = delegate("reserveAuthAttempt");
+export const clearAuthAttempts = delegate("clearAuthAttempts");
 
-// ============= BATCH OPERATIONS =============
+// ============= TRANSACTIONAL MUTATIONS =============
 
-// ⚡ Get all data in parallel for faster loading
-export async function getAllData() {
-  const [
-    settingsResult,
-    membersResult,
-    playersResult,
-    teamsResult,
-  ] = await Promise.allSettled([
-    supabase.from("settings").select("*"),
-    supabase.from("members").select("*").order("created_at", { ascending: true }),
-    supabase.from("players").select("*").order("created_at", { ascending: true }),
-    supabase.from("teams").select("*").order("created_at", { ascending: true }),
-  ]);
+export const applyMutations = delegate("applyMutations");
 
-  // Extract data or handle errors
-  const settings = settingsResult.status === "fulfilled" ? settingsResult.value.data || [] : [];
-  const members = membersResult.status === "fulfilled" ? membersResult.value.data || [] : [];
-  const players = playersResult.status === "fulfilled" ? playersResult.value.data || [] : [];
-  const teams = teamsResult.status === "fulfilled" ? teamsResult.value.data || [] : [];
-
-  // Convert settings array to map
-  const settingsMap: Record<string, string> = {};
-  settings.forEach((s: any) => {
-    settingsMap[s.key] = s.value;
-  });
+// ============= BATCH OPERATIONS =============
 
-  return {
-    settings: settingsMap,
-    members,
-    players,
-    teams,
-  };
-}
\ No newline at end of file
+export const getAllData = delegate("getAllData");
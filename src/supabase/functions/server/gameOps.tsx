@@ -0,0 +1,391 @@
+import * as db from "./db.tsx";
+import type { Mutation } from "./db.tsx";
+import type {
+  GameRow,
+  RatingHistoryRow,
+  RestoreConflict,
+  RestoreRequest,
+  StoredPlayer,
+  StoredTeam,
+  TeamRow,
+} from "../_shared/schemas.ts";
+
+// Game operations that touch several rows at once. Each one validates against the rows in the
+// database, then writes everything through one apply_mutations call, so either all of it lands
+// or none of it does. Every outcome carries the resulting teams and players for the client.
+
+export interface GameOpState {
+  teams: StoredTeam[];
+  players: StoredPlayer[];
+}
+
+export type GameOpOutcome =
+  | { success: true; state: GameOpState }
+  | { success: false; reason: string; state: GameOpState };
+
+async function loadState(): Promise<GameOpState> {
+  const [teams, players] = await Promise.all([db.getAllTeams(), db.getAllPlayers()]);
+  return { teams, players };
+}
+
+async function fail(reason: string): Promise<GameOpOutcome> {
+  return { success: false, reason, state: await loadState() };
+}
+
+async function apply(mutations: Mutation[]): Promise<GameOpOutcome> {
+  const applied = await db.applyMutations(mutations);
+  if (!applied) return fail("conflict");
+  return { success: true, state: await loadState() };
+}
+
+// Same split as the client's getGameRelations: partners from the pairing, otherwise the whole team
+function getGameRelations(team: StoredTeam, playerId: string): { teammates: string[]; opponents: string[] } {
+  const pairing = team.pairing;
+  if (pairing) {
+    if (pairing.sideA.includes(playerId)) {
+      return { teammates: pairing.sideA.filter((id: string) => id !== playerId), opponents: pairing.sideB };
+    }
+    if (pairing.sideB.includes(playerId)) {
+      return { teammates: pairing.sideB.filter((id: string) => id !== playerId), opponents: pairing.sideA };
+    }
+  }
+
+  return { teammates: team.player_ids.filter((id: string) => id !== playerId), opponents: [] };
+}
+
+// ============= START =============
+
+// Versions as in returnGame
+export async function startGame({ teamId, courtId, startedAt, expectedVersion }: {
+  teamId: string;
+  courtId: string;
+  startedAt: string;
+  expectedVersion?: number;
+}): Promise<GameOpOutcome> {
+  const [{ teams, players }, courtsCountSetting] = await Promise.all([
+    loadState(),
+    db.getSetting("courts_count"),
+  ]);
+  const courtsCount = courtsCountSetting ? parseInt(courtsCountSetting, 10) : 4;
+
+  const team = teams.find((t) => t.id === teamId);
+  if (!team) return fail("team_not_found");
+  if (team.state === "playing") return fail("team_already_playing");
+  if (expectedVersion !== undefined && team.version !== expectedVersion) return fail("conflict");
+
+  const teamPlayers = players.filter((p) => team.player_ids.includes(p.id));
+  const playingNames = teamPlayers.filter((p) => p.state === "playing").map((p) => p.name);
+  if (playingNames.length > 0) return fail(`duplicate_players:${playingNames.join(", ")}`);
+
+  // Checked again by the database inside the transaction (teams_check_courts), so two starts cannot
+  // both take the same court or the last free one; this only answers early with a clearer reason
+  const playingTeams = teams.filter((t) => t.state === "playing");
+  if (playingTeams.length >= courtsCount || playingTeams.some((t) => t.assigned_court_id === courtId)) {
+    return fail("no_available_courts");
+  }
+
+  return apply([
+    {
+      table: "teams",
+      op: "update",
+      id: teamId,
+      values: { state: "playing", assigned_court_id: courtId, started_at: startedAt },
+      expect: { state: "queued", version: team.version },
+    },
+    ...teamPlayers.map((player): Mutation => ({
+      table: "players",
+      op: "update",
+      id: player.id,
+      values: { state: "playing" },
+      expect: { state: player.state, version: player.version },
+    })),
+  ]);
+}
+
+// Take a playing team off its court and back into the queue (undo of auto seating). With
+// `expectedVersion` the team must not have changed since the client saw it; the rows written are
+// also expected at the versions read here, so nothing that changes in between is overwritten.
+export async function returnGame({ teamId, expectedVersion }: {
+  teamId: string;
+  expectedVersion?: number;
+}): Promise<GameOpOutcome> {
+  const { teams, players } = await loadState();
+
+  const team = teams.find((t) => t.id === teamId);
+  if (!team || team.state !== "playing") return fail("team_not_playing");
+  if (expectedVersion !== undefined && team.version !== expectedVersion) return fail("conflict");
+
+  return apply([
+    {
+      table: "teams",
+      op: "update",
+      id: teamId,
+      values: { state: "queued", assigned_court_id: null, started_at: null },
+      expect: { state: "playing", version: team.version },
+    },
+    ...players
+      .filter((p) => team.player_ids.includes(p.id) && p.state === "playing")
+      .map((player): Mutation => ({
+        table: "players",
+        op: "update",
+        id: player.id,
+        values: { state: "queued" },
+        expect: { state: "playing", version: player.version },
+      })),
+  ]);
+}
+
+// ============= END =============
+
+export interface EndGameInput {
+  teamId: string;
+  game?: GameRow; // Built by the client (court name, player names, result)
+  ratingUpdates?: { member_id: string; rating: number; rating_games: number }[];
+  ratingHistory?: RatingHistoryRow[];
+}
+
+// Mutations that finish one playing team: player stats, the game record and deleting the team
+function planEndTeam(
+  team: StoredTeam,
+  players: StoredPlayer[],
+  teams: StoredTeam[],
+  endingTeamIds: string[],
+  endedAt: string,
+  input: EndGameInput
+): Mutation[] {
+  const mutations: Mutation[] = [];
+
+  for (const playerId of team.player_ids) {
+    const player = players.find((p) => p.id === playerId);
+    if (!player) continue;
+
+    const { teammates, opponents } = getGameRelations(team, playerId);
+    const teammateHistory = { ...(player.teammate_history || {}) };
+    const opponentHistory = { ...(player.opponent_history || {}) };
+    for (const teammateId of teammates) {
+      teammateHistory[teammateId] = (teammateHistory[teammateId] || 0) + 1;
+    }
+    for (const opponentId of opponents) {
+      opponentHistory[opponentId] = (opponentHistory[opponentId] || 0) + 1;
+    }
+
+    // Players still in another queued team stay queued
+    const stillQueued = teams.some((t) =>
+      !endingTeamIds.includes(t.id) && t.state === "queued" && t.player_ids.includes(playerId)
+    );
+
+    mutations.push({
+      table: "players",
+      op: "update",
+      id: playerId,
+      values: {
+        state: stillQueued ? "queued" : "waiting",
+        game_count: (player.game_count || 0) + 1,
+        last_game_end_at: endedAt,
+        teammate_history: teammateHistory,
+        opponent_history: opponentHistory,
+        recent_teammates: teammates,
+      },
+      // Guards against counting the same game twice
+      expect: { game_count: player.game_count || 0 },
+    });
+  }
+
+  if (input.game) {
+    mutations.push({ table: "games", op: "insert", values: input.game });
+  }
+  for (const update of input.ratingUpdates || []) {
+    mutations.push({
+      table: "members",
+      op: "update",
+      id: update.member_id,
+      values: { rating: update.rating, rating_games: update.rating_games },
+      // The client rated from its copy of the member; another court ending first makes it stale
+      expect: { rating_games: update.rating_games - 1 },
+    });
+  }
+  for (const entry of input.ratingHistory || []) {
+    mutations.push({ table: "rating_history", op: "insert", values: entry });
+  }
+
+  mutations.push({ table: "teams", op: "delete", id: team.id, expect: { state: "playing" } });
+  return mutations;
+}
+
+export async function endGame(input: EndGameInput): Promise<GameOpOutcome> {
+  const { teams, players } = await loadState();
+
+  const team = teams.find((t) => t.id === input.teamId);
+  if (!team || team.state !== "playing") return fail("team_not_playing");
+
+  const endedAt = input.game?.ended_at || new Date().toISOString();
+  return apply(planEndTeam(team, players, teams, [team.id], endedAt, input));
+}
+
+export async function endAllGames({ games }: { games: GameRow[] }): Promise<GameOpOutcome> {
+  const { teams, players } = await loadState();
+
+  const playingTeams = teams.filter((t) => t.state === "playing");
+  if (playingTeams.length === 0) return fail("no_playing_games");
+
+  const endingTeamIds = playingTeams.map((t) => t.id);
+  const endedAt = new Date().toISOString();
+  const mutations = playingTeams.flatMap((team) =>
+    planEndTeam(team, players, teams, endingTeamIds, endedAt, {
+      teamId: team.id,
+      game: games.find((g) => g.team_id === team.id),
+    })
+  );
+
+  return apply(mutations);
+}
+
+// ============= MATCH =============
+
+// Save new queued teams and move their players from waiting to queued
+export async function commitMatch({ teams: newTeams }: { teams: TeamRow[] }): Promise<GameOpOutcome> {
+  const { players } = await loadState();
+
+  const playerIds = newTeams.flatMap((t) => t.player_ids);
+  if (new Set(playerIds).size !== playerIds.length) return fail("duplicate_players_in_match");
+
+  const matchedPlayers = players.filter((p) => playerIds.includes(p.id));
+  const notWaiting = matchedPlayers.filter((p) => p.state !== "waiting" && p.state !== "priority");
+  if (matchedPlayers.length !== playerIds.length || notWaiting.length > 0) {
+    return fail("players_not_waiting");
+  }
+
+  return apply([
+    ...newTeams.map((team): Mutation => ({ table: "teams", op: "insert", values: team })),
+    ...matchedPlayers.map((player): Mutation => ({
+      table: "players",
+      op: "update",
+      id: player.id,
+      values: { state: "queued" },
+      expect: { state: player.state },
+    })),
+  ]);
+}
+
+// Queue a team the admin put together by hand. Waiting players move to queued; players already
+// in another team keep their state.
+export async function addTeam({ team }: { team: TeamRow }): Promise<GameOpOutcome> {
+  const { players } = await loadState();
+
+  const teamPlayers = players.filter((p) => team.player_ids.includes(p.id));
+  if (teamPlayers.length !== team.player_ids.length) return fail("players_not_found");
+
+  return apply([
+    { table: "teams", op: "insert", values: { ...team, state: "queued" } },
+    ...teamPlayers
+      .filter((p) => p.state === "waiting")
+      .map((player): Mutation => ({
+        table: "players",
+        op: "update",
+        id: player.id,
+        values: { state: "queued" },
+        expect: { state: "waiting", version: player.version },
+      })),
+  ]);
+}
+
+// Delete a team; its queued players that are in no other team go back to waiting. Versions as
+// in returnGame.
+export async function removeTeam({ teamId, expectedVersion }: {
+  teamId: string;
+  expectedVersion?: number;
+}): Promise<GameOpOutcome> {
+  const { teams, players } = await loadState();
+
+  const team = teams.find((t) => t.id === teamId);
+  if (!team) return fail("team_not_found");
+  if (expectedVersion !== undefined && team.version !== expectedVersion) return fail("conflict");
+
+  const inOtherTeams = new Set(
+    teams
+      .filter((t) => t.id !== teamId && (t.state === "queued" || t.state === "playing"))
+      .flatMap((t) => t.player_ids)
+  );
+
+  return apply([
+    { table: "teams", op: "delete", id: teamId, expect: { state: team.state, version: team.version } },
+    ...players
+      .filter((p) => team.player_ids.includes(p.id) && p.state === "queued" && !inOtherTeams.has(p.id))
+      .map((player): Mutation => ({
+        table: "players",
+        op: "update",
+        id: player.id,
+        values: { state: "waiting" },
+        expect: { state: "queued", version: player.version },
+      })),
+  ]);
+}
+
+// ============= UNDO =============
+
+export type RestoreOutcome = GameOpOutcome & { conflict?: RestoreConflict };
+
+const atVersion = (version?: number) => (version !== undefined ? { version } : undefined);
+
+// Put back the rows of an undo or redo in one transaction. Every update and delete is checked
+// against the version the client last saw, so nothing lands when another device changed one of them.
+export async function restore(input: RestoreRequest): Promise<RestoreOutcome> {
+  const history = input.games.removedIds.length > 0 ? await db.getRatingHistoryOfGames(input.games.removedIds) : [];
+
+  // Teams leaving a court go first, so a team put back on it does not trip the court checks
+  const teamUpdates = [...input.teams.updated].sort(
+    (a, b) => Number(a.values.state === "playing") - Number(b.values.state === "playing")
+  );
+
+  const outcome = await apply([
+    ...input.teams.removed.map(({ id, expectedVersion }): Mutation => ({
+      table: "teams", op: "delete", id, expect: atVersion(expectedVersion),
+    })),
+    ...teamUpdates.map(({ id, values, expectedVersion }): Mutation => ({
+      table: "teams", op: "update", id, values, expect: atVersion(expectedVersion),
+    })),
+    ...input.teams.added.map((team): Mutation => ({ table: "teams", op: "insert", values: team })),
+    ...input.players.map(({ id, values, expectedVersion }): Mutation => ({
+      table: "players", op: "update", id, values, expect: atVersion(expectedVersion),
+    })),
+    ...input.members.map(({ id, values, expectedVersion }): Mutation => ({
+      table: "members", op: "update", id, values, expect: atVersion(expectedVersion),
+    })),
+    // A game goes together with the rating history it produced
+    ...history.map((entry): Mutation => ({ table: "rating_history", op: "delete", id: entry.id })),
+    ...input.games.removedIds.map((id): Mutation => ({ table: "games", op: "delete", id })),
+    ...input.games.added.map((game): Mutation => ({ table: "games", op: "insert", values: game })),
+    ...input.ratingHistory.map((entry): Mutation => ({ table: "rating_history", op: "insert", values: entry })),
+  ]);
+  if (outcome.success) return outcome;
+
+  return { ...outcome, conflict: await findConflict(input, outcome.state) };
+}
+
+// The first table with rows that are no longer at the version the client sent. Undefined when the
+// rejection was something else, e.g. a court another team took meanwhile.
+async function findConflict(input: RestoreRequest, state: GameOpState): Promise<RestoreConflict | undefined> {
+  const memberIds = input.members.map(({ id }) => id);
+  const members = memberIds.length > 0 ? await db.getMembersByIds(memberIds) : [];
+
+  const changedIds = (expected: { id: string; expectedVersion?: number }[], rows: { id: string; version?: number }[]) =>
+    expected
+      .filter(({ id, expectedVersion }) =>
+        expectedVersion !== undefined && rows.find((row) => row.id === id)?.version !== expectedVersion
+      )
+      .map(({ id }) => id);
+
+  const teamIds = changedIds([...input.teams.updated, ...input.teams.removed], state.teams);
+  if (teamIds.length > 0) {
+    return { table: "teams", ids: teamIds, current: state.teams.filter((t) => teamIds.includes(t.id)) };
+  }
+  const playerIds = changedIds(input.players, state.players);
+  if (playerIds.length > 0) {
+    return { table: "players", ids: playerIds, current: state.players.filter((p) => playerIds.includes(p.id)) };
+  }
+  const changedMemberIds = changedIds(input.members, members);
+  if (changedMemberIds.length > 0) {
+    return { table: "members", ids: changedMemberIds, current: members.filter((m) => changedMemberIds.includes(m.id)) };
+  }
+  return undefined;
+}
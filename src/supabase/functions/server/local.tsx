@@ -0,0 +1,27 @@
+import { app } from "./app.tsx";
+import * as backup from "./backup.tsx";
+import * as db from "./db.tsx";
+import { createMemoryStorage } from "./storage_memory.tsx";
+
+// Runs the server on this machine with in-memory storage, without a Supabase project:
+//   deno run --allow-net --allow-env --allow-read src/supabase/functions/server/local.tsx
+// and point the client at it with VITE_API_BASE_URL=http://localhost:8000/make-server-41b22d2d
+//
+// PORT changes the port (8000). BACKUP=<file> starts from a backup archive (see backup.tsx)
+// instead of empty tables. Data lives until the process stops.
+
+db.setStorage(createMemoryStorage());
+
+// Sessions only need to outlive this process
+if (!Deno.env.get("SESSION_SECRET")) {
+  Deno.env.set("SESSION_SECRET", crypto.randomUUID());
+}
+
+const backupFile = Deno.env.get("BACKUP");
+if (backupFile) {
+  const { archive } = backup.upgradeArchive(JSON.parse(await Deno.readTextFile(backupFile)));
+  const { diff } = await backup.applyImport(archive, "merge");
+  console.log(`📦 Loaded ${backupFile}: ${diff.members.added} members, ${diff.players.added} players, ${diff.games.added} games`);
+}
+
+Deno.serve({ port: Number(Deno.env.get("PORT") ?? 8000) }, app.fetch);
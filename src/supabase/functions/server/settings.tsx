@@ -0,0 +1,110 @@
+// Registry of every key the settings table may hold. Values are stored as strings, the same as
+// the client writes them; each key says who may read it and how a new value is checked.
+//   public - readable by everyone, changed by admins through PUT /settings/:key
+//   admin  - readable and changed by admins only
+//   secret - never returned by any route; only changed through its own route (e.g. /admin-password/change)
+// Admin and secret keys are also hidden from the anon role in the database (see the settings_access
+// and settings_admin_access migrations).
+
+export type SettingAccess = "public" | "admin" | "secret";
+
+// Returns an error message for an invalid value, or null when it is fine
+type SettingValidator = (value: string) => string | null;
+
+interface SettingDefinition {
+  access: SettingAccess;
+  validate?: SettingValidator; // Not used for secret keys, which the settings route never writes
+}
+
+function integerIn(min: number, max: number): SettingValidator {
+  return (value) => {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed >= min && parsed <= max
+      ? null
+      : `must be an integer between ${min} and ${max}`;
+  };
+}
+
+function oneOf(options: string[]): SettingValidator {
+  return (value) => (options.includes(value) ? null : `must be one of ${options.join(", ")}`);
+}
+
+function parseJsonObject(value: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const isNonNegativeNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+// A JSON object whose listed fields, when present, are non-negative numbers
+function numberFields(fields: string[]): SettingValidator {
+  return (value) => {
+    const parsed = parseJsonObject(value);
+    if (!parsed) return "must be a JSON object";
+    const invalid = fields.filter((field) => field in parsed && !isNonNegativeNumber(parsed[field]));
+    return invalid.length === 0 ? null : `${invalid.join(", ")} must be non-negative numbers`;
+  };
+}
+
+export const SETTINGS: Record<string, SettingDefinition> = {
+  courts_count: { access: "public", validate: integerIn(1, 8) },
+  court_names: {
+    access: "public",
+    validate: (value) => {
+      const parsed = parseJsonObject(value);
+      if (!parsed) return "must be a JSON object";
+      return Object.values(parsed).every((name) => typeof name === "string") ? null : "court names must be strings";
+    },
+  },
+  game_type: { access: "public", validate: oneOf(["free", "mixed", "same_gender", "avoid_3_1"]) },
+  rating_source: { access: "public", validate: oneOf(["rank", "rating", "blend"]) },
+  game_duration_min: { access: "public", validate: integerIn(5, 60) },
+  auto_seat_next: { access: "public", validate: oneOf(["true", "false"]) },
+  // Matching is admin-only, so members have no use for its tuning
+  scoring_model: {
+    access: "admin",
+    validate: (value) => {
+      const parsed = parseJsonObject(value);
+      if (!parsed) return "must be a JSON object";
+      const groups = [parsed.rankScores, parsed.genderMultipliers].filter((group) => group !== undefined);
+      const valid = groups.every(
+        (group) =>
+          group && typeof group === "object" && Object.values(group as object).every(isNonNegativeNumber),
+      );
+      if (!valid) return "rank scores and gender multipliers must be non-negative numbers";
+      return numberFields(["unrankedScore"])(value);
+    },
+  },
+  optimizer_weights: {
+    access: "admin",
+    validate: numberFields(["skillSpread", "sideBalance", "repeatTeammate", "repeatOpponent", "waitTime"]),
+  },
+  admin_password: { access: "secret" },
+};
+
+export function getSettingAccess(key: string): SettingAccess | null {
+  return SETTINGS[key]?.access ?? null;
+}
+
+export function isReadable(key: string, isAdmin: boolean): boolean {
+  const access = getSettingAccess(key);
+  return access === "public" || (access === "admin" && isAdmin);
+}
+
+// Error message for writing `value` to `key` through PUT /settings/:key, or null when allowed
+export function validateSettingWrite(key: string, value: string): string | null {
+  const definition = SETTINGS[key];
+  if (!definition) return `Unknown setting: ${key}`;
+  if (definition.access === "secret") return `${key} is reserved`;
+  const error = definition.validate?.(value) ?? null;
+  return error ? `${key} ${error}` : null;
+}
+
+// Only the settings the caller may see, for /all-data
+export function filterReadable(settings: Record<string, string>, isAdmin: boolean): Record<string, string> {
+  return Object.fromEntries(Object.entries(settings).filter(([key]) => isReadable(key, isAdmin)));
+}
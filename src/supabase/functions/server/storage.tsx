@@ -0,0 +1,169 @@
+import type {
+  GameRow,
+  MemberRow,
+  MemberUpdates,
+  PlayerRow,
+  PlayerUpdates,
+  RatingHistoryRow,
+  StoredAuditLog,
+  StoredGame,
+  StoredMember,
+  StoredPlayer,
+  StoredRatingHistory,
+  StoredTeam,
+  TeamRow,
+  TeamUpdates,
+} from "../_shared/schemas.ts";
+
+// Everything the server reads and writes goes through a StorageAdapter (see db.tsx for the one in
+// use). storage_postgres.tsx talks to the Supabase database; storage_memory.tsx keeps the same
+// tables in memory for local runs and tests. Rows are database rows (snake_case) in both.
+// The columns and tables below are created by src/supabase/migrations; these notes are a summary.
+
+// ============= MEMBERS =============
+// members.rating (numeric, nullable): computed skill rating, null until the first rated game
+// members.rating_games (int, default 0): number of rated games played
+// members.version (int, default 1): bumped by a trigger on every update (same on players and teams)
+
+// ============= PLAYERS =============
+// players.opponent_history (jsonb, default '{}'): { [playerId]: timesPlayedAgainst }
+// players.member_id (text, nullable): member the player was registered from
+
+// ============= TEAMS =============
+// teams.pairing (jsonb, nullable): { sideA: string[], sideB: string[] } doubles split
+// teams.extension_min (integer, default 0): minutes added to this game's time limit
+
+// ============= GAMES =============
+// games: finished game history, one row per game
+//   id, session_id, session_date (YYYY-MM-DD), team_id, court_id, court_name,
+//   player_ids (text[]), player_names (text[]), pairing (jsonb, nullable),
+//   started_at, ended_at, duration_ms (nullable), created_at,
+//   result (jsonb, nullable): { sets: { a: number, b: number }[], winner: "A" | "B" | null }
+
+// ============= RATING HISTORY =============
+// rating_history: one row per member per rated game
+//   id, member_id, game_id, rating_before, rating_after, created_at
+
+// ============= AUDIT LOGS =============
+// audit_logs: admin actions, newest read first
+//   id, type, actor, payload (jsonb), player_ids (text[]), player_names (text[]),
+//   court_id (nullable), created_at
+
+export interface AuditLogFilters {
+  type?: string;
+  playerId?: string;
+  courtId?: string;
+  before?: string; // created_at of the last event already shown, for paging
+  limit: number;
+}
+
+// ============= AUTH ATTEMPTS =============
+// auth_attempts: failed admin logins per client (see functions/server/auth.tsx for the backoff)
+// client_key (text, pk), failed_count (int), last_failed_at (timestamptz), locked_until (timestamptz, nullable)
+
+// ============= TRANSACTIONAL MUTATIONS =============
+// A list of inserts / updates / deletes applied in one transaction (apply_mutations in
+// src/supabase/migrations). An update or delete whose row is gone or no longer contains `expect`
+// aborts everything.
+
+export type MutationTable = "players" | "teams" | "games" | "members" | "rating_history" | "settings";
+
+export interface Mutation {
+  table: MutationTable;
+  op: "insert" | "update" | "delete";
+  id?: string; // The setting's key for settings
+
+  values?: Record<string, unknown>;
+  expect?: Record<string, unknown>;
+}
+
+export interface AuthReservation {
+  reserved: boolean; // False when the client was still locked; nothing was counted then
+  failed_count: number;
+  locked_until: string | null;
+}
+
+export interface AllData {
+  settings: Record<string, string>;
+  members: StoredMember[];
+  players: StoredPlayer[];
+  teams: StoredTeam[];
+  games: StoredGame[];
+}
+
+export interface StorageAdapter {
+  // Members
+  getAllMembers(): Promise<StoredMember[]>;
+  getMembersByIds(ids: string[]): Promise<StoredMember[]>;
+  addMember(member: MemberRow): Promise<StoredMember>;
+  // With expectedVersion, only writes while the row is still at that version; returns false otherwise
+  // (same for updatePlayer and updateTeam)
+  updateMember(id: string, updates: MemberUpdates, expectedVersion?: number): Promise<boolean>;
+  deleteMember(id: string): Promise<void>;
+  batchAddMembers(members: MemberRow[]): Promise<StoredMember[]>;
+  deleteAllMembers(): Promise<void>;
+  resetMembers(newMembers: MemberRow[]): Promise<StoredMember[]>;
+
+  // Players
+  getAllPlayers(): Promise<StoredPlayer[]>;
+  getPlayersByIds(ids: string[]): Promise<StoredPlayer[]>;
+  addPlayer(player: PlayerRow): Promise<StoredPlayer>;
+  batchAddPlayers(players: PlayerRow[]): Promise<StoredPlayer[]>;
+  updatePlayer(id: string, updates: PlayerUpdates, expectedVersion?: number): Promise<boolean>;
+  // Entries with expectedVersion are checked against the row version. Such a batch is written in one
+  // transaction and returns false, writing nothing, when any of those rows has changed.
+  batchUpdatePlayers(
+    playerUpdates: Array<{ playerId: string; updates: PlayerUpdates; expectedVersion?: number }>
+  ): Promise<boolean>;
+  deletePlayer(id: string): Promise<void>;
+  batchDeletePlayers(playerIds: string[]): Promise<void>;
+  resetPlayerGameCounts(): Promise<void>;
+
+  // Teams
+  getAllTeams(): Promise<StoredTeam[]>;
+  getTeamsByIds(ids: string[]): Promise<StoredTeam[]>;
+  addTeam(team: TeamRow): Promise<StoredTeam>;
+  batchAddTeams(teams: TeamRow[]): Promise<StoredTeam[]>;
+  updateTeam(id: string, updates: TeamUpdates, expectedVersion?: number): Promise<boolean>;
+  deleteTeam(id: string): Promise<void>;
+  batchDeleteTeams(teamIds: string[]): Promise<void>;
+  deleteFinishedTeams(): Promise<void>;
+  deleteAllTeams(): Promise<void>;
+
+  // Games
+  getGames(sessionDate?: string): Promise<StoredGame[]>;
+  addGame(game: GameRow): Promise<StoredGame>;
+  batchAddGames(games: GameRow[]): Promise<StoredGame[]>;
+  // Removes the game and the rating history rows it produced (used by undo)
+  deleteGame(id: string): Promise<void>;
+
+  // Rating history
+  getRatingHistory(memberId: string): Promise<StoredRatingHistory[]>;
+  getAllRatingHistory(): Promise<StoredRatingHistory[]>;
+  getRatingHistoryOfGames(gameIds: string[]): Promise<StoredRatingHistory[]>;
+  batchAddRatingHistory(entries: RatingHistoryRow[]): Promise<void>;
+
+  // Settings
+  getSetting(key: string): Promise<string | null>;
+  setSetting(key: string, value: string): Promise<void>;
+  getAllSettings(): Promise<Record<string, string>>;
+  deleteSetting(key: string): Promise<void>;
+
+  // Audit logs
+  // Events are sent again when a queued request is replayed, so ids already stored are skipped
+  addAuditLogs(logs: StoredAuditLog[]): Promise<void>;
+  getAuditLogs(filters: AuditLogFilters): Promise<StoredAuditLog[]>;
+
+  // Auth attempts
+  // Counts one more attempt and locks the client for delaysMs[count - 1] (the last delay past the
+  // end), unless it is still locked; read and write are one atomic step. A failure more than
+  // resetAfterMs after the previous one starts again from 1.
+  reserveAuthAttempt(clientKey: string, resetAfterMs: number, delaysMs: number[]): Promise<AuthReservation>;
+  clearAuthAttempts(clientKey: string): Promise<void>;
+
+  // Returns false when a precondition failed (nothing was written)
+  applyMutations(mutations: Mutation[]): Promise<boolean>;
+
+  // Settings, members, players and teams, plus the games of the given session date
+  getAllData(sessionDate?: string): Promise<AllData>;
+}
@@ -0,0 +1,147 @@
+import "./test_env.tsx";
+import { describe, expect, it } from "vitest";
+import { createMemoryStorage } from "./storage_memory.tsx";
+import type { PlayerRow, TeamRow } from "../_shared/schemas.ts";
+
+const player = (id: string, state: PlayerRow["state"] = "waiting"): PlayerRow => ({
+  id,
+  name: `선수 ${id}`,
+  state,
+  game_count: 0,
+  last_game_end_at: null,
+});
+
+const team = (
+  id: string,
+  playerIds: string[],
+  state: TeamRow["state"] = "queued",
+  courtId: string | null = null
+): TeamRow => ({
+  id,
+  name: `팀 ${id}`,
+  player_ids: playerIds,
+  state,
+  assigned_court_id: courtId,
+});
+
+describe("createMemoryStorage", () => {
+  it("starts rows at version 1 and bumps the version on every update", async () => {
+    const storage = createMemoryStorage();
+    await storage.addPlayer(player("p1"));
+
+    expect((await storage.getPlayersByIds(["p1"]))[0].version).toBe(1);
+    expect(await storage.updatePlayer("p1", { state: "resting" })).toBe(true);
+    expect((await storage.getPlayersByIds(["p1"]))[0]).toMatchObject({ state: "resting", version: 2 });
+  });
+
+  it("writes with an expected version only while the row is still at it", async () => {
+    const storage = createMemoryStorage();
+    await storage.addTeam(team("t1", ["p1"]));
+
+    expect(await storage.updateTeam("t1", { name: "새 이름" }, 1)).toBe(true);
+    expect(await storage.updateTeam("t1", { name: "늦은 이름" }, 1)).toBe(false);
+    expect((await storage.getTeamsByIds(["t1"]))[0]).toMatchObject({ name: "새 이름", version: 2 });
+  });
+
+  it("writes no player of a versioned batch when one of them changed", async () => {
+    const storage = createMemoryStorage();
+    await storage.batchAddPlayers([player("p1"), player("p2")]);
+    await storage.updatePlayer("p2", { state: "resting" });
+
+    const written = await storage.batchUpdatePlayers([
+      { playerId: "p1", updates: { state: "queued" }, expectedVersion: 1 },
+      { playerId: "p2", updates: { state: "queued" }, expectedVersion: 1 },
+    ]);
+
+    expect(written).toBe(false);
+    expect((await storage.getAllPlayers()).map((p) => p.state)).toEqual(["waiting", "resting"]);
+  });
+
+  it("rejects duplicate ids", async () => {
+    const storage = createMemoryStorage();
+    await storage.addPlayer(player("p1"));
+
+    await expect(storage.addPlayer(player("p1"))).rejects.toThrow(/duplicate id p1/);
+  });
+
+  it("hands out copies, so callers cannot change stored rows", async () => {
+    const storage = createMemoryStorage();
+    await storage.addPlayer(player("p1"));
+
+    (await storage.getAllPlayers())[0].state = "playing";
+
+    expect((await storage.getAllPlayers())[0].state).toBe("waiting");
+  });
+
+  it("applies all mutations or none of them", async () => {
+    const storage = createMemoryStorage();
+    await storage.batchAddPlayers([player("p1"), player("p2", "queued")]);
+
+    const applied = await storage.applyMutations([
+      { table: "players", op: "update", id: "p1", values: { state: "queued" }, expect: { state: "waiting" } },
+      { table: "teams", op: "insert", values: team("t1", ["p1", "p2"]) },
+      { table: "players", op: "update", id: "p2", values: { state: "queued" }, expect: { state: "waiting" } },
+    ]);
+
+    expect(applied).toBe(false);
+    expect((await storage.getPlayersByIds(["p1"]))[0]).toMatchObject({ state: "waiting", version: 1 });
+    expect(await storage.getAllTeams()).toEqual([]);
+  });
+
+  it("writes settings in the same transaction as the rows, keyed by the setting's key", async () => {
+    const storage = createMemoryStorage();
+    await storage.setSetting("courts_count", "4");
+    await storage.addPlayer(player("p1"));
+    await storage.updatePlayer("p1", { state: "resting" });
+
+    const rejected = await storage.applyMutations([
+      { table: "settings", op: "update", id: "courts_count", values: { value: "6" }, expect: { value: "4" } },
+      { table: "players", op: "update", id: "p1", values: { state: "queued" }, expect: { version: 1 } },
+    ]);
+    const applied = await storage.applyMutations([
+      { table: "settings", op: "update", id: "courts_count", values: { value: "6" }, expect: { value: "4" } },
+      { table: "settings", op: "insert", values: { key: "game_type", value: "mixed" } },
+    ]);
+
+    expect(rejected).toBe(false);
+    expect(applied).toBe(true);
+    expect(await storage.getAllSettings()).toEqual({ courts_count: "6", game_type: "mixed" });
+  });
+
+  it("keeps one playing team per court and no more than the courts count", async () => {
+    const storage = createMemoryStorage();
+    await storage.setSetting("courts_count", "2");
+    await storage.batchAddTeams([team("t1", ["p1"]), team("t2", ["p2"]), team("t3", ["p3"])]);
+
+    expect(await storage.applyMutations([
+      { table: "teams", op: "update", id: "t1", values: { state: "playing", assigned_court_id: "court-0" } },
+    ])).toBe(true);
+    expect(await storage.applyMutations([
+      { table: "teams", op: "update", id: "t2", values: { state: "playing", assigned_court_id: "court-0" } },
+    ])).toBe(false);
+    expect(await storage.applyMutations([
+      { table: "teams", op: "update", id: "t2", values: { state: "playing", assigned_court_id: "court-1" } },
+    ])).toBe(true);
+    expect(await storage.applyMutations([
+      { table: "teams", op: "update", id: "t3", values: { state: "playing", assigned_court_id: "court-2" } },
+    ])).toBe(false);
+  });
+
+  it("counts an auth attempt and turns the next one away while the client is locked", async () => {
+    const storage = createMemoryStorage();
+
+    const first = await storage.reserveAuthAttempt("203.0.113.7", 60_000, [1_000, 60_000]);
+    const second = await storage.reserveAuthAttempt("203.0.113.7", 60_000, [1_000, 60_000]);
+    const otherClient = await storage.reserveAuthAttempt("198.51.100.2", 60_000, [1_000, 60_000]);
+
+    expect(first).toMatchObject({ reserved: true, failed_count: 1 });
+    expect(second).toMatchObject({ reserved: false, failed_count: 1 });
+    expect(otherClient).toMatchObject({ reserved: true, failed_count: 1 });
+
+    await storage.clearAuthAttempts("203.0.113.7");
+    expect(await storage.reserveAuthAttempt("203.0.113.7", 60_000, [1_000, 60_000])).toMatchObject({
+      reserved: true,
+      failed_count: 1,
+    });
+  });
+});
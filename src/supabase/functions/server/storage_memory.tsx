@@ -0,0 +1,509 @@
+import type {
+  GameRow,
+  MemberRow,
+  MemberUpdates,
+  PlayerRow,
+  PlayerUpdates,
+  RatingHistoryRow,
+  Stored,
+  StoredAuditLog,
+  StoredGame,
+  StoredMember,
+  StoredPlayer,
+  StoredRatingHistory,
+  StoredTeam,
+  TeamRow,
+  TeamUpdates,
+} from "../_shared/schemas.ts";
+import type { AllData, AuditLogFilters, AuthReservation, Mutation, StorageAdapter } from "./storage.tsx";
+
+// Storage that keeps every table in memory, for running the server without a Supabase project
+// (local development, automated tests). It follows what the database does for the server: row
+// versions bumped on update, duplicate ids rejected on insert, the court checks on teams,
+// apply_mutations all or nothing.
+// Nothing is persisted; a restart starts empty.
+
+interface Rows {
+  members: StoredMember;
+  players: StoredPlayer;
+  teams: StoredTeam;
+  games: StoredGame;
+  rating_history: StoredRatingHistory;
+  audit_logs: StoredAuditLog;
+}
+
+type Table = keyof Rows;
+
+type Tables = { [T in Table]: Map<string, Rows[T]> };
+
+// A row as it is written, before the database fills in created_at and version
+type NewRow<T extends Table> = Omit<Rows[T], keyof Stored> & Partial<Stored>;
+
+interface AuthAttempt {
+  client_key: string;
+  failed_count: number;
+  last_failed_at: string;
+  locked_until: string | null;
+}
+
+// Tables whose rows carry a version (the bump_row_version trigger)
+const VERSIONED_TABLES = new Set<Table>(["members", "players", "teams"]);
+
+// Column defaults a write may compare against before the row was ever updated (see the migrations)
+const COLUMN_DEFAULTS: Partial<Record<Table, Record<string, unknown>>> = {
+  members: { rating: null, rating_games: 0 },
+};
+
+const byCreatedAt = (a: Stored, b: Stored) => a.created_at.localeCompare(b.created_at);
+
+// Thrown when a precondition, a court check or a unique id fails; apply_mutations then rolls the whole
+// call back and reports a rejection, as storage_postgres.tsx does for P0409 and 23505
+class PreconditionError extends Error {}
+
+export function createMemoryStorage(): StorageAdapter {
+  let tables: Tables = {
+    members: new Map(),
+    players: new Map(),
+    teams: new Map(),
+    games: new Map(),
+    rating_history: new Map(),
+    audit_logs: new Map(),
+  };
+  let settings = new Map<string, string>();
+  const authAttempts = new Map<string, AuthAttempt>();
+
+  // Rows leave the store as copies, so callers cannot change them in place
+  const copy = <T,>(value: T): T => structuredClone(value);
+
+  const rows = <T extends Table>(table: T): Rows[T][] => Array.from(tables[table].values());
+
+  // Same as teams_playing_court_idx and the teams_check_courts trigger: one playing team per court,
+  // and no more playing teams than courts
+  function checkTeamCourts(team: StoredTeam, current?: StoredTeam) {
+    if (team.state !== "playing") return;
+    if (current?.state === "playing" && current.assigned_court_id === team.assigned_court_id) return;
+
+    const playing = rows("teams").filter((row) => row.id !== team.id && row.state === "playing");
+    const courtsCount = parseInt(settings.get("courts_count") ?? "", 10) || 4;
+    if (playing.some((row) => row.assigned_court_id === team.assigned_court_id)) {
+      throw new PreconditionError(`conflict: court ${team.assigned_court_id} is in use`);
+    }
+    if (playing.length >= courtsCount) {
+      throw new PreconditionError(`conflict: all ${courtsCount} courts are in use`);
+    }
+  }
+
+  function insertRows<T extends Table>(table: T, newRows: NewRow<T>[]): Rows[T][] {
+    const now = new Date().toISOString();
+    const inserted = newRows.map((row) => {
+      if (tables[table].has(row.id)) {
+        throw new PreconditionError(`Failed to insert into ${table}: duplicate id ${row.id}`);
+      }
+      const version = VERSIONED_TABLES.has(table) ? { version: 1 } : {};
+      return { created_at: now, ...COLUMN_DEFAULTS[table], ...copy(row), ...version } as Rows[T];
+    });
+    inserted.forEach((row) => {
+      if (table === "teams") checkTeamCourts(row as StoredTeam);
+      tables[table].set(row.id, row);
+    });
+    return copy(inserted);
+  }
+
+  // Returns false when the row is missing or does not contain `expect`
+  function updateRow<T extends Table>(
+    table: T,
+    id: string,
+    updates: Partial<Rows[T]>,
+    expect?: Record<string, unknown>
+  ): boolean {
+    const current = tables[table].get(id);
+    if (!current || !matches(current, expect)) return false;
+    const version = VERSIONED_TABLES.has(table) ? { version: ((current as Stored).version ?? 1) + 1 } : {};
+    const updated: Rows[T] = { ...current, ...copy(updates), ...version, id };
+    if (table === "teams") checkTeamCourts(updated as StoredTeam, current as StoredTeam);
+    tables[table].set(id, updated);
+    return true;
+  }
+
+  function deleteRows<T extends Table>(table: T, keep: (row: Rows[T]) => boolean) {
+    for (const row of rows(table)) {
+      if (!keep(row)) tables[table].delete(row.id);
+    }
+  }
+
+  // Same as the jsonb containment (@>) apply_mutations uses, for the flat values it is given
+  function matches(row: object, expect?: Record<string, unknown>): boolean {
+    if (!expect) return true;
+    const columns = row as Record<string, unknown>;
+    return Object.entries(expect).every(([column, value]) => JSON.stringify(columns[column]) === JSON.stringify(value));
+  }
+
+  function expectVersion(expectedVersion?: number) {
+    return expectedVersion !== undefined ? { version: expectedVersion } : undefined;
+  }
+
+  // ============= MEMBERS =============
+
+  async function getAllMembers() {
+    return copy(rows("members").sort(byCreatedAt));
+  }
+
+  async function getMembersByIds(ids: string[]) {
+    return copy(rows("members").filter((row) => ids.includes(row.id)));
+  }
+
+  async function addMember(member: MemberRow) {
+    return insertRows("members", [member])[0];
+  }
+
+  async function updateMember(id: string, updates: MemberUpdates, expectedVersion?: number): Promise<boolean> {
+    return updateRow("members", id, updates, expectVersion(expectedVersion)) || expectedVersion === undefined;
+  }
+
+  async function deleteMember(id: string) {
+    tables.members.delete(id);
+  }
+
+  async function batchAddMembers(members: MemberRow[]) {
+    return insertRows("members", members);
+  }
+
+  async function deleteAllMembers() {
+    tables.members.clear();
+  }
+
+  async function resetMembers(newMembers: MemberRow[]) {
+    tables.members.clear();
+    return insertRows("members", newMembers);
+  }
+
+  // ============= PLAYERS =============
+
+  async function getAllPlayers() {
+    return copy(rows("players").sort(byCreatedAt));
+  }
+
+  async function getPlayersByIds(ids: string[]) {
+    return copy(rows("players").filter((row) => ids.includes(row.id)));
+  }
+
+  async function addPlayer(player: PlayerRow) {
+    return insertRows("players", [player])[0];
+  }
+
+  async function batchAddPlayers(players: PlayerRow[]) {
+    return insertRows("players", players);
+  }
+
+  async function updatePlayer(id: string, updates: PlayerUpdates, expectedVersion?: number): Promise<boolean> {
+    return updateRow("players", id, updates, expectVersion(expectedVersion)) || expectedVersion === undefined;
+  }
+
+  async function batchUpdatePlayers(
+    playerUpdates: Array<{ playerId: string; updates: PlayerUpdates; expectedVersion?: number }>
+  ): Promise<boolean> {
+    if (playerUpdates.some(({ expectedVersion }) => expectedVersion !== undefined)) {
+      return applyMutations(playerUpdates.map(({ playerId, updates, expectedVersion }): Mutation => ({
+        table: "players",
+        op: "update",
+        id: playerId,
+        values: updates,
+        expect: expectVersion(expectedVersion),
+      })));
+    }
+
+    playerUpdates.forEach(({ playerId, updates }) => updateRow("players", playerId, updates));
+    return true;
+  }
+
+  async function deletePlayer(id: string) {
+    tables.players.delete(id);
+  }
+
+  async function batchDeletePlayers(playerIds: string[]) {
+    playerIds.forEach((id) => tables.players.delete(id));
+  }
+
+  async function resetPlayerGameCounts() {
+    for (const row of rows("players")) {
+      updateRow("players", row.id, {
+        game_count: 0,
+        last_game_end_at: null,
+        teammate_history: {},
+        opponent_history: {},
+        recent_teammates: [],
+      });
+    }
+  }
+
+  // ============= TEAMS =============
+
+  async function getAllTeams() {
+    return copy(rows("teams").sort(byCreatedAt));
+  }
+
+  async function getTeamsByIds(ids: string[]) {
+    return copy(rows("teams").filter((row) => ids.includes(row.id)));
+  }
+
+  async function addTeam(team: TeamRow) {
+    return insertRows("teams", [team])[0];
+  }
+
+  async function batchAddTeams(teams: TeamRow[]) {
+    return insertRows("teams", teams);
+  }
+
+  async function updateTeam(id: string, updates: TeamUpdates, expectedVersion?: number): Promise<boolean> {
+    return updateRow("teams", id, updates, expectVersion(expectedVersion)) || expectedVersion === undefined;
+  }
+
+  async function deleteTeam(id: string) {
+    tables.teams.delete(id);
+  }
+
+  async function batchDeleteTeams(teamIds: string[]) {
+    teamIds.forEach((id) => tables.teams.delete(id));
+  }
+
+  async function deleteFinishedTeams() {
+    deleteRows("teams", (row) => row.state !== "finished");
+  }
+
+  async function deleteAllTeams() {
+    tables.teams.clear();
+  }
+
+  // ============= GAMES =============
+
+  async function getGames(sessionDate?: string) {
+    return copy(
+      rows("games")
+        .filter((row) => !sessionDate || row.session_date === sessionDate)
+        .sort((a, b) => String(a.ended_at).localeCompare(String(b.ended_at)))
+    );
+  }
+
+  async function addGame(game: GameRow) {
+    return insertRows("games", [game])[0];
+  }
+
+  async function batchAddGames(games: GameRow[]) {
+    return insertRows("games", games);
+  }
+
+  async function deleteGame(id: string) {
+    deleteRows("rating_history", (row) => row.game_id !== id);
+    tables.games.delete(id);
+  }
+
+  // ============= RATING HISTORY =============
+
+  async function getRatingHistory(memberId: string) {
+    return copy(rows("rating_history").filter((row) => row.member_id === memberId).sort(byCreatedAt));
+  }
+
+  async function getAllRatingHistory() {
+    return copy(rows("rating_history").sort(byCreatedAt));
+  }
+
+  async function getRatingHistoryOfGames(gameIds: string[]) {
+    return copy(rows("rating_history").filter((row) => gameIds.includes(row.game_id)).sort(byCreatedAt));
+  }
+
+  async function batchAddRatingHistory(entries: RatingHistoryRow[]) {
+    insertRows("rating_history", entries);
+  }
+
+  // ============= SETTINGS =============
+
+  async function getSetting(key: string) {
+    return settings.get(key) || null;
+  }
+
+  async function setSetting(key: string, value: string) {
+    settings.set(key, value);
+  }
+
+  async function getAllSettings(): Promise<Record<string, string>> {
+    return Object.fromEntries(settings);
+  }
+
+  async function deleteSetting(key: string) {
+    settings.delete(key);
+  }
+
+  // ============= AUDIT LOGS =============
+
+  async function addAuditLogs(logs: StoredAuditLog[]) {
+    insertRows("audit_logs", logs.filter((log) => !tables.audit_logs.has(log.id)));
+  }
+
+  async function getAuditLogs(filters: AuditLogFilters) {
+    return copy(
+      rows("audit_logs")
+        .filter((row) => !filters.type || row.type === filters.type)
+        .filter((row) => !filters.playerId || (row.player_ids || []).includes(filters.playerId))
+        .filter((row) => !filters.courtId || row.court_id === filters.courtId)
+        .filter((row) => !filters.before || Date.parse(row.created_at) < Date.parse(filters.before))
+        .sort((a, b) => byCreatedAt(b, a))
+        .slice(0, filters.limit)
+    );
+  }
+
+  // ============= AUTH ATTEMPTS =============
+
+  // No await between the read and the write, so parallel requests cannot interleave here
+  async function reserveAuthAttempt(clientKey: string, resetAfterMs: number, delaysMs: number[]): Promise<AuthReservation> {
+    const now = Date.now();
+    const current = authAttempts.get(clientKey);
+    const expired = !current || Date.parse(current.last_failed_at) < now - resetAfterMs;
+    const failedCount = expired ? 0 : current.failed_count;
+    const lockedUntil = expired ? null : current.locked_until;
+
+    if (lockedUntil && Date.parse(lockedUntil) > now) {
+      return { reserved: false, failed_count: failedCount, locked_until: lockedUntil };
+    }
+
+    const attempt = {
+      client_key: clientKey,
+      failed_count: failedCount + 1,
+      last_failed_at: new Date(now).toISOString(),
+      locked_until: new Date(now + delaysMs[Math.min(failedCount, delaysMs.length - 1)]).toISOString(),
+    };
+    authAttempts.set(clientKey, attempt);
+    return { reserved: true, failed_count: attempt.failed_count, locked_until: attempt.locked_until };
+  }
+
+  async function clearAuthAttempts(clientKey: string) {
+    authAttempts.delete(clientKey);
+  }
+
+  // ============= TRANSACTIONAL MUTATIONS =============
+
+  // Settings rows are { key, value }; the mutation's id is the key
+  function applySettingMutation(mutation: Mutation) {
+    const key = mutation.op === "insert" ? String(mutation.values?.key) : mutation.id!;
+    const current = settings.get(key);
+
+    if (mutation.op === "insert") {
+      if (current !== undefined) throw new PreconditionError(`Failed to insert into settings: duplicate key ${key}`);
+      settings.set(key, String(mutation.values?.value));
+      return;
+    }
+    if (current === undefined || !matches({ key, value: current }, mutation.expect)) {
+      throw new PreconditionError(`conflict: settings ${key} changed`);
+    }
+    if (mutation.op === "update") {
+      settings.set(key, String(mutation.values?.value ?? current));
+    } else {
+      settings.delete(key);
+    }
+  }
+
+  // Works on a copy of the tables and only keeps it when every mutation went through
+  async function applyMutations(mutations: Mutation[]): Promise<boolean> {
+    const snapshot = tables;
+    const settingsSnapshot = settings;
+    tables = {
+      members: new Map(snapshot.members),
+      players: new Map(snapshot.players),
+      teams: new Map(snapshot.teams),
+      games: new Map(snapshot.games),
+      rating_history: new Map(snapshot.rating_history),
+      audit_logs: new Map(snapshot.audit_logs),
+    };
+    settings = new Map(settingsSnapshot);
+
+    try {
+      for (const mutation of mutations) {
+        if (mutation.table === "settings") {
+          applySettingMutation(mutation);
+        } else if (mutation.op === "insert") {
+          insertRows(mutation.table, [mutation.values as NewRow<typeof mutation.table>]);
+        } else if (mutation.op === "update") {
+          if (!updateRow(mutation.table, mutation.id!, mutation.values ?? {}, mutation.expect)) {
+            throw new PreconditionError(`conflict: ${mutation.table} ${mutation.id} changed`);
+          }
+        } else if (mutation.op === "delete") {
+          const current = tables[mutation.table].get(mutation.id!);
+          if (!current || !matches(current, mutation.expect)) {
+            throw new PreconditionError(`conflict: ${mutation.table} ${mutation.id} changed`);
+          }
+          tables[mutation.table].delete(mutation.id!);
+        } else {
+          throw new Error(`apply_mutations: unknown op ${mutation.op}`);
+        }
+      }
+      return true;
+    } catch (error) {
+      tables = snapshot;
+      settings = settingsSnapshot;
+      if (error instanceof PreconditionError) {
+        console.log("⚠️ Mutations rejected by a precondition:", error.message);
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // ============= BATCH OPERATIONS =============
+
+  async function getAllData(sessionDate?: string): Promise<AllData> {
+    const [settingsMap, members, players, teams, games] = await Promise.all([
+      getAllSettings(),
+      getAllMembers(),
+      getAllPlayers(),
+      getAllTeams(),
+      sessionDate ? getGames(sessionDate) : Promise.resolve([]),
+    ]);
+    return { settings: settingsMap, members, players, teams, games };
+  }
+
+  return {
+    getAllMembers,
+    getMembersByIds,
+    addMember,
+    updateMember,
+    deleteMember,
+    batchAddMembers,
+    deleteAllMembers,
+    resetMembers,
+    getAllPlayers,
+    getPlayersByIds,
+    addPlayer,
+    batchAddPlayers,
+    updatePlayer,
+    batchUpdatePlayers,
+    deletePlayer,
+    batchDeletePlayers,
+    resetPlayerGameCounts,
+    getAllTeams,
+    getTeamsByIds,
+    addTeam,
+    batchAddTeams,
+    updateTeam,
+    deleteTeam,
+    batchDeleteTeams,
+    deleteFinishedTeams,
+    deleteAllTeams,
+    getGames,
+    addGame,
+    batchAddGames,
+    deleteGame,
+    getRatingHistory,
+    getAllRatingHistory,
+    getRatingHistoryOfGames,
+    batchAddRatingHistory,
+    getSetting,
+    setSetting,
+    getAllSettings,
+    deleteSetting,
+    addAuditLogs,
+    getAuditLogs,
+    reserveAuthAttempt,
+    clearAuthAttempts,
+    applyMutations,
+    getAllData,
+  };
+}
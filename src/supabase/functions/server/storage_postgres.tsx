@@ -0,0 +1,780 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js";
+import type {
+  GameRow,
+  MemberRow,
+  MemberUpdates,
+  PlayerRow,
+  PlayerUpdates,
+  RatingHistoryRow,
+  StoredAuditLog,
+  StoredGame,
+  StoredMember,
+  StoredPlayer,
+  StoredRatingHistory,
+  StoredTeam,
+  TeamRow,
+  TeamUpdates,
+} from "../_shared/schemas.ts";
+import type { AllData, AuditLogFilters, AuthReservation, Mutation, StorageAdapter } from "./storage.tsx";
+
+// Storage on the Supabase Postgres database (the edge function's service role client). Atomic writes
+// and the auth failure counter go through the SQL functions in src/supabase/migrations.
+export function createPostgresStorage(supabase: SupabaseClient): StorageAdapter {
+  // ============= MEMBERS =============
+
+  async function getAllMembers(): Promise<StoredMember[]> {
+    const { data, error } = await supabase
+      .from("members")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Database error getting members:", error);
+      throw new Error(`Failed to get members: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async function getMembersByIds(ids: string[]): Promise<StoredMember[]> {
+    const { data, error } = await supabase
+      .from("members")
+      .select("*")
+      .in("id", ids);
+
+    if (error) {
+      console.error("Database error getting members by id:", error);
+      throw new Error(`Failed to get members: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async function addMember(member: MemberRow): Promise<StoredMember> {
+    const { data, error } = await supabase
+      .from("members")
+      .insert([member])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Database error adding member:", error);
+      throw new Error(`Failed to add member: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // With expectedVersion, only writes while the row is still at that version; returns false otherwise
+  async function updateMember(id: string, updates: MemberUpdates, expectedVersion?: number): Promise<boolean> {
+    let query = supabase
+      .from("members")
+      .update(updates)
+      .eq("id", id);
+    if (expectedVersion !== undefined) {
+      query = query.eq("version", expectedVersion);
+    }
+    const { data, error } = await query.select("id");
+
+    if (error) {
+      console.error("Database error updating member:", error);
+      throw new Error(`Failed to update member: ${error.message}`);
+    }
+
+    return expectedVersion === undefined || (data || []).length > 0;
+  }
+
+  async function deleteMember(id: string) {
+    const { error } = await supabase
+      .from("members")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Database error deleting member:", error);
+      throw new Error(`Failed to delete member: ${error.message}`);
+    }
+  }
+
+  async function batchAddMembers(members: MemberRow[]): Promise<StoredMember[]> {
+    const { data, error } = await supabase
+      .from("members")
+      .insert(members)
+      .select();
+
+    if (error) {
+      console.error("Database error batch adding members:", error);
+      throw new Error(`Failed to batch add members: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async function deleteAllMembers() {
+    const { error } = await supabase
+      .from("members")
+      .delete()
+      .neq("id", ""); // Delete all rows
+
+    if (error) {
+      console.error("Database error deleting all members:", error);
+      throw new Error(`Failed to delete all members: ${error.message}`);
+    }
+  }
+
+  async function resetMembers(newMembers: MemberRow[]): Promise<StoredMember[]> {
+    // Delete all and insert new ones in a transaction-like manner
+    await deleteAllMembers();
+    if (newMembers.length > 0) {
+      return await batchAddMembers(newMembers);
+    }
+    return [];
+  }
+
+  // ============= PLAYERS =============
+
+  async function getAllPlayers(): Promise<StoredPlayer[]> {
+    const { data, error } = await supabase
+      .from("players")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Database error getting players:", error);
+      throw new Error(`Failed to get players: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async function getPlayersByIds(ids: string[]): Promise<StoredPlayer[]> {
+    const { data, error } = await supabase
+      .from("players")
+      .select("*")
+      .in("id", ids);
+
+    if (error) {
+      console.error("Database error getting players by id:", error);
+      throw new Error(`Failed to get players: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async function addPlayer(player: PlayerRow): Promise<StoredPlayer> {
+    const { data, error } = await supabase
+      .from("players")
+      .insert([player])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Database error adding player:", error);
+      throw new Error(`Failed to add player: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async function batchAddPlayers(players: PlayerRow[]): Promise<StoredPlayer[]> {
+    const { data, error } = await supabase
+      .from("players")
+      .insert(players)
+      .select();
+
+    if (error) {
+      console.error("Database error batch adding players:", error);
+      throw new Error(`Failed to batch add players: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async function updatePlayer(id: string, updates: PlayerUpdates, expectedVersion?: number): Promise<boolean> {
+    let query = supabase
+      .from("players")
+      .update(updates)
+      .eq("id", id);
+    if (expectedVersion !== undefined) {
+      query = query.eq("version", expectedVersion);
+    }
+    const { data, error } = await query.select("id");
+
+    if (error) {
+      console.error("Database error updating player:", error);
+      throw new Error(`Failed to update player: ${error.message}`);
+    }
+
+    return expectedVersion === undefined || (data || []).length > 0;
+  }
+
+  // Entries with expectedVersion are checked against the row version. Such a batch is written in one
+  // transaction and returns false, writing nothing, when any of those rows has changed.
+  async function batchUpdatePlayers(
+    playerUpdates: Array<{ playerId: string; updates: PlayerUpdates; expectedVersion?: number }>
+  ): Promise<boolean> {
+    if (playerUpdates.some(({ expectedVersion }) => expectedVersion !== undefined)) {
+      return applyMutations(playerUpdates.map(({ playerId, updates, expectedVersion }): Mutation => ({
+        table: "players",
+        op: "update",
+        id: playerId,
+        values: updates,
+        expect: expectedVersion !== undefined ? { version: expectedVersion } : undefined,
+      })));
+    }
+
+    // Supabase doesn't have a native batch update, so we'll do them in parallel
+    const promises = playerUpdates.map(({ playerId, updates }) =>
+      supabase.from("players").update(updates).eq("id", playerId)
+    );
+
+    const results = await Promise.all(promises);
+
+    // Check for errors
+    const errors = results.filter((r) => r.error);
+    if (errors.length > 0) {
+      console.error("Database errors during batch update:", errors);
+      throw new Error(`Failed to batch update players: ${errors[0].error?.message}`);
+    }
+
+    return true;
+  }
+
+  async function deletePlayer(id: string) {
+    const { error } = await supabase
+      .from("players")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Database error deleting player:", error);
+      throw new Error(`Failed to delete player: ${error.message}`);
+    }
+  }
+
+  async function batchDeletePlayers(playerIds: string[]) {
+    const { error } = await supabase
+      .from("players")
+      .delete()
+      .in("id", playerIds);
+
+    if (error) {
+      console.error("Database error batch deleting players:", error);
+      throw new Error(`Failed to batch delete players: ${error.message}`);
+    }
+  }
+
+  async function resetPlayerGameCounts() {
+    const { error } = await supabase
+      .from("players")
+      .update({
+        game_count: 0,
+        last_game_end_at: null,
+        teammate_history: {},
+        opponent_history: {},
+        recent_teammates: [],
+      })
+      .neq("id", ""); // Update all rows
+
+    if (error) {
+      console.error("Database error resetting game counts:", error);
+      throw new Error(`Failed to reset game counts: ${error.message}`);
+    }
+  }
+
+  // ============= TEAMS =============
+
+  async function getAllTeams(): Promise<StoredTeam[]> {
+    const { data, error } = await supabase
+      .from("teams")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Database error getting teams:", error);
+      throw new Error(`Failed to get teams: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async function getTeamsByIds(ids: string[]): Promise<StoredTeam[]> {
+    const { data, error } = await supabase
+      .from("teams")
+      .select("*")
+      .in("id", ids);
+
+    if (error) {
+      console.error("Database error getting teams by id:", error);
+      throw new Error(`Failed to get teams: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async function addTeam(team: TeamRow): Promise<StoredTeam> {
+    const { data, error } = await supabase
+      .from("teams")
+      .insert([team])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Database error adding team:", error);
+      throw new Error(`Failed to add team: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async function batchAddTeams(teams: TeamRow[]): Promise<StoredTeam[]> {
+    const { data, error } = await supabase
+      .from("teams")
+      .insert(teams)
+      .select();
+
+    if (error) {
+      console.error("Database error batch adding teams:", error);
+      throw new Error(`Failed to batch add teams: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async function updateTeam(id: string, updates: TeamUpdates, expectedVersion?: number): Promise<boolean> {
+    let query = supabase
+      .from("teams")
+      .update(updates)
+      .eq("id", id);
+    if (expectedVersion !== undefined) {
+      query = query.eq("version", expectedVersion);
+    }
+    const { data, error } = await query.select("id");
+
+    if (error) {
+      console.error("Database error updating team:", error);
+      throw new Error(`Failed to update team: ${error.message}`);
+    }
+
+    return expectedVersion === undefined || (data || []).length > 0;
+  }
+
+  async function deleteTeam(id: string) {
+    const { error } = await supabase
+      .from("teams")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Database error deleting team:", error);
+      throw new Error(`Failed to delete team: ${error.message}`);
+    }
+  }
+
+  async function batchDeleteTeams(teamIds: string[]) {
+    const { error } = await supabase
+      .from("teams")
+      .delete()
+      .in("id", teamIds);
+
+    if (error) {
+      console.error("Database error batch deleting teams:", error);
+      throw new Error(`Failed to batch delete teams: ${error.message}`);
+    }
+  }
+
+  async function deleteFinishedTeams() {
+    const { error } = await supabase
+      .from("teams")
+      .delete()
+      .eq("state", "finished");
+
+    if (error) {
+      console.error("Database error deleting finished teams:", error);
+      throw new Error(`Failed to delete finished teams: ${error.message}`);
+    }
+  }
+
+  async function deleteAllTeams() {
+    const { error } = await supabase
+      .from("teams")
+      .delete()
+      .neq("id", ""); // Delete all rows
+
+    if (error) {
+      console.error("Database error deleting all teams:", error);
+      throw new Error(`Failed to delete all teams: ${error.message}`);
+    }
+  }
+
+  // ============= GAMES =============
+
+  async function getGames(sessionDate?: string): Promise<StoredGame[]> {
+    let query = supabase
+      .from("games")
+      .select("*")
+      .order("ended_at", { ascending: true });
+
+    if (sessionDate) {
+      query = query.eq("session_date", sessionDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Database error getting games:", error);
+      throw new Error(`Failed to get games: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async function addGame(game: GameRow): Promise<StoredGame> {
+    const { data, error } = await supabase
+      .from("games")
+      .insert([game])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Database error adding game:", error);
+      throw new Error(`Failed to add game: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async function batchAddGames(games: GameRow[]): Promise<StoredGame[]> {
+    const { data, error } = await supabase
+      .from("games")
+      .insert(games)
+      .select();
+
+    if (error) {
+      console.error("Database error batch adding games:", error);
+      throw new Error(`Failed to batch add games: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Removes the game and the rating history rows it produced (used by undo), in one transaction so
+  // the game never stays without its history
+  async function deleteGame(id: string) {
+    const [historyResult, gameResult] = await Promise.all([
+      supabase.from("rating_history").select("id").eq("game_id", id),
+      supabase.from("games").select("id").eq("id", id),
+    ]);
+    const readError = historyResult.error || gameResult.error;
+
+    if (readError) {
+      console.error("Database error reading game to delete:", readError);
+      throw new Error(`Failed to delete game: ${readError.message}`);
+    }
+    if (!gameResult.data?.length && !historyResult.data?.length) return;
+
+    const applied = await applyMutations([
+      ...(historyResult.data || []).map((row): Mutation => ({ table: "rating_history", op: "delete", id: row.id })),
+      ...(gameResult.data || []).map((row): Mutation => ({ table: "games", op: "delete", id: row.id })),
+    ]);
+    if (!applied) {
+      throw new Error("Failed to delete game: its rows changed while it was being deleted");
+    }
+  }
+
+  // ============= RATING HISTORY =============
+
+  async function getRatingHistory(memberId: string): Promise<StoredRatingHistory[]> {
+    const { data, error } = await supabase
+      .from("rating_history")
+      .select("*")
+      .eq("member_id", memberId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Database error getting rating history:", error);
+      throw new Error(`Failed to get rating history: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async function getAllRatingHistory(): Promise<StoredRatingHistory[]> {
+    const { data, error } = await supabase
+      .from("rating_history")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Database error getting all rating history:", error);
+      throw new Error(`Failed to get all rating history: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async function getRatingHistoryOfGames(gameIds: string[]): Promise<StoredRatingHistory[]> {
+    const { data, error } = await supabase
+      .from("rating_history")
+      .select("*")
+      .in("game_id", gameIds)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Database error getting rating history of games:", error);
+      throw new Error(`Failed to get rating history of games: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async function batchAddRatingHistory(entries: RatingHistoryRow[]) {
+    const { error } = await supabase
+      .from("rating_history")
+      .insert(entries);
+
+    if (error) {
+      console.error("Database error adding rating history:", error);
+      throw new Error(`Failed to add rating history: ${error.message}`);
+    }
+  }
+
+  // ============= SETTINGS =============
+
+  async function getSetting(key: string) {
+    const { data, error } = await supabase
+      .from("settings")
+      .select("value")
+      .eq("key", key)
+      .single();
+
+    if (error) {
+      // If not found, return null instead of throwing
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      console.error("Database error getting setting:", error);
+      throw new Error(`Failed to get setting: ${error.message}`);
+    }
+
+    return data?.value || null;
+  }
+
+  async function setSetting(key: string, value: string) {
+    const { error } = await supabase
+      .from("settings")
+      .upsert({ key, value, updated_at: new Date().toISOString() })
+      .eq("key", key);
+
+    if (error) {
+      console.error("Database error setting value:", error);
+      throw new Error(`Failed to set setting: ${error.message}`);
+    }
+  }
+
+  async function getAllSettings(): Promise<Record<string, string>> {
+    const { data, error } = await supabase
+      .from("settings")
+      .select("key, value");
+
+    if (error) {
+      console.error("Database error getting all settings:", error);
+      throw new Error(`Failed to get all settings: ${error.message}`);
+    }
+
+    const settingsMap: Record<string, string> = {};
+    (data || []).forEach((s: { key: string; value: string }) => {
+      settingsMap[s.key] = s.value;
+    });
+    return settingsMap;
+  }
+
+  async function deleteSetting(key: string) {
+    const { error } = await supabase
+      .from("settings")
+      .delete()
+      .eq("key", key);
+
+    if (error) {
+      console.error("Database error deleting setting:", error);
+      throw new Error(`Failed to delete setting: ${error.message}`);
+    }
+  }
+
+  // ============= AUDIT LOGS =============
+
+  // Events are sent again when a queued request is replayed, so ids already stored are skipped
+  async function addAuditLogs(logs: StoredAuditLog[]) {
+    const { error } = await supabase
+      .from("audit_logs")
+      .upsert(logs, { onConflict: "id", ignoreDuplicates: true });
+
+    if (error) {
+      console.error("Database error adding audit logs:", error);
+      throw new Error(`Failed to add audit logs: ${error.message}`);
+    }
+  }
+
+  async function getAuditLogs(filters: AuditLogFilters): Promise<StoredAuditLog[]> {
+    let query = supabase
+      .from("audit_logs")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(filters.limit);
+
+    if (filters.type) query = query.eq("type", filters.type);
+    if (filters.playerId) query = query.contains("player_ids", [filters.playerId]);
+    if (filters.courtId) query = query.eq("court_id", filters.courtId);
+    if (filters.before) query = query.lt("created_at", filters.before);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Database error getting audit logs:", error);
+      throw new Error(`Failed to get audit logs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // ============= AUTH ATTEMPTS =============
+
+  // reserve_auth_attempt does the read and the write under one row lock
+  async function reserveAuthAttempt(clientKey: string, resetAfterMs: number, delaysMs: number[]): Promise<AuthReservation> {
+    const toInterval = (ms: number) => `${Math.round(ms / 1000)} seconds`;
+    const { data, error } = await supabase.rpc("reserve_auth_attempt", {
+      p_client_key: clientKey,
+      p_reset_after: toInterval(resetAfterMs),
+      p_delays: delaysMs.map(toInterval),
+    });
+
+    if (error) {
+      console.error("Database error reserving auth attempt:", error);
+      throw new Error(`Failed to reserve auth attempt: ${error.message}`);
+    }
+
+    return data as AuthReservation;
+  }
+
+  async function clearAuthAttempts(clientKey: string) {
+    const { error } = await supabase
+      .from("auth_attempts")
+      .delete()
+      .eq("client_key", clientKey);
+
+    if (error) {
+      console.error("Database error clearing auth attempts:", error);
+      throw new Error(`Failed to clear auth attempts: ${error.message}`);
+    }
+  }
+
+  // ============= TRANSACTIONAL MUTATIONS =============
+  // apply_mutations(mutations jsonb) fails with SQLSTATE P0409 when a precondition no longer holds,
+  // and with 23505 when a team would take a court another playing team holds (teams_playing_court_idx)
+
+  // Returns false when a precondition failed (nothing was written)
+  async function applyMutations(mutations: Mutation[]): Promise<boolean> {
+    const { error } = await supabase.rpc("apply_mutations", { mutations });
+
+    if (error) {
+      if (error.code === "P0409" || error.code === "23505") {
+        console.log("⚠️ Mutations rejected by a precondition:", error.message);
+        return false;
+      }
+      console.error("Database error applying mutations:", error);
+      throw new Error(`Failed to apply mutations: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  // ============= BATCH OPERATIONS =============
+
+  // ⚡ Get all data in parallel for faster loading
+  // Games are only included for the given session date (tonight's history)
+  async function getAllData(sessionDate?: string): Promise<AllData> {
+    const [
+      settingsResult,
+      membersResult,
+      playersResult,
+      teamsResult,
+      gamesResult,
+    ] = await Promise.allSettled([
+      supabase.from("settings").select("*"),
+      supabase.from("members").select("*").order("created_at", { ascending: true }),
+      supabase.from("players").select("*").order("created_at", { ascending: true }),
+      supabase.from("teams").select("*").order("created_at", { ascending: true }),
+      sessionDate
+        ? supabase.from("games").select("*").eq("session_date", sessionDate).order("ended_at", { ascending: true })
+        : Promise.resolve({ data: [] }),
+    ]);
+
+    // Extract data or handle errors
+    const settings = settingsResult.status === "fulfilled" ? settingsResult.value.data || [] : [];
+    const members = membersResult.status === "fulfilled" ? membersResult.value.data || [] : [];
+    const players = playersResult.status === "fulfilled" ? playersResult.value.data || [] : [];
+    const teams = teamsResult.status === "fulfilled" ? teamsResult.value.data || [] : [];
+    const games = gamesResult.status === "fulfilled" ? gamesResult.value.data || [] : [];
+
+    // Convert settings array to map
+    const settingsMap: Record<string, string> = {};
+    settings.forEach((s: { key: string; value: string }) => {
+      settingsMap[s.key] = s.value;
+    });
+
+    return {
+      settings: settingsMap,
+      members,
+      players,
+      teams,
+      games,
+    };
+  }
+
+  return {
+    getAllMembers,
+    getMembersByIds,
+    addMember,
+    updateMember,
+    deleteMember,
+    batchAddMembers,
+    deleteAllMembers,
+    resetMembers,
+    getAllPlayers,
+    getPlayersByIds,
+    addPlayer,
+    batchAddPlayers,
+    updatePlayer,
+    batchUpdatePlayers,
+    deletePlayer,
+    batchDeletePlayers,
+    resetPlayerGameCounts,
+    getAllTeams,
+    getTeamsByIds,
+    addTeam,
+    batchAddTeams,
+    updateTeam,
+    deleteTeam,
+    batchDeleteTeams,
+    deleteFinishedTeams,
+    deleteAllTeams,
+    getGames,
+    addGame,
+    batchAddGames,
+    deleteGame,
+    getRatingHistory,
+    getAllRatingHistory,
+    getRatingHistoryOfGames,
+    batchAddRatingHistory,
+    getSetting,
+    setSetting,
+    getAllSettings,
+    deleteSetting,
+    addAuditLogs,
+    getAuditLogs,
+    reserveAuthAttempt,
+    clearAuthAttempts,
+    applyMutations,
+    getAllData,
+  };
+}
@@ -0,0 +1,18 @@
+// Tests run the server under Node (vitest): this gives it the part of the Deno API it reads.
+// Import it first in every server test.
+
+const env = (globalThis as any).process.env as Record<string, string | undefined>;
+
+if (!("Deno" in globalThis)) {
+  (globalThis as any).Deno = {
+    env: {
+      get: (key: string) => env[key],
+      set: (key: string, value: string) => {
+        env[key] = value;
+      },
+    },
+  };
+}
+
+// Sessions only need to outlive the test run
+env.SESSION_SECRET ??= "test-session-secret";
@@ -0,0 +1,53 @@
+-- Game history, member ratings and the per-team fields the client came to rely on.
+--
+-- members, players, teams and settings were created by hand before this directory existed; the
+-- columns added to them since (pairing, opponent history, ratings, time extensions) and the games
+-- and rating_history tables were only described in functions/server/storage.tsx. apply_mutations
+-- (next migration) writes to both new tables, and /games/end, the history view and backups read
+-- them, so a fresh project needs them before anything else runs.
+--
+-- Everything uses `if not exists`, so projects that already added them by hand keep their data.
+
+alter table members add column if not exists rating numeric;
+alter table members add column if not exists rating_games integer not null default 0;
+
+alter table players add column if not exists opponent_history jsonb not null default '{}'::jsonb;
+alter table players add column if not exists member_id text;
+
+alter table teams add column if not exists pairing jsonb;
+alter table teams add column if not exists extension_min integer not null default 0;
+
+-- Finished games, one row per game. `result` is { sets: { a, b }[], winner: "A" | "B" | null }.
+-- Player names are kept as they were, since players are removed at the end of a session.
+create table if not exists games (
+  id text primary key,
+  session_id text not null,
+  session_date date not null,
+  team_id text not null,
+  court_id text not null,
+  court_name text not null,
+  player_ids text[] not null,
+  player_names text[] not null,
+  pairing jsonb,
+  started_at timestamptz,
+  ended_at timestamptz not null,
+  duration_ms integer,
+  result jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists games_session_date_idx on games (session_date, ended_at);
+
+-- One row per member per rated game. No foreign keys: members can be reset while their history
+-- stays, and deleting a game removes its rows in the same call (see deleteGame).
+create table if not exists rating_history (
+  id text primary key,
+  member_id text not null,
+  game_id text not null,
+  rating_before numeric not null,
+  rating_after numeric not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rating_history_member_id_idx on rating_history (member_id, created_at);
+create index if not exists rating_history_game_id_idx on rating_history (game_id);
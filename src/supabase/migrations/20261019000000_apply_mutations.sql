@@ -0,0 +1,69 @@
+-- Applies a list of row mutations in one transaction.
+-- Used by the game operation routes (/games/start, /games/end, /games/end-all, /match/commit)
+-- so a failure half way can no longer leave players stuck in `playing` or `queued`.
+--
+-- Each mutation is a JSON object:
+--   { "table": "players" | "teams" | "games" | "members" | "rating_history",
+--     "op": "insert" | "update" | "delete",
+--     "id": text,          -- row id for update / delete
+--     "values": jsonb,     -- columns to insert / set
+--     "expect": jsonb }    -- optional, must be contained in the current row
+--
+-- When an update or delete matches no row (missing, or `expect` no longer holds) the whole call
+-- fails with SQLSTATE P0409 and nothing is written; the server answers 409 Conflict.
+
+create or replace function apply_mutations(mutations jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  mutation jsonb;
+  target text;
+  columns text;
+  affected integer;
+begin
+  for mutation in select * from jsonb_array_elements(mutations) loop
+    target := mutation->>'table';
+    if target not in ('players', 'teams', 'games', 'members', 'rating_history') then
+      raise exception 'apply_mutations: table % is not allowed', target;
+    end if;
+
+    if mutation->>'op' in ('insert', 'update') then
+      select string_agg(quote_ident(key), ', ')
+        into columns
+        from jsonb_object_keys(mutation->'values') as key;
+    end if;
+
+    if mutation->>'op' = 'insert' then
+      execute format(
+        'insert into %I (%s) select %s from jsonb_populate_record(null::%I, $1)',
+        target, columns, columns, target
+      ) using mutation->'values';
+
+    elsif mutation->>'op' = 'update' then
+      execute format(
+        'update %I set (%s) = (select %s from jsonb_populate_record(null::%I, $1))
+          where id::text = $2 and to_jsonb(%I.*) @> coalesce($3, ''{}''::jsonb)',
+        target, columns, columns, target, target
+      ) using mutation->'values', mutation->>'id', mutation->'expect';
+      get diagnostics affected = row_count;
+      if affected = 0 then
+        raise exception 'conflict: % % changed', target, mutation->>'id' using errcode = 'P0409';
+      end if;
+
+    elsif mutation->>'op' = 'delete' then
+      execute format(
+        'delete from %I where id::text = $1 and to_jsonb(%I.*) @> coalesce($2, ''{}''::jsonb)',
+        target, target
+      ) using mutation->>'id', mutation->'expect';
+      get diagnostics affected = row_count;
+      if affected = 0 then
+        raise exception 'conflict: % % changed', target, mutation->>'id' using errcode = 'P0409';
+      end if;
+
+    else
+      raise exception 'apply_mutations: unknown op %', mutation->>'op';
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,10 @@
+-- Publishes row changes of the synced tables to Supabase Realtime, so every open device gets
+-- members, players, teams and settings pushed instead of polling /all-data.
+--
+-- The client subscribes with the anon key, so these tables must be readable by `anon`
+-- (Realtime applies the same row level security as a select).
+
+alter publication supabase_realtime add table members, players, teams, settings;
+
+-- Deletes only carry the primary key by default, which is all the client needs
+-- (`id`, or `key` for settings).
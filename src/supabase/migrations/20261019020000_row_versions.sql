@@ -0,0 +1,30 @@
+-- Row versions for optimistic concurrency on players, teams and members.
+-- Every update bumps `version`, including the ones made through apply_mutations. Clients send the
+-- version they last saw as `expectedVersion`; the server only writes when it still matches and
+-- answers 409 Conflict with the current rows otherwise.
+
+alter table players add column if not exists version integer not null default 1;
+alter table teams add column if not exists version integer not null default 1;
+alter table members add column if not exists version integer not null default 1;
+
+create or replace function bump_row_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version := old.version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists players_bump_version on players;
+create trigger players_bump_version before update on players
+  for each row execute function bump_row_version();
+
+drop trigger if exists teams_bump_version on teams;
+create trigger teams_bump_version before update on teams
+  for each row execute function bump_row_version();
+
+drop trigger if exists members_bump_version on members;
+create trigger members_bump_version before update on members
+  for each row execute function bump_row_version();
@@ -0,0 +1,22 @@
+-- Keeps secret settings (the admin password hash) away from the anon key. The edge function reads
+-- them with the service role, which bypasses row level security; clients read settings through the
+-- function routes and through Realtime, which both go by these policies for `anon`.
+--
+-- Keep the key list in sync with the secret keys in functions/server/settings.tsx.
+
+alter table settings enable row level security;
+
+-- Lets clients keep reading (and receiving Realtime changes for) every other key
+drop policy if exists settings_read_non_secret on settings;
+create policy settings_read_non_secret on settings
+  for select
+  to anon, authenticated
+  using (key <> all (array['admin_password']));
+
+-- Restrictive, so it also holds when another permissive policy allows reading everything
+drop policy if exists settings_hide_secret on settings;
+create policy settings_hide_secret on settings
+  as restrictive
+  for select
+  to anon, authenticated
+  using (key <> all (array['admin_password']));
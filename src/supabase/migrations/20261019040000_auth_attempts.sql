@@ -0,0 +1,33 @@
+-- Failed admin logins per client, so the backoff and lockout on /auth/login survive edge-function
+-- cold starts. The backoff policy lives in functions/server/auth.tsx; this only keeps the counts.
+--
+-- Only the edge function (service role) touches this table: RLS on, no policies for clients.
+
+create table if not exists auth_attempts (
+  client_key text primary key,                     -- Caller IP as seen by the edge function
+  failed_count integer not null default 0,         -- Failures in a row (reset on success or after the window)
+  last_failed_at timestamptz not null default now(),
+  locked_until timestamptz                         -- No attempts before this
+);
+
+alter table auth_attempts enable row level security;
+
+-- Counts one more failure in one statement, so parallel attempts cannot undercount.
+-- A failure more than `reset_after` after the previous one starts again from 1.
+create or replace function record_auth_failure(p_client_key text, p_reset_after interval)
+returns integer
+language plpgsql
+as $$
+declare
+  result integer;
+begin
+  insert into auth_attempts as a (client_key, failed_count, last_failed_at)
+  values (p_client_key, 1, now())
+  on conflict (client_key) do update set
+    failed_count = case when a.last_failed_at < now() - p_reset_after then 1 else a.failed_count + 1 end,
+    last_failed_at = now()
+  returning a.failed_count into result;
+
+  return result;
+end;
+$$;
@@ -0,0 +1,26 @@
+-- Audit events of admin actions (player moved to resting, game ended, member edited, ...), written
+-- through POST /audit-logs and read back by the Activity panel through GET /audit-logs.
+--
+-- `actor` comes from the admin session that sent the event, never from the event itself.
+-- `player_ids` / `court_id` are what the event touched, so the panel can filter on them;
+-- `player_names` keeps the names as they were, since players are removed at the end of a session.
+--
+-- Only the edge function (service role) touches this table: RLS on, no policies for clients.
+
+create table if not exists audit_logs (
+  id text primary key,
+  type text not null,
+  actor text not null,
+  payload jsonb not null default '{}'::jsonb,
+  player_ids text[] not null default '{}',
+  player_names text[] not null default '{}',
+  court_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_logs_created_at_idx on audit_logs (created_at desc);
+create index if not exists audit_logs_type_idx on audit_logs (type, created_at desc);
+create index if not exists audit_logs_court_id_idx on audit_logs (court_id, created_at desc);
+create index if not exists audit_logs_player_ids_idx on audit_logs using gin (player_ids);
+
+alter table audit_logs enable row level security;
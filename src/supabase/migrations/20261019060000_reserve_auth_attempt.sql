@@ -0,0 +1,60 @@
+-- Takes one admin password check for a client before the password is verified.
+--
+-- record_auth_failure only counted a failure after the check, so parallel guesses all read the
+-- old count and got through the throttle together. reserve_auth_attempt counts the attempt and
+-- sets the next lock in the same transaction, holding the row lock while it does: of several
+-- parallel attempts only the first gets through, the others see the new lock. A successful login
+-- deletes the row (clearAuthAttempts), so only failed checks stay counted.
+--
+-- The backoff policy stays in functions/server/auth.tsx, which passes the delay after the 1st,
+-- 2nd, ... failure as `p_delays`; counts past the end of the array use its last delay.
+
+drop function if exists record_auth_failure(text, interval);
+
+create or replace function reserve_auth_attempt(p_client_key text, p_reset_after interval, p_delays interval[])
+returns jsonb
+language plpgsql
+as $$
+declare
+  attempt auth_attempts%rowtype;
+begin
+  insert into auth_attempts (client_key, failed_count, last_failed_at)
+  values (p_client_key, 0, now())
+  on conflict (client_key) do nothing;
+
+  select * into attempt from auth_attempts where client_key = p_client_key for update;
+
+  -- A failure more than `p_reset_after` ago starts again from zero
+  if attempt.last_failed_at < now() - p_reset_after then
+    attempt.failed_count := 0;
+    attempt.locked_until := null;
+  end if;
+
+  if attempt.locked_until > now() then
+    return jsonb_build_object(
+      'reserved', false,
+      'failed_count', attempt.failed_count,
+      'locked_until', attempt.locked_until
+    );
+  end if;
+
+  attempt.failed_count := attempt.failed_count + 1;
+  attempt.locked_until := now() + p_delays[least(attempt.failed_count, array_length(p_delays, 1))];
+
+  update auth_attempts set
+    failed_count = attempt.failed_count,
+    last_failed_at = now(),
+    locked_until = attempt.locked_until
+  where client_key = p_client_key;
+
+  return jsonb_build_object(
+    'reserved', true,
+    'failed_count', attempt.failed_count,
+    'locked_until', attempt.locked_until
+  );
+end;
+$$;
+
+-- Supabase lets anon and authenticated call new functions through PostgREST; only the edge function may
+revoke execute on function reserve_auth_attempt(text, interval, interval[]) from public, anon, authenticated;
+grant execute on function reserve_auth_attempt(text, interval, interval[]) to service_role;
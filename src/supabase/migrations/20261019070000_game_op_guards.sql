@@ -0,0 +1,59 @@
+-- Court checks that hold inside the transaction, and apply_mutations closed to clients.
+--
+-- /games/start read the playing teams before calling apply_mutations, so two starts on the same
+-- court (or on the last free courts) could both pass and both be written. The court rules are now
+-- enforced by the database on every write that puts a team on a court:
+--   * teams_playing_court_idx: one playing team per court
+--   * teams_check_courts: no more playing teams than `courts_count` (default 4); starts take an
+--     advisory lock first, so two of them cannot both see the same free slot
+-- Both fail the write; apply_mutations callers get a rejected operation (409) as for any other
+-- precondition (storage_postgres.tsx maps the unique violation, the trigger raises P0409).
+
+-- Teams already sharing a court keep the one that started first; the others go back to the queue
+update teams set state = 'queued', assigned_court_id = null, started_at = null
+where state = 'playing'
+  and id not in (
+    select distinct on (assigned_court_id) id
+    from teams
+    where state = 'playing'
+    order by assigned_court_id, started_at nulls last, created_at
+  );
+
+create unique index if not exists teams_playing_court_idx on teams (assigned_court_id) where state = 'playing';
+
+create or replace function check_team_courts()
+returns trigger
+language plpgsql
+as $$
+declare
+  courts_count integer;
+  playing_count integer;
+begin
+  if new.state <> 'playing'
+    or (tg_op = 'UPDATE' and old.state = 'playing' and old.assigned_court_id is not distinct from new.assigned_court_id) then
+    return new;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('teams_check_courts'));
+
+  select coalesce(nullif(trim(both '"' from value::text), '')::integer, 4)
+    into courts_count
+    from settings where key = 'courts_count';
+
+  select count(*) into playing_count from teams where state = 'playing' and id <> new.id;
+  if playing_count >= coalesce(courts_count, 4) then
+    raise exception 'conflict: all % courts are in use', coalesce(courts_count, 4) using errcode = 'P0409';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists teams_check_courts on teams;
+create trigger teams_check_courts before insert or update on teams
+  for each row execute function check_team_courts();
+
+-- Supabase grants execute on new functions to anon and authenticated, which would let anyone with
+-- the public anon key call apply_mutations through PostgREST and skip the server's admin check
+revoke execute on function apply_mutations(jsonb) from public, anon, authenticated;
+grant execute on function apply_mutations(jsonb) to service_role;
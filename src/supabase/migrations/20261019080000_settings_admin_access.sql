@@ -0,0 +1,22 @@
+-- Hides the admin-only settings (scoring_model, optimizer_weights) from the anon key as well, not
+-- only the secret admin_password. The routes already kept them to admins, but PostgREST and
+-- Realtime go by these policies, so anyone with the public anon key could still read them there.
+--
+-- Admin devices subscribe to Realtime with the anon key too, so they no longer get these two keys
+-- pushed; they see another admin's change on their next /all-data load. Deletes still reach
+-- everyone, carrying only the key.
+--
+-- Keep the key list in sync with the admin and secret keys in functions/server/settings.tsx.
+
+drop policy if exists settings_read_non_secret on settings;
+create policy settings_read_non_secret on settings
+  for select
+  to anon, authenticated
+  using (key <> all (array['admin_password', 'scoring_model', 'optimizer_weights']));
+
+drop policy if exists settings_hide_secret on settings;
+create policy settings_hide_secret on settings
+  as restrictive
+  for select
+  to anon, authenticated
+  using (key <> all (array['admin_password', 'scoring_model', 'optimizer_weights']));
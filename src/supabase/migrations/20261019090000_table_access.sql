@@ -0,0 +1,60 @@
+-- Keeps clients with the public anon key to reading the game tables.
+--
+-- Every write goes through the edge function, which checks the admin session and writes with the
+-- service role (that bypasses row level security). Without RLS, PostgREST still let anyone with the
+-- anon key insert, update or delete these rows directly and skip that check, the same hole
+-- 20261019070000_game_op_guards.sql closed for apply_mutations.
+--
+-- Reading stays open: Realtime pushes members, players and teams to every device with the anon key
+-- and applies these policies as it would to a select. There are no write policies, so RLS refuses
+-- every write from those roles; the grants are revoked as well so the intent is plain.
+
+alter table members enable row level security;
+
+drop policy if exists members_read on members;
+create policy members_read on members
+  for select
+  to anon, authenticated
+  using (true);
+
+revoke insert, update, delete, truncate on table members from anon, authenticated;
+
+alter table players enable row level security;
+
+drop policy if exists players_read on players;
+create policy players_read on players
+  for select
+  to anon, authenticated
+  using (true);
+
+revoke insert, update, delete, truncate on table players from anon, authenticated;
+
+alter table teams enable row level security;
+
+drop policy if exists teams_read on teams;
+create policy teams_read on teams
+  for select
+  to anon, authenticated
+  using (true);
+
+revoke insert, update, delete, truncate on table teams from anon, authenticated;
+
+alter table games enable row level security;
+
+drop policy if exists games_read on games;
+create policy games_read on games
+  for select
+  to anon, authenticated
+  using (true);
+
+revoke insert, update, delete, truncate on table games from anon, authenticated;
+
+alter table rating_history enable row level security;
+
+drop policy if exists rating_history_read on rating_history;
+create policy rating_history_read on rating_history
+  for select
+  to anon, authenticated
+  using (true);
+
+revoke insert, update, delete, truncate on table rating_history from anon, authenticated;
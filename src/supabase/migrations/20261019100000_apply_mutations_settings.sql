@@ -0,0 +1,63 @@
+-- Lets apply_mutations write settings too, so a backup import changes rows and settings in one
+-- transaction. Settings are keyed by `key`: a settings mutation carries the key as its "id", e.g.
+--   { "table": "settings", "op": "update", "id": "courts_count", "values": { "value": "6" } }
+-- Everything else is unchanged (see 20261019000000_apply_mutations.sql); `create or replace` keeps
+-- the grants 20261019070000_game_op_guards.sql set.
+
+create or replace function apply_mutations(mutations jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  mutation jsonb;
+  target text;
+  columns text;
+  key_column text;
+  affected integer;
+begin
+  for mutation in select * from jsonb_array_elements(mutations) loop
+    target := mutation->>'table';
+    if target not in ('players', 'teams', 'games', 'members', 'rating_history', 'settings') then
+      raise exception 'apply_mutations: table % is not allowed', target;
+    end if;
+    key_column := case when target = 'settings' then 'key' else 'id' end;
+
+    if mutation->>'op' in ('insert', 'update') then
+      select string_agg(quote_ident(key), ', ')
+        into columns
+        from jsonb_object_keys(mutation->'values') as key;
+    end if;
+
+    if mutation->>'op' = 'insert' then
+      execute format(
+        'insert into %I (%s) select %s from jsonb_populate_record(null::%I, $1)',
+        target, columns, columns, target
+      ) using mutation->'values';
+
+    elsif mutation->>'op' = 'update' then
+      execute format(
+        'update %I set (%s) = (select %s from jsonb_populate_record(null::%I, $1))
+          where %I::text = $2 and to_jsonb(%I.*) @> coalesce($3, ''{}''::jsonb)',
+        target, columns, columns, target, key_column, target
+      ) using mutation->'values', mutation->>'id', mutation->'expect';
+      get diagnostics affected = row_count;
+      if affected = 0 then
+        raise exception 'conflict: % % changed', target, mutation->>'id' using errcode = 'P0409';
+      end if;
+
+    elsif mutation->>'op' = 'delete' then
+      execute format(
+        'delete from %I where %I::text = $1 and to_jsonb(%I.*) @> coalesce($2, ''{}''::jsonb)',
+        target, key_column, target
+      ) using mutation->>'id', mutation->'expect';
+      get diagnostics affected = row_count;
+      if affected = 0 then
+        raise exception 'conflict: % % changed', target, mutation->>'id' using errcode = 'P0409';
+      end if;
+
+    else
+      raise exception 'apply_mutations: unknown op %', mutation->>'op';
+    end if;
+  end loop;
+end;
+$$;
@@ -1,18 +1,34 @@
 export type PlayerState = 'waiting' | 'priority' | 'resting' | 'playing' | 'queued';
 export type Gender = '남' | '여';
 export type Rank = 'S' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+export type GameType = 'free' | 'mixed' | 'same_gender' | 'avoid_3_1';
+export type RatingSource = 'rank' | 'rating' | 'blend';
 
 export interface Member {
   id: string;
   name: string;
   gender?: Gender;
   rank?: Rank;
+  rating?: number | null; // Computed from recorded results; null until the first rated game
+  ratingGames?: number; // Rated games played, used to shrink rating changes over time
+  version?: number; // Row version, bumped by the database on every update
+  createdAt: Date;
+}
+
+// One rating change of a member after a rated game (stored in the `rating_history` table)
+export interface RatingHistoryEntry {
+  id: string;
+  memberId: string;
+  gameId: string;
+  ratingBefore: number;
+  ratingAfter: number;
   createdAt: Date;
 }
 
 export interface Player {
   id: string;
   name: string;
+  memberId?: string | null; // Member this player was registered from, if any
   state: PlayerState;
   gender?: Gender;
   rank?: Rank;
@@ -21,19 +37,68 @@ export interface Player {
   createdAt: Date;
   recentTeammates?: string[]; // Recent teammates to avoid pairing again
   teammateHistory?: Record<string, number>; // Track how many times played with each teammate
+  opponentHistory?: Record<string, number>; // Track how many times played against each opponent
+  version?: number; // Row version, bumped by the database on every update
+}
+
+// Doubles split of a 4-player team: two partners per side
+export interface TeamPairing {
+  sideA: string[];
+  sideB: string[];
 }
 
 export interface Team {
   id: string;
   name: string;
   playerIds: string[];
+  pairing?: TeamPairing | null; // Side A / side B partners (only for 4-player teams)
   state: 'queued' | 'playing' | 'finished';
   assignedCourtId: string | null;
   startedAt: Date | null;
   endedAt: Date | null;
+  extensionMin?: number; // Minutes added to this game only, on top of the session game duration
+  version?: number; // Row version, bumped by the database on every update
   createdAt: Date;
 }
 
+export type GameSide = 'A' | 'B';
+
+// Points of one set, side A vs side B
+export interface SetScore {
+  a: number;
+  b: number;
+}
+
+// Optional final result entered when a game is ended
+export interface GameResult {
+  sets: SetScore[]; // One entry per set played; empty when only the winner was recorded
+  winner: GameSide | null;
+}
+
+// A finished game kept as match history (stored in the `games` table)
+export interface GameRecord {
+  id: string;
+  sessionId: string;
+  sessionDate: string; // YYYY-MM-DD of the session the game was played in
+  teamId: string;
+  courtId: string;
+  courtName: string;
+  playerIds: string[];
+  playerNames: string[]; // Names at the time of the game, so history survives player removal
+  pairing: TeamPairing | null;
+  startedAt: Date | null;
+  endedAt: Date;
+  durationMs: number | null;
+  result?: GameResult | null; // Score and winning side, if the admin entered one
+}
+
+// What happened on a freed court when auto seating ran after a game ended
+export interface AutoSeatResult {
+  courtId: string;
+  seatedTeamId: string | null;
+  skippedTeamIds: string[]; // Older queued teams passed over because a player was still playing
+}
+
 export interface Court {
   id: string;
   index: number;
@@ -50,9 +115,63 @@ export interface Session {
   date: string;
   courtsCount: number;
   teamSize: number;
-  gameDurationMin: number;
-  autoSeatNext: boolean;
+  gameDurationMin: number; // Time limit of a game before the court goes into overtime
+  autoSeatNext: boolean; // Start the oldest eligible queued team as soon as a court frees up
+  gameType: GameType; // Gender composition policy used by auto matching
+  ratingSource: RatingSource; // Skill used for balancing: manual rank, computed rating or a blend
+  createdAt: Date;
+}
+
+// Skill score weights used by auto matching (stored in settings as `scoring_model`)
+export interface ScoringModel {
+  rankScores: Record<Rank, number>;
+  unrankedScore: number;
+  genderMultipliers: Record<Gender, number>;
+}
+
+// Weights of each objective in the team optimizer cost (stored in settings as `optimizer_weights`)
+export interface OptimizerWeights {
+  skillSpread: number; // Score gap between the strongest and weakest player in a team
+  sideBalance: number; // Score gap between side A and side B
+  repeatTeammate: number; // Previous games together as teammates
+  repeatOpponent: number; // Previous games against each other
+  waitTime: number; // Waiting positions skipped to build the teams
+}
+
+// Why auto matching put a player in a team or left them waiting
+export type MatchReason =
+  | 'priority' // Picked first because of priority waiting
+  | 'queue_order' // Fewest games / longest rest among the waiting players
+  | 'balance' // Picked or skipped by the optimizer for skill balance and repeat avoidance
+  | 'courts_full' // No more open spots this round
+  | 'game_type' // Couldn't form a team that satisfies the session game type
+  | 'not_enough_players'; // Too few waiting players to form a team
+
+export interface PlayerMatchExplanation {
+  playerId: string;
+  teamId: string | null; // null when the player was left waiting
+  reason: MatchReason;
+  queuePosition: number; // 1-based position in the waiting order
+  wasPriority: boolean;
+  gameCount: number;
+  restMinutes: number | null; // Minutes since the last game ended
+}
+
+export interface TeamMatchExplanation {
+  teamId: string;
+  averageScore: number;
+  skillSpread: number; // Score gap between the strongest and weakest player
+  sideGap: number | null; // Score gap between side A and side B
+  repeatTeammates: number; // Previous games together as teammates among this team's players
+  repeatOpponents: number; // Previous games against each other among this team's players
+}
+
+export interface MatchExplanation {
   createdAt: Date;
+  gameType: GameType;
+  avoidedRepeats: number; // Repeat meetings avoided compared to the plain skill-balanced teams
+  teams: Record<string, TeamMatchExplanation>;
+  players: Record<string, PlayerMatchExplanation>;
 }
 
 export interface AuditLog {
@@ -60,6 +179,10 @@ export interface AuditLog {
   type: string;
   payload: any;
   timestamp: Date;
+  playerIds?: string[]; // Players the event touched, team members included
+  playerNames?: string[]; // Their names at the time, same order as playerIds
+  courtId?: string | null;
+  actor?: string; // Set by the server from the session: `<role>:<device id>`
 }
 
 export interface AppState {
@@ -68,5 +191,9 @@ export interface AppState {
   players: Player[];
   teams: Team[];
   courts: Court[];
+  games: GameRecord[]; // Tonight's finished games, oldest first
   auditLogs: AuditLog[];
+  scoringModel: ScoringModel;
+  optimizerWeights: OptimizerWeights;
+  lastMatch?: MatchExplanation | null; // Explanation of the most recent auto match (not persisted)
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { AuditLog } from '../../types';
+import { auth } from './auth';
+import { apiClient } from './client';
+import { fromAuditLogRow, toAuditLogRow } from './rows';
+
+// Events are collected for a moment and sent together, so a burst of actions is one request
+const FLUSH_DELAY_MS = 2000;
+
+export interface AuditLogFilters {
+  type?: string;
+  playerId?: string;
+  courtId?: string;
+  before?: Date; // Timestamp of the oldest event already shown
+}
+
+let buffer: AuditLog[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function flush(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (buffer.length === 0) return;
+  const events = buffer;
+  buffer = [];
+
+  try {
+    // Queued in the outbox while offline; it is sent once the connection is back
+    await apiClient.send('POST /audit-logs', { body: { events: events.map(toAuditLogRow) } });
+  } catch {
+    // Already logged by the client; a lost audit event should not break the action that made it
+  }
+}
+
+// Send what is waiting before the tab goes away
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flush();
+  });
+}
+
+export const auditApi = {
+  // Queue an event for the server; only admin sessions can record, members' events stay local
+  record(log: AuditLog) {
+    if (auth.getSession()?.role !== 'admin') return;
+    buffer.push(log);
+    if (!flushTimer) {
+      flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+    }
+  },
+
+  flush,
+
+  // Newest first, one page at a time
+  async list(filters: AuditLogFilters = {}, signal?: AbortSignal): Promise<{ logs: AuditLog[]; hasMore: boolean }> {
+    const data = await apiClient.request('GET /audit-logs', {
+      query: {
+        type: filters.type,
+        player: filters.playerId,
+        court: filters.courtId,
+        before: filters.before?.toISOString(),
+      },
+      signal,
+    });
+    return { logs: data.logs.map(fromAuditLogRow), hasMore: data.hasMore };
+  },
+};
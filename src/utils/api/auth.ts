@@ -0,0 +1,187 @@
+import { publicAnonKey } from '../supabase/info';
+import type { SessionResponse } from '../../supabase/functions/_shared/schemas';
+import { apiClient } from './client';
+import { ApiError } from './errors';
+
+// The admin session from /auth/login. The token goes in X-Session-Token on every request;
+// Authorization keeps carrying the anon key, which the Supabase gateway needs.
+
+export type SessionRole = 'admin' | 'member';
+
+export interface AuthSession {
+  token: string;
+  role: SessionRole;
+  expiresAt: number; // Epoch ms
+}
+
+// Why a password was turned down. `too_soon` is the backoff between failures, `locked` the lockout
+// after too many of them; both come with how long to wait.
+export type LoginFailureReason = 'invalid_password' | 'too_soon' | 'locked' | 'error';
+
+export type LoginResult =
+  | { ok: true; session: AuthSession }
+  | { ok: false; reason: LoginFailureReason; remainingAttempts?: number; retryAfterMs?: number };
+
+const FAILURE_REASONS: LoginFailureReason[] = ['invalid_password', 'too_soon', 'locked'];
+
+const STORAGE_KEY = 'addicton-session';
+const DEVICE_KEY = 'addicton-device';
+export const SESSION_HEADER = 'X-Session-Token';
+// Refresh this long before the token runs out; retry this often when the refresh fails
+const REFRESH_MARGIN_MS = 10 * 60 * 1000;
+const REFRESH_RETRY_MS = 60 * 1000;
+
+let session: AuthSession | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+const sessionListeners = new Set<(session: AuthSession | null) => void>();
+const expiredListeners = new Set<() => void>();
+
+function readStoredSession(): AuthSession | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as AuthSession;
+    return parsed.expiresAt > Date.now() ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function setSession(next: AuthSession | null) {
+  session = next;
+  try {
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('⚠️ Failed to store session:', error);
+  }
+  scheduleRefresh();
+  sessionListeners.forEach((listener) => listener(session));
+}
+
+function expire() {
+  if (!session) return;
+  console.log('🔒 Session expired');
+  setSession(null);
+  expiredListeners.forEach((listener) => listener());
+}
+
+function scheduleRefresh(delay?: number) {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  if (!session) return;
+  const wait = delay ?? Math.max(0, session.expiresAt - Date.now() - REFRESH_MARGIN_MS);
+  refreshTimer = setTimeout(refresh, wait);
+}
+
+function toSession(data: SessionResponse): AuthSession {
+  return { token: data.token, role: data.role, expiresAt: data.expiresAt };
+}
+
+async function refresh() {
+  refreshTimer = null;
+  if (!session) return;
+  if (session.expiresAt <= Date.now()) {
+    expire();
+    return;
+  }
+
+  try {
+    setSession(toSession(await apiClient.request('POST /auth/refresh', {})));
+    console.log('🔑 Session refreshed');
+  } catch (error) {
+    if (error instanceof ApiError && (error.kind === 'unauthorized' || error.kind === 'forbidden')) {
+      expire();
+      return;
+    }
+    console.error('⚠️ Failed to refresh session, retrying:', error);
+    scheduleRefresh(Math.min(REFRESH_RETRY_MS, Math.max(0, session.expiresAt - Date.now())));
+  }
+}
+
+// Random id of this browser, sent at login so audit logs can tell admin devices apart
+export function getDeviceId(): string {
+  try {
+    let device = localStorage.getItem(DEVICE_KEY);
+    if (!device) {
+      device = Math.random().toString(36).slice(2, 10);
+      localStorage.setItem(DEVICE_KEY, device);
+    }
+    return device;
+  } catch {
+    return 'unknown';
+  }
+}
+
+// Headers for every API request: the anon key for the gateway, plus the session token when logged in
+export function authHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { Authorization: `Bearer ${publicAnonKey}` };
+  const current = auth.getSession();
+  if (current) headers[SESSION_HEADER] = current.token;
+  return headers;
+}
+
+export const auth = {
+  async login(password: string): Promise<LoginResult> {
+    try {
+      const next = toSession(await apiClient.request('POST /auth/login', { body: { password, device: getDeviceId() } }));
+      setSession(next);
+      console.log('🔑 Logged in as', next.role);
+      return { ok: true, session: next };
+    } catch (error) {
+      // A wrong password (401) or the throttle (429) answers with why and how long to wait
+      const reason = error instanceof ApiError ? error.reason : null;
+      if (error instanceof ApiError && reason && (FAILURE_REASONS as string[]).includes(reason)) {
+        return {
+          ok: false,
+          reason: reason as LoginFailureReason,
+          remainingAttempts: error.body?.remainingAttempts,
+          retryAfterMs: error.body?.retryAfterMs,
+        };
+      }
+      return { ok: false, reason: 'error' };
+    }
+  },
+
+  logout() {
+    if (!session) return;
+    setSession(null);
+  },
+
+  // The current session, or null when logged out or the token has run out
+  getSession(): AuthSession | null {
+    if (session && session.expiresAt <= Date.now()) {
+      expire();
+    }
+    return session;
+  },
+
+  // The server turned the token down (401): drop it so the admin is asked to log in again
+  handleUnauthorized() {
+    expire();
+  },
+
+  // Called on every login, refresh and logout; returns the unsubscribe function
+  subscribe(listener: (session: AuthSession | null) => void): () => void {
+    sessionListeners.add(listener);
+    return () => {
+      sessionListeners.delete(listener);
+    };
+  },
+
+  // Called only when a session ends without a logout (expired or rejected by the server)
+  onExpired(listener: () => void): () => void {
+    expiredListeners.add(listener);
+    return () => {
+      expiredListeners.delete(listener);
+    };
+  },
+};
+
+session = typeof localStorage === 'undefined' ? null : readStoredSession();
+scheduleRefresh();
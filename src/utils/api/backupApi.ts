@@ -0,0 +1,32 @@
+import { apiClient } from './client';
+import type { BackupImportResponse } from '../../supabase/functions/_shared/schemas';
+
+// Archives are passed through as they are (database rows, snake_case); only the server reads them
+
+export type { BackupSection, BackupTableDiff } from '../../supabase/functions/_shared/schemas';
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupImportResult {
+  diff: BackupImportResponse['diff'];
+  upgradedFrom: number | null; // Archive version before the server upgraded it, null when current
+}
+
+// A whole club's history can take a while to read or write
+const BACKUP_TIMEOUT_MS = 60000;
+
+export const backupApi = {
+  async exportArchive(): Promise<unknown> {
+    return apiClient.request('GET /backup/export', { timeoutMs: BACKUP_TIMEOUT_MS });
+  },
+
+  // With dryRun nothing is written; the result shows what the import would change.
+  // A rejected import throws ApiError with reason 'invalid_backup' (400) or 'conflict' (409).
+  async importArchive(archive: unknown, mode: ImportMode, dryRun: boolean): Promise<BackupImportResult> {
+    const data = await apiClient.request('POST /backup/import', {
+      body: { archive, mode, dryRun },
+      timeoutMs: BACKUP_TIMEOUT_MS,
+    });
+    return { diff: data.diff, upgradedFrom: data.upgradedFrom ?? null };
+  },
+};
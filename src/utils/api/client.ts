@@ -0,0 +1,204 @@
+import type { ApiRoutes } from '../../supabase/functions/_shared/schemas';
+import { auth, authHeaders } from './auth';
+import { API_BASE } from './config';
+import { ApiError, ConflictError, VersionedTable, errorForResponse } from './errors';
+import { outbox } from './outbox';
+
+// The one way the app calls the server. Routes come from the map in functions/_shared/schemas.ts,
+// so paths, bodies and responses are checked against what the server validates. Every call gets
+// the session headers and a timeout, reads are retried with backoff, and every failure is thrown
+// as an ApiError (errors.ts has the messages the UI shows for them).
+
+export type ApiRoute = keyof ApiRoutes;
+export type ApiResponse<R extends ApiRoute> = ApiRoutes[R]['response'];
+type RouteBody<R extends ApiRoute> = ApiRoutes[R] extends { body: infer B } ? B : never;
+type RouteQuery<R extends ApiRoute> = ApiRoutes[R] extends { query: infer Q } ? Q : never;
+
+interface BaseOptions {
+  params?: Record<string, string>; // Values of the :name segments of the path
+  signal?: AbortSignal; // Cancels the request and any retry still waiting
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Attempts after the first one fails with a network error, timeout, 429 or 5xx
+  conflict?: { table: VersionedTable; ids: string[] }; // A 409 then throws ConflictError with these rows
+}
+
+// The body is required exactly when the route has one
+export type RequestOptions<R extends ApiRoute> = BaseOptions &
+  ([RouteBody<R>] extends [never] ? { body?: never } : { body: RouteBody<R> }) &
+  ([RouteQuery<R>] extends [never] ? { query?: never } : { query?: RouteQuery<R> });
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const READ_RETRIES = 2; // GETs only; writes are not repeated unless the caller asks
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 5000;
+
+const RETRYABLE: ApiError['kind'][] = ['network', 'timeout', 'rate_limited', 'server'];
+
+function buildRequest<R extends ApiRoute>(route: R, options: RequestOptions<R>) {
+  const [method, pattern] = route.split(' ');
+  const path = pattern.replace(/:([a-zA-Z]+)/g, (_, name: string) => {
+    const value = options.params?.[name];
+    if (value === undefined) throw new Error(`Missing param "${name}" for ${route}`);
+    return encodeURIComponent(value);
+  });
+
+  const query = new URLSearchParams();
+  Object.entries((options.query || {}) as Record<string, string | undefined>).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, value);
+  });
+  const queryString = query.toString();
+
+  const hasBody = options.body !== undefined;
+  return {
+    method,
+    url: `${API_BASE}${path}${queryString ? `?${queryString}` : ''}`,
+    // Built per attempt, so a retry after a session refresh sends the new token
+    headers: (): Record<string, string> => ({
+      ...authHeaders(),
+      ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+    }),
+    body: hasBody ? JSON.stringify(options.body) : undefined,
+  };
+}
+
+async function readResponse(route: ApiRoute, response: Response, conflict: BaseOptions['conflict']): Promise<any> {
+  const text = await response.text();
+  let body: any = null;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = response.ok ? undefined : { error: text };
+    }
+  }
+
+  if (response.ok) {
+    if (body === undefined) {
+      throw new ApiError('server', { route, status: response.status, message: `${route} answered with invalid JSON` });
+    }
+    return body;
+  }
+
+  // Session missing or expired on the server side: drop it so the admin is asked to log in again
+  if (response.status === 401) auth.handleUnauthorized();
+  throw errorForResponse(route, response.status, body, conflict);
+}
+
+// One attempt with its own timeout; the caller's signal cancels it as well
+async function attempt<T>(
+  route: ApiRoute,
+  options: BaseOptions,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  if (options.signal?.aborted) throw new ApiError('aborted', { route });
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    if (timedOut) throw new ApiError('timeout', { route, message: `${route} timed out after ${timeoutMs}ms` });
+    if (options.signal?.aborted) throw new ApiError('aborted', { route });
+    // fetch only rejects with a TypeError when the request never reached the server
+    if (error instanceof TypeError) throw new ApiError('network', { route, message: error.message });
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Exponential backoff with jitter, so devices that lost the server together do not retry together
+function retryDelay(attemptIndex: number): number {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attemptIndex);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function wait(ms: number, route: ApiRoute, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError('aborted', { route }));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function logFailure(error: unknown) {
+  if (error instanceof ApiError && error.kind === 'aborted') return;
+  // Expected outcomes of versioned writes and game operations; the caller handles them
+  if (error instanceof ApiError && error.kind === 'conflict') {
+    console.log(`⚠️ ${error.route} was turned down (409):`, error instanceof ConflictError ? error.message : error.reason);
+    return;
+  }
+  if (error instanceof ApiError) {
+    console.error(`❌ ${error.route} failed (${error.status ?? error.kind}):`, error.message, error.issues.length > 0 ? error.issues : '');
+    return;
+  }
+  console.error('❌ Request failed:', error);
+}
+
+export const apiClient = {
+  // Send a request straight to the server. Resolves to the parsed response body.
+  async request<R extends ApiRoute>(route: R, options: RequestOptions<R>): Promise<ApiResponse<R>> {
+    const request = buildRequest(route, options);
+    const retries = options.retries ?? (request.method === 'GET' ? READ_RETRIES : 0);
+
+    for (let attemptIndex = 0; ; attemptIndex++) {
+      try {
+        return await attempt(route, options, async (signal) => {
+          const response = await fetch(request.url, {
+            method: request.method,
+            headers: request.headers(),
+            body: request.body,
+            signal,
+          });
+          return readResponse(route, response, options.conflict);
+        });
+      } catch (error) {
+        const retryable = error instanceof ApiError && RETRYABLE.includes(error.kind);
+        if (!retryable || attemptIndex >= retries) {
+          logFailure(error);
+          throw error;
+        }
+        const delay = retryDelay(attemptIndex);
+        console.log(`🔁 ${route} failed (${(error as ApiError).kind}), retry ${attemptIndex + 1}/${retries} in ${Math.round(delay)}ms`);
+        await wait(delay, route, options.signal);
+      }
+    }
+  },
+
+  // Send a write through the outbox (outbox.ts). Resolves to null when it was queued to be replayed
+  // later (offline, or earlier writes still waiting); those are never retried here.
+  async send<R extends ApiRoute>(route: R, options: RequestOptions<R>): Promise<ApiResponse<R> | null> {
+    const request = buildRequest(route, options);
+    try {
+      return await attempt(route, options, async (signal) => {
+        const response = await outbox.send(request.url, {
+          method: request.method,
+          headers: request.headers(),
+          body: request.body,
+          signal,
+        }, { conflict: options.conflict });
+        if (!response) return null;
+        return readResponse(route, response, options.conflict);
+      });
+    } catch (error) {
+      logFailure(error);
+      throw error;
+    }
+  },
+};
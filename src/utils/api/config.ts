@@ -0,0 +1,12 @@
+import { projectId } from '../supabase/info';
+
+// Base URL of the server routes. Defaults to the edge function of the Supabase project; set
+// VITE_API_BASE_URL to use another server, e.g. the local one in functions/server/local.tsx.
+const configuredBase = import.meta.env.VITE_API_BASE_URL as string | undefined;
+
+export const API_BASE = configuredBase
+  ? configuredBase.replace(/\/+$/, '')
+  : `https://${projectId}.supabase.co/functions/v1/make-server-41b22d2d`;
+
+// Realtime and the Supabase client only exist on the hosted project
+export const isHostedApi = !configuredBase;
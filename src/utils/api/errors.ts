@@ -0,0 +1,116 @@
+import type { ValidationIssue } from '../../supabase/functions/_shared/schemas';
+
+export type VersionedTable = 'players' | 'teams' | 'members';
+
+// What went wrong with a request, the same for every route
+export type ApiErrorKind =
+  | 'network' // The request never reached the server
+  | 'timeout'
+  | 'aborted' // Cancelled through the caller's AbortSignal
+  | 'unauthorized' // 401: no session, or it ran out
+  | 'forbidden' // 403: needs the admin role
+  | 'not_found'
+  | 'invalid_request' // 400: the body or query did not match the route's schema, see `issues`
+  | 'conflict' // 409
+  | 'rate_limited' // 429
+  | 'server'; // 5xx, or an answer that could not be read
+
+interface ApiErrorOptions {
+  route?: string;
+  status?: number;
+  body?: any;
+  message?: string;
+}
+
+// Every failed call through client.ts ends up as one of these
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly route: string; // e.g. 'PUT /players/:id'
+  readonly status: number | null; // null when no response came back
+  readonly reason: string | null; // `reason` of the response body, e.g. 'invalid_password'
+  readonly issues: ValidationIssue[]; // Field paths and problems of an invalid_request
+  readonly body: any; // Parsed response body, null when there was none
+
+  constructor(kind: ApiErrorKind, options: ApiErrorOptions = {}) {
+    const body = options.body ?? null;
+    super(options.message || body?.error || `${options.route || 'Request'} failed: ${options.status ?? kind}`);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.route = options.route || '';
+    this.status = options.status ?? null;
+    this.reason = typeof body?.reason === 'string' ? body.reason : null;
+    this.issues = Array.isArray(body?.issues) ? body.issues : [];
+    this.body = body;
+  }
+}
+
+export function errorKindForStatus(status: number): ApiErrorKind {
+  if (status === 400 || status === 422) return 'invalid_request';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  return 'server';
+}
+
+// The server rejected a write because the row changed since this device loaded it (HTTP 409).
+// Carries the rows as they are now, so the caller can show what changed and catch up.
+export class ConflictError extends ApiError {
+  readonly table: VersionedTable;
+  readonly ids: string[]; // Rows the write targeted; ids missing from `current` were deleted
+  readonly current: Record<string, any>[]; // Database rows (snake_case) at the time of the conflict
+
+  constructor(table: VersionedTable, ids: string[], current: Record<string, any>[], route?: string) {
+    super('conflict', {
+      route,
+      status: 409,
+      body: { reason: 'version_conflict', current },
+      message: `Conflicting update on ${table}: ${ids.join(', ')}`,
+    });
+    this.name = 'ConflictError';
+    this.table = table;
+    this.ids = ids;
+    this.current = current;
+  }
+}
+
+// The error for an answer that was not 2xx. A 409 to a versioned write (`conflict` names its rows)
+// is a ConflictError carrying the rows the server sent back.
+export function errorForResponse(
+  route: string,
+  status: number,
+  body: any,
+  conflict?: { table: VersionedTable; ids: string[] }
+): ApiError {
+  if (status === 409 && conflict) return new ConflictError(conflict.table, conflict.ids, body?.current || [], route);
+  return new ApiError(errorKindForStatus(status), { route, status, body });
+}
+
+const ERROR_MESSAGES: Record<ApiErrorKind, string> = {
+  network: '서버에 연결할 수 없습니다. 네트워크 연결을 확인해주세요.',
+  timeout: '서버 응답이 없습니다. 잠시 후 다시 시도해주세요.',
+  aborted: '요청이 취소되었습니다.',
+  unauthorized: '로그인이 만료되었습니다. 다시 로그인해주세요.',
+  forbidden: '운영진만 할 수 있는 작업입니다.',
+  not_found: '요청한 항목을 찾을 수 없습니다.',
+  invalid_request: '잘못된 값이 포함되어 있습니다.',
+  conflict: '다른 기기에서 먼저 변경했습니다. 새로고침 후 다시 시도해주세요.',
+  rate_limited: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+  server: '서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
+};
+
+// Message for a toast or dialog; `fallback` covers errors that did not come from the client
+export function describeApiError(error: unknown, fallback: string): string {
+  if (!(error instanceof ApiError)) return fallback;
+  if (error.kind === 'invalid_request') {
+    const fields = Array.from(new Set(error.issues.map((issue) => issue.path).filter(Boolean)));
+    if (fields.length > 0) return `${ERROR_MESSAGES.invalid_request} (${fields.slice(0, 3).join(', ')})`;
+  }
+  return ERROR_MESSAGES[error.kind];
+}
+
+// Cancelled on purpose (a newer request replaced it, the dialog closed): nothing to show
+export function isAbortError(error: unknown): boolean {
+  return error instanceof ApiError && error.kind === 'aborted';
+}
@@ -0,0 +1,151 @@
+import { GameRecord, Member, Player, RatingHistoryEntry, Team } from '../../types';
+import { RatingUpdate, toRatingHistoryEntries } from '../rating';
+import { apiClient, ApiRoute, RequestOptions } from './client';
+import { ApiError, ConflictError } from './errors';
+import {
+  fromPlayerRow,
+  fromTeamRow,
+  toGameRow,
+  toMemberUpdates,
+  toPlayerUpdates,
+  toRatingHistoryRow,
+  toTeamRow,
+  toTeamUpdates,
+} from './rows';
+import type { GameOpResponse } from '../../supabase/functions/_shared/schemas';
+
+// Teams and players as they are in the database after an operation
+export interface GameOpState {
+  teams: Team[];
+  players: Player[];
+}
+
+// Rejected operations (409) still carry the current state, so the client can resync from it.
+// `state` is null when the operation was queued offline; the caller keeps its local state.
+// `conflict` names the rows that had moved on, when /undo was turned down for that.
+export type GameOpResult =
+  | { ok: true; state: GameOpState | null }
+  | { ok: false; reason: string; state: GameOpState; conflict?: ConflictError };
+
+// A row an undo or redo writes back, at the version this device last saw
+export interface RowRestore<T> {
+  id: string;
+  updates: Partial<T>;
+  expectedVersion?: number;
+}
+
+export interface RestoreChanges {
+  teams: { added: Team[]; updated: RowRestore<Team>[]; removed: { id: string; expectedVersion?: number }[] };
+  players: RowRestore<Player>[];
+  members: RowRestore<Member>[];
+  games: { added: GameRecord[]; removedIds: string[] };
+  ratingHistory: RatingHistoryEntry[];
+}
+
+type GameOpRoute = Extract<
+  ApiRoute,
+  | 'POST /games/start'
+  | 'POST /games/return'
+  | 'POST /games/end'
+  | 'POST /games/end-all'
+  | 'POST /match/commit'
+  | 'POST /match/add-team'
+  | 'POST /match/remove-team'
+  | 'POST /undo'
+>;
+
+async function postOperation<R extends GameOpRoute>(route: R, options: RequestOptions<R>): Promise<GameOpResult> {
+  let data: GameOpResponse | null;
+  try {
+    data = await apiClient.send(route, options);
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status !== 409 || !error.body?.state) throw error;
+    data = error.body as GameOpResponse;
+  }
+
+  if (!data) return { ok: true, state: null };
+
+  const state: GameOpState = {
+    teams: (data.state?.teams || []).map(fromTeamRow),
+    players: (data.state?.players || []).map(fromPlayerRow),
+  };
+
+  if (data.success) return { ok: true, state };
+
+  const conflict = data.conflict
+    ? new ConflictError(data.conflict.table, data.conflict.ids, data.conflict.current, route)
+    : undefined;
+  return { ok: false, reason: data.reason || 'conflict', state, conflict };
+}
+
+export const gameOpsApi = {
+  async startGame(teamId: string, courtId: string, startedAt: Date, expectedVersion?: number): Promise<GameOpResult> {
+    return postOperation('POST /games/start', {
+      body: { teamId, courtId, startedAt: startedAt.toISOString(), expectedVersion },
+    });
+  },
+
+  async returnGame(teamId: string, expectedVersion?: number): Promise<GameOpResult> {
+    return postOperation('POST /games/return', { body: { teamId, expectedVersion } });
+  },
+
+  async endGame(teamId: string, game: GameRecord, ratingUpdates: RatingUpdate[] = []): Promise<GameOpResult> {
+    return postOperation('POST /games/end', {
+      body: {
+        teamId,
+        game: toGameRow(game),
+        ratingUpdates: ratingUpdates.map((update) => ({
+          member_id: update.memberId,
+          rating: update.ratingAfter,
+          rating_games: update.ratedGames,
+        })),
+        ratingHistory: toRatingHistoryEntries(ratingUpdates, game.id, game.endedAt).map(toRatingHistoryRow),
+      },
+    });
+  },
+
+  async endAllGames(games: GameRecord[]): Promise<GameOpResult> {
+    return postOperation('POST /games/end-all', { body: { games: games.map(toGameRow) } });
+  },
+
+  async commitMatch(teams: Team[]): Promise<GameOpResult> {
+    return postOperation('POST /match/commit', { body: { teams: teams.map(toTeamRow) } });
+  },
+
+  async addTeam(team: Team): Promise<GameOpResult> {
+    return postOperation('POST /match/add-team', { body: { team: toTeamRow(team) } });
+  },
+
+  async removeTeam(teamId: string, expectedVersion?: number): Promise<GameOpResult> {
+    return postOperation('POST /match/remove-team', { body: { teamId, expectedVersion } });
+  },
+
+  // Undo and redo: every row goes back in one transaction, or none does
+  async restore(changes: RestoreChanges): Promise<GameOpResult> {
+    return postOperation('POST /undo', {
+      body: {
+        teams: {
+          added: changes.teams.added.map(toTeamRow),
+          updated: changes.teams.updated.map(({ id, updates, expectedVersion }) => ({
+            id,
+            values: toTeamUpdates(updates),
+            expectedVersion,
+          })),
+          removed: changes.teams.removed,
+        },
+        players: changes.players.map(({ id, updates, expectedVersion }) => ({
+          id,
+          values: toPlayerUpdates(updates),
+          expectedVersion,
+        })),
+        members: changes.members.map(({ id, updates, expectedVersion }) => ({
+          id,
+          values: toMemberUpdates(updates),
+          expectedVersion,
+        })),
+        games: { added: changes.games.added.map(toGameRow), removedIds: changes.games.removedIds },
+        ratingHistory: changes.ratingHistory.map(toRatingHistoryRow),
+      },
+    });
+  },
+};
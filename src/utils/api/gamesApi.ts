@@ -0,0 +1,23 @@
+import { GameRecord } from '../../types';
+import { apiClient } from './client';
+import { fromGameRow, toGameRow } from './rows';
+
+export const gamesApi = {
+  async getAll(sessionDate?: string, signal?: AbortSignal): Promise<GameRecord[]> {
+    const rows = await apiClient.request('GET /games', { query: { date: sessionDate }, signal });
+    return rows.map(fromGameRow);
+  },
+
+  async add(game: GameRecord): Promise<void> {
+    // Queued in the outbox while offline; it is sent once the connection is back
+    await apiClient.send('POST /games', { body: toGameRow(game) });
+  },
+
+  async addBatch(games: GameRecord[]): Promise<void> {
+    await apiClient.send('POST /games/batch', { body: { games: games.map(toGameRow) } });
+  },
+
+  async delete(gameId: string): Promise<void> {
+    await apiClient.send('DELETE /games/:id', { params: { id: gameId } });
+  },
+};
@@ -0,0 +1,239 @@
+import { openLocalDb, requestToPromise, OUTBOX_STORE } from '../localDb';
+import { ApiError, VersionedTable, errorForResponse } from './errors';
+import { auth, authHeaders, SESSION_HEADER } from './auth';
+
+// Mutations that could not reach the server wait here (IndexedDB) and are replayed in order
+// once the connection is back. While anything is waiting, new mutations queue behind it,
+// so the server always sees writes in the order they were made on this device.
+// The session token is never stored with an entry: entries are replayed with the current one,
+// and held while nobody is logged in.
+
+export interface OutboxEntry {
+  seq?: number; // IndexedDB key, gives the replay order
+  url: string;
+  method: string;
+  headers: Record<string, string>; // Without the session token
+  body: string | null;
+  conflict?: { table: VersionedTable; ids: string[] }; // Rows to report when the replay gets a 409
+  createdAt: number;
+}
+
+export interface OutboxStatus {
+  online: boolean;
+  pending: number;
+}
+
+// A queued mutation the server turned down on replay; `error` is a ConflictError for versioned rows
+export interface OutboxRejection {
+  entry: OutboxEntry;
+  error: ApiError;
+}
+
+interface SendOptions {
+  conflict?: OutboxEntry['conflict'];
+}
+
+const RETRY_INTERVAL_MS = 15000;
+
+let status: OutboxStatus = { online: typeof navigator === 'undefined' ? true : navigator.onLine, pending: 0 };
+const statusListeners = new Set<(status: OutboxStatus) => void>();
+const rejectionListeners = new Set<(rejection: OutboxRejection) => void>();
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function setStatus(updates: Partial<OutboxStatus>) {
+  const next = { ...status, ...updates };
+  if (next.online === status.online && next.pending === status.pending) return;
+  status = next;
+  statusListeners.forEach((listener) => listener(status));
+}
+
+async function readEntries(): Promise<OutboxEntry[]> {
+  const db = await openLocalDb();
+  return requestToPromise(db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).getAll()) as Promise<OutboxEntry[]>;
+}
+
+async function enqueue(entry: OutboxEntry): Promise<void> {
+  const db = await openLocalDb();
+  await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).add(entry));
+  setStatus({ pending: status.pending + 1 });
+  scheduleRetry();
+}
+
+async function removeEntry(seq: number): Promise<void> {
+  const db = await openLocalDb();
+  await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).delete(seq));
+  setStatus({ pending: Math.max(0, status.pending - 1) });
+}
+
+function scheduleRetry() {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flush();
+  }, RETRY_INTERVAL_MS);
+}
+
+async function replay(): Promise<void> {
+  const entries = await readEntries();
+  if (entries.length > 0) {
+    console.log(`📤 Replaying ${entries.length} queued mutations...`);
+  }
+
+  for (const entry of entries) {
+    // Logged out (or the session ran out): keep everything until the admin logs in again
+    if (!auth.getSession()) {
+      console.log('🔒 Replay needs a login, keeping queued mutations');
+      return;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(entry.url, {
+        method: entry.method,
+        headers: { ...entry.headers, ...authHeaders() },
+        body: entry.body,
+      });
+    } catch (error) {
+      console.log('📴 Still offline, keeping queued mutations');
+      setStatus({ online: false });
+      scheduleRetry();
+      return;
+    }
+    setStatus({ online: true });
+
+    // Session missing or expired: keep everything until the admin logs in again
+    if (response.status === 401) {
+      console.log('🔒 Replay needs a login, keeping queued mutations');
+      auth.handleUnauthorized();
+      return;
+    }
+
+    // Server trouble: keep this entry (and the order) and try again later
+    if (response.status >= 500) {
+      console.error(`❌ Replay of ${entry.method} ${entry.url} failed with ${response.status}, retrying later`);
+      scheduleRetry();
+      return;
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const error = errorForResponse(`${entry.method} ${entry.url}`, response.status, body, entry.conflict);
+      console.log(`⚠️ Queued mutation rejected on replay:`, error.message);
+      rejectionListeners.forEach((listener) => listener({ entry, error }));
+    }
+
+    await removeEntry(entry.seq!);
+  }
+}
+
+// Replay everything queued; concurrent calls share one run
+function flush(): Promise<void> {
+  if (!flushing) {
+    flushing = replay()
+      .catch((error) => {
+        console.error('❌ Failed to replay the outbox:', error);
+      })
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+}
+
+// Replays whatever is waiting once the admin logs in again. Subscribed after this module has run:
+// auth.ts reaches this module through client.ts, so `auth` may not be initialised yet here.
+function watchSession() {
+  auth.subscribe((session) => {
+    if (session && status.pending > 0) flush();
+  });
+}
+
+const ready: Promise<void> = openLocalDb()
+  .then(readEntries)
+  .then((entries) => {
+    watchSession();
+    setStatus({ pending: entries.length });
+    if (entries.length > 0) flush();
+  })
+  .catch((error) => {
+    console.error('⚠️ Outbox unavailable, mutations will not be queued:', error);
+  });
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    setStatus({ online: true });
+    flush();
+  });
+  window.addEventListener('offline', () => setStatus({ online: false }));
+}
+
+export const outbox = {
+  // Send a mutation, or queue it when the network is down or earlier mutations are still waiting.
+  // Resolves to the response, or null when the mutation was queued.
+  async send(url: string, init: { method: string; headers: Record<string, string>; body?: string; signal?: AbortSignal }, options: SendOptions = {}): Promise<Response | null> {
+    await ready;
+    const { [SESSION_HEADER]: _token, ...headers } = init.headers;
+    const entry: OutboxEntry = {
+      url,
+      method: init.method,
+      headers,
+      body: init.body ?? null,
+      conflict: options.conflict,
+      createdAt: Date.now(),
+    };
+
+    if (status.pending > 0) {
+      await enqueue(entry);
+      flush();
+      return null;
+    }
+
+    try {
+      const response = await fetch(url, init);
+      setStatus({ online: true });
+      if (response.status === 401) auth.handleUnauthorized();
+      return response;
+    } catch (error) {
+      // fetch only rejects (TypeError) when the request never reached the server
+      if (!(error instanceof TypeError)) throw error;
+      console.log(`📴 Network unavailable, queued ${init.method} ${url}`);
+      setStatus({ online: false });
+      try {
+        await enqueue(entry);
+      } catch (queueError) {
+        console.error('❌ Failed to queue mutation:', queueError);
+        throw error;
+      }
+      return null;
+    }
+  },
+
+  flush,
+
+  getStatus(): OutboxStatus {
+    return status;
+  },
+
+  // Pending count once the stored outbox has been read
+  async getPendingCount(): Promise<number> {
+    await ready;
+    return status.pending;
+  },
+
+  // Returns the unsubscribe function; the listener is called right away with the current status
+  subscribe(listener: (status: OutboxStatus) => void): () => void {
+    statusListeners.add(listener);
+    listener(status);
+    return () => {
+      statusListeners.delete(listener);
+    };
+  },
+
+  onRejection(listener: (rejection: OutboxRejection) => void): () => void {
+    rejectionListeners.add(listener);
+    return () => {
+      rejectionListeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,222 @@
+import { AuditLog, GameRecord, Member, Player, RatingHistoryEntry, Team } from '../../types';
+import { parseGameResult } from '../gameResult';
+import { VersionedTable } from './errors';
+import type {
+  AuditEventRow,
+  GameRow,
+  MemberRow,
+  MemberUpdates,
+  PlayerRow,
+  PlayerUpdates,
+  RatingHistoryRow,
+  StoredAuditLog,
+  StoredGame,
+  StoredMember,
+  StoredPlayer,
+  StoredRatingHistory,
+  StoredTeam,
+  TeamRow,
+  TeamUpdates,
+} from '../../supabase/functions/_shared/schemas';
+
+// Database rows (snake_case, ISO timestamps) to app objects and back. Every place that reads rows
+// (API responses, realtime changes, conflicts) goes through these, so defaults and dates match.
+// jsonb columns (histories, pairing, result) are taken as they are; their keys are ids, not columns.
+
+const toDate = (value: string | null | undefined): Date | null => (value ? new Date(value) : null);
+
+// ============= FROM ROWS =============
+
+export const fromMemberRow = (row: StoredMember): Member => ({
+  id: row.id,
+  name: row.name,
+  gender: row.gender,
+  rank: row.rank,
+  rating: row.rating ?? null,
+  ratingGames: row.rating_games ?? 0,
+  version: row.version,
+  createdAt: new Date(row.created_at),
+});
+
+export const fromPlayerRow = (row: StoredPlayer): Player => ({
+  id: row.id,
+  name: row.name,
+  memberId: row.member_id || null,
+  state: row.state,
+  gender: row.gender,
+  rank: row.rank,
+  gameCount: row.game_count ?? 0,
+  lastGameEndAt: toDate(row.last_game_end_at),
+  teammateHistory: row.teammate_history || {},
+  opponentHistory: row.opponent_history || {},
+  recentTeammates: row.recent_teammates || [],
+  version: row.version,
+  createdAt: new Date(row.created_at),
+});
+
+export const fromTeamRow = (row: StoredTeam): Team => ({
+  id: row.id,
+  name: row.name,
+  playerIds: row.player_ids || [],
+  pairing: row.pairing || null,
+  state: row.state,
+  assignedCourtId: row.assigned_court_id || null,
+  startedAt: toDate(row.started_at),
+  endedAt: toDate(row.ended_at),
+  extensionMin: row.extension_min || 0,
+  version: row.version,
+  createdAt: toDate(row.created_at) || new Date(),
+});
+
+export const fromGameRow = (row: StoredGame): GameRecord => ({
+  id: row.id,
+  sessionId: row.session_id,
+  sessionDate: row.session_date,
+  teamId: row.team_id,
+  courtId: row.court_id,
+  courtName: row.court_name,
+  playerIds: row.player_ids || [],
+  playerNames: row.player_names || [],
+  pairing: row.pairing || null,
+  startedAt: toDate(row.started_at),
+  endedAt: new Date(row.ended_at),
+  durationMs: row.duration_ms ?? null,
+  result: parseGameResult(row.result),
+});
+
+export const fromRatingHistoryRow = (row: StoredRatingHistory): RatingHistoryEntry => ({
+  id: row.id,
+  memberId: row.member_id,
+  gameId: row.game_id,
+  ratingBefore: row.rating_before,
+  ratingAfter: row.rating_after,
+  createdAt: new Date(row.created_at),
+});
+
+export const fromAuditLogRow = (row: StoredAuditLog): AuditLog => ({
+  id: row.id,
+  type: row.type,
+  payload: row.payload || {},
+  timestamp: new Date(row.created_at),
+  playerIds: row.player_ids || [],
+  playerNames: row.player_names || [],
+  courtId: row.court_id ?? null,
+  actor: row.actor,
+});
+
+// A row of any versioned table, as carried by conflicts
+export function fromVersionedRow(table: VersionedTable, row: Record<string, any>): Member | Player | Team {
+  if (table === 'players') return fromPlayerRow(row as StoredPlayer);
+  if (table === 'teams') return fromTeamRow(row as StoredTeam);
+  return fromMemberRow(row as StoredMember);
+}
+
+// ============= TO ROWS =============
+// Only fields that exist in the DB; created_at and version are filled in by the database
+
+export const toMemberRow = (member: Member): MemberRow => {
+  const row: MemberRow = { id: member.id, name: member.name };
+  if (member.gender) row.gender = member.gender;
+  if (member.rank) row.rank = member.rank;
+  return row;
+};
+
+export const toMemberUpdates = (updates: Partial<Member>): MemberUpdates => {
+  const row: MemberUpdates = {};
+  if (updates.name !== undefined) row.name = updates.name;
+  if (updates.gender !== undefined) row.gender = updates.gender;
+  if (updates.rank !== undefined) row.rank = updates.rank;
+  if (updates.rating !== undefined) row.rating = updates.rating;
+  if (updates.ratingGames !== undefined) row.rating_games = updates.ratingGames;
+  return row;
+};
+
+export const toPlayerRow = (player: Player): PlayerRow => {
+  const row: PlayerRow = {
+    id: player.id,
+    name: player.name,
+    member_id: player.memberId || null,
+    state: player.state,
+    game_count: player.gameCount,
+    last_game_end_at: player.lastGameEndAt?.toISOString() || null,
+    teammate_history: player.teammateHistory || {},
+    opponent_history: player.opponentHistory || {},
+    recent_teammates: player.recentTeammates || [],
+  };
+  if (player.gender) row.gender = player.gender;
+  if (player.rank) row.rank = player.rank;
+  return row;
+};
+
+export const toPlayerUpdates = (updates: Partial<Player>): PlayerUpdates => {
+  const row: PlayerUpdates = {};
+  if (updates.name !== undefined) row.name = updates.name;
+  if (updates.state !== undefined) row.state = updates.state;
+  if (updates.gender !== undefined) row.gender = updates.gender;
+  if (updates.rank !== undefined) row.rank = updates.rank;
+  if (updates.gameCount !== undefined) row.game_count = updates.gameCount;
+  if (updates.lastGameEndAt !== undefined) row.last_game_end_at = updates.lastGameEndAt?.toISOString() || null;
+  if (updates.teammateHistory !== undefined) row.teammate_history = updates.teammateHistory;
+  if (updates.opponentHistory !== undefined) row.opponent_history = updates.opponentHistory;
+  if (updates.recentTeammates !== undefined) row.recent_teammates = updates.recentTeammates;
+  return row;
+};
+
+export const toTeamRow = (team: Team): TeamRow => ({
+  id: team.id,
+  name: team.name,
+  player_ids: team.playerIds,
+  pairing: team.pairing || null,
+  state: team.state,
+  assigned_court_id: team.assignedCourtId || null,
+  started_at: team.startedAt?.toISOString() || null,
+  ended_at: team.endedAt?.toISOString() || null,
+});
+
+export const toTeamUpdates = (updates: Partial<Team>): TeamUpdates => {
+  const row: TeamUpdates = {};
+  if (updates.name !== undefined) row.name = updates.name;
+  if (updates.playerIds !== undefined) row.player_ids = updates.playerIds;
+  if (updates.pairing !== undefined) row.pairing = updates.pairing;
+  if (updates.state !== undefined) row.state = updates.state;
+  if (updates.assignedCourtId !== undefined) row.assigned_court_id = updates.assignedCourtId;
+  if (updates.startedAt !== undefined) row.started_at = updates.startedAt?.toISOString() || null;
+  if (updates.endedAt !== undefined) row.ended_at = updates.endedAt?.toISOString() || null;
+  if (updates.extensionMin !== undefined) row.extension_min = updates.extensionMin;
+  return row;
+};
+
+export const toGameRow = (game: GameRecord): GameRow => ({
+  id: game.id,
+  session_id: game.sessionId,
+  session_date: game.sessionDate,
+  team_id: game.teamId,
+  court_id: game.courtId,
+  court_name: game.courtName,
+  player_ids: game.playerIds,
+  player_names: game.playerNames,
+  pairing: game.pairing || null,
+  started_at: game.startedAt?.toISOString() || null,
+  ended_at: game.endedAt.toISOString(),
+  duration_ms: game.durationMs,
+  result: game.result || null,
+});
+
+export const toRatingHistoryRow = (entry: RatingHistoryEntry): RatingHistoryRow => ({
+  id: entry.id,
+  member_id: entry.memberId,
+  game_id: entry.gameId,
+  rating_before: entry.ratingBefore,
+  rating_after: entry.ratingAfter,
+  created_at: entry.createdAt.toISOString(),
+});
+
+export const toAuditLogRow = (log: AuditLog): AuditEventRow => ({
+  id: log.id,
+  type: log.type,
+  payload: log.payload ?? {},
+  player_ids: log.playerIds || [],
+  player_names: log.playerNames || [],
+  court_id: log.courtId ?? null,
+  created_at: log.timestamp.toISOString(),
+});
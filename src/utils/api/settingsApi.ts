@@ -1,39 +1,32 @@
-import { projectId, publicAnonKey } from '../supabase/info';
+import { apiClient } from './client';
+import { ApiError } from './errors';
 
-const BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-41b22d2d`;
+// Keys the generic settings route accepts, as registered in functions/server/settings.tsx.
+// Secret keys (the admin password) are not readable and have their own routes.
+export type SettingKey =
+  | 'courts_count'
+  | 'court_names'
+  | 'game_type'
+  | 'rating_source'
+  | 'game_duration_min'
+  | 'auto_seat_next'
+  | 'scoring_model'
+  | 'optimizer_weights';
 
 export const settingsApi = {
-  async get(key: string): Promise<string | null> {
-    const response = await fetch(`${BASE_URL}/settings/${key}`, {
-      headers: {
-        'Authorization': `Bearer ${publicAnonKey}`,
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`Failed to get setting ${key}:`, await response.text());
-      return null;
+  async get(key: SettingKey, signal?: AbortSignal): Promise<string | null> {
+    try {
+      const data = await apiClient.request('GET /settings/:key', { params: { key }, signal });
+      return data.value;
+    } catch (error) {
+      if (error instanceof ApiError && error.kind === 'not_found') return null;
+      throw error;
     }
-
-    const data = await response.json();
-    return data.value;
   },
 
-  async set(key: string, value: string | number): Promise<boolean> {
-    const response = await fetch(`${BASE_URL}/settings/${key}`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${publicAnonKey}`,
-      },
-      body: JSON.stringify({ value }),
-    });
-
-    if (!response.ok) {
-      console.error(`Failed to set setting ${key}:`, await response.text());
-      return false;
-    }
-
-    return true;
+  // Values outside the registry's rules are turned down with an invalid_request ApiError
+  async set(key: SettingKey, value: string | number): Promise<void> {
+    // Queued in the outbox while offline; it is sent once the connection is back
+    await apiClient.send('PUT /settings/:key', { params: { key }, body: { value } });
   },
 };
@@ -0,0 +1,55 @@
+import { AppState } from '../types';
+import type { AuditEventRow } from '../supabase/functions/_shared/schemas';
+
+export interface AuditSubjects {
+  playerIds: string[];
+  playerNames: string[];
+  courtId: string | null;
+}
+
+function addUnique(target: string[], ids: unknown) {
+  if (!Array.isArray(ids)) return;
+  ids.forEach((id) => {
+    if (typeof id === 'string' && !target.includes(id)) target.push(id);
+  });
+}
+
+// Which players and court an audit payload is about, so the activity feed can be filtered by them.
+// Payloads only carry ids (playerId, teamId, courtId, gameId, memberId); teams and games are
+// expanded to their players with the state at the time the event is logged.
+export function getAuditSubjects(state: AppState, payload: AuditEventRow['payload']): AuditSubjects {
+  const playerIds: string[] = [];
+  const fields: Record<string, unknown> = payload && typeof payload === 'object' ? { ...payload } : {};
+  let courtId: string | null = typeof fields.courtId === 'string' ? fields.courtId : null;
+
+  addUnique(playerIds, fields.playerId ? [fields.playerId] : []);
+  addUnique(playerIds, fields.playerIds);
+
+  const teamIds = [fields.teamId, ...(Array.isArray(fields.teamIds) ? fields.teamIds : [])];
+  teamIds.forEach((teamId) => {
+    const team = state.teams.find((t) => t.id === teamId);
+    if (!team) return;
+    addUnique(playerIds, team.playerIds);
+    courtId = courtId ?? team.assignedCourtId ?? null;
+  });
+
+  const game = fields.gameId ? state.games.find((g) => g.id === fields.gameId) : undefined;
+  if (game) {
+    addUnique(playerIds, game.playerIds);
+    courtId = courtId ?? game.courtId;
+  }
+
+  if (fields.memberId) {
+    addUnique(playerIds, state.players.filter((p) => p.memberId === fields.memberId).map((p) => p.id));
+  }
+
+  return { playerIds, playerNames: playerIds.map((id) => getPlayerName(state, id)), courtId };
+}
+
+// Players that already left still have their name on tonight's game records
+function getPlayerName(state: AppState, playerId: string): string {
+  const player = state.players.find((p) => p.id === playerId);
+  if (player) return player.name;
+  const game = state.games.find((g) => g.playerIds.includes(playerId));
+  return game?.playerNames[game.playerIds.indexOf(playerId)] || '알 수 없음';
+}
@@ -0,0 +1,71 @@
+import { AppState } from '../types';
+import { ConflictError, VersionedTable } from './api/errors';
+import { fromVersionedRow } from './api/rows';
+import { applyRealtimeChange } from './realtime';
+
+// Fields that differ between what this device showed and what the server has now
+export interface ConflictFieldChange {
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface ConflictEntityChange {
+  id: string;
+  name: string;
+  deleted: boolean; // Removed on the server by someone else
+  fields: ConflictFieldChange[];
+}
+
+// What the admin is shown after a rejected write
+export interface ConflictNotice {
+  action: string; // The local action that was rejected, e.g. '팀 수정'
+  table: VersionedTable;
+  changes: ConflictEntityChange[];
+}
+
+// Bookkeeping fields that always differ and mean nothing to the admin
+const IGNORED_FIELDS = new Set(['version', 'createdAt', 'updatedAt']);
+
+function getLocalRows(state: AppState, table: VersionedTable): { id: string; name?: string }[] {
+  if (table === 'players') return state.players;
+  if (table === 'teams') return state.teams;
+  return state.members;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Compare the rows this device had with the current server rows from the conflict
+export function describeConflict(action: string, state: AppState, error: ConflictError): ConflictNotice {
+  const localRows = getLocalRows(state, error.table);
+
+  const changes = error.ids.map((id): ConflictEntityChange => {
+    const local: Record<string, any> = localRows.find((row) => row.id === id) || {};
+    const row = error.current.find((r) => r.id === id);
+    if (!row) {
+      return { id, name: local.name || id, deleted: true, fields: [] };
+    }
+
+    const remote: Record<string, any> = fromVersionedRow(error.table, row);
+    const fields = Object.keys(remote)
+      .filter((field) => !IGNORED_FIELDS.has(field) && field in local && !isSameValue(local[field], remote[field]))
+      .map((field) => ({ field, mine: local[field], theirs: remote[field] }));
+
+    return { id, name: remote.name || local.name || id, deleted: false, fields };
+  });
+
+  return { action, table: error.table, changes };
+}
+
+// Take the server's current rows from the conflict into the state
+export function applyConflictRows(state: AppState, error: ConflictError): AppState {
+  return error.ids.reduce((next, id) => {
+    const row = error.current.find((r) => r.id === id);
+    return applyRealtimeChange(
+      next,
+      row ? { table: error.table, type: 'upsert', row } : { table: error.table, type: 'delete', row: { id } }
+    );
+  }, state);
+}
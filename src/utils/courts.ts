@@ -0,0 +1,39 @@
+import { Court, Team } from '../types';
+
+// Convert index to letter (0 -> A, 1 -> B, ..., 25 -> Z, 26 -> AA, etc.)
+export function indexToLetter(index: number): string {
+  let result = '';
+  let num = index;
+  while (num >= 0) {
+    result = String.fromCharCode(65 + (num % 26)) + result;
+    num = Math.floor(num / 26) - 1;
+  }
+  return result;
+}
+
+export function createInitialCourts(count: number): Court[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `court-${i}`,
+    index: i + 1,
+    name: indexToLetter(i),
+    status: 'available' as const,
+    timerMs: 0,
+    currentTeamId: null,
+    isPaused: false,
+  }));
+}
+
+// Courts follow the playing teams; a court already showing its team keeps its timer
+export function assignPlayingTeams(courts: Court[], teams: Team[]): Court[] {
+  return courts.map((court) => {
+    const playingTeam = teams.find((t) => t.state === 'playing' && t.assignedCourtId === court.id);
+    if (playingTeam) {
+      return court.currentTeamId === playingTeam.id
+        ? court
+        : { ...court, status: 'occupied' as const, currentTeamId: playingTeam.id, timerMs: 0, isPaused: false };
+    }
+    return court.status === 'available'
+      ? court
+      : { ...court, status: 'available' as const, currentTeamId: null, timerMs: 0, isPaused: false };
+  });
+}
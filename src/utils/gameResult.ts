@@ -0,0 +1,45 @@
+import { GameRecord, GameResult, GameSide, SetScore, TeamPairing } from '../types';
+
+// Side with more sets won, or null when the sets are level
+export function getSetWinner(sets: SetScore[]): GameSide | null {
+  const setsA = sets.filter((set) => set.a > set.b).length;
+  const setsB = sets.filter((set) => set.b > set.a).length;
+  if (setsA === setsB) return null;
+  return setsA > setsB ? 'A' : 'B';
+}
+
+// "21-17" or "21-17, 18-21, 21-19"; empty when no set was recorded
+export function formatSets(sets: SetScore[]): string {
+  return sets.map((set) => `${set.a}-${set.b}`).join(', ');
+}
+
+// Which side a player was on, or null for unpaired teams
+export function getPlayerSide(pairing: TeamPairing | null | undefined, playerId: string): GameSide | null {
+  if (!pairing) return null;
+  if (pairing.sideA.includes(playerId)) return 'A';
+  if (pairing.sideB.includes(playerId)) return 'B';
+  return null;
+}
+
+// Win/loss of a player in a recorded game; null when no winner was recorded
+export function getPlayerOutcome(game: GameRecord, playerId: string): 'win' | 'loss' | null {
+  const winner = game.result?.winner;
+  const side = getPlayerSide(game.pairing, playerId);
+  if (!winner || !side) return null;
+  return side === winner ? 'win' : 'loss';
+}
+
+// Keep only well-formed sets and a valid winner from stored JSON
+export function parseGameResult(raw: any): GameResult | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const sets: SetScore[] = Array.isArray(raw.sets)
+    ? raw.sets
+        .filter((set: any) => Number.isInteger(set?.a) && Number.isInteger(set?.b) && set.a >= 0 && set.b >= 0)
+        .map((set: any) => ({ a: set.a, b: set.b }))
+    : [];
+  const winner: GameSide | null = raw.winner === 'A' || raw.winner === 'B' ? raw.winner : null;
+
+  if (sets.length === 0 && !winner) return null;
+  return { sets, winner };
+}
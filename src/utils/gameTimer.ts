@@ -0,0 +1,55 @@
+import { Team } from '../types';
+
+export type GameTimerPhase = 'normal' | 'warning' | 'overtime';
+
+// Courts switch to the warning state this long before the time limit
+export const WARNING_BEFORE_MS = 2 * 60 * 1000;
+export const EXTENSION_STEP_MIN = 5;
+
+export interface GameTimer {
+  elapsedMs: number;
+  limitMs: number; // Session game duration plus this game's extension
+  remainingMs: number; // Negative once the game is in overtime
+  phase: GameTimerPhase;
+}
+
+export function getGameTimer(
+  team: Pick<Team, 'startedAt' | 'extensionMin'>,
+  gameDurationMin: number,
+  now: number
+): GameTimer {
+  const elapsedMs = team.startedAt ? Math.max(0, now - new Date(team.startedAt).getTime()) : 0;
+  const limitMs = (gameDurationMin + (team.extensionMin || 0)) * 60 * 1000;
+  const remainingMs = limitMs - elapsedMs;
+
+  let phase: GameTimerPhase = 'normal';
+  if (remainingMs <= 0) phase = 'overtime';
+  else if (remainingMs <= WARNING_BEFORE_MS) phase = 'warning';
+
+  return { elapsedMs, limitMs, remainingMs, phase };
+}
+
+// Short double beep through WebAudio; silently does nothing where audio is unavailable or blocked
+export function playAlertBeep() {
+  try {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    const context: AudioContext = new AudioContextClass();
+    [0, 0.3].forEach((offset) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'square';
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.15, context.currentTime + offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + offset + 0.2);
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(context.currentTime + offset);
+      oscillator.stop(context.currentTime + offset + 0.2);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    console.error('Failed to play alert sound:', error);
+  }
+}
@@ -0,0 +1,57 @@
+import { AppState } from '../types';
+
+// IndexedDB database kept on this device: the mutation outbox and the last known app state.
+// IndexedDB (not localStorage) so Dates survive and the outbox can grow past a few MB.
+const DB_NAME = 'addicton';
+const DB_VERSION = 1;
+
+export const OUTBOX_STORE = 'outbox';
+const SNAPSHOT_STORE = 'snapshot';
+const SNAPSHOT_KEY = 'state';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openLocalDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The parts of the state worth restoring after a reload without a connection
+export type StateSnapshot = Omit<AppState, 'auditLogs' | 'lastMatch'>;
+
+export async function saveStateSnapshot(state: AppState): Promise<void> {
+  const { auditLogs, lastMatch, ...snapshot } = state;
+  const db = await openLocalDb();
+  await requestToPromise(db.transaction(SNAPSHOT_STORE, 'readwrite').objectStore(SNAPSHOT_STORE).put(snapshot, SNAPSHOT_KEY));
+}
+
+export async function loadStateSnapshot(): Promise<StateSnapshot | null> {
+  const db = await openLocalDb();
+  const snapshot = await requestToPromise(db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).get(SNAPSHOT_KEY));
+  return (snapshot as StateSnapshot | undefined) || null;
+}
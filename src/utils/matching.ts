@@ -1,4 +1,18 @@
-import { Player, Team } from '../types';
+import {
+  Player,
+  Team,
+  TeamPairing,
+  GameType,
+  ScoringModel,
+  RatingSource,
+  OptimizerWeights,
+  MatchReason,
+  MatchExplanation,
+  TeamMatchExplanation,
+  PlayerMatchExplanation,
+} from '../types';
+import { optimizeTeams, evaluateTeams, seedFromIds, DEFAULT_OPTIMIZER_WEIGHTS, CostBreakdown, OptimizerProblem } from './teamOptimizer';
+import { ratingToScore } from './rating';
 
 // Fisher-Yates shuffle algorithm
 function shuffleArray<T>(array: T[]): T[] {
@@ -10,10 +24,10 @@ function shuffleArray<T>(array: T[]): T[] {
   return shuffled;
 }
 
-// Calculate player skill score based on rank and gender
-function calculatePlayerScore(player: Player): number {
-  // Rank scoring (S is highest)
-  const rankScores: Record<string, number> = {
+// Default skill scoring: rank points (S is highest), a middle score for unranked
+// players, and a gender multiplier. Admins can override this in the matching settings.
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  rankScores: {
     'S': 7,
     'A': 6,
     'B': 5,
@@ -21,21 +35,75 @@ function calculatePlayerScore(player: Player): number {
     'D': 3,
     'E': 2,
     'F': 1,
-  };
-  
-  const baseScore = player.rank ? rankScores[player.rank] : 3.5; // Default to middle
-  
-  // Gender multiplier
-  const genderMultiplier = player.gender === '남' ? 1.2 : player.gender === '여' ? 0.9 : 1.0;
+  },
+  unrankedScore: 3.5,
+  genderMultipliers: {
+    '남': 1.2,
+    '여': 0.9,
+  },
+};
+
+// Read a scoring model saved in settings, falling back to defaults for missing or invalid values
+export function parseScoringModel(raw: string | null | undefined): ScoringModel {
+  if (!raw) return DEFAULT_SCORING_MODEL;
+
+  try {
+    const parsed = JSON.parse(raw);
+    const pick = (value: unknown, fallback: number) =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+    const rankScores = { ...DEFAULT_SCORING_MODEL.rankScores };
+    (Object.keys(rankScores) as (keyof typeof rankScores)[]).forEach((rank) => {
+      rankScores[rank] = pick(parsed.rankScores?.[rank], rankScores[rank]);
+    });
+
+    return {
+      rankScores,
+      unrankedScore: pick(parsed.unrankedScore, DEFAULT_SCORING_MODEL.unrankedScore),
+      genderMultipliers: {
+        '남': pick(parsed.genderMultipliers?.['남'], DEFAULT_SCORING_MODEL.genderMultipliers['남']),
+        '여': pick(parsed.genderMultipliers?.['여'], DEFAULT_SCORING_MODEL.genderMultipliers['여']),
+      },
+    };
+  } catch (error) {
+    console.error('Failed to parse scoring model, using defaults:', error);
+    return DEFAULT_SCORING_MODEL;
+  }
+}
+
+// Calculate player skill score based on rank and gender
+export function calculatePlayerScore(player: Player, model: ScoringModel = DEFAULT_SCORING_MODEL): number {
+  const baseScore = player.rank ? model.rankScores[player.rank] : model.unrankedScore;
+  const genderMultiplier = player.gender ? model.genderMultipliers[player.gender] : 1.0;
   
   return baseScore * genderMultiplier;
 }
 
+export type PlayerScorer = (player: Player) => number;
+
+// Skill score used for balancing: the manual rank, the computed rating, or the average of both.
+// Players without a rating always fall back to their rank.
+export function createPlayerScorer(
+  model: ScoringModel = DEFAULT_SCORING_MODEL,
+  ratingSource: RatingSource = 'rank',
+  ratings: Record<string, number> = {}
+): PlayerScorer {
+  return (player) => {
+    const rankScore = calculatePlayerScore(player, model);
+    const rating = ratings[player.id];
+    if (ratingSource === 'rank' || rating === undefined) return rankScore;
+
+    const genderMultiplier = player.gender ? model.genderMultipliers[player.gender] : 1.0;
+    const ratingScore = ratingToScore(rating, model) * genderMultiplier;
+    return ratingSource === 'rating' ? ratingScore : (rankScore + ratingScore) / 2;
+  };
+}
+
 // Balance teams by distributing players in a snake draft pattern
-function balanceTeams(players: Player[], teamSize: number, numTeams: number): Player[][] {
+function balanceTeams(players: Player[], teamSize: number, numTeams: number, score: PlayerScorer): Player[][] {
   // Sort by score to group similar skilled players
   const sortedByScore = [...players].sort((a, b) => {
-    return calculatePlayerScore(b) - calculatePlayerScore(a);
+    return score(b) - score(a);
   });
 
   // Group similar skilled players into teams
@@ -57,11 +125,129 @@ function balanceTeams(players: Player[], teamSize: number, numTeams: number): Pl
   return teams;
 }
 
+// Check a team's gender makeup against the session game type.
+// Players without a gender are treated as flexible and can fill either side.
+export function isValidComposition(team: Player[], gameType: GameType): boolean {
+  const men = team.filter((p) => p.gender === '남').length;
+  const women = team.filter((p) => p.gender === '여').length;
+
+  switch (gameType) {
+    case 'mixed':
+      return men <= team.length / 2 && women <= team.length / 2;
+    case 'same_gender':
+      return men === 0 || women === 0;
+    case 'avoid_3_1':
+      if (team.length !== 4) return true;
+      return !((men === 3 && women === 1) || (men === 1 && women === 3));
+    default:
+      return true;
+  }
+}
+
+// How far down the waiting order we look for players to complete a team
+const SELECTION_WINDOW = 16;
+
+// Pick the earliest-ranked valid team that includes the first candidate, or null if none exists
+function findTeamWithAnchor(candidates: Player[], teamSize: number, gameType: GameType): Player[] | null {
+  const [anchor, ...rest] = candidates;
+
+  const pick = (start: number, team: Player[]): Player[] | null => {
+    if (team.length === teamSize) {
+      return isValidComposition(team, gameType) ? team : null;
+    }
+    for (let i = start; i < rest.length; i++) {
+      const result = pick(i + 1, [...team, rest[i]]);
+      if (result) return result;
+    }
+    return null;
+  };
+
+  return pick(0, [anchor]);
+}
+
+// Build teams in waiting order while respecting the game type.
+// Players that can't be placed in any valid team are skipped and reported.
+function selectTeamsForGameType(
+  sorted: Player[],
+  teamSize: number,
+  numTeams: number,
+  gameType: GameType
+): { teams: Player[][]; skippedPlayerIds: string[] } {
+  let pool = [...sorted];
+  const teams: Player[][] = [];
+  const skippedPlayerIds: string[] = [];
+
+  while (teams.length < numTeams && pool.length >= teamSize) {
+    const team = findTeamWithAnchor(pool.slice(0, SELECTION_WINDOW), teamSize, gameType);
+
+    if (!team) {
+      // The first player in line can't form a valid team - skip them
+      skippedPlayerIds.push(pool[0].id);
+      pool = pool.slice(1);
+      continue;
+    }
+
+    teams.push(team);
+    const teamIds = new Set(team.map((p) => p.id));
+    pool = pool.filter((p) => !teamIds.has(p.id));
+  }
+
+  // Courts are still open, so whoever is left was held back by the game type too
+  if (teams.length < numTeams) {
+    skippedPlayerIds.push(...pool.map((p) => p.id));
+  }
+
+  return { teams, skippedPlayerIds };
+}
+
+// Re-slot players across teams by skill while keeping each team's gender makeup
+function balanceWithinGenders(teams: Player[][], score: PlayerScorer): Player[][] {
+  const genderKey = (p: Player) => p.gender || 'none';
+  const byScore = (a: Player, b: Player) => score(b) - score(a);
+
+  const groups: Record<string, Player[]> = {};
+  teams.flat().forEach((p) => {
+    (groups[genderKey(p)] = groups[genderKey(p)] || []).push(p);
+  });
+  Object.values(groups).forEach((group) => group.sort(byScore));
+
+  return teams.map((team) =>
+    team.map((p) => groups[genderKey(p)].shift()!)
+  );
+}
+
+// How many players past the selected ones the optimizer may swap into a team
+const BENCH_WINDOW = 4;
+
+export interface AutoMatchOptions {
+  gameType?: GameType;
+  scoringModel?: ScoringModel;
+  ratingSource?: RatingSource; // Whether skill comes from the manual rank, the computed rating or both
+  ratings?: Record<string, number>; // Current rating per player id (players without one use their rank)
+  optimizerWeights?: OptimizerWeights;
+  seed?: number; // Optimizer seed; defaults to one derived from the waiting pool
+  avoidGroups?: string[][]; // Groupings the optimizer should steer away from (used for alternative proposals)
+}
+
+export interface AutoMatchResult {
+  teams: Team[];
+  remainingPlayerIds: string[];
+  unplacedPlayerIds: string[];
+  explanation: MatchExplanation;
+  cost: CostBreakdown | null; // Weighted optimizer cost of the teams (null when no team was made)
+}
+
 export function autoMatch(
   players: Player[],
   teamSize: number,
-  maxTeams?: number
-): { teams: Team[]; remainingPlayerIds: string[] } {
+  maxTeams?: number,
+  options: AutoMatchOptions = {}
+): AutoMatchResult {
+  const gameType = options.gameType || 'free';
+  const scoringModel = options.scoringModel || DEFAULT_SCORING_MODEL;
+  const optimizerWeights = options.optimizerWeights || DEFAULT_OPTIMIZER_WEIGHTS;
+  const score = createPlayerScorer(scoringModel, options.ratingSource, options.ratings);
+
   // Filter eligible players (waiting or priority only, NOT resting/playing/queued)
   const eligible = players.filter(
     (p) => p.state === 'waiting' || p.state === 'priority'
@@ -90,18 +276,59 @@ export function autoMatch(
   const numTeams = maxTeams !== undefined ? Math.min(possibleTeams, maxTeams) : possibleTeams;
   
   if (numTeams === 0) {
-    return { teams: [], remainingPlayerIds: sorted.map(p => p.id) };
+    const reason: MatchReason = possibleTeams === 0 ? 'not_enough_players' : 'courts_full';
+    return {
+      teams: [],
+      remainingPlayerIds: sorted.map(p => p.id),
+      unplacedPlayerIds: [],
+      explanation: buildExplanation({ sorted, teams: [], teamPlayers: [], gameType, score, reasonFor: () => reason }),
+      cost: null,
+    };
+  }
+
+  let balancedTeams: Player[][];
+  let skippedPlayerIds: string[] = [];
+
+  if (gameType === 'free') {
+    // Get players for matching (numTeams * teamSize)
+    const playersToMatch = sorted.slice(0, numTeams * teamSize);
+
+    // Balance teams using snake draft
+    balancedTeams = balanceTeams(playersToMatch, teamSize, numTeams, score);
+  } else {
+    const selection = selectTeamsForGameType(sorted, teamSize, numTeams, gameType);
+    skippedPlayerIds = selection.skippedPlayerIds;
+
+    // Balance skill per gender so each team keeps its valid makeup
+    balancedTeams = balanceWithinGenders(selection.teams, score);
   }
 
-  // Get players for matching (numTeams * teamSize)
-  const playersToMatch = sorted.slice(0, numTeams * teamSize);
-  const remaining = sorted.slice(numTeams * teamSize);
+  // Improve on the balanced teams: skill, repeat teammates/opponents and wait time, within the game type
+  const balancedIds = new Set(balancedTeams.flat().map((p) => p.id));
+  const problem: OptimizerProblem = {
+    teams: balancedTeams,
+    bench: sorted.filter((p) => !balancedIds.has(p.id)).slice(0, BENCH_WINDOW),
+    queueOrder: sorted.map((p) => p.id),
+    weights: optimizerWeights,
+    scorePlayer: score,
+    isValidTeam: (team) => isValidComposition(team, gameType),
+    seed: options.seed,
+    avoidGroups: options.avoidGroups,
+  };
+  const optimizedTeams = optimizeTeams(problem);
 
-  // Balance teams using snake draft
-  const balancedTeams = balanceTeams(playersToMatch, teamSize, numTeams);
+  // Report anyone who was passed over: players ranked ahead of the last
+  // selected player who didn't make a team, plus anyone the game type held back
+  const selectedIds = new Set(optimizedTeams.flat().map((p) => p.id));
+  const lastSelectedIdx = sorted.reduce((last, p, idx) => (selectedIds.has(p.id) ? idx : last), -1);
+  const passedOver = sorted.slice(0, lastSelectedIdx + 1).filter((p) => !selectedIds.has(p.id)).map((p) => p.id);
+  const unplacedPlayerIds = Array.from(new Set([
+    ...passedOver,
+    ...skippedPlayerIds.filter((id) => !selectedIds.has(id)),
+  ]));
 
-  // Try to optimize teams to avoid recent teammates
-  const optimizedTeams = optimizeTeammates(balancedTeams);
+  const matchedIds = new Set(optimizedTeams.flat().map((p) => p.id));
+  const remaining = sorted.filter((p) => !matchedIds.has(p.id));
 
   // Create team objects
   const timestamp = Date.now();
@@ -109,6 +336,7 @@ export function autoMatch(
     id: `team-${timestamp}-${Math.random().toString(36).substr(2, 9)}-${idx}`,
     name: `팀 ${idx + 1}`,
     playerIds: teamPlayers.map((p) => p.id),
+    pairing: pairTeam(teamPlayers, gameType, score),
     state: 'queued',
     assignedCourtId: null,
     startedAt: null,
@@ -116,79 +344,286 @@ export function autoMatch(
     createdAt: new Date(),
   }));
 
+  // Explain every pick and every player left waiting
+  const playersToFillCount = numTeams * teamSize;
+  const skippedIds = new Set(skippedPlayerIds);
+  const unplacedIds = new Set(unplacedPlayerIds);
+  const reasonFor = (player: Player, queueIdx: number): MatchReason => {
+    if (selectedIds.has(player.id)) {
+      if (player.state === 'priority') return 'priority';
+      return queueIdx < playersToFillCount ? 'queue_order' : 'balance';
+    }
+    if (skippedIds.has(player.id)) return 'game_type';
+    return unplacedIds.has(player.id) ? 'balance' : 'courts_full';
+  };
+
+  const explanation = buildExplanation({ sorted, teams, teamPlayers: optimizedTeams, gameType, score, reasonFor });
+  explanation.avoidedRepeats = countRepeatMeetings(balancedTeams) - countRepeatMeetings(optimizedTeams);
+
   return {
     teams,
-    remainingPlayerIds: remaining.map(p => p.id)
+    remainingPlayerIds: remaining.map(p => p.id),
+    unplacedPlayerIds,
+    explanation,
+    cost: evaluateTeams(optimizedTeams, problem),
   };
 }
 
-// Try to swap players between teams to reduce recent teammate overlap
-function optimizeTeammates(teams: Player[][]): Player[][] {
-  const optimized = teams.map(t => [...t]);
-  const maxAttempts = 20;
-  
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    let madeSwap = false;
-    
-    // For each team, check if we can reduce overlap by swapping with another team
-    for (let i = 0; i < optimized.length; i++) {
-      const team = optimized[i];
-      
-      // Count overlaps in current team
-      const currentOverlap = countTeamOverlap(team);
-      
-      if (currentOverlap <= 2) continue; // Good enough
-      
-      // Try swapping with other teams
-      for (let j = i + 1; j < optimized.length; j++) {
-        const otherTeam = optimized[j];
-        
-        // Try swapping each pair of players
-        for (let pi = 0; pi < team.length; pi++) {
-          for (let pj = 0; pj < otherTeam.length; pj++) {
-            // Temporarily swap
-            const temp = team[pi];
-            team[pi] = otherTeam[pj];
-            otherTeam[pj] = temp;
-            
-            const newOverlap1 = countTeamOverlap(team);
-            const newOverlap2 = countTeamOverlap(otherTeam);
-            
-            // If swap improves things, keep it
-            if (newOverlap1 + newOverlap2 < currentOverlap + countTeamOverlap(otherTeam)) {
-              madeSwap = true;
-            } else {
-              // Swap back
-              otherTeam[pj] = team[pi];
-              team[pi] = temp;
-            }
-          }
-        }
-      }
-    }
-    
-    if (!madeSwap) break; // No more improvements possible
+// How many optimizer runs to try per requested proposal
+const PROPOSAL_ATTEMPTS_PER_RESULT = 3;
+
+// Dry run: the best few distinct matchings for the current pool, cheapest first.
+// The first proposal is the one autoMatch would pick on its own. Nothing is persisted.
+export function proposeMatches(
+  players: Player[],
+  teamSize: number,
+  maxTeams: number | undefined,
+  options: AutoMatchOptions = {},
+  count = 3
+): AutoMatchResult[] {
+  const eligibleIds = players
+    .filter((p) => p.state === 'waiting' || p.state === 'priority')
+    .map((p) => p.id)
+    .sort();
+  const baseSeed = seedFromIds(eligibleIds);
+
+  const proposals: AutoMatchResult[] = [];
+  const seen = new Set<string>();
+
+  for (let attempt = 0; attempt < count * PROPOSAL_ATTEMPTS_PER_RESULT && proposals.length < count; attempt++) {
+    // Later attempts are steered away from the teams already proposed so the candidates differ
+    const result = autoMatch(players, teamSize, maxTeams, {
+      ...options,
+      seed: attempt === 0 ? options.seed : (baseSeed + attempt) >>> 0,
+      avoidGroups: proposals.flatMap((proposal) => proposal.teams.map((team) => team.playerIds)),
+    });
+    if (result.teams.length === 0) break;
+
+    // Same teams in a different order are the same proposal
+    const signature = result.teams
+      .map((team) => [...team.playerIds].sort().join(','))
+      .sort()
+      .join('|');
+    if (seen.has(signature)) continue;
+
+    seen.add(signature);
+    proposals.push(result);
   }
-  
-  return optimized;
+
+  return proposals.sort((a, b) => (a.cost?.total ?? 0) - (b.cost?.total ?? 0));
 }
 
-// Count how many pairs of players in a team have played together before
-function countTeamOverlap(team: Player[]): number {
+// Total previous meetings (as teammates or opponents) between players sharing a team
+function countRepeatMeetings(teams: Player[][]): number {
   let count = 0;
-  for (let i = 0; i < team.length; i++) {
-    const player = team[i];
-    if (!player.teammateHistory) continue;
-    
-    for (let j = i + 1; j < team.length; j++) {
-      if (player.teammateHistory[team[j].id]) {
-        count++;
+  for (const team of teams) {
+    for (let i = 0; i < team.length; i++) {
+      for (let j = i + 1; j < team.length; j++) {
+        count += (team[i].teammateHistory?.[team[j].id] || 0) + (team[i].opponentHistory?.[team[j].id] || 0);
       }
     }
   }
   return count;
 }
 
+function buildExplanation({
+  sorted,
+  teams,
+  teamPlayers,
+  gameType,
+  score,
+  reasonFor,
+}: {
+  sorted: Player[];
+  teams: Team[];
+  teamPlayers: Player[][];
+  gameType: GameType;
+  score: PlayerScorer;
+  reasonFor: (player: Player, queueIdx: number) => MatchReason;
+}): MatchExplanation {
+  const now = new Date();
+
+  const teamExplanations: Record<string, TeamMatchExplanation> = {};
+  const teamIdByPlayer: Record<string, string> = {};
+
+  teams.forEach((team, idx) => {
+    const members = teamPlayers[idx];
+    const scores = members.map(score);
+    members.forEach((p) => {
+      teamIdByPlayer[p.id] = team.id;
+    });
+
+    let repeatTeammates = 0;
+    let repeatOpponents = 0;
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        repeatTeammates += members[i].teammateHistory?.[members[j].id] || 0;
+        repeatOpponents += members[i].opponentHistory?.[members[j].id] || 0;
+      }
+    }
+
+    const sides = getPairedSides(team, members);
+    const sideScore = (side: Player[]) => side.reduce((sum, p) => sum + score(p), 0);
+
+    teamExplanations[team.id] = {
+      teamId: team.id,
+      averageScore: scores.reduce((sum, s) => sum + s, 0) / scores.length,
+      skillSpread: Math.max(...scores) - Math.min(...scores),
+      sideGap: sides ? Math.abs(sideScore(sides[0]) - sideScore(sides[1])) : null,
+      repeatTeammates,
+      repeatOpponents,
+    };
+  });
+
+  const playerExplanations: Record<string, PlayerMatchExplanation> = {};
+  sorted.forEach((player, idx) => {
+    playerExplanations[player.id] = {
+      playerId: player.id,
+      teamId: teamIdByPlayer[player.id] || null,
+      reason: reasonFor(player, idx),
+      queuePosition: idx + 1,
+      wasPriority: player.state === 'priority',
+      gameCount: player.gameCount,
+      restMinutes: player.lastGameEndAt
+        ? Math.floor((now.getTime() - player.lastGameEndAt.getTime()) / 60000)
+        : null,
+    };
+  });
+
+  return {
+    createdAt: now,
+    gameType,
+    avoidedRepeats: 0,
+    teams: teamExplanations,
+    players: playerExplanations,
+  };
+}
+
+// Penalty (in score units) for each previous game a pair has already played together
+const PARTNER_REPEAT_PENALTY = 0.5;
+
+// Penalty (in score units) for each previous game two players have already played against each other
+const OPPONENT_REPEAT_PENALTY = 0.25;
+
+// Split a 4-player team into side A / side B, minimizing the skill gap between the pairs
+// and preferring partners who haven't played together often.
+// In mixed mode each side gets one man and one woman whenever the team allows it.
+export function pairTeam(
+  players: Player[],
+  gameType: GameType = 'free',
+  score: PlayerScorer = createPlayerScorer()
+): TeamPairing | null {
+  if (players.length !== 4) return null;
+
+  const [p0, p1, p2, p3] = players;
+  const splits: [Player[], Player[]][] = [
+    [[p0, p1], [p2, p3]],
+    [[p0, p2], [p1, p3]],
+    [[p0, p3], [p1, p2]],
+  ];
+
+  const isMixedSide = (side: Player[]) => isValidComposition(side, 'mixed');
+  const mixedSplits = splits.filter(([sideA, sideB]) => isMixedSide(sideA) && isMixedSide(sideB));
+  const candidates = gameType === 'mixed' && mixedSplits.length > 0 ? mixedSplits : splits;
+
+  let bestSplit = candidates[0];
+  let bestCost = Infinity;
+  for (const split of candidates) {
+    const cost = pairingCost(split[0], split[1], score);
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestSplit = split;
+    }
+  }
+
+  return {
+    sideA: bestSplit[0].map((p) => p.id),
+    sideB: bestSplit[1].map((p) => p.id),
+  };
+}
+
+function pairingCost(sideA: Player[], sideB: Player[], score: PlayerScorer): number {
+  const sideScore = (side: Player[]) => side.reduce((sum, p) => sum + score(p), 0);
+  const partnerRepeats = (side: Player[]) => side[0].teammateHistory?.[side[1].id] || 0;
+  const opponentRepeats = sideA.reduce(
+    (sum, a) => sum + sideB.reduce((inner, b) => inner + (a.opponentHistory?.[b.id] || 0), 0),
+    0
+  );
+
+  const skillGap = Math.abs(sideScore(sideA) - sideScore(sideB));
+  return skillGap
+    + (partnerRepeats(sideA) + partnerRepeats(sideB)) * PARTNER_REPEAT_PENALTY
+    + opponentRepeats * OPPONENT_REPEAT_PENALTY;
+}
+
+// Who a player played with and against in a team's game.
+// Without a pairing the sides are unknown, so every other player counts as a teammate.
+export function getGameRelations(team: Team, playerId: string): { teammates: string[]; opponents: string[] } {
+  const pairing = team.pairing;
+  if (pairing) {
+    if (pairing.sideA.includes(playerId)) {
+      return { teammates: pairing.sideA.filter((id) => id !== playerId), opponents: pairing.sideB };
+    }
+    if (pairing.sideB.includes(playerId)) {
+      return { teammates: pairing.sideB.filter((id) => id !== playerId), opponents: pairing.sideA };
+    }
+  }
+
+  return { teammates: team.playerIds.filter((id) => id !== playerId), opponents: [] };
+}
+
+// Rotate to the next of the three possible splits (used by admins to edit a pairing)
+export function nextPairing(pairing: TeamPairing): TeamPairing {
+  const [anchor, partner] = pairing.sideA;
+  const [other1, other2] = pairing.sideB;
+  return {
+    sideA: [anchor, other1],
+    sideB: [other2, partner],
+  };
+}
+
+// Resolve a team's pairing into [side A players, side B players], or null if it has none
+export function getPairedSides(team: Team, players: Player[]): [Player[], Player[]] | null {
+  if (!team.pairing) return null;
+
+  const resolve = (ids: string[]) =>
+    ids.map((id) => players.find((p) => p.id === id)).filter((p): p is Player => !!p);
+  const sideA = resolve(team.pairing.sideA);
+  const sideB = resolve(team.pairing.sideB);
+
+  if (sideA.length !== 2 || sideB.length !== 2) return null;
+  return [sideA, sideB];
+}
+
+// Keep an existing pairing valid after players were swapped in or out of the team.
+// Replaced players take over the slot of the player they replaced.
+export function reconcilePairing(
+  pairing: TeamPairing | null | undefined,
+  oldPlayerIds: string[],
+  newPlayerIds: string[]
+): TeamPairing | null {
+  if (!pairing || newPlayerIds.length !== 4) return null;
+
+  const removed = oldPlayerIds.filter((id) => !newPlayerIds.includes(id));
+  const added = newPlayerIds.filter((id) => !oldPlayerIds.includes(id));
+  if (removed.length !== added.length) return null;
+
+  const replace = (id: string) => {
+    const idx = removed.indexOf(id);
+    return idx === -1 ? id : added[idx];
+  };
+
+  const reconciled = {
+    sideA: pairing.sideA.map(replace),
+    sideB: pairing.sideB.map(replace),
+  };
+
+  // Bail out if the pairing no longer covers exactly the team's players
+  const covered = [...reconciled.sideA, ...reconciled.sideB];
+  const isValid = covered.length === 4 && newPlayerIds.every((id) => covered.includes(id));
+  return isValid ? reconciled : null;
+}
+
 export function updatePriorityStatus(players: Player[]): Player[] {
   const gameCounts = players
     .filter((p) => p.state !== 'resting')
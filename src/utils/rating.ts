@@ -0,0 +1,148 @@
+import { GameRecord, Member, Player, Rank, RatingHistoryEntry, ScoringModel } from '../types';
+import { getSetWinner } from './gameResult';
+
+// Starting rating for each manual rank, so a new rating begins where the rank already puts the member
+export const RANK_RATINGS: Record<Rank, number> = {
+  'S': 1800,
+  'A': 1700,
+  'B': 1600,
+  'C': 1500,
+  'D': 1400,
+  'E': 1300,
+  'F': 1200,
+};
+export const UNRANKED_RATING = 1450;
+
+// K-factor shrinks as a member plays more rated games (Glicko-style: less uncertainty, smaller moves)
+const K_MAX = 48;
+const K_MIN = 16;
+const K_DECAY_PER_GAME = 2;
+
+// Winning by a wider point margin moves ratings up to this much more
+const MAX_MARGIN_BONUS = 0.5;
+const MARGIN_FOR_MAX_BONUS = 21;
+
+export function getInitialRating(rank?: Rank): number {
+  return rank ? RANK_RATINGS[rank] : UNRANKED_RATING;
+}
+
+export function getMemberRating(member: Member): number {
+  return member.rating ?? getInitialRating(member.rank);
+}
+
+function kFactor(ratedGames: number): number {
+  return Math.max(K_MIN, K_MAX - ratedGames * K_DECAY_PER_GAME);
+}
+
+// Chance that side A beats side B given the average rating of each pair
+function expectedScore(ratingA: number, ratingB: number): number {
+  return 1 / (1 + Math.pow(10, (ratingB - ratingA) / 400));
+}
+
+// Linked member of a player: by id, or by name for players registered before the link existed
+export function findMemberForPlayer(
+  player: Pick<Player, 'name' | 'memberId'>,
+  members: Member[]
+): Member | undefined {
+  if (player.memberId) {
+    const linked = members.find((m) => m.id === player.memberId);
+    if (linked) return linked;
+  }
+  return members.find((m) => m.name === player.name);
+}
+
+// Current rating of every player that belongs to a member, keyed by player id
+export function getPlayerRatings(players: Player[], members: Member[]): Record<string, number> {
+  const ratings: Record<string, number> = {};
+  players.forEach((player) => {
+    const member = findMemberForPlayer(player, members);
+    if (member && member.rating !== undefined && member.rating !== null) {
+      ratings[player.id] = member.rating;
+    }
+  });
+  return ratings;
+}
+
+export interface RatingUpdate {
+  memberId: string;
+  ratingBefore: number;
+  ratingAfter: number;
+  ratedGames: number; // Rated games including this one
+}
+
+// Rating changes for the members of a finished doubles game.
+// Each side is rated by its average, so a strong partner lowers what a win is worth
+// and strong opponents raise it. Returns [] when the game has no winner or pairing.
+export function computeRatingUpdates(game: GameRecord, players: Player[], members: Member[]): RatingUpdate[] {
+  const winner = game.result?.winner ?? (game.result ? getSetWinner(game.result.sets) : null);
+  if (!winner || !game.pairing) return [];
+
+  const resolveSide = (ids: string[]) =>
+    ids.map((id) => {
+      const player = players.find((p) => p.id === id);
+      return player ? findMemberForPlayer(player, members) : undefined;
+    });
+  const sideA = resolveSide(game.pairing.sideA);
+  const sideB = resolveSide(game.pairing.sideB);
+
+  // Guests without a member record still count toward side strength at the unranked rating
+  const sideRating = (side: (Member | undefined)[]) =>
+    side.reduce((sum, member) => sum + (member ? getMemberRating(member) : UNRANKED_RATING), 0) / side.length;
+  const ratingA = sideRating(sideA);
+  const ratingB = sideRating(sideB);
+
+  // Points the winner scored over the loser; a side that won the sets but not the points gets no bonus
+  const setMargin = (game.result?.sets || []).reduce((sum, set) => sum + (set.a - set.b), 0);
+  const pointMargin = Math.max(0, winner === 'A' ? setMargin : -setMargin);
+  const marginMultiplier = 1 + MAX_MARGIN_BONUS * Math.min(pointMargin, MARGIN_FOR_MAX_BONUS) / MARGIN_FOR_MAX_BONUS;
+
+  const updates: RatingUpdate[] = [];
+  const rateSide = (side: (Member | undefined)[], own: number, other: number, won: boolean) => {
+    const delta = (won ? 1 : 0) - expectedScore(own, other);
+    side.forEach((member) => {
+      if (!member) return;
+      const before = getMemberRating(member);
+      const ratedGames = member.ratingGames || 0;
+      updates.push({
+        memberId: member.id,
+        ratingBefore: before,
+        ratingAfter: Math.round((before + kFactor(ratedGames) * marginMultiplier * delta) * 10) / 10,
+        ratedGames: ratedGames + 1,
+      });
+    });
+  };
+  rateSide(sideA, ratingA, ratingB, winner === 'A');
+  rateSide(sideB, ratingB, ratingA, winner === 'B');
+
+  return updates;
+}
+
+export function toRatingHistoryEntries(updates: RatingUpdate[], gameId: string, createdAt: Date): RatingHistoryEntry[] {
+  return updates.map((update) => ({
+    id: `rating-${createdAt.getTime()}-${update.memberId}`,
+    memberId: update.memberId,
+    gameId,
+    ratingBefore: update.ratingBefore,
+    ratingAfter: update.ratingAfter,
+    createdAt,
+  }));
+}
+
+// Convert a rating to the scoring model's rank-score scale by interpolating between the rank ratings
+export function ratingToScore(rating: number, model: ScoringModel): number {
+  const points = (Object.keys(RANK_RATINGS) as Rank[])
+    .map((rank) => ({ rating: RANK_RATINGS[rank], score: model.rankScores[rank] }))
+    .sort((a, b) => a.rating - b.rating);
+
+  // Below the lowest or above the highest rank, extend the nearest segment
+  let lower = points[0];
+  let upper = points[1];
+  for (let i = 1; i < points.length; i++) {
+    lower = points[i - 1];
+    upper = points[i];
+    if (rating <= upper.rating) break;
+  }
+
+  const t = (rating - lower.rating) / (upper.rating - lower.rating);
+  return Math.max(0, lower.score + t * (upper.score - lower.score));
+}
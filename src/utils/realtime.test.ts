@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AppState, Player } from '../types';
+import type { StoredPlayer } from '../supabase/functions/_shared/schemas';
+import { fromPlayerRow, toTeamRow } from './api/rows';
+import { createInitialCourts } from './courts';
+import { DEFAULT_SCORING_MODEL } from './matching';
+import { DEFAULT_OPTIMIZER_WEIGHTS } from './teamOptimizer';
+import { applyRealtimeChange, createLocalRealtimeSource, LocalRealtimeSource, RealtimeChange, RealtimeStatus } from './realtime';
+import recordedPools from './__fixtures__/playerPools.json';
+
+// Only the local source is under test; the Supabase client would open a connection
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const playerRows = (recordedPools as unknown as { label: string; players: StoredPlayer[] }[])[0].players.slice(0, 8);
+
+function initialState(): AppState {
+  return {
+    session: {
+      id: 'session-1',
+      name: '수요 정모',
+      date: '2026-10-18',
+      courtsCount: 2,
+      teamSize: 4,
+      gameDurationMin: 15,
+      autoSeatNext: true,
+      gameType: 'free',
+      ratingSource: 'rank',
+      createdAt: new Date('2026-10-18T09:00:00.000Z'),
+    },
+    members: [],
+    players: playerRows.map(fromPlayerRow),
+    teams: [],
+    courts: createInitialCourts(2),
+    games: [],
+    auditLogs: [],
+    scoringModel: DEFAULT_SCORING_MODEL,
+    optimizerWeights: DEFAULT_OPTIMIZER_WEIGHTS,
+  };
+}
+
+// A device as useGameState runs it: its own edits go into its state right away, pushed changes are merged
+function connectClient(source: LocalRealtimeSource) {
+  const client = {
+    state: initialState(),
+    status: null as RealtimeStatus | null,
+    edit(update: (state: AppState) => AppState) {
+      client.state = update(client.state);
+    },
+    unsubscribe: () => {},
+  };
+  client.unsubscribe = source.subscribe(
+    (change) => {
+      client.state = applyRealtimeChange(client.state, change);
+    },
+    (status) => {
+      client.status = status;
+    }
+  );
+  return client;
+}
+
+// The row the database writes back for an edited player, one version further
+function playerChange(player: Player, updates: Partial<StoredPlayer>): RealtimeChange {
+  const row = playerRows.find((p) => p.id === player.id)!;
+  return { table: 'players', type: 'upsert', row: { ...row, ...updates, version: (player.version ?? 0) + 1 } };
+}
+
+describe('createLocalRealtimeSource', () => {
+  it('brings two clients to the same state after one of them edits a player', () => {
+    const source = createLocalRealtimeSource();
+    const a = connectClient(source);
+    const b = connectClient(source);
+    const player = a.state.players[0];
+
+    a.edit((state) => ({
+      ...state,
+      players: state.players.map((p) => (p.id === player.id ? { ...p, state: 'resting' as const } : p)),
+    }));
+    expect(a.state).not.toEqual(b.state);
+
+    source.emit(playerChange(player, { state: 'resting' }));
+
+    expect(b.state.players.find((p) => p.id === player.id)?.state).toBe('resting');
+    expect(a.state).toEqual(b.state);
+  });
+
+  it('brings both clients to the same courts and session after teams and settings change', () => {
+    const source = createLocalRealtimeSource();
+    const a = connectClient(source);
+    const b = connectClient(source);
+    const [p1, p2, p3, p4, p5, p6, p7, p8] = a.state.players.map((p) => p.id);
+    const createdAt = new Date('2026-10-18T12:00:00.000Z');
+    const playing = {
+      id: 'team-1',
+      name: '팀 1',
+      playerIds: [p1, p2, p3, p4],
+      state: 'playing' as const,
+      assignedCourtId: 'court-1',
+      startedAt: createdAt,
+      endedAt: null,
+      createdAt,
+    };
+    const queued = { ...playing, id: 'team-2', name: '팀 2', playerIds: [p5, p6, p7, p8], state: 'queued' as const, assignedCourtId: null, startedAt: null };
+
+    const changes: RealtimeChange[] = [
+      { table: 'teams', type: 'upsert', row: { ...toTeamRow(playing), version: 1 } },
+      { table: 'teams', type: 'upsert', row: { ...toTeamRow(queued), version: 1 } },
+      { table: 'settings', type: 'upsert', row: { key: 'courts_count', value: '3' } },
+      { table: 'settings', type: 'upsert', row: { key: 'game_type', value: 'mixed' } },
+      { table: 'teams', type: 'upsert', row: { ...toTeamRow({ ...queued, state: 'playing', assignedCourtId: 'court-2', startedAt: createdAt }), version: 2 } },
+      { table: 'teams', type: 'delete', row: { id: 'team-1' } },
+    ];
+    changes.forEach((change) => source.emit(change));
+
+    expect(a.state).toEqual(b.state);
+    expect(a.state.teams.map((t) => t.id)).toEqual(['team-2']);
+    expect(a.state.session?.courtsCount).toBe(3);
+    expect(a.state.session?.gameType).toBe('mixed');
+    expect(a.state.courts.find((c) => c.id === 'court-2')?.currentTeamId).toBe('team-2');
+    expect(a.state.courts.find((c) => c.id === 'court-1')?.currentTeamId).toBeNull();
+  });
+
+  it('ends in the same state when a change arrives twice', () => {
+    const source = createLocalRealtimeSource();
+    const a = connectClient(source);
+    const player = a.state.players[1];
+    const change = playerChange(player, { state: 'resting', game_count: 7 });
+
+    source.emit(change);
+    const once = a.state;
+    source.emit(change);
+
+    expect(a.state).toEqual(once);
+  });
+
+  it('keeps a newer row when an older write of it arrives late', () => {
+    const source = createLocalRealtimeSource();
+    const a = connectClient(source);
+    const player = a.state.players[3];
+    const first = playerChange(player, { state: 'resting' });
+    const second = playerChange({ ...player, version: (player.version ?? 0) + 1 }, { state: 'waiting' });
+
+    source.emit(second);
+    source.emit(first);
+
+    expect(a.state.players.find((p) => p.id === player.id)).toMatchObject({ state: 'waiting', version: second.row.version });
+  });
+
+  it('keeps the court names when a pushed value cannot be read', () => {
+    const source = createLocalRealtimeSource();
+    const a = connectClient(source);
+    const names = a.state.courts.map((c) => c.name);
+
+    expect(() => source.emit({ table: 'settings', type: 'upsert', row: { key: 'court_names', value: '{"court-0":' } })).not.toThrow();
+    expect(a.state.courts.map((c) => c.name)).toEqual(names);
+  });
+
+  it('stops sending to a client that unsubscribed and tells the others about status changes', () => {
+    const source = createLocalRealtimeSource();
+    const a = connectClient(source);
+    const b = connectClient(source);
+    expect(a.status).toBe('connected');
+
+    b.unsubscribe();
+    source.emit(playerChange(a.state.players[2], { state: 'resting' }));
+    source.setStatus('disconnected');
+
+    expect(a.state).not.toEqual(b.state);
+    expect(a.status).toBe('disconnected');
+    expect(b.status).toBe('connected');
+  });
+});
@@ -0,0 +1,214 @@
+import { AppState, GameType, RatingSource } from '../types';
+import { supabase } from './supabaseClient';
+import { fromMemberRow, fromPlayerRow, fromTeamRow } from './api/rows';
+import type { StoredMember, StoredPlayer, StoredTeam } from '../supabase/functions/_shared/schemas';
+import { updatePriorityStatus, parseScoringModel } from './matching';
+import { parseOptimizerWeights } from './teamOptimizer';
+import { indexToLetter, assignPlayingTeams } from './courts';
+
+export type RealtimeTable = 'members' | 'players' | 'teams' | 'settings';
+
+export const REALTIME_TABLES: RealtimeTable[] = ['members', 'players', 'teams', 'settings'];
+
+// One row change pushed by the server. Rows are database rows (snake_case);
+// a delete only carries the primary key (`id`, or `key` for settings).
+export interface RealtimeChange {
+  table: RealtimeTable;
+  type: 'upsert' | 'delete';
+  row: Record<string, any>;
+}
+
+export type RealtimeStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface RealtimeSource {
+  // Returns the unsubscribe function
+  subscribe(
+    onChange: (change: RealtimeChange) => void,
+    onStatus: (status: RealtimeStatus) => void
+  ): () => void;
+}
+
+// ============= SUPABASE REALTIME =============
+
+// Postgres changes of the synced tables over one Supabase Realtime channel
+export function createSupabaseRealtimeSource(client = supabase): RealtimeSource {
+  return {
+    subscribe(onChange, onStatus) {
+      onStatus('connecting');
+      let channel = client.channel('game-state');
+
+      for (const table of REALTIME_TABLES) {
+        channel = channel.on(
+          'postgres_changes' as any,
+          { event: '*', schema: 'public', table },
+          (payload: any) => {
+            onChange(
+              payload.eventType === 'DELETE'
+                ? { table, type: 'delete', row: payload.old || {} }
+                : { table, type: 'upsert', row: payload.new || {} }
+            );
+          }
+        );
+      }
+
+      channel.subscribe((status: string) => {
+        if (status === 'SUBSCRIBED') {
+          onStatus('connected');
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          console.error(`❌ Realtime channel ${status}`);
+          onStatus('disconnected');
+        }
+      });
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+// ============= LOCAL STAND-IN =============
+
+export interface LocalRealtimeSource extends RealtimeSource {
+  emit(change: RealtimeChange): void;
+  setStatus(status: RealtimeStatus): void;
+}
+
+// In-memory broadcaster with the same interface, for tests and local development without Supabase
+export function createLocalRealtimeSource(): LocalRealtimeSource {
+  const listeners = new Set<{
+    onChange: (change: RealtimeChange) => void;
+    onStatus: (status: RealtimeStatus) => void;
+  }>();
+  let status: RealtimeStatus = 'connected';
+
+  return {
+    subscribe(onChange, onStatus) {
+      const listener = { onChange, onStatus };
+      listeners.add(listener);
+      onStatus(status);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit(change) {
+      listeners.forEach((listener) => listener.onChange(change));
+    },
+    setStatus(next) {
+      status = next;
+      listeners.forEach((listener) => listener.onStatus(next));
+    },
+  };
+}
+
+// ============= MERGING =============
+
+// A late echo of an earlier write, e.g. after a game operation's answer already brought a newer row
+function isOlderThanState(state: AppState, table: 'members' | 'players' | 'teams', row: Record<string, any>): boolean {
+  const rows: { id: string; version?: number }[] = state[table];
+  const current = rows.find((item) => item.id === row.id)?.version;
+  return typeof row.version === 'number' && current !== undefined && row.version < current;
+}
+
+function upsertById<T extends { id: string }>(items: T[], item: T): T[] {
+  const index = items.findIndex((existing) => existing.id === item.id);
+  if (index === -1) return [...items, item];
+  const updated = [...items];
+  updated[index] = item;
+  return updated;
+}
+
+function applySetting(state: AppState, key: string, rawValue: unknown): AppState {
+  const value = rawValue === null || rawValue === undefined ? undefined : String(rawValue);
+  const session = state.session;
+
+  switch (key) {
+    case 'scoring_model':
+      return { ...state, scoringModel: parseScoringModel(value) };
+    case 'optimizer_weights':
+      return { ...state, optimizerWeights: parseOptimizerWeights(value) };
+    case 'court_names': {
+      let courtNamesMap: Record<string, string>;
+      try {
+        courtNamesMap = value ? JSON.parse(value) : {};
+      } catch (error) {
+        // Thrown here it would end up in the channel's handler; keep the names there are
+        console.error('Ignoring unreadable court names:', error);
+        return state;
+      }
+      return {
+        ...state,
+        courts: state.courts.map((court) => ({ ...court, name: courtNamesMap[court.id] || court.name })),
+      };
+    }
+  }
+
+  if (!session) return state;
+
+  switch (key) {
+    case 'courts_count': {
+      const courtsCount = value ? parseInt(value, 10) : 4;
+      // Courts beyond the count stay in memory, the same as when the count is lowered locally
+      const additionalCourts = Array.from({ length: Math.max(0, courtsCount - state.courts.length) }, (_, i) => ({
+        id: `court-${state.courts.length + i}`,
+        index: state.courts.length + i + 1,
+        name: indexToLetter(state.courts.length + i),
+        status: 'available' as const,
+        timerMs: 0,
+        currentTeamId: null,
+        isPaused: false,
+      }));
+      return {
+        ...state,
+        session: { ...session, courtsCount },
+        courts: [...state.courts, ...additionalCourts],
+      };
+    }
+    case 'game_type':
+      return { ...state, session: { ...session, gameType: (value || 'free') as GameType } };
+    case 'rating_source':
+      return { ...state, session: { ...session, ratingSource: (value || 'rank') as RatingSource } };
+    case 'game_duration_min':
+      return { ...state, session: { ...session, gameDurationMin: value ? parseInt(value, 10) : 15 } };
+    case 'auto_seat_next':
+      return { ...state, session: { ...session, autoSeatNext: value !== undefined ? value === 'true' : true } };
+    default:
+      return state;
+  }
+}
+
+// Merge one pushed row change into the app state, leaving everything else untouched
+export function applyRealtimeChange(state: AppState, change: RealtimeChange): AppState {
+  if (change.table === 'settings') {
+    return change.type === 'delete'
+      ? applySetting(state, change.row.key, undefined)
+      : applySetting(state, change.row.key, change.row.value);
+  }
+
+  const id = change.row.id;
+  if (!id) return state;
+  const isUpsert = change.type === 'upsert';
+  if (isUpsert && isOlderThanState(state, change.table, change.row)) return state;
+
+  switch (change.table) {
+    case 'members': {
+      const member = isUpsert ? fromMemberRow(change.row as StoredMember) : null;
+      return {
+        ...state,
+        members: member ? upsertById(state.members, member) : state.members.filter((m) => m.id !== id),
+      };
+    }
+    case 'players': {
+      const player = isUpsert ? fromPlayerRow(change.row as StoredPlayer) : null;
+      const players = player ? upsertById(state.players, player) : state.players.filter((p) => p.id !== id);
+      return { ...state, players: updatePriorityStatus(players) };
+    }
+    case 'teams': {
+      // Finished teams are not kept in the state, same as when loading
+      const team = isUpsert ? fromTeamRow(change.row as StoredTeam) : null;
+      const isActive = team && (team.state === 'queued' || team.state === 'playing');
+      const teams = team && isActive ? upsertById(state.teams, team) : state.teams.filter((t) => t.id !== id);
+      return { ...state, teams, courts: assignPlayingTeams(state.courts, teams) };
+    }
+  }
+}
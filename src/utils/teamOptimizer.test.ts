@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { GameType, OptimizerWeights, Player } from '../types';
+import type { StoredPlayer } from '../supabase/functions/_shared/schemas';
+import { fromPlayerRow } from './api/rows';
+import { autoMatch, createPlayerScorer, isValidComposition } from './matching';
+import { DEFAULT_OPTIMIZER_WEIGHTS, evaluateTeams, optimizeTeams, OptimizerProblem, swapRecentTeammates } from './teamOptimizer';
+import recordedPools from './__fixtures__/playerPools.json';
+
+// Waiting pools as the players table holds them mid-session, histories included
+const pools = (recordedPools as unknown as { label: string; players: StoredPlayer[] }[]).map((pool) => ({
+  label: pool.label,
+  players: pool.players.map(fromPlayerRow),
+}));
+
+const WEIGHT_PRESETS: Record<string, OptimizerWeights> = {
+  default: DEFAULT_OPTIMIZER_WEIGHTS,
+  skillOnly: { skillSpread: 5, sideBalance: 5, repeatTeammate: 0, repeatOpponent: 0, waitTime: 0 },
+  repeatsOnly: { skillSpread: 0, sideBalance: 0, repeatTeammate: 5, repeatOpponent: 5, waitTime: 0 },
+  queueOnly: { skillSpread: 0, sideBalance: 0, repeatTeammate: 0, repeatOpponent: 0, waitTime: 10 },
+};
+
+const GAME_TYPES: GameType[] = ['free', 'mixed', 'same_gender', 'avoid_3_1'];
+
+const score = createPlayerScorer();
+
+// The matcher's free-mode starting point: first in line, grouped by skill
+function buildProblem(players: Player[], weights: OptimizerWeights, seed?: number): OptimizerProblem {
+  const numTeams = Math.floor(players.length / 4);
+  const selected = players.slice(0, numTeams * 4).sort((a, b) => score(b) - score(a));
+  const teams = Array.from({ length: numTeams }, (_, idx) => selected.slice(idx * 4, idx * 4 + 4));
+
+  return {
+    teams,
+    bench: players.slice(numTeams * 4, numTeams * 4 + 4),
+    queueOrder: players.map((p) => p.id),
+    weights,
+    scorePlayer: score,
+    isValidTeam: () => true,
+    seed,
+  };
+}
+
+describe('optimizeTeams', () => {
+  for (const pool of pools) {
+    for (const [preset, weights] of Object.entries(WEIGHT_PRESETS)) {
+      it(`never costs more than the greedy swaps (${pool.label}, ${preset} weights)`, () => {
+        for (const seed of [undefined, 1, 2, 3]) {
+          const problem = buildProblem(pool.players, weights, seed);
+          const greedy = swapRecentTeammates(problem.teams);
+          const optimized = optimizeTeams(problem);
+
+          expect(evaluateTeams(optimized, problem).total).toBeLessThanOrEqual(evaluateTeams(greedy, problem).total);
+        }
+      });
+    }
+
+    it(`stays within the greedy cost while avoiding earlier groups (${pool.label})`, () => {
+      const problem = buildProblem(pool.players, DEFAULT_OPTIMIZER_WEIGHTS);
+      const greedy = swapRecentTeammates(problem.teams);
+      const optimized = optimizeTeams({ ...problem, avoidGroups: greedy.map((team) => team.map((p) => p.id)) });
+
+      expect(evaluateTeams(optimized, problem).total).toBeLessThanOrEqual(evaluateTeams(greedy, problem).total);
+    });
+
+    it(`keeps every player at most once (${pool.label})`, () => {
+      const problem = buildProblem(pool.players, DEFAULT_OPTIMIZER_WEIGHTS);
+      const ids = optimizeTeams(problem).flat().map((p) => p.id);
+
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(ids.length).toBe(problem.teams.length * 4);
+    });
+  }
+});
+
+describe('autoMatch game types', () => {
+  for (const pool of pools) {
+    for (const gameType of GAME_TYPES) {
+      for (const [preset, weights] of Object.entries(WEIGHT_PRESETS)) {
+        it(`only makes valid ${gameType} teams (${pool.label}, ${preset} weights)`, () => {
+          const result = autoMatch(pool.players, 4, undefined, { gameType, optimizerWeights: weights });
+          const byId = new Map(pool.players.map((p) => [p.id, p]));
+
+          for (const team of result.teams) {
+            const members = team.playerIds.map((id) => byId.get(id)!);
+            expect(isValidComposition(members, gameType)).toBe(true);
+          }
+        });
+      }
+    }
+  }
+});
@@ -0,0 +1,321 @@
+import { OptimizerWeights, Player } from '../types';
+
+// Default weights of each objective in the team cost (stored in settings as `optimizer_weights`)
+export const DEFAULT_OPTIMIZER_WEIGHTS: OptimizerWeights = {
+  skillSpread: 1,
+  sideBalance: 1,
+  repeatTeammate: 1,
+  repeatOpponent: 0.5,
+  waitTime: 2,
+};
+
+// Read optimizer weights saved in settings, falling back to defaults for missing or invalid values
+export function parseOptimizerWeights(raw: string | null | undefined): OptimizerWeights {
+  if (!raw) return DEFAULT_OPTIMIZER_WEIGHTS;
+
+  try {
+    const parsed = JSON.parse(raw);
+    const weights = { ...DEFAULT_OPTIMIZER_WEIGHTS };
+    (Object.keys(weights) as (keyof OptimizerWeights)[]).forEach((key) => {
+      const value = parsed[key];
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+        weights[key] = value;
+      }
+    });
+    return weights;
+  } catch (error) {
+    console.error('Failed to parse optimizer weights, using defaults:', error);
+    return DEFAULT_OPTIMIZER_WEIGHTS;
+  }
+}
+
+export interface OptimizerProblem {
+  teams: Player[][]; // The balanced teams the matcher would produce on its own
+  bench: Player[]; // Waiting players that may be swapped into a team
+  queueOrder: string[]; // Player ids in waiting order, first in line first
+  weights: OptimizerWeights;
+  scorePlayer: (player: Player) => number;
+  isValidTeam: (team: Player[]) => boolean; // Session game type; moves that break it are never taken
+  seed?: number;
+  avoidGroups?: string[][]; // Player id groups to steer away from, e.g. teams of earlier proposals
+}
+
+export type CostBreakdown = Record<keyof OptimizerWeights, number> & { total: number };
+
+// Smallest skill gap between the two sides over all ways to split a 4-player team
+function bestSideGap(scores: number[]): number {
+  if (scores.length !== 4) return 0;
+
+  const total = scores.reduce((sum, score) => sum + score, 0);
+  // Player 0 is on side A with one of the others; the remaining two form side B
+  return Math.min(
+    ...[1, 2, 3].map((partner) => Math.abs(total - 2 * (scores[0] + scores[partner])))
+  );
+}
+
+// Build the weighted cost function for a problem; lower is better
+function createCostFunction(problem: OptimizerProblem): (teams: Player[][]) => CostBreakdown {
+  const { weights, scorePlayer, queueOrder } = problem;
+  const queueIndex = new Map(queueOrder.map((id, idx) => [id, idx]));
+
+  return (teams) => {
+    const raw = {
+      skillSpread: 0,
+      sideBalance: 0,
+      repeatTeammate: 0,
+      repeatOpponent: 0,
+      waitTime: 0,
+    };
+
+    for (const team of teams) {
+      const scores = team.map(scorePlayer);
+      raw.skillSpread += Math.max(...scores) - Math.min(...scores);
+      raw.sideBalance += bestSideGap(scores);
+
+      for (let i = 0; i < team.length; i++) {
+        for (let j = i + 1; j < team.length; j++) {
+          raw.repeatTeammate += team[i].teammateHistory?.[team[j].id] || 0;
+          raw.repeatOpponent += team[i].opponentHistory?.[team[j].id] || 0;
+        }
+      }
+    }
+
+    // Waiting positions skipped over: 0 when the first N players in line are the ones selected
+    const selected = teams.flat();
+    const selectedIndexSum = selected.reduce((sum, p) => sum + (queueIndex.get(p.id) ?? queueOrder.length), 0);
+    raw.waitTime = selectedIndexSum - (selected.length * (selected.length - 1)) / 2;
+
+    const total = (Object.keys(raw) as (keyof OptimizerWeights)[])
+      .reduce((sum, key) => sum + raw[key] * weights[key], 0);
+
+    return { ...raw, total };
+  };
+}
+
+// Weight of each pair that is kept together again from one of the avoided groups
+const AVOID_GROUP_PENALTY = 1;
+
+// Extra search cost for repeating avoided groupings. Not part of the reported breakdown.
+function createAvoidPenalty(groups: string[][] = []): (teams: Player[][]) => number {
+  const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+  const avoidedPairs = new Set<string>();
+  for (const group of groups) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        avoidedPairs.add(pairKey(group[i], group[j]));
+      }
+    }
+  }
+
+  return (teams) => {
+    if (avoidedPairs.size === 0) return 0;
+
+    let pairs = 0;
+    for (const team of teams) {
+      for (let i = 0; i < team.length; i++) {
+        for (let j = i + 1; j < team.length; j++) {
+          if (avoidedPairs.has(pairKey(team[i].id, team[j].id))) pairs++;
+        }
+      }
+    }
+    return pairs * AVOID_GROUP_PENALTY;
+  };
+}
+
+// Weighted cost of a set of teams; lower is better
+export function evaluateTeams(teams: Player[][], problem: OptimizerProblem): CostBreakdown {
+  return createCostFunction(problem)(teams);
+}
+
+// Stable seed from the candidate ids so the same pool always gives the same result
+export function seedFromIds(ids: string[]): number {
+  let hash = 2166136261;
+  for (const char of ids.join('|')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Small seeded PRNG (mulberry32)
+function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface OptimizerState {
+  teams: Player[][];
+  bench: Player[];
+}
+
+const cloneState = (state: OptimizerState): OptimizerState => ({
+  teams: state.teams.map((team) => [...team]),
+  bench: [...state.bench],
+});
+
+const RESTARTS = 4;
+const ITERATIONS_PER_RESTART = 1500;
+const START_TEMPERATURE = 2;
+const END_TEMPERATURE = 0.01;
+const BENCH_MOVE_CHANCE = 0.3;
+
+// Pairs in a team that have played together before
+function countTeamOverlap(team: Player[]): number {
+  let count = 0;
+  for (let i = 0; i < team.length; i++) {
+    const player = team[i];
+    if (!player.teammateHistory) continue;
+
+    for (let j = i + 1; j < team.length; j++) {
+      if (player.teammateHistory[team[j].id]) {
+        count++;
+      }
+    }
+  }
+  return count;
+}
+
+// The matcher's original pass: swap players between teams to reduce recent teammate overlap.
+// Swaps that would break the session game type are skipped. The annealer starts from its result.
+export function swapRecentTeammates(teams: Player[][], isValidTeam: (team: Player[]) => boolean = () => true): Player[][] {
+  const optimized = teams.map(t => [...t]);
+  const maxAttempts = 20;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    let madeSwap = false;
+
+    for (let i = 0; i < optimized.length; i++) {
+      const team = optimized[i];
+      const currentOverlap = countTeamOverlap(team);
+
+      if (currentOverlap <= 2) continue; // Good enough
+
+      for (let j = i + 1; j < optimized.length; j++) {
+        const otherTeam = optimized[j];
+
+        for (let pi = 0; pi < team.length; pi++) {
+          for (let pj = 0; pj < otherTeam.length; pj++) {
+            const temp = team[pi];
+            team[pi] = otherTeam[pj];
+            otherTeam[pj] = temp;
+
+            const newOverlap1 = countTeamOverlap(team);
+            const newOverlap2 = countTeamOverlap(otherTeam);
+
+            if (newOverlap1 + newOverlap2 < currentOverlap + countTeamOverlap(otherTeam) && isValidTeam(team) && isValidTeam(otherTeam)) {
+              madeSwap = true;
+            } else {
+              otherTeam[pj] = team[pi];
+              team[pi] = temp;
+            }
+          }
+        }
+      }
+    }
+
+    if (!madeSwap) break; // No more improvements possible
+  }
+
+  return optimized;
+}
+
+interface Move {
+  undo: () => void;
+  teams: number[]; // Indexes of the teams the move changed
+}
+
+// Swap two players between teams, or a team player with a bench player.
+// Returns null if no move is possible.
+function randomMove(state: OptimizerState, rng: () => number): Move | null {
+  const { teams, bench } = state;
+  const pick = (length: number) => Math.floor(rng() * length);
+  const useBench = bench.length > 0 && (teams.length < 2 || rng() < BENCH_MOVE_CHANCE);
+
+  if (useBench) {
+    const t = pick(teams.length);
+    const i = pick(teams[t].length);
+    const b = pick(bench.length);
+    [teams[t][i], bench[b]] = [bench[b], teams[t][i]];
+    return {
+      undo: () => {
+        [teams[t][i], bench[b]] = [bench[b], teams[t][i]];
+      },
+      teams: [t],
+    };
+  }
+
+  if (teams.length < 2) return null;
+
+  const t1 = pick(teams.length);
+  let t2 = pick(teams.length - 1);
+  if (t2 >= t1) t2++;
+  const i = pick(teams[t1].length);
+  const j = pick(teams[t2].length);
+  [teams[t1][i], teams[t2][j]] = [teams[t2][j], teams[t1][i]];
+  return {
+    undo: () => {
+      [teams[t1][i], teams[t2][j]] = [teams[t2][j], teams[t1][i]];
+    },
+    teams: [t1, t2],
+  };
+}
+
+// Simulated annealing with restarts over the weighted team cost, starting from the greedy
+// teammate swaps. Moves that break the game type are rejected outright, and only teams that
+// cost the same or less than the greedy result are returned. The avoid-group penalty steers
+// the search but is not part of that comparison.
+export function optimizeTeams(problem: OptimizerProblem): Player[][] {
+  const start: OptimizerState = {
+    teams: swapRecentTeammates(problem.teams, problem.isValidTeam),
+    bench: [...problem.bench],
+  };
+  if (start.teams.length === 0 || (start.teams.length < 2 && start.bench.length === 0)) {
+    return start.teams;
+  }
+
+  const rng = createRng(problem.seed ?? seedFromIds(problem.queueOrder));
+  const evaluate = createCostFunction(problem);
+  const avoidPenalty = createAvoidPenalty(problem.avoidGroups);
+  const startTotal = evaluate(start.teams).total;
+
+  let best = cloneState(start);
+  let bestCost = startTotal + avoidPenalty(best.teams);
+
+  for (let restart = 0; restart < RESTARTS; restart++) {
+    // First run starts from the greedy teams, later runs from the best found so far
+    const current = cloneState(restart === 0 ? start : best);
+    let currentCost = evaluate(current.teams).total + avoidPenalty(current.teams);
+
+    for (let iteration = 0; iteration < ITERATIONS_PER_RESTART; iteration++) {
+      const temperature = START_TEMPERATURE * Math.pow(END_TEMPERATURE / START_TEMPERATURE, iteration / ITERATIONS_PER_RESTART);
+      const move = randomMove(current, rng);
+      if (!move) break;
+
+      if (!move.teams.every((t) => problem.isValidTeam(current.teams[t]))) {
+        move.undo();
+        continue;
+      }
+
+      const total = evaluate(current.teams).total;
+      const newCost = total + avoidPenalty(current.teams);
+      const delta = newCost - currentCost;
+      if (delta <= 0 || rng() < Math.exp(-delta / temperature)) {
+        currentCost = newCost;
+        if (currentCost < bestCost && total <= startTotal) {
+          bestCost = currentCost;
+          best = cloneState(current);
+        }
+      } else {
+        move.undo();
+      }
+    }
+  }
+
+  return best.teams;
+}
@@ -0,0 +1,172 @@
+import { AppState, Court, GameRecord, Member, Player, Team } from '../types';
+
+// Undo history keeps this many actions; older ones are dropped
+export const UNDO_LIMIT = 30;
+
+// Rows of the app state that undoable game mutations touch; an undo entry holds only the rows its
+// action changed
+export interface GameSnapshot {
+  players: Player[];
+  teams: Team[];
+  courts: Court[];
+  games: GameRecord[];
+  members: Member[];
+}
+
+export interface UndoEntry {
+  id: string;
+  label: string; // Shown in the undo/redo buttons, e.g. '경기 종료'
+  before: GameSnapshot;
+  after: GameSnapshot | null; // Filled in once the mutation's state updates have rendered
+}
+
+// The rows one action changed while it runs: each as it was before the action's first update to it
+// and after the last one. Updates from other devices are not recorded, so undo never reverts them.
+export interface UndoRecording {
+  before: GameSnapshot;
+  after: GameSnapshot;
+  touched: Record<keyof GameSnapshot, Set<string>>;
+}
+
+// Entities to write back and ids to remove, per collection
+export interface CollectionChanges<T> {
+  upserted: T[];
+  removedIds: string[];
+}
+
+export interface SnapshotChanges {
+  players: CollectionChanges<Player>;
+  teams: CollectionChanges<Team>;
+  courts: CollectionChanges<Court>;
+  games: CollectionChanges<GameRecord>;
+  members: CollectionChanges<Member>;
+}
+
+type Row = { id: string };
+
+// Not content, so never compared, recorded or restored: row versions are the database's bookkeeping,
+// and a court's timer keeps running by itself (every second while a game is on)
+const UNTRACKED_FIELDS: Record<keyof GameSnapshot, readonly string[]> = {
+  players: ['version'],
+  teams: ['version'],
+  courts: ['timerMs', 'isPaused'],
+  games: [],
+  members: ['version'],
+};
+
+function contentOf(item: Row, untracked: readonly string[]): string {
+  return JSON.stringify({ ...item, ...Object.fromEntries(untracked.map((field) => [field, undefined])) });
+}
+
+function diffCollection<T extends Row>(from: T[], to: T[], untracked: readonly string[]): CollectionChanges<T> {
+  const fromById = new Map(from.map((item) => [item.id, item]));
+  const toIds = new Set(to.map((item) => item.id));
+
+  // Compared by content: mutations rebuild objects even when nothing about them changed
+  const upserted = to.filter((item) => {
+    const previous = fromById.get(item.id);
+    return !previous || contentOf(previous, untracked) !== contentOf(item, untracked);
+  });
+  const removedIds = from.filter((item) => !toIds.has(item.id)).map((item) => item.id);
+
+  return { upserted, removedIds };
+}
+
+// What has to change to get from one snapshot to another
+export function diffSnapshots(from: GameSnapshot, to: GameSnapshot): SnapshotChanges {
+  return {
+    players: diffCollection(from.players, to.players, UNTRACKED_FIELDS.players),
+    teams: diffCollection(from.teams, to.teams, UNTRACKED_FIELDS.teams),
+    courts: diffCollection(from.courts, to.courts, UNTRACKED_FIELDS.courts),
+    games: diffCollection(from.games, to.games, UNTRACKED_FIELDS.games),
+    members: diffCollection(from.members, to.members, UNTRACKED_FIELDS.members),
+  };
+}
+
+export function createUndoRecording(): UndoRecording {
+  return {
+    before: { players: [], teams: [], courts: [], games: [], members: [] },
+    after: { players: [], teams: [], courts: [], games: [], members: [] },
+    touched: { players: new Set(), teams: new Set(), courts: new Set(), games: new Set(), members: new Set() },
+  };
+}
+
+function recordCollection<T extends Row>(
+  recorded: { before: T[]; after: T[] },
+  touched: Set<string>,
+  prev: T[],
+  next: T[],
+  untracked: readonly string[]
+): { before: T[]; after: T[] } {
+  if (prev === next) return recorded;
+  const { upserted, removedIds } = diffCollection(prev, next, untracked);
+  const changedIds = [...upserted.map((item) => item.id), ...removedIds];
+  if (changedIds.length === 0) return recorded;
+
+  const prevById = new Map(prev.map((item) => [item.id, item]));
+  const nextById = new Map(next.map((item) => [item.id, item]));
+  const changed = new Set(changedIds);
+  const firstChanged = changedIds.filter((id) => !touched.has(id));
+  firstChanged.forEach((id) => touched.add(id));
+
+  return {
+    before: [...recorded.before, ...firstChanged.flatMap((id) => prevById.get(id) ?? [])],
+    after: [...recorded.after.filter((item) => !changed.has(item.id)), ...changedIds.flatMap((id) => nextById.get(id) ?? [])],
+  };
+}
+
+// Add the rows one state update changed to a recording. Safe to call twice for the same update.
+export function recordChanges(recording: UndoRecording, prev: AppState, next: AppState): void {
+  const record = <K extends keyof GameSnapshot>(key: K) => {
+    const recorded = recordCollection<GameSnapshot[K][number]>(
+      { before: recording.before[key], after: recording.after[key] },
+      recording.touched[key],
+      prev[key],
+      next[key],
+      UNTRACKED_FIELDS[key]
+    );
+    recording.before = { ...recording.before, [key]: recorded.before };
+    recording.after = { ...recording.after, [key]: recorded.after };
+  };
+  record('players');
+  record('teams');
+  record('courts');
+  record('games');
+  record('members');
+}
+
+export function hasChanges(changes: SnapshotChanges): boolean {
+  return Object.values(changes).some(
+    (collection: CollectionChanges<unknown>) => collection.upserted.length > 0 || collection.removedIds.length > 0
+  );
+}
+
+function applyCollection<T extends Row>(current: T[], changes: CollectionChanges<T>, untracked: readonly string[]): T[] {
+  const upsertedById = new Map(changes.upserted.map((item) => [item.id, item]));
+  const removed = new Set(changes.removedIds);
+
+  const updated = current
+    .filter((item) => !removed.has(item.id))
+    .map((item) => {
+      const upserted = upsertedById.get(item.id);
+      if (!upserted) return item;
+      const kept = Object.fromEntries(untracked.map((field) => [field, item[field as keyof T]]));
+      return { ...upserted, ...kept };
+    });
+  const currentIds = new Set(current.map((item) => item.id));
+  const added = changes.upserted.filter((item) => !currentIds.has(item.id));
+
+  return [...updated, ...added];
+}
+
+// Apply only the changed entities, so unrelated edits made since the snapshot are kept
+export function applySnapshotChanges(state: AppState, changes: SnapshotChanges): AppState {
+  return {
+    ...state,
+    players: applyCollection(state.players, changes.players, UNTRACKED_FIELDS.players),
+    teams: applyCollection(state.teams, changes.teams, UNTRACKED_FIELDS.teams),
+    courts: applyCollection(state.courts, changes.courts, UNTRACKED_FIELDS.courts),
+    games: applyCollection(state.games, changes.games, UNTRACKED_FIELDS.games),
+    members: applyCollection(state.members, changes.members, UNTRACKED_FIELDS.members),
+  };
+}
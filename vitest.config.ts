@@ -0,0 +1,13 @@
+import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+// The server (src/supabase/functions) imports the Deno way; under vitest those specifiers resolve to the
+// installed packages. Its tests import server/test_env.tsx for the Deno globals it reads.
+export default mergeConfig(viteConfig, defineConfig({
+  resolve: {
+    alias: [
+      { find: /^npm:(.*)$/, replacement: '$1' },
+      { find: /^jsr:@supabase\/supabase-js@.*$/, replacement: '@supabase/supabase-js' },
+    ],
+  },
+}));